@@ -0,0 +1,36 @@
+/**
+ * Jest configuration for the unit tests in tests/unit. ts-jest compiles them to CommonJS and
+ * type-checks each file it loads. The integration, performance and security suites need a
+ * database and tests/setup.ts, so they aren't run here.
+ *
+ * The external API clients, the content aggregator and the base repository predate strict mode
+ * and still fail `tsc`; their diagnostics are left to the type-check until they are cleaned up.
+ */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests/unit'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    '^.+\\.ts$': [
+      'ts-jest',
+      {
+        tsconfig: {
+          module: 'commonjs',
+          isolatedModules: false,
+          noEmitOnError: false,
+        },
+        diagnostics: {
+          exclude: [
+            '**/src/services/external/**',
+            '**/src/services/transformation/**',
+            '**/src/services/base/repository.ts',
+          ],
+        },
+      },
+    ],
+  },
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+  },
+};
@@ -49,13 +49,17 @@ async function runMigrations(config: MigrationConfig) {
       await applyRLSPolicies();
     }
 
-    // Step 5: Run database seeding
+    // Step 5: Apply full-text search indexes
+    console.log('🔎 Applying full-text search indexes...');
+    await applySearchIndexes();
+
+    // Step 6: Run database seeding
     if (config.runSeed && config.environment !== 'production') {
       console.log('🌱 Running database seed...');
       execSync('npx tsx src/scripts/seed.ts', { stdio: 'inherit' });
     }
 
-    // Step 6: Verify database connection and basic functionality
+    // Step 7: Verify database connection and basic functionality
     console.log('✅ Verifying database setup...');
     await verifyDatabase();
 
@@ -108,6 +112,35 @@ async function applyRLSPolicies() {
   }
 }
 
+async function applySearchIndexes() {
+  const searchIndexesPath = join(process.cwd(), 'prisma', 'search-indexes.sql');
+
+  if (!existsSync(searchIndexesPath)) {
+    console.warn('⚠️ Search indexes file not found, skipping...');
+    return;
+  }
+
+  try {
+    // Drop comment lines first so statements preceded by a comment are not skipped
+    const statements = readFileSync(searchIndexesPath, 'utf-8')
+      .split('\n')
+      .filter(line => !line.trim().startsWith('--'))
+      .join('\n')
+      .split(';')
+      .map(statement => statement.trim())
+      .filter(statement => statement.length > 0);
+
+    for (const statement of statements) {
+      await prisma.$executeRawUnsafe(statement + ';');
+    }
+
+    console.log('✅ Search indexes applied successfully');
+  } catch (error) {
+    console.error('❌ Failed to apply search indexes:', error);
+    throw error;
+  }
+}
+
 async function verifyDatabase() {
   try {
     // Test basic connection
@@ -186,6 +219,11 @@ async function main() {
       await applyRLSPolicies();
       break;
 
+    case 'search':
+      console.log('🔎 Applying full-text search indexes only...');
+      await applySearchIndexes();
+      break;
+
     case 'verify':
       console.log('✅ Verifying database...');
       await verifyDatabase();
@@ -200,6 +238,7 @@ Usage:
   npm run migrate reset                 - Reset and reseed database (development only)
   npm run migrate create <name>         - Create a new migration
   npm run migrate rls                   - Apply RLS policies only
+  npm run migrate search                - Apply full-text search indexes only
   npm run migrate verify                - Verify database connection and structure
 
 Examples:
@@ -227,4 +266,4 @@ if (require.main === module) {
   main().catch(console.error);
 }
 
-export { runMigrations, createMigration, applyRLSPolicies, verifyDatabase };
\ No newline at end of file
+export { runMigrations, createMigration, applyRLSPolicies, applySearchIndexes, verifyDatabase };
\ No newline at end of file
@@ -7,9 +7,23 @@ ALTER TABLE user_content ENABLE ROW LEVEL SECURITY;
 ALTER TABLE episode_progress ENABLE ROW LEVEL SECURITY;
 ALTER TABLE custom_lists ENABLE ROW LEVEL SECURITY;
 ALTER TABLE list_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE list_collaborators ENABLE ROW LEVEL SECURITY;
+ALTER TABLE list_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE history_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE history_import_rows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE data_exports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE library_undo_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_stats_months ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE review_votes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE friendships ENABLE ROW LEVEL SECURITY;
 ALTER TABLE social_activities ENABLE ROW LEVEL SECURITY;
 ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE push_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_delivery_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE follows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE follow_alerts ENABLE ROW LEVEL SECURITY;
 ALTER TABLE challenge_participants ENABLE ROW LEVEL SECURITY;
 ALTER TABLE challenge_progress ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_achievements ENABLE ROW LEVEL SECURITY;
@@ -97,6 +111,101 @@ CREATE POLICY "Users can view friends list items" ON list_items
     )
   );
 
+CREATE POLICY "Editors can manage collaborative list items" ON list_items
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM list_collaborators lc
+      WHERE lc.list_id = list_items.list_id AND lc.status = 'accepted'
+      AND auth.uid()::text = lc.user_id::text
+    )
+  );
+
+-- List Collaborators: Owners manage invites; invitees see and decline their own, and the
+-- server accepts them
+CREATE POLICY "Owners can manage list collaborators" ON list_collaborators
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM custom_lists cl
+      WHERE cl.id = list_id AND auth.uid()::text = cl.user_id::text
+    )
+  );
+
+CREATE POLICY "Users can view own list invites" ON list_collaborators
+  FOR SELECT USING (auth.uid()::text = user_id::text);
+
+CREATE POLICY "Users can decline own list invites" ON list_collaborators
+  FOR DELETE USING (auth.uid()::text = user_id::text);
+
+-- List History: Only the list owner can view the change log
+CREATE POLICY "Owners can view list history" ON list_history
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM custom_lists cl
+      WHERE cl.id = list_id AND auth.uid()::text = cl.user_id::text
+    )
+  );
+
+-- History Imports: Users can only access their own imports and rows
+CREATE POLICY "Users can manage own history imports" ON history_imports
+  FOR ALL USING (auth.uid()::text = user_id::text);
+
+CREATE POLICY "Users can manage own history import rows" ON history_import_rows
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM history_imports hi
+      WHERE hi.id = import_id AND auth.uid()::text = hi.user_id::text
+    )
+  );
+
+-- Data Exports: Users can see their own exports; the server creates and updates them
+CREATE POLICY "Users can view own data exports" ON data_exports
+  FOR SELECT USING (auth.uid()::text = user_id::text);
+
+-- Library Undo Tokens: Users can see their own; the server creates and applies them
+CREATE POLICY "Users can view own library undo tokens" ON library_undo_tokens
+  FOR SELECT USING (auth.uid()::text = user_id::text);
+
+-- User stats months: Written by the server, readable by their owner
+CREATE POLICY "Users can view own stats" ON user_stats_months
+  FOR SELECT USING (auth.uid()::text = user_id::text);
+
+-- Reviews: Authors manage their own; others see visible public and friends reviews.
+-- Moderation and the helpful count are server-only, so authors can't clear a hide or set
+-- their own count (see the column grants below).
+CREATE POLICY "Users can view own reviews" ON reviews
+  FOR SELECT USING (auth.uid()::text = user_id::text);
+
+CREATE POLICY "Users can create own reviews" ON reviews
+  FOR INSERT WITH CHECK (
+    auth.uid()::text = user_id::text AND helpful_count = 0
+    AND hidden_at IS NULL AND hidden_by IS NULL AND hidden_reason IS NULL
+  );
+
+CREATE POLICY "Users can edit own reviews" ON reviews
+  FOR UPDATE USING (auth.uid()::text = user_id::text)
+  WITH CHECK (auth.uid()::text = user_id::text);
+
+CREATE POLICY "Users can delete own reviews" ON reviews
+  FOR DELETE USING (auth.uid()::text = user_id::text);
+
+CREATE POLICY "Users can view public reviews" ON reviews
+  FOR SELECT USING (visibility = 'public' AND hidden_at IS NULL);
+
+CREATE POLICY "Users can view friends reviews" ON reviews
+  FOR SELECT USING (
+    visibility = 'friends' AND hidden_at IS NULL AND EXISTS (
+      SELECT 1 FROM friendships f
+      WHERE (
+        (f.requester_id::text = auth.uid()::text AND f.addressee_id::text = user_id::text) OR
+        (f.addressee_id::text = auth.uid()::text AND f.requester_id::text = user_id::text)
+      ) AND f.status = 'accepted'
+    )
+  );
+
+-- Review Votes: Users can manage their own helpful votes
+CREATE POLICY "Users can manage own review votes" ON review_votes
+  FOR ALL USING (auth.uid()::text = user_id::text);
+
 -- Friendships: Users can manage their own friendship requests
 CREATE POLICY "Users can manage own friendships" ON friendships
   FOR ALL USING (
@@ -127,6 +236,30 @@ CREATE POLICY "Users can view friends activities" ON social_activities
 CREATE POLICY "Users can manage own notifications" ON notifications
   FOR ALL USING (auth.uid()::text = user_id::text);
 
+-- Push Tokens: Users can manage the devices registered to them
+CREATE POLICY "Users can manage own push tokens" ON push_tokens
+  FOR ALL USING (auth.uid()::text = user_id::text);
+
+-- Notification Deliveries: Written by the dispatcher; users can see how theirs went
+CREATE POLICY "Users can view own notification deliveries" ON notification_deliveries
+  FOR SELECT USING (auth.uid()::text = user_id::text);
+
+CREATE POLICY "Users can view own notification delivery attempts" ON notification_delivery_attempts
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM notification_deliveries nd
+      WHERE nd.id = delivery_id AND auth.uid()::text = nd.user_id::text
+    )
+  );
+
+-- Follows: Users can manage the cases, people and series they follow
+CREATE POLICY "Users can manage own follows" ON follows
+  FOR ALL USING (auth.uid()::text = user_id::text);
+
+-- Follow Alerts: Queued by content sync; users can see their own
+CREATE POLICY "Users can view own follow alerts" ON follow_alerts
+  FOR SELECT USING (auth.uid()::text = user_id::text);
+
 -- Challenge Participants: Users can manage their own participation
 CREATE POLICY "Users can manage own challenge participation" ON challenge_participants
   FOR ALL USING (auth.uid()::text = user_id::text);
@@ -188,6 +321,7 @@ CREATE INDEX IF NOT EXISTS idx_user_content_user_id ON user_content(user_id);
 CREATE INDEX IF NOT EXISTS idx_episode_progress_user_id ON episode_progress(user_id);
 CREATE INDEX IF NOT EXISTS idx_custom_lists_user_id ON custom_lists(user_id);
 CREATE INDEX IF NOT EXISTS idx_custom_lists_privacy ON custom_lists(privacy);
+CREATE INDEX IF NOT EXISTS idx_list_collaborators_user_id ON list_collaborators(user_id);
 CREATE INDEX IF NOT EXISTS idx_friendships_requester_id ON friendships(requester_id);
 CREATE INDEX IF NOT EXISTS idx_friendships_addressee_id ON friendships(addressee_id);
 CREATE INDEX IF NOT EXISTS idx_friendships_status ON friendships(status);
@@ -229,6 +363,11 @@ REVOKE ALL ON ALL TABLES IN SCHEMA public FROM anon;
 GRANT SELECT ON content TO anon; -- Allow anonymous users to browse content
 GRANT SELECT ON content_cases TO anon; -- Allow anonymous users to browse cases
 GRANT SELECT ON challenges TO anon; -- Allow anonymous users to see challenges
+GRANT SELECT ON content_trending_scores TO anon; -- Allow anonymous users to see what's trending
+
+-- Review authors can only edit what they wrote; moderation and vote counts are server-only
+REVOKE UPDATE ON reviews FROM authenticated;
+GRANT UPDATE (rating, body, has_spoilers, visibility, updated_at, edited_at) ON reviews TO authenticated;
 
 -- Comments for documentation
 COMMENT ON POLICY "Users can view own profile" ON user_profiles IS 'Users can only view their own profile data';
@@ -0,0 +1,23 @@
+-- TCWatch Full-Text Search Indexes
+-- Postgres fallback for content search when Meilisearch is unavailable.
+-- content.search_vector holds the searchable text (title, description, tags and
+-- linked case names) and is maintained by ContentRepository on every write.
+
+-- GIN index over the english tsvector; the expression must match PostgresSearchService
+CREATE INDEX IF NOT EXISTS content_search_vector_gin_idx
+  ON content USING GIN (to_tsvector('english', coalesce(search_vector, '')));
+
+-- Backfill rows written before search vectors were maintained
+UPDATE content AS c SET search_vector = concat_ws(' ',
+    c.title,
+    c.description,
+    array_to_string(c.genre_tags, ' '),
+    array_to_string(c.case_tags, ' '),
+    (
+      SELECT string_agg(concat_ws(' ', cc.case_name, array_to_string(cc.perpetrators, ' ')), ' ')
+      FROM content_case_links ccl
+      JOIN content_cases cc ON cc.id = ccl.case_id
+      WHERE ccl.content_id = c.id
+    )
+  )
+WHERE c.search_vector IS NULL OR c.search_vector = '';
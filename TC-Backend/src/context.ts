@@ -44,10 +44,12 @@ async function extractUser(authorization?: string): Promise<AuthUser | null> {
       return null;
     }
 
+    // The role comes from app_metadata, which only the service role can change; users can
+    // edit their own user_metadata
     return {
       id: user.id,
       email: user.email!,
-      role: user.user_metadata?.role || 'user',
+      role: user.app_metadata?.role ?? 'user',
     };
   } catch (error) {
     console.error('Error extracting user from token:', error);
@@ -71,7 +71,7 @@ export class JWTMiddleware {
       req.user = {
         id: user.id,
         email: user.email!,
-        role: user.user_metadata?.role || 'user',
+        role: user.app_metadata?.role ?? 'user',
       };
 
     } catch (error) {
@@ -0,0 +1,53 @@
+// Account Router - Personal data exports
+import { z } from 'zod';
+import { router, protectedProcedure } from '../trpc';
+import { DataExportService } from '../services/account/data-export.service';
+
+// Import prisma from context
+import { prisma } from '../context';
+
+// Initialize services
+const dataExportService = new DataExportService(prisma);
+
+export const accountRouter = router({
+  /**
+   * Start building a zip of everything stored for your account
+   */
+  exportData: protectedProcedure.mutation(async ({ ctx }) => {
+    const dataExport = await dataExportService.requestExport(ctx.user.id);
+
+    dataExportService.runInBackground(dataExport.id);
+
+    return {
+      success: true,
+      data: dataExport,
+      message: "We're preparing your export. You'll get a notification when it's ready.",
+    };
+  }),
+
+  /**
+   * Get an export's status and a download link once it is ready
+   */
+  getExport: protectedProcedure
+    .input(z.object({ exportId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const dataExport = await dataExportService.getExport(ctx.user.id, input.exportId);
+
+      return {
+        success: true,
+        data: dataExport,
+      };
+    }),
+
+  /**
+   * Get your recent exports
+   */
+  listExports: protectedProcedure.query(async ({ ctx }) => {
+    const exports = await dataExportService.listExports(ctx.user.id);
+
+    return {
+      success: true,
+      data: exports,
+    };
+  }),
+});
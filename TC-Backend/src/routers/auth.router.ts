@@ -162,7 +162,7 @@ export const authRouter = router({
         const sessionId = await sessionService.createSession(
           result.user.id,
           result.user.email!,
-          result.user.user_metadata?.role || 'user',
+          result.user.app_metadata?.role ?? 'user',
           result.session.refresh_token,
           {
             ipAddress: ctx.req.ip,
@@ -0,0 +1,148 @@
+// Cases Router - Case-based discovery of criminal cases and their content
+import { z } from 'zod';
+import { router, publicProcedure, adminProcedure } from '../trpc';
+import { CaseService } from '../services/content/case.service';
+import { CaseSyncService } from '../services/content/case-sync.service';
+import { WikidataApiClient } from '../services/external/wikidata-client';
+
+// Import prisma from context
+import { prisma } from '../context';
+
+// Initialize services
+const caseService = new CaseService(prisma);
+const caseSyncService = new CaseSyncService(prisma, new WikidataApiClient());
+
+export const casesRouter = router({
+  /**
+   * Browse criminal cases
+   */
+  list: publicProcedure
+    .input(
+      z.object({
+        query: z.string().min(1).optional(),
+        status: z.enum(['SOLVED', 'UNSOLVED', 'COLD']).optional(),
+        timePeriod: z.string().min(1).max(50).optional(),
+        location: z.string().min(1).max(100).optional(),
+        perpetrator: z.string().min(1).max(100).optional(),
+        sort: z.enum(['name', 'popular', 'recent']).default('name'),
+        page: z.number().min(1).default(1),
+        limit: z.number().min(1).max(100).default(20),
+      })
+    )
+    .query(async ({ input }) => {
+      const { page, limit } = input;
+      const { cases, total } = await caseService.listCases(input);
+
+      return {
+        success: true,
+        data: cases,
+        pagination: {
+          page,
+          limit,
+          total,
+          hasMore: (page - 1) * limit + cases.length < total,
+        },
+      };
+    }),
+
+  /**
+   * Get a case by its slug
+   */
+  getBySlug: publicProcedure
+    .input(z.object({ slug: z.string().min(1) }))
+    .query(async ({ input }) => {
+      const contentCase = await caseService.getBySlug(input.slug);
+
+      return {
+        success: true,
+        data: contentCase,
+      };
+    }),
+
+  /**
+   * Get all content about a case, grouped by content type
+   */
+  content: publicProcedure
+    .input(z.object({ slug: z.string().min(1) }))
+    .query(async ({ ctx, input }) => {
+      const result = await caseService.getCaseContent(input.slug, ctx.user?.id);
+
+      return {
+        success: true,
+        data: result,
+      };
+    }),
+
+  /**
+   * Get cases similar to this one by shared perpetrators and locations
+   */
+  similar: publicProcedure
+    .input(
+      z.object({
+        slug: z.string().min(1),
+        limit: z.number().min(1).max(50).default(10),
+      })
+    )
+    .query(async ({ input }) => {
+      const similar = await caseService.getSimilarCases(input.slug, input.limit);
+
+      return {
+        success: true,
+        data: similar,
+      };
+    }),
+
+  /**
+   * Low-confidence content/case matches awaiting review (admin only)
+   */
+  reviewQueue: adminProcedure
+    .input(
+      z.object({
+        page: z.number().min(1).default(1),
+        limit: z.number().min(1).max(100).default(50),
+      })
+    )
+    .query(async ({ input }) => {
+      const { page, limit } = input;
+      const { reviews, total } = await caseSyncService.listPendingReviews(input);
+
+      return {
+        success: true,
+        data: reviews,
+        pagination: {
+          page,
+          limit,
+          total,
+          hasMore: (page - 1) * limit + reviews.length < total,
+        },
+      };
+    }),
+
+  /**
+   * Approve a queued match and link the content to the case (admin only)
+   */
+  approveLink: adminProcedure
+    .input(z.object({ reviewId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await caseSyncService.approveReview(input.reviewId, ctx.user.id);
+
+      return {
+        success: true,
+        message: 'Case link approved',
+      };
+    }),
+
+  /**
+   * Reject a queued match (admin only)
+   */
+  rejectLink: adminProcedure
+    .input(z.object({ reviewId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await caseSyncService.rejectReview(input.reviewId, ctx.user.id);
+
+      return {
+        success: true,
+        message: 'Case link rejected',
+      };
+    }),
+});
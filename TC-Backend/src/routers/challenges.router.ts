@@ -0,0 +1,194 @@
+// Challenges Router - Community challenges, participation and leaderboards
+import { z } from 'zod';
+import { router, publicProcedure, protectedProcedure, adminProcedure } from '../trpc';
+import { ChallengeService } from '../services/social/challenge.service';
+
+// Import prisma from context
+import { prisma } from '../context';
+
+// Initialize services
+const challengeService = new ChallengeService(prisma);
+
+const ChallengeTypeSchema = z.enum([
+  'VIEWING_CHALLENGE',
+  'RESEARCH_PROJECT',
+  'CONTENT_MARATHON',
+  'CASE_DEEP_DIVE',
+  'SEASONAL_EVENT',
+]);
+
+const ChallengeContentSchema = z.object({
+  contentId: z.string().uuid(),
+  isRequired: z.boolean().optional(),
+  points: z.number().int().min(0).optional(),
+});
+
+export const challengesRouter = router({
+  /**
+   * List upcoming, active or past challenges
+   */
+  list: publicProcedure
+    .input(
+      z.object({
+        phase: z.enum(['upcoming', 'active', 'past']).default('active'),
+        challengeType: ChallengeTypeSchema.optional(),
+        page: z.number().min(1).default(1),
+        limit: z.number().min(1).max(50).default(20),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { page, limit } = input;
+      const { challenges, total } = await challengeService.listChallenges(ctx.user?.id, input);
+
+      return {
+        success: true,
+        data: challenges,
+        pagination: {
+          page,
+          limit,
+          total,
+          hasMore: (page - 1) * limit + challenges.length < total,
+        },
+      };
+    }),
+
+  /**
+   * Get challenge detail with required and optional content
+   */
+  getById: publicProcedure
+    .input(z.object({ challengeId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const challenge = await challengeService.getChallenge(input.challengeId, ctx.user?.id);
+
+      return {
+        success: true,
+        data: challenge,
+      };
+    }),
+
+  /**
+   * Join a challenge
+   */
+  join: protectedProcedure
+    .input(z.object({ challengeId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const participant = await challengeService.join(ctx.user.id, input.challengeId);
+
+      return {
+        success: true,
+        data: participant,
+        message: 'Joined challenge',
+      };
+    }),
+
+  /**
+   * Withdraw from a challenge
+   */
+  withdraw: protectedProcedure
+    .input(z.object({ challengeId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await challengeService.withdraw(ctx.user.id, input.challengeId);
+
+      return {
+        success: true,
+        message: 'Withdrawn from challenge',
+      };
+    }),
+
+  /**
+   * Get a challenge leaderboard ordered by total points
+   */
+  leaderboard: publicProcedure
+    .input(
+      z.object({
+        challengeId: z.string().uuid(),
+        page: z.number().min(1).default(1),
+        limit: z.number().min(1).max(100).default(50),
+      })
+    )
+    .query(async ({ input }) => {
+      const { challengeId, page, limit } = input;
+      const { entries, total } = await challengeService.getLeaderboard(challengeId, {
+        page,
+        limit,
+      });
+
+      return {
+        success: true,
+        data: entries,
+        pagination: {
+          page,
+          limit,
+          total,
+          hasMore: (page - 1) * limit + entries.length < total,
+        },
+      };
+    }),
+
+  /**
+   * Create a challenge (admin only)
+   */
+  create: adminProcedure
+    .input(
+      z.object({
+        title: z.string().min(1).max(255),
+        description: z.string().max(2000).optional(),
+        challengeType: ChallengeTypeSchema,
+        startDate: z.coerce.date(),
+        endDate: z.coerce.date(),
+        targetCount: z.number().int().min(1).optional(),
+        rules: z.record(z.string(), z.unknown()).optional(),
+        rewards: z.record(z.string(), z.unknown()).optional(),
+        content: z.array(ChallengeContentSchema).max(200).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const challenge = await challengeService.createChallenge(ctx.user.id, input);
+
+      return {
+        success: true,
+        data: challenge,
+        message: 'Challenge created',
+      };
+    }),
+
+  /**
+   * Attach content to a challenge (admin only)
+   */
+  attachContent: adminProcedure
+    .input(
+      z.object({
+        challengeId: z.string().uuid(),
+        content: z.array(ChallengeContentSchema).min(1).max(200),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const attached = await challengeService.attachContent(input.challengeId, input.content);
+
+      return {
+        success: true,
+        data: attached,
+        message: `Attached ${attached.length} content items`,
+      };
+    }),
+
+  /**
+   * Remove content from a challenge (admin only)
+   */
+  detachContent: adminProcedure
+    .input(
+      z.object({
+        challengeId: z.string().uuid(),
+        contentIds: z.array(z.string().uuid()).min(1).max(200),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const result = await challengeService.detachContent(input.challengeId, input.contentIds);
+
+      return {
+        success: true,
+        data: result,
+        message: `Removed ${result.removed} content items`,
+      };
+    }),
+});
@@ -2,6 +2,33 @@
 import { z } from 'zod';
 import { router, publicProcedure, protectedProcedure } from '../trpc';
 import { TRPCError } from '@trpc/server';
+import { PostgresSearchService } from '../services/search/postgres-search.service';
+import { SearchIndexerService } from '../services/search/search-indexer.service';
+import { ActivityRecorderService } from '../services/social/activity-recorder.service';
+import { ChallengeService } from '../services/social/challenge.service';
+import { AchievementService } from '../services/social/achievement.service';
+import { StatsService } from '../services/social/stats.service';
+import { BulkTrackingService, MAX_BULK_ITEMS } from '../services/content/bulk-tracking.service';
+import { EpisodeTrackingService } from '../services/content/episode-tracking.service';
+import { MAX_UP_NEXT, UpNextService } from '../services/content/up-next.service';
+import {
+  MAX_RECOMMENDATIONS,
+  RecommendationService,
+} from '../services/content/recommendation.service';
+import { RecommendationType } from '../services/content/recommendation-strategies';
+import { TrendingService } from '../services/content/trending.service';
+import {
+  MAX_BATCH_ESTIMATES,
+  TimeEstimateService,
+} from '../services/content/time-estimate.service';
+
+// Import prisma from context
+import { prisma } from '../context';
+
+// Initialize services
+const episodeTrackingService = new EpisodeTrackingService(prisma);
+const upNextService = new UpNextService(prisma);
+const searchIndexer = new SearchIndexerService(prisma);
 
 export const contentRouter = router({
   /**
@@ -21,46 +48,17 @@ export const contentRouter = router({
       const { query, contentType, page, limit } = input;
 
       try {
-        const where: any = {
-          OR: [
-            { title: { contains: query, mode: 'insensitive' } },
-            { description: { contains: query, mode: 'insensitive' } },
-          ],
-        };
-
-        if (contentType) {
-          where.contentType = contentType;
-        }
-
         const skip = (page - 1) * limit;
 
-        const [content, total] = await Promise.all([
-          prisma.content.findMany({
-            where,
-            skip,
-            take: limit,
-            orderBy: [
-              { releaseDate: 'desc' },
-              { title: 'asc' },
-            ],
-            select: {
-              id: true,
-              title: true,
-              description: true,
-              contentType: true,
-              genreTags: true,
-              caseTags: true,
-              releaseDate: true,
-              runtimeMinutes: true,
-              posterUrl: true,
-              platforms: true,
-              totalSeasons: true,
-              totalEpisodes: true,
-              status: true,
-            },
-          }),
-          prisma.content.count({ where }),
-        ]);
+        // Ranked full-text search over title, description, tags and linked case names
+        const { hits: content, totalHits: total } = await new PostgresSearchService(prisma).search(
+          query,
+          {
+            filters: { contentType },
+            limit,
+            offset: skip,
+          }
+        );
 
         return {
           success: true,
@@ -107,6 +105,9 @@ export const contentRouter = router({
           });
         }
 
+        // Detail views are a trending signal, counted once a day per signed-in user or address
+        await new TrendingService(prisma).recordView(content.id, ctx.user?.id ?? ctx.req.ip);
+
         return {
           success: true,
           data: content,
@@ -208,6 +209,46 @@ export const contentRouter = router({
           });
         }
 
+        await new ActivityRecorderService(prisma).recordTrackingChange(user.id, input.contentId, {
+          status: input.status,
+          previousStatus: existingTracking?.status,
+          rating: input.rating,
+          previousRating: existingTracking?.rating,
+          platform: input.platformWatched,
+        });
+
+        // Credit completions to any challenges the user has joined, and take the credit
+        // back when the title moves off Completed. The entry is already saved, so a
+        // failure here is logged rather than failing the request.
+        try {
+          const challenges = new ChallengeService(prisma);
+
+          if (input.status === 'COMPLETED' && existingTracking?.status !== 'COMPLETED') {
+            await challenges.recordCompletion(user.id, input.contentId);
+          } else if (input.status !== 'COMPLETED' && existingTracking?.status === 'COMPLETED') {
+            await challenges.revokeCompletion(user.id, input.contentId);
+          }
+        } catch (error) {
+          console.error(`Failed to update challenges for ${input.contentId}:`, error);
+        }
+
+        await new AchievementService(prisma).handleEvent(user.id, {
+          type: 'content_tracked',
+          contentId: input.contentId,
+          status: input.status,
+        });
+
+        // Keep the title's indexed rating and tracking count current
+        if (!existingTracking || input.rating !== undefined) {
+          searchIndexer.queueIndexContent([input.contentId]);
+        }
+
+        await new TimeEstimateService(prisma).invalidate(user.id);
+        await new StatsService(prisma).invalidate(user.id, [
+          userContent.dateCompleted,
+          existingTracking?.dateCompleted,
+        ]);
+
         return {
           success: true,
           data: userContent,
@@ -225,6 +266,75 @@ export const contentRouter = router({
       }
     }),
 
+  /**
+   * Change status, rating or tags of many tracked titles at once, or remove them.
+   * Returns a token that undoes the whole change for a few minutes.
+   */
+  bulkTrack: protectedProcedure
+    .input(
+      z.object({
+        contentIds: z.array(z.string().uuid()).min(1).max(MAX_BULK_ITEMS),
+        operation: z.discriminatedUnion('type', [
+          z.object({
+            type: z.literal('status'),
+            status: z.enum(['WANT_TO_WATCH', 'WATCHING', 'COMPLETED', 'ABANDONED']),
+          }),
+          z.object({
+            type: z.literal('rating'),
+            rating: z.number().int().min(1).max(5).nullable(),
+          }),
+          z.object({
+            type: z.literal('tags'),
+            add: z.array(z.string().min(1).max(50)).max(20).optional(),
+            remove: z.array(z.string().min(1).max(50)).max(20).optional(),
+          }),
+          z.object({ type: z.literal('remove') }),
+        ]),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { user, prisma } = ctx;
+
+      const result = await new BulkTrackingService(prisma).bulkTrack(
+        user.id,
+        input.contentIds,
+        input.operation
+      );
+
+      if (result.changed.length > 0) {
+        await new TimeEstimateService(prisma).invalidate(user.id);
+        await new StatsService(prisma).invalidate(user.id);
+      }
+
+      return {
+        success: true,
+        data: result,
+        message: `Updated ${result.changed.length} of ${input.contentIds.length} titles`,
+      };
+    }),
+
+  /**
+   * Undo a bulk change using the token it returned
+   */
+  undoBulkTrack: protectedProcedure
+    .input(z.object({ undoToken: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { user, prisma } = ctx;
+
+      const result = await new BulkTrackingService(prisma).undo(user.id, input.undoToken);
+      await new TimeEstimateService(prisma).invalidate(user.id);
+      await new StatsService(prisma).invalidate(user.id);
+
+      return {
+        success: true,
+        data: result,
+        message:
+          result.conflicts.length > 0
+            ? `Restored ${result.restored.length} titles; ${result.conflicts.length} were changed since and kept`
+            : `Restored ${result.restored.length} titles`,
+      };
+    }),
+
   /**
    * Remove content from tracking
    */
@@ -259,6 +369,19 @@ export const contentRouter = router({
           },
         });
 
+        if (userContent.status === 'COMPLETED') {
+          try {
+            await new ChallengeService(prisma).revokeCompletion(user.id, input.contentId);
+          } catch (error) {
+            console.error(`Failed to update challenges for ${input.contentId}:`, error);
+          }
+        }
+
+        searchIndexer.queueIndexContent([input.contentId]);
+
+        await new TimeEstimateService(prisma).invalidate(user.id);
+        await new StatsService(prisma).invalidate(user.id, [userContent.dateCompleted]);
+
         return {
           success: true,
           message: 'Content removed from tracking',
@@ -345,126 +468,215 @@ export const contentRouter = router({
     }),
 
   /**
-   * Get recommendations for user
+   * Mark an episode, a whole season or everything up to an episode as watched.
+   * Moves the title to Watching on the first episode and to Completed when caught up.
    */
-  getRecommendations: protectedProcedure
+  trackEpisodeProgress: protectedProcedure
     .input(
       z.object({
-        limit: z.number().min(1).max(50).default(10),
-        type: z.enum(['trending', 'similar', 'new']).default('trending'),
+        contentId: z.string().uuid(),
+        selection: z.discriminatedUnion('type', [
+          z.object({
+            type: z.literal('episode'),
+            seasonNumber: z.number().int().min(0),
+            episodeNumber: z.number().int().min(1),
+            watched: z.boolean().default(true),
+          }),
+          z.object({
+            type: z.literal('season'),
+            seasonNumber: z.number().int().min(1),
+            watched: z.boolean().default(true),
+          }),
+          z.object({
+            type: z.literal('up_to'),
+            seasonNumber: z.number().int().min(1),
+            episodeNumber: z.number().int().min(1),
+          }),
+        ]),
       })
     )
-    .query(async ({ ctx, input }) => {
+    .mutation(async ({ ctx, input }) => {
       const { user, prisma } = ctx;
 
-      try {
-        // Simple recommendations based on type
-        let recommendations;
-
-        switch (input.type) {
-          case 'trending':
-            recommendations = await prisma.content.findMany({
-              take: input.limit,
-              orderBy: {
-                createdAt: 'desc',
-              },
-              where: {
-                userContent: {
-                  none: {
-                    userId: user.id,
-                  },
-                },
-              },
-              select: {
-                id: true,
-                title: true,
-                description: true,
-                contentType: true,
-                genreTags: true,
-                caseTags: true,
-                releaseDate: true,
-                posterUrl: true,
-                platforms: true,
-              },
-            });
-            break;
-
-          case 'similar':
-            // Get user's favorite genres from their tracked content
-            const userInterests = await prisma.userProfile.findUnique({
-              where: { userId: user.id },
-              select: { interests: true },
-            });
-
-            recommendations = await prisma.content.findMany({
-              where: {
-                genreTags: {
-                  hasSome: userInterests?.interests || [],
-                },
-                userContent: {
-                  none: {
-                    userId: user.id,
-                  },
-                },
-              },
-              take: input.limit,
-              orderBy: {
-                releaseDate: 'desc',
-              },
-              select: {
-                id: true,
-                title: true,
-                description: true,
-                contentType: true,
-                genreTags: true,
-                caseTags: true,
-                releaseDate: true,
-                posterUrl: true,
-                platforms: true,
-              },
-            });
-            break;
-
-          default: // new
-            recommendations = await prisma.content.findMany({
-              where: {
-                userContent: {
-                  none: {
-                    userId: user.id,
-                  },
-                },
-                releaseDate: {
-                  gte: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000), // Last year
-                },
-              },
-              take: input.limit,
-              orderBy: {
-                releaseDate: 'desc',
-              },
-              select: {
-                id: true,
-                title: true,
-                description: true,
-                contentType: true,
-                genreTags: true,
-                caseTags: true,
-                releaseDate: true,
-                posterUrl: true,
-                platforms: true,
-              },
-            });
-        }
+      const result = await episodeTrackingService.updateProgress(
+        user.id,
+        input.contentId,
+        input.selection
+      );
 
-        return {
-          success: true,
-          data: recommendations,
-          message: `${input.type} recommendations`,
-        };
-      } catch (error) {
-        throw new TRPCError({
-          code: 'INTERNAL_SERVER_ERROR',
-          message: 'Failed to get recommendations',
-        });
+      if (result.changed > 0 || result.statusChange) {
+        const watched = input.selection.type === 'up_to' || input.selection.watched;
+
+        await new TimeEstimateService(prisma).invalidate(user.id);
+        // Unwatched episodes may have been watched in any month
+        await new StatsService(prisma).invalidate(user.id, watched ? [new Date()] : undefined);
       }
+
+      return {
+        success: true,
+        data: result,
+        message: 'Episode progress saved',
+      };
+    }),
+
+  /**
+   * Get watched episodes and completion per season for a series
+   */
+  getEpisodeProgress: protectedProcedure
+    .input(z.object({ contentId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const { user } = ctx;
+
+      const progress = await episodeTrackingService.getProgress(user.id, input.contentId);
+
+      return {
+        success: true,
+        data: progress,
+      };
+    }),
+
+  /**
+   * Get the next episode of each series the user is watching, with where to watch it
+   */
+  upNext: protectedProcedure
+    .input(
+      z.object({
+        limit: z.number().min(1).max(MAX_UP_NEXT).default(20),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { user } = ctx;
+
+      const upNext = await upNextService.getUpNext(user.id, input.limit);
+
+      return {
+        success: true,
+        data: upNext,
+      };
+    }),
+
+  /**
+   * Get hours remaining and a projected finish date for a title
+   */
+  getTimeEstimate: protectedProcedure
+    .input(z.object({ contentId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const { user, prisma } = ctx;
+
+      const estimate = await new TimeEstimateService(prisma).getTimeEstimate(
+        user.id,
+        input.contentId
+      );
+
+      return {
+        success: true,
+        data: estimate,
+      };
+    }),
+
+  /**
+   * Get time estimates for several titles at once
+   */
+  getBatchTimeEstimates: protectedProcedure
+    .input(
+      z.object({
+        contentIds: z.array(z.string().uuid()).min(1).max(MAX_BATCH_ESTIMATES),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { user, prisma } = ctx;
+
+      const estimates = await new TimeEstimateService(prisma).getBatchTimeEstimates(
+        user.id,
+        input.contentIds
+      );
+
+      return {
+        success: true,
+        data: estimates,
+      };
+    }),
+
+  /**
+   * Get time left on the Watching and Want to Watch lists at the user's viewing pace
+   */
+  getWatchlistTimeEstimate: protectedProcedure.query(async ({ ctx }) => {
+    const { user, prisma } = ctx;
+
+    const estimate = await new TimeEstimateService(prisma).getWatchlistTimeEstimate(user.id);
+
+    return {
+      success: true,
+      data: estimate,
+    };
+  }),
+
+  /**
+   * Refresh estimates after progress was recorded elsewhere and return the title's new one
+   */
+  updateTimeEstimateOnProgress: protectedProcedure
+    .input(z.object({ contentId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { user, prisma } = ctx;
+
+      const estimate = await new TimeEstimateService(prisma).updateOnProgress(
+        user.id,
+        input.contentId
+      );
+
+      return {
+        success: true,
+        data: estimate,
+      };
+    }),
+
+  /**
+   * Clear the user's cached time estimates
+   */
+  clearTimeEstimateCache: protectedProcedure.mutation(async ({ ctx }) => {
+    const { user, prisma } = ctx;
+
+    await new TimeEstimateService(prisma).invalidate(user.id);
+
+    return {
+      success: true,
+      message: 'Time estimates will be recalculated',
+    };
+  }),
+
+  /**
+   * Get recommendations for user, each with a score and the reason it was picked
+   */
+  getRecommendations: protectedProcedure
+    .input(
+      z.object({
+        limit: z.number().min(1).max(MAX_RECOMMENDATIONS).default(10),
+        // 'similar' and 'new' are the names older clients send
+        type: z
+          .union([z.nativeEnum(RecommendationType), z.enum(['similar', 'new'])])
+          .default(RecommendationType.TRENDING),
+        excludeWatched: z.boolean().default(true),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { user, prisma } = ctx;
+
+      const type =
+        input.type === 'similar'
+          ? RecommendationType.SIMILAR_CONTENT
+          : input.type === 'new'
+            ? RecommendationType.NEW_RELEASES
+            : input.type;
+
+      const recommendations = await new RecommendationService(prisma).recommend(user.id, type, {
+        limit: input.limit,
+        excludeWatched: input.excludeWatched,
+      });
+
+      return {
+        success: true,
+        data: recommendations,
+        message: `${type} recommendations`,
+      };
     }),
 });
\ No newline at end of file
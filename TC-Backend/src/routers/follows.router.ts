@@ -0,0 +1,63 @@
+// Follows Router - Following cases, real people and TV series for new-content alerts
+import { z } from 'zod';
+import { router, protectedProcedure } from '../trpc';
+import { FollowService, WIKIDATA_ID_PATTERN } from '../services/content/follow.service';
+
+// Import prisma from context
+import { prisma } from '../context';
+
+// Initialize services
+const followService = new FollowService(prisma);
+
+const targetSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('CASE'), caseId: z.string().uuid() }),
+  z.object({
+    type: z.literal('PERSON'),
+    wikidataId: z.string().regex(WIKIDATA_ID_PATTERN, 'Use a Wikidata ID such as Q42'),
+    name: z.string().min(1).max(255),
+  }),
+  z.object({ type: z.literal('SERIES'), contentId: z.string().uuid() }),
+]);
+
+export const followsRouter = router({
+  /**
+   * Get the cases, people and series you follow
+   */
+  list: protectedProcedure
+    .input(z.object({ type: z.enum(['CASE', 'PERSON', 'SERIES']).optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      const follows = await followService.listFollows(ctx.user.id, input?.type);
+
+      return {
+        success: true,
+        data: follows,
+      };
+    }),
+
+  /**
+   * Follow a case, person or TV series to be alerted about new content
+   */
+  follow: protectedProcedure.input(targetSchema).mutation(async ({ ctx, input }) => {
+    const follow = await followService.follow(ctx.user.id, input);
+
+    return {
+      success: true,
+      data: follow,
+      message: 'Following',
+    };
+  }),
+
+  /**
+   * Stop following
+   */
+  unfollow: protectedProcedure
+    .input(z.object({ followId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await followService.unfollow(ctx.user.id, input.followId);
+
+      return {
+        success: true,
+        message: 'Unfollowed',
+      };
+    }),
+});
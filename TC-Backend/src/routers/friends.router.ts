@@ -0,0 +1,189 @@
+// Friends Router - Friend requests, blocking and friend lists
+import { z } from 'zod';
+import { router, protectedProcedure } from '../trpc';
+import { FriendshipService } from '../services/social/friendship.service';
+
+// Import prisma from context
+import { prisma } from '../context';
+
+// Initialize services
+const friendshipService = new FriendshipService(prisma);
+
+export const friendsRouter = router({
+  /**
+   * Send a friend request
+   */
+  sendRequest: protectedProcedure
+    .input(z.object({ userId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const friendship = await friendshipService.sendRequest(ctx.user.id, input.userId);
+
+      return {
+        success: true,
+        data: friendship,
+        message:
+          friendship.status === 'ACCEPTED' ? 'Friend request accepted' : 'Friend request sent',
+      };
+    }),
+
+  /**
+   * Accept an incoming friend request
+   */
+  acceptRequest: protectedProcedure
+    .input(z.object({ friendshipId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const friendship = await friendshipService.acceptRequest(ctx.user.id, input.friendshipId);
+
+      return {
+        success: true,
+        data: friendship,
+        message: 'Friend request accepted',
+      };
+    }),
+
+  /**
+   * Decline an incoming friend request
+   */
+  declineRequest: protectedProcedure
+    .input(z.object({ friendshipId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await friendshipService.declineRequest(ctx.user.id, input.friendshipId);
+
+      return {
+        success: true,
+        message: 'Friend request declined',
+      };
+    }),
+
+  /**
+   * Cancel a friend request you sent
+   */
+  cancelRequest: protectedProcedure
+    .input(z.object({ friendshipId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await friendshipService.cancelRequest(ctx.user.id, input.friendshipId);
+
+      return {
+        success: true,
+        message: 'Friend request cancelled',
+      };
+    }),
+
+  /**
+   * Remove a friend
+   */
+  unfriend: protectedProcedure
+    .input(z.object({ userId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await friendshipService.unfriend(ctx.user.id, input.userId);
+
+      return {
+        success: true,
+        message: 'Friend removed',
+      };
+    }),
+
+  /**
+   * Block a user
+   */
+  block: protectedProcedure
+    .input(z.object({ userId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await friendshipService.block(ctx.user.id, input.userId);
+
+      return {
+        success: true,
+        message: 'User blocked',
+      };
+    }),
+
+  /**
+   * Unblock a user
+   */
+  unblock: protectedProcedure
+    .input(z.object({ userId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await friendshipService.unblock(ctx.user.id, input.userId);
+
+      return {
+        success: true,
+        message: 'User unblocked',
+      };
+    }),
+
+  /**
+   * Get the current user's friends
+   */
+  list: protectedProcedure
+    .input(
+      z.object({
+        page: z.number().min(1).default(1),
+        limit: z.number().min(1).max(100).default(50),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { page, limit } = input;
+      const { friends, total } = await friendshipService.listFriends(ctx.user.id, input);
+
+      return {
+        success: true,
+        data: friends,
+        pagination: {
+          page,
+          limit,
+          total,
+          hasMore: (page - 1) * limit + friends.length < total,
+        },
+      };
+    }),
+
+  /**
+   * Get pending requests sent to the current user
+   */
+  incomingRequests: protectedProcedure.query(async ({ ctx }) => {
+    const requests = await friendshipService.listIncomingRequests(ctx.user.id);
+
+    return {
+      success: true,
+      data: requests,
+    };
+  }),
+
+  /**
+   * Get pending requests the current user sent
+   */
+  outgoingRequests: protectedProcedure.query(async ({ ctx }) => {
+    const requests = await friendshipService.listOutgoingRequests(ctx.user.id);
+
+    return {
+      success: true,
+      data: requests,
+    };
+  }),
+
+  /**
+   * Get users the current user has blocked
+   */
+  blocked: protectedProcedure.query(async ({ ctx }) => {
+    const blocked = await friendshipService.listBlocked(ctx.user.id);
+
+    return {
+      success: true,
+      data: blocked,
+    };
+  }),
+
+  /**
+   * Get friends in common with another user
+   */
+  mutual: protectedProcedure
+    .input(z.object({ userId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const mutual = await friendshipService.getMutualFriends(ctx.user.id, input.userId);
+
+      return {
+        success: true,
+        data: mutual,
+      };
+    }),
+});
@@ -0,0 +1,130 @@
+// Imports Router - Watch history imports from Letterboxd, Trakt and IMDb
+import { z } from 'zod';
+import { router, protectedProcedure } from '../trpc';
+import { HistoryImportService } from '../services/import/history-import.service';
+
+// Import prisma from context
+import { prisma } from '../context';
+
+// Initialize services
+const historyImportService = new HistoryImportService(prisma);
+
+export const importsRouter = router({
+  /**
+   * Upload an export file and start importing it in the background
+   */
+  start: protectedProcedure
+    .input(
+      z.object({
+        source: z.enum(['letterboxd', 'trakt', 'imdb']),
+        // File contents; has to fit within the server's 1MB request body limit
+        data: z
+          .string()
+          .min(1)
+          .max(1024 * 1024),
+        fileName: z.string().max(255).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const historyImport = await historyImportService.createImport(ctx.user.id, input);
+
+      historyImportService.runInBackground(historyImport.id);
+
+      return {
+        success: true,
+        data: historyImport,
+        message: `Importing ${historyImport.totalRows} titles`,
+      };
+    }),
+
+  /**
+   * Get your recent imports
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const imports = await historyImportService.listImports(ctx.user.id);
+
+    return {
+      success: true,
+      data: imports,
+    };
+  }),
+
+  /**
+   * Get the progress and report for an import
+   */
+  get: protectedProcedure
+    .input(z.object({ importId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const historyImport = await historyImportService.getImport(ctx.user.id, input.importId);
+
+      return {
+        success: true,
+        data: historyImport,
+      };
+    }),
+
+  /**
+   * Get the rows of an import, e.g. the unmatched ones that need a manual fix
+   */
+  rows: protectedProcedure
+    .input(
+      z.object({
+        importId: z.string().uuid(),
+        status: z.enum(['PENDING', 'IMPORTED', 'UNMATCHED', 'SKIPPED']).optional(),
+        page: z.number().min(1).default(1),
+        limit: z.number().min(1).max(100).default(50),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { rows, total } = await historyImportService.getRows(ctx.user.id, input.importId, {
+        status: input.status,
+        page: input.page,
+        limit: input.limit,
+      });
+
+      return {
+        success: true,
+        data: rows,
+        pagination: {
+          page: input.page,
+          limit: input.limit,
+          total,
+          hasMore: input.page * input.limit < total,
+        },
+      };
+    }),
+
+  /**
+   * Match an unmatched row to content by hand
+   */
+  resolveRow: protectedProcedure
+    .input(
+      z.object({
+        rowId: z.string().uuid(),
+        contentId: z.string().uuid(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const row = await historyImportService.resolveRow(ctx.user.id, input.rowId, input.contentId);
+
+      return {
+        success: true,
+        data: row,
+        message: 'Added to your library',
+      };
+    }),
+
+  /**
+   * Leave a row out of the import
+   */
+  skipRow: protectedProcedure
+    .input(z.object({ rowId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const row = await historyImportService.skipRow(ctx.user.id, input.rowId);
+
+      return {
+        success: true,
+        data: row,
+      };
+    }),
+});
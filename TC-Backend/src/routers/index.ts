@@ -1,9 +1,19 @@
 // Main tRPC Router - Combines all routers
 import { router } from '../trpc';
 import { authRouter } from './auth.router';
+import { accountRouter } from './account.router';
 import { contentRouter } from './content-simple';
 import { socialRouter } from './social-simple';
 import { notificationRouter } from './notification-simple';
+import { searchRouter } from './search.router';
+import { friendsRouter } from './friends.router';
+import { challengesRouter } from './challenges.router';
+import { casesRouter } from './cases.router';
+import { followsRouter } from './follows.router';
+import { listsRouter } from './lists.router';
+import { reviewsRouter } from './reviews.router';
+import { importsRouter } from './imports.router';
+import { statsRouter } from './stats.router';
 
 /**
  * Main application router
@@ -13,9 +23,19 @@ import { notificationRouter } from './notification-simple';
  */
 export const appRouter = router({
   auth: authRouter,
+  account: accountRouter,
   content: contentRouter,
+  cases: casesRouter,
+  follows: followsRouter,
   social: socialRouter,
+  lists: listsRouter,
+  reviews: reviewsRouter,
+  imports: importsRouter,
+  stats: statsRouter,
+  friends: friendsRouter,
+  challenges: challengesRouter,
   notification: notificationRouter,
+  search: searchRouter,
 });
 
 // Export the router type for use in the frontend
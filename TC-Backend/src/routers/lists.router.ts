@@ -0,0 +1,60 @@
+// Lists Router - Public share pages and forking of custom lists
+import { z } from 'zod';
+import { router, publicProcedure, protectedProcedure } from '../trpc';
+import { PublicListService } from '../services/social/public-list.service';
+
+// Import prisma from context
+import { prisma } from '../context';
+
+// Initialize services
+const publicListService = new PublicListService(prisma);
+
+export const listsRouter = router({
+  /**
+   * Get a public list by its share slug, no sign-in needed
+   */
+  getPublic: publicProcedure
+    .input(z.object({ slug: z.string().min(1).max(80) }))
+    .query(async ({ ctx, input }) => {
+      const list = await publicListService.getPublicList(input.slug, ctx.user?.id);
+
+      return {
+        success: true,
+        data: list,
+      };
+    }),
+
+  /**
+   * Copy a public list into your own lists
+   */
+  fork: protectedProcedure
+    .input(
+      z.object({
+        slug: z.string().min(1).max(80),
+        title: z.string().min(1).max(100).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const list = await publicListService.forkList(ctx.user.id, input.slug, input.title);
+
+      return {
+        success: true,
+        data: list,
+        message: 'List copied to your lists',
+      };
+    }),
+
+  /**
+   * Get the share link, view and fork counts for one of your lists
+   */
+  getShareStats: protectedProcedure
+    .input(z.object({ listId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const stats = await publicListService.getShareStats(ctx.user.id, input.listId);
+
+      return {
+        success: true,
+        data: stats,
+      };
+    }),
+});
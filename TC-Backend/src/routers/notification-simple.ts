@@ -1,7 +1,18 @@
 // Simplified Notification Router - Alerts and digest management
 import { z } from 'zod';
-import { router, protectedProcedure } from '../trpc';
+import { router, protectedProcedure, adminProcedure } from '../trpc';
 import { TRPCError } from '@trpc/server';
+import { EXPO_PUSH_TOKEN_PATTERN } from '../services/notification/expo-push.channel';
+import { isValidTimezone } from '../services/notification/notification-preferences';
+import { NotificationService } from '../services/notification/notification.service';
+
+// Import prisma from context
+import { prisma } from '../context';
+
+// Initialize services
+const notificationService = new NotificationService(prisma);
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use HH:mm');
 
 export const notificationRouter = router({
   /**
@@ -210,43 +221,41 @@ export const notificationRouter = router({
     }),
 
   /**
-   * Create notification (internal use)
+   * Send a system notice to a user (admin only). Everything else is produced on the server by
+   * the actions that cause it.
    */
-  createNotification: protectedProcedure
+  createNotification: adminProcedure
     .input(
       z.object({
         userId: z.string().uuid(),
-        type: z.string(),
         title: z.string().min(1).max(255),
         message: z.string().min(1),
-        data: z.record(z.any()).optional(),
+        data: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
       })
     )
-    .mutation(async ({ ctx, input }) => {
-      const { prisma } = ctx;
-
-      try {
-        const notification = await prisma.notification.create({
-          data: {
-            userId: input.userId,
-            type: input.type,
-            title: input.title,
-            message: input.message,
-            data: input.data,
-          },
-        });
-
-        return {
-          success: true,
-          data: notification,
-          message: 'Notification created',
-        };
-      } catch (error) {
+    .mutation(async ({ input }) => {
+      const result = await notificationService.notify({
+        type: 'system',
+        userId: input.userId,
+        payload: {
+          title: input.title,
+          message: input.message,
+          data: input.data,
+        },
+      });
+
+      if (!result.notificationId) {
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
           message: 'Failed to create notification',
         });
       }
+
+      return {
+        success: true,
+        data: result,
+        message: 'Notification created',
+      };
     }),
 
   /**
@@ -299,6 +308,14 @@ export const notificationRouter = router({
         friendActivity: z.boolean().optional(),
         weeklyDigest: z.boolean().optional(),
         cableReminders: z.boolean().optional(),
+        quietHours: z
+          .object({
+            enabled: z.boolean(),
+            start: timeOfDaySchema,
+            end: timeOfDaySchema,
+            timezone: z.string().refine(isValidTimezone, 'Unknown timezone'),
+          })
+          .optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -329,6 +346,7 @@ export const notificationRouter = router({
           friend_activity: input.friendActivity ?? currentSettings.friend_activity,
           weekly_digest: input.weeklyDigest ?? currentSettings.weekly_digest,
           cable_reminders: input.cableReminders ?? currentSettings.cable_reminders,
+          quiet_hours: input.quietHours ?? currentSettings.quiet_hours,
         };
 
         await prisma.userProfile.update({
@@ -361,13 +379,14 @@ export const notificationRouter = router({
    */
   sendTestNotification: protectedProcedure
     .mutation(async ({ ctx }) => {
-      const { user, prisma } = ctx;
+      const { user } = ctx;
 
       try {
-        const notification = await prisma.notification.create({
-          data: {
-            userId: user.id,
-            type: 'system',
+        // Goes out on every channel the user's settings allow, so they can check each one
+        const result = await notificationService.notify({
+          type: 'system',
+          userId: user.id,
+          payload: {
             title: 'Test Notification',
             message: 'This is a test notification to verify your notification settings are working correctly.',
             data: {
@@ -377,9 +396,13 @@ export const notificationRouter = router({
           },
         });
 
+        if (!result.notificationId) {
+          throw new Error('Test notification was not written');
+        }
+
         return {
           success: true,
-          data: notification,
+          data: result,
           message: 'Test notification sent',
         };
       } catch (error) {
@@ -390,6 +413,78 @@ export const notificationRouter = router({
       }
     }),
 
+  /**
+   * Register this device's Expo push token for push notifications
+   */
+  registerPushToken: protectedProcedure
+    .input(
+      z.object({
+        token: z.string().max(255).regex(EXPO_PUSH_TOKEN_PATTERN, 'Not an Expo push token'),
+        platform: z.enum(['ios', 'android', 'web']).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { user, prisma } = ctx;
+
+      try {
+        // A device that signs in to another account moves its token to that account
+        const pushToken = await prisma.pushToken.upsert({
+          where: { token: input.token },
+          create: {
+            userId: user.id,
+            token: input.token,
+            platform: input.platform ?? null,
+          },
+          update: {
+            userId: user.id,
+            platform: input.platform ?? null,
+            disabledAt: null,
+          },
+        });
+
+        return {
+          success: true,
+          data: { id: pushToken.id, platform: pushToken.platform },
+          message: 'Push notifications enabled on this device',
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to register push token',
+        });
+      }
+    }),
+
+  /**
+   * Stop push notifications to this device, e.g. when signing out
+   */
+  unregisterPushToken: protectedProcedure
+    .input(
+      z.object({
+        token: z.string().max(255),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { user, prisma } = ctx;
+
+      try {
+        const result = await prisma.pushToken.deleteMany({
+          where: { token: input.token, userId: user.id },
+        });
+
+        return {
+          success: true,
+          data: { count: result.count },
+          message: 'Push notifications disabled on this device',
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to unregister push token',
+        });
+      }
+    }),
+
   /**
    * Get unread count
    */
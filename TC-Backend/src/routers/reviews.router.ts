@@ -0,0 +1,189 @@
+// Reviews Router - Ratings and written reviews, helpful votes, community ratings and moderation
+import { z } from 'zod';
+import { router, publicProcedure, protectedProcedure, adminProcedure } from '../trpc';
+import { MAX_REVIEW_LENGTH, ReviewService } from '../services/social/review.service';
+
+// Import prisma from context
+import { prisma } from '../context';
+
+// Initialize services
+const reviewService = new ReviewService(prisma);
+
+const ratingSchema = z.number().int().min(1).max(5);
+const bodySchema = z.string().max(MAX_REVIEW_LENGTH).nullable();
+const visibilitySchema = z.enum(['PRIVATE', 'FRIENDS', 'PUBLIC']);
+
+export const reviewsRouter = router({
+  /**
+   * Get the reviews of a title you can see, most helpful or most recent first
+   */
+  listForContent: publicProcedure
+    .input(
+      z.object({
+        contentId: z.string().uuid(),
+        sort: z.enum(['helpful', 'recent']).default('helpful'),
+        page: z.number().min(1).default(1),
+        limit: z.number().min(1).max(50).default(20),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { contentId, sort, page, limit } = input;
+      const { reviews, total } = await reviewService.listForContent(contentId, ctx.user?.id, {
+        sort,
+        page,
+        limit,
+      });
+
+      return {
+        success: true,
+        data: reviews,
+        pagination: {
+          page,
+          limit,
+          total,
+          hasMore: (page - 1) * limit + reviews.length < total,
+        },
+      };
+    }),
+
+  /**
+   * Get the community rating of a title with its star rating histogram
+   */
+  getSummary: publicProcedure
+    .input(z.object({ contentId: z.string().uuid() }))
+    .query(async ({ input }) => {
+      const summary = await reviewService.getSummary(input.contentId);
+
+      return {
+        success: true,
+        data: summary,
+      };
+    }),
+
+  /**
+   * Get your own review of a title
+   */
+  getMine: protectedProcedure
+    .input(z.object({ contentId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const review = await reviewService.getOwn(ctx.user.id, input.contentId);
+
+      return {
+        success: true,
+        data: review,
+      };
+    }),
+
+  /**
+   * Publish a rating and optional written review of a title
+   */
+  publish: protectedProcedure
+    .input(
+      z.object({
+        contentId: z.string().uuid(),
+        rating: ratingSchema,
+        body: bodySchema.optional(),
+        hasSpoilers: z.boolean().default(false),
+        visibility: visibilitySchema.default('PUBLIC'),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const review = await reviewService.publish(ctx.user.id, input);
+
+      return {
+        success: true,
+        data: review,
+        message: 'Review published',
+      };
+    }),
+
+  /**
+   * Edit your review
+   */
+  update: protectedProcedure
+    .input(
+      z.object({
+        reviewId: z.string().uuid(),
+        rating: ratingSchema.optional(),
+        body: bodySchema.optional(),
+        hasSpoilers: z.boolean().optional(),
+        visibility: visibilitySchema.optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { reviewId, ...changes } = input;
+      const review = await reviewService.update(ctx.user.id, reviewId, changes);
+
+      return {
+        success: true,
+        data: review,
+        message: 'Review updated',
+      };
+    }),
+
+  /**
+   * Delete your review
+   */
+  delete: protectedProcedure
+    .input(z.object({ reviewId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await reviewService.delete(ctx.user.id, input.reviewId);
+
+      return {
+        success: true,
+        message: 'Review deleted',
+      };
+    }),
+
+  /**
+   * Mark someone's review helpful, or take your vote back
+   */
+  setHelpful: protectedProcedure
+    .input(
+      z.object({
+        reviewId: z.string().uuid(),
+        helpful: z.boolean().default(true),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const result = await reviewService.setHelpful(ctx.user.id, input.reviewId, input.helpful);
+
+      return {
+        success: true,
+        data: result,
+      };
+    }),
+
+  /**
+   * Hide a review from everyone but its author (admin only)
+   */
+  hide: adminProcedure
+    .input(
+      z.object({
+        reviewId: z.string().uuid(),
+        reason: z.string().min(1).max(255).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await reviewService.hide(ctx.user.id, input.reviewId, input.reason);
+
+      return {
+        success: true,
+        message: 'Review hidden',
+      };
+    }),
+
+  /**
+   * Show a hidden review again (admin only)
+   */
+  unhide: adminProcedure
+    .input(z.object({ reviewId: z.string().uuid() }))
+    .mutation(async ({ input }) => {
+      await reviewService.unhide(input.reviewId);
+
+      return {
+        success: true,
+        message: 'Review visible again',
+      };
+    }),
+});
@@ -0,0 +1,373 @@
+// Search Router - Content discovery backed by Meilisearch
+import { z } from 'zod';
+import { router, publicProcedure, adminProcedure } from '../trpc';
+import { TRPCError } from '@trpc/server';
+import { ContentService, ContentType } from '../services/content/content.service';
+import { MeiliSearchService } from '../services/search/meilisearch.service';
+import { SearchIndexerService } from '../services/search/search-indexer.service';
+
+// Import prisma from context
+import { prisma } from '../context';
+
+// Initialize services
+const contentService = new ContentService(prisma);
+const searchService = new MeiliSearchService();
+const searchIndexer = new SearchIndexerService(prisma, searchService);
+
+const DEFAULT_FACETS = ['contentType', 'genreTags', 'platforms.name', 'caseIds', 'releaseYear'];
+
+// Filters shared by every content search procedure
+const SearchFiltersSchema = z.object({
+  contentType: z.nativeEnum(ContentType).optional(),
+  genreTags: z.array(z.string()).default([]),
+  platforms: z.array(z.string()).default([]),
+  caseIds: z.array(z.string()).default([]),
+  releaseYear: z.number().int().min(1900).max(2100).optional(),
+  minRating: z.number().min(1).max(5).optional(),
+});
+
+const PaginationSchema = z.object({
+  limit: z.number().min(1).max(100).default(20),
+  offset: z.number().min(0).default(0),
+});
+
+// Drop undefined optional inputs so they can be passed to the services as-is
+function definedOnly<T extends Record<string, unknown>>(input: T) {
+  return Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined)) as {
+    [K in keyof T]: Exclude<T[K], undefined>;
+  };
+}
+
+function handleSearchError(error: unknown, message: string): never {
+  if (error instanceof TRPCError) {
+    throw error;
+  }
+
+  throw new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message,
+  });
+}
+
+export const searchRouter = router({
+  /**
+   * Full-text content search with filters and facets
+   */
+  content: publicProcedure
+    .input(
+      SearchFiltersSchema.merge(PaginationSchema).extend({
+        query: z.string().max(200).default(''),
+        sort: z.array(z.string()).optional(),
+        useCache: z.boolean().default(true),
+      })
+    )
+    .query(async ({ input }) => {
+      try {
+        return await contentService.search({
+          ...definedOnly(input),
+          facets: DEFAULT_FACETS,
+        });
+      } catch (error) {
+        handleSearchError(error, 'Failed to search content');
+      }
+    }),
+
+  /**
+   * Type-ahead suggestions for content titles and criminal cases
+   */
+  suggestions: publicProcedure
+    .input(
+      z.object({
+        query: z.string().min(1).max(100),
+        limit: z.number().min(1).max(20).default(8),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { prisma } = ctx;
+
+      try {
+        const [contentResults, cases] = await Promise.all([
+          contentService.search({
+            query: input.query,
+            limit: input.limit,
+            facets: [],
+          }),
+          prisma.contentCase.findMany({
+            where: { caseName: { contains: input.query, mode: 'insensitive' } },
+            take: Math.ceil(input.limit / 2),
+            orderBy: { caseName: 'asc' },
+            select: { id: true, caseName: true, timePeriod: true },
+          }),
+        ]);
+
+        const suggestions = [
+          ...cases.map(
+            (contentCase: { id: string; caseName: string; timePeriod: string | null }) => ({
+              id: contentCase.id,
+              text: contentCase.caseName,
+              type: 'case' as const,
+              metadata: { timePeriod: contentCase.timePeriod ?? undefined },
+            })
+          ),
+          ...contentResults.results.map(
+            (content: {
+              id: string;
+              title: string;
+              contentType: string;
+              releaseYear?: number;
+            }) => ({
+              id: content.id,
+              text: content.title,
+              type: 'content' as const,
+              metadata: {
+                contentType: content.contentType,
+                year: content.releaseYear,
+              },
+            })
+          ),
+        ].slice(0, input.limit);
+
+        return { suggestions, query: input.query };
+      } catch (error) {
+        handleSearchError(error, 'Failed to get search suggestions');
+      }
+    }),
+
+  /**
+   * Facet counts for building filter UIs
+   */
+  faceted: publicProcedure
+    .input(
+      SearchFiltersSchema.merge(PaginationSchema).extend({
+        query: z.string().max(200).default(''),
+        facets: z.array(z.string()).default(DEFAULT_FACETS),
+      })
+    )
+    .query(async ({ input }) => {
+      try {
+        return await contentService.search(definedOnly(input));
+      } catch (error) {
+        handleSearchError(error, 'Failed to get search facets');
+      }
+    }),
+
+  /**
+   * Content linked to a criminal case
+   */
+  byCase: publicProcedure
+    .input(
+      PaginationSchema.extend({
+        caseId: z.string().uuid(),
+        query: z.string().max(200).default(''),
+        contentType: z.nativeEnum(ContentType).optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { prisma } = ctx;
+      const { caseId, ...searchParams } = input;
+
+      try {
+        const contentCase = await prisma.contentCase.findUnique({
+          where: { id: caseId },
+          select: { id: true, caseName: true, caseSlug: true },
+        });
+
+        if (!contentCase) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Case not found',
+          });
+        }
+
+        const results = await contentService.search({
+          ...definedOnly(searchParams),
+          caseIds: [contentCase.id],
+          facets: ['contentType'],
+        });
+
+        return { ...results, case: contentCase };
+      } catch (error) {
+        handleSearchError(error, 'Failed to search content by case');
+      }
+    }),
+
+  /**
+   * Content about a real person, matched through the cases they appear in
+   */
+  byPerson: publicProcedure
+    .input(
+      PaginationSchema.extend({
+        name: z.string().min(2).max(100),
+        contentType: z.nativeEnum(ContentType).optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { prisma } = ctx;
+      const { name, ...searchParams } = input;
+
+      try {
+        const cases = await prisma.contentCase.findMany({
+          where: {
+            OR: [{ perpetrators: { has: name } }, { victims: { has: name } }],
+          },
+          select: { id: true, caseName: true },
+        });
+
+        // Without a matching case, fall back to a plain text search on the name
+        const results = await contentService.search({
+          ...definedOnly(searchParams),
+          query: cases.length > 0 ? '' : name,
+          caseIds: cases.map((contentCase: { id: string }) => contentCase.id),
+          facets: ['contentType'],
+        });
+
+        return { ...results, person: name, cases };
+      } catch (error) {
+        handleSearchError(error, 'Failed to search content by person');
+      }
+    }),
+
+  /**
+   * Trending content for the Discover tab
+   */
+  trending: publicProcedure
+    .input(
+      z.object({
+        timeframe: z.enum(['day', 'week', 'month']).default('week'),
+        contentType: z.nativeEnum(ContentType).optional(),
+        limit: z.number().min(1).max(50).default(10),
+      })
+    )
+    .query(async ({ input }) => {
+      try {
+        const results = await contentService.getTrending(definedOnly(input));
+
+        return { results, total: results.length, timeframe: input.timeframe };
+      } catch (error) {
+        handleSearchError(error, 'Failed to get trending content');
+      }
+    }),
+
+  /**
+   * Content related to a given title
+   */
+  related: publicProcedure
+    .input(
+      z.object({
+        contentId: z.string().uuid(),
+        limit: z.number().min(1).max(20).default(10),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const results = await contentService.getRelatedContent(input.contentId, {
+          limit: input.limit,
+          ...(ctx.user ? { userId: ctx.user.id } : {}),
+        });
+
+        return { results, total: results.length };
+      } catch (error) {
+        handleSearchError(error, 'Failed to get related content');
+      }
+    }),
+
+  /**
+   * Start a full reindex of the content table (admin only)
+   */
+  startIndexing: adminProcedure
+    .input(
+      z
+        .object({
+          batchSize: z.number().min(50).max(5000).default(500),
+          clearExisting: z.boolean().default(false),
+        })
+        .default({})
+    )
+    .mutation(async ({ input }) => {
+      try {
+        const job = searchIndexer.startReindex(input);
+
+        return {
+          success: true,
+          data: job,
+          message: 'Indexing started',
+        };
+      } catch (error) {
+        handleSearchError(error, 'Failed to start indexing');
+      }
+    }),
+
+  /**
+   * Progress of an indexing job (admin only)
+   */
+  indexingStatus: adminProcedure
+    .input(z.object({ jobId: z.string().uuid() }))
+    .query(async ({ input }) => {
+      const job = searchIndexer.getJob(input.jobId);
+
+      if (!job) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Indexing job not found',
+        });
+      }
+
+      return {
+        success: true,
+        data: {
+          ...job,
+          progress:
+            job.totalDocuments > 0
+              ? Math.round((job.processedDocuments / job.totalDocuments) * 100)
+              : 0,
+        },
+      };
+    }),
+
+  /**
+   * Pending and running indexing jobs, plus recent history (admin only)
+   */
+  activeJobs: adminProcedure.query(async () => {
+    return {
+      success: true,
+      data: {
+        active: searchIndexer.getActiveJobs(),
+        recent: searchIndexer.getRecentJobs(),
+      },
+    };
+  }),
+
+  /**
+   * Stop an indexing job after its current batch (admin only)
+   */
+  cancelIndexing: adminProcedure
+    .input(z.object({ jobId: z.string().uuid() }))
+    .mutation(async ({ input }) => {
+      try {
+        const job = searchIndexer.cancelJob(input.jobId);
+
+        return {
+          success: true,
+          data: job,
+          message: 'Indexing job cancellation requested',
+        };
+      } catch (error) {
+        handleSearchError(error, 'Failed to cancel indexing job');
+      }
+    }),
+
+  /**
+   * Search engine health
+   */
+  health: publicProcedure.query(async () => {
+    const healthy = await searchService.healthCheck();
+
+    return {
+      success: true,
+      data: {
+        meilisearch: healthy,
+        timestamp: new Date().toISOString(),
+      },
+    };
+  }),
+});
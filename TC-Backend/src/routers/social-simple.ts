@@ -1,7 +1,17 @@
 // Simplified Social Router - Lists, friends, activity feeds
+import { Prisma } from '@prisma/client';
 import { z } from 'zod';
 import { router, protectedProcedure } from '../trpc';
 import { TRPCError } from '@trpc/server';
+import { FriendshipService } from '../services/social/friendship.service';
+import { ActivityFeedService } from '../services/social/activity-feed.service';
+import {
+  ACTIVITY_TYPES,
+  ActivityRecorderService,
+} from '../services/social/activity-recorder.service';
+import { AchievementService } from '../services/social/achievement.service';
+import { ListService } from '../services/social/list.service';
+import { PublicListService } from '../services/social/public-list.service';
 
 export const socialRouter = router({
   /**
@@ -29,6 +39,8 @@ export const socialRouter = router({
           },
         });
 
+        const slug = await new PublicListService(prisma).ensureSlug(customList);
+
         // Add content to list if provided
         if (input.contentIds && input.contentIds.length > 0) {
           await prisma.listItem.createMany({
@@ -36,10 +48,22 @@ export const socialRouter = router({
               listId: customList.id,
               contentId,
               orderIndex: index,
+              addedBy: user.id,
             })),
           });
         }
 
+        await new ActivityRecorderService(prisma).record(
+          user.id,
+          ACTIVITY_TYPES.CREATED_LIST,
+          {
+            listTitle: customList.title,
+            privacy: customList.privacy,
+            itemCount: input.contentIds?.length ?? 0,
+          },
+          { listId: customList.id }
+        );
+
         // Fetch the complete list with content
         const completeList = await prisma.customList.findUnique({
           where: { id: customList.id },
@@ -62,7 +86,7 @@ export const socialRouter = router({
 
         return {
           success: true,
-          data: completeList,
+          data: { ...completeList, slug },
           message: 'List created successfully',
         };
       } catch (error) {
@@ -90,12 +114,16 @@ export const socialRouter = router({
 
       try {
         const isOwnLists = userId === user.id;
-        const where: any = { userId };
+        // Own lists include lists shared with us as an editor
+        const where: Prisma.CustomListWhereInput = isOwnLists
+          ? { OR: [{ userId }, { collaborators: { some: { userId, status: 'ACCEPTED' } } }] }
+          : { userId };
 
-        // If viewing another user's lists, only show public and friends lists
+        // If viewing another user's lists, only show public lists, plus friends lists to friends
         if (!isOwnLists) {
+          const isFriend = await new FriendshipService(prisma).areFriends(user.id, userId);
           where.privacy = {
-            in: ['PUBLIC', 'FRIENDS'],
+            in: isFriend ? ['PUBLIC', 'FRIENDS'] : ['PUBLIC'],
           };
         }
 
@@ -169,6 +197,13 @@ export const socialRouter = router({
               orderBy: { orderIndex: 'asc' },
               include: {
                 content: true,
+                addedByProfile: {
+                  select: {
+                    userId: true,
+                    displayName: true,
+                    avatarUrl: true,
+                  },
+                },
               },
             },
           },
@@ -182,10 +217,12 @@ export const socialRouter = router({
         }
 
         // Check if user can view this list
+        const role = await new ListService(prisma).getRole(user.id, list);
         const canView =
-          list.userId === user.id ||
+          role !== null ||
           list.privacy === 'PUBLIC' ||
-          (list.privacy === 'FRIENDS'); // TODO: Add friend check
+          (list.privacy === 'FRIENDS' &&
+            (await new FriendshipService(prisma).areFriends(user.id, list.userId)));
 
         if (!canView) {
           throw new TRPCError({
@@ -196,7 +233,7 @@ export const socialRouter = router({
 
         return {
           success: true,
-          data: list,
+          data: { ...list, role },
         };
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -269,9 +306,11 @@ export const socialRouter = router({
           },
         });
 
+        const slug = await new PublicListService(prisma).ensureSlug(updatedList);
+
         return {
           success: true,
-          data: updatedList,
+          data: { ...updatedList, slug },
           message: 'List updated successfully',
         };
       } catch (error) {
@@ -341,228 +380,339 @@ export const socialRouter = router({
       z.object({
         listId: z.string().uuid(),
         contentId: z.string().uuid(),
-        position: z.number().min(0).optional(),
+        position: z.number().int().min(0).optional(),
         notes: z.string().optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
       const { user, prisma } = ctx;
+      const { listId, ...item } = input;
 
-      try {
-        // Verify list ownership
-        const list = await prisma.customList.findUnique({
-          where: { id: input.listId },
-        });
+      const listItem = await new ListService(prisma).addItem(user.id, listId, item);
 
-        if (!list) {
-          throw new TRPCError({
-            code: 'NOT_FOUND',
-            message: 'List not found',
-          });
-        }
+      return {
+        success: true,
+        data: listItem,
+        message: 'Content added to list',
+      };
+    }),
 
-        if (list.userId !== user.id) {
-          throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'You can only modify your own lists',
-          });
-        }
+  /**
+   * Add several content items to a list at once
+   */
+  bulkAddToList: protectedProcedure
+    .input(
+      z.object({
+        listId: z.string().uuid(),
+        contentIds: z.array(z.string().uuid()).min(1).max(100),
+        position: z.number().int().min(0).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { user, prisma } = ctx;
 
-        // Check if content already exists in list
-        const existingItem = await prisma.listItem.findUnique({
-          where: {
-            listId_contentId: {
-              listId: input.listId,
-              contentId: input.contentId,
-            },
-          },
-        });
+      const result = await new ListService(prisma).bulkAddItems(
+        user.id,
+        input.listId,
+        input.contentIds,
+        input.position
+      );
+
+      return {
+        success: true,
+        data: result,
+        message: `Added ${result.added.length} items to list`,
+      };
+    }),
 
-        if (existingItem) {
-          throw new TRPCError({
-            code: 'CONFLICT',
-            message: 'Content already exists in this list',
-          });
-        }
+  /**
+   * Remove content from list
+   */
+  removeFromList: protectedProcedure
+    .input(
+      z.object({
+        listId: z.string().uuid(),
+        contentId: z.string().uuid(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { user, prisma } = ctx;
 
-        // Get the next order position if not specified
-        const orderIndex = input.position ?? (
-          await prisma.listItem.count({ where: { listId: input.listId } })
-        );
+      await new ListService(prisma).removeItem(user.id, input.listId, input.contentId);
 
-        const listItem = await prisma.listItem.create({
-          data: {
-            listId: input.listId,
-            contentId: input.contentId,
-            orderIndex,
-            notes: input.notes,
-          },
-          include: {
-            content: {
-              select: {
-                id: true,
-                title: true,
-                posterUrl: true,
-                contentType: true,
-              },
-            },
-          },
-        });
+      return {
+        success: true,
+        message: 'Content removed from list',
+      };
+    }),
 
-        // Update list timestamp
-        await prisma.customList.update({
-          where: { id: input.listId },
-          data: { updatedAt: new Date() },
-        });
+  /**
+   * Move one list item to a new position
+   */
+  moveItem: protectedProcedure
+    .input(
+      z.object({
+        listId: z.string().uuid(),
+        contentId: z.string().uuid(),
+        position: z.number().int().min(0),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { user, prisma } = ctx;
 
-        return {
-          success: true,
-          data: listItem,
-          message: 'Content added to list',
-        };
-      } catch (error) {
-        if (error instanceof TRPCError) {
-          throw error;
-        }
+      const items = await new ListService(prisma).moveItem(
+        user.id,
+        input.listId,
+        input.contentId,
+        input.position
+      );
+
+      return {
+        success: true,
+        data: items,
+        message: 'List item moved',
+      };
+    }),
 
-        throw new TRPCError({
-          code: 'INTERNAL_SERVER_ERROR',
-          message: 'Failed to add content to list',
-        });
-      }
+  /**
+   * Reorder a whole list
+   */
+  reorderList: protectedProcedure
+    .input(
+      z.object({
+        listId: z.string().uuid(),
+        contentIds: z.array(z.string().uuid()).min(1).max(1000),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { user, prisma } = ctx;
+
+      const items = await new ListService(prisma).reorderList(
+        user.id,
+        input.listId,
+        input.contentIds
+      );
+
+      return {
+        success: true,
+        data: items,
+        message: 'List reordered',
+      };
     }),
 
   /**
-   * Remove content from list
+   * Get the change history of a list (owner only)
    */
-  removeFromList: protectedProcedure
+  getListHistory: protectedProcedure
     .input(
       z.object({
         listId: z.string().uuid(),
-        contentId: z.string().uuid(),
+        page: z.number().min(1).default(1),
+        limit: z.number().min(1).max(100).default(20),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { user, prisma } = ctx;
+      const { listId, page, limit } = input;
+
+      const { entries, total } = await new ListService(prisma).getHistory(user.id, listId, {
+        page,
+        limit,
+      });
+
+      return {
+        success: true,
+        data: entries,
+        pagination: {
+          page,
+          limit,
+          total,
+          hasMore: (page - 1) * limit + entries.length < total,
+        },
+      };
+    }),
+
+  /**
+   * Restore a list to how it was before a change (owner only)
+   */
+  revertList: protectedProcedure
+    .input(
+      z.object({
+        listId: z.string().uuid(),
+        historyId: z.string().uuid(),
       })
     )
     .mutation(async ({ ctx, input }) => {
       const { user, prisma } = ctx;
 
-      try {
-        // Verify list ownership
-        const list = await prisma.customList.findUnique({
-          where: { id: input.listId },
-        });
+      const items = await new ListService(prisma).revertToEntry(
+        user.id,
+        input.listId,
+        input.historyId
+      );
+
+      return {
+        success: true,
+        data: items,
+        message: 'List reverted',
+      };
+    }),
 
-        if (!list) {
-          throw new TRPCError({
-            code: 'NOT_FOUND',
-            message: 'List not found',
-          });
-        }
+  /**
+   * Invite a friend to edit a list (owner only)
+   */
+  inviteListEditor: protectedProcedure
+    .input(
+      z.object({
+        listId: z.string().uuid(),
+        userId: z.string().uuid(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { user, prisma } = ctx;
 
-        if (list.userId !== user.id) {
-          throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'You can only modify your own lists',
-          });
-        }
+      const invite = await new ListService(prisma).inviteEditor(
+        user.id,
+        input.listId,
+        input.userId
+      );
+
+      return {
+        success: true,
+        data: invite,
+        message: 'Invite sent',
+      };
+    }),
 
-        await prisma.listItem.delete({
-          where: {
-            listId_contentId: {
-              listId: input.listId,
-              contentId: input.contentId,
-            },
-          },
-        });
+  /**
+   * Accept or decline an invite to edit a list
+   */
+  respondToListInvite: protectedProcedure
+    .input(
+      z.object({
+        listId: z.string().uuid(),
+        accept: z.boolean(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { user, prisma } = ctx;
 
-        // Update list timestamp
-        await prisma.customList.update({
-          where: { id: input.listId },
-          data: { updatedAt: new Date() },
-        });
+      const collaborator = await new ListService(prisma).respondToInvite(
+        user.id,
+        input.listId,
+        input.accept
+      );
+
+      return {
+        success: true,
+        data: collaborator,
+        message: input.accept ? 'Invite accepted' : 'Invite declined',
+      };
+    }),
 
-        return {
-          success: true,
-          message: 'Content removed from list',
-        };
-      } catch (error) {
-        if (error instanceof TRPCError) {
-          throw error;
-        }
+  /**
+   * Remove an editor from a list, or leave a list you edit
+   */
+  removeListEditor: protectedProcedure
+    .input(
+      z.object({
+        listId: z.string().uuid(),
+        userId: z.string().uuid(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { user, prisma } = ctx;
 
-        throw new TRPCError({
-          code: 'INTERNAL_SERVER_ERROR',
-          message: 'Failed to remove content from list',
-        });
-      }
+      await new ListService(prisma).removeEditor(user.id, input.listId, input.userId);
+
+      return {
+        success: true,
+        message: 'Editor removed',
+      };
+    }),
+
+  /**
+   * Get the editors of a list
+   */
+  getListEditors: protectedProcedure
+    .input(z.object({ listId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const { user, prisma } = ctx;
+
+      const editors = await new ListService(prisma).listCollaborators(user.id, input.listId);
+
+      return {
+        success: true,
+        data: editors,
+      };
     }),
 
   /**
-   * Get activity feed
+   * Get invites to edit other users' lists
+   */
+  getListInvites: protectedProcedure.query(async ({ ctx }) => {
+    const { user, prisma } = ctx;
+
+    const invites = await new ListService(prisma).listPendingInvites(user.id);
+
+    return {
+      success: true,
+      data: invites,
+    };
+  }),
+
+  /**
+   * Get activity feed from friends
    */
   getActivityFeed: protectedProcedure
     .input(
       z.object({
-        page: z.number().min(1).default(1),
+        cursor: z.string().optional(),
         limit: z.number().min(1).max(100).default(20),
       })
     )
     .query(async ({ ctx, input }) => {
       const { user, prisma } = ctx;
-      const { page, limit } = input;
+      const { cursor, limit } = input;
 
       try {
-        const skip = (page - 1) * limit;
-
-        // Get recent social activities
-        const activities = await prisma.socialActivity.findMany({
-          where: {
-            userId: { not: user.id }, // Exclude current user's activities
-          },
-          skip,
-          take: limit,
-          orderBy: {
-            createdAt: 'desc',
-          },
-          include: {
-            userProfile: {
-              select: {
-                id: true,
-                displayName: true,
-                avatarUrl: true,
-              },
-            },
-            content: {
-              select: {
-                id: true,
-                title: true,
-                posterUrl: true,
-                contentType: true,
-              },
-            },
-            customList: {
-              select: {
-                id: true,
-                title: true,
-                privacy: true,
-              },
-            },
-          },
+        const { activities, nextCursor } = await new ActivityFeedService(prisma).getFeed(user.id, {
+          cursor,
+          limit,
         });
 
         return {
           success: true,
           data: activities,
           pagination: {
-            page,
             limit,
-            hasMore: activities.length === limit,
+            nextCursor,
+            hasMore: nextCursor !== null,
           },
         };
       } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
           message: 'Failed to retrieve activity feed',
         });
       }
     }),
-});
\ No newline at end of file
+
+  /**
+   * Get the current user's achievements
+   */
+  getAchievements: protectedProcedure.query(async ({ ctx }) => {
+    const { user, prisma } = ctx;
+
+    const achievements = await new AchievementService(prisma).getUserAchievements(user.id);
+
+    return {
+      success: true,
+      data: achievements,
+    };
+  }),
+});
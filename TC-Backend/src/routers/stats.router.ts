@@ -0,0 +1,57 @@
+// Stats Router - Viewing statistics and the Year in True Crime summary
+import { z } from 'zod';
+import { router, protectedProcedure } from '../trpc';
+import { StatsService } from '../services/social/stats.service';
+
+// Import prisma from context
+import { prisma } from '../context';
+
+// Initialize services
+const statsService = new StatsService(prisma);
+
+const yearSchema = z.number().int().min(1900).max(2100);
+
+export const statsRouter = router({
+  /**
+   * Get your hours per month, genres, cases, formats, platforms, streak and average
+   * rating for a year, or for all time
+   */
+  getStats: protectedProcedure
+    .input(z.object({ year: yearSchema.optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      const stats = await statsService.getStats(ctx.user.id, input?.year);
+
+      return {
+        success: true,
+        data: stats,
+      };
+    }),
+
+  /**
+   * Get your shareable Year in True Crime summary
+   */
+  getYearInReview: protectedProcedure
+    .input(z.object({ year: yearSchema }))
+    .query(async ({ ctx, input }) => {
+      const review = await statsService.getYearInReview(ctx.user.id, input.year);
+
+      return {
+        success: true,
+        data: review,
+      };
+    }),
+
+  /**
+   * Rebuild your stats from your whole viewing history
+   */
+  rebuild: protectedProcedure.mutation(async ({ ctx }) => {
+    await statsService.invalidate(ctx.user.id);
+    const stats = await statsService.getStats(ctx.user.id);
+
+    return {
+      success: true,
+      data: stats,
+      message: 'Stats rebuilt',
+    };
+  }),
+});
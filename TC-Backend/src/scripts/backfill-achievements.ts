@@ -0,0 +1,50 @@
+#!/usr/bin/env tsx
+
+/**
+ * TCWatch Achievement Backfill Script
+ *
+ * Grants achievements that existing users already qualify for based on their
+ * historical tracking, episode, friendship and challenge data. Safe to re-run:
+ * badges a user already has are skipped, and no notifications are sent.
+ *
+ * Usage:
+ *   npm run achievements:backfill [batchSize]
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { AchievementService } from '../services/social/achievement.service';
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const batchSize = Number(process.argv[2]) || 100;
+
+  console.log(`🏅 Backfilling achievements (batch size ${batchSize})...`);
+
+  const result = await new AchievementService(prisma).backfill({
+    batchSize,
+    onProgress: progress => {
+      console.log(
+        `   ${progress.usersProcessed} users processed, ${progress.achievementsAwarded} achievements awarded`
+      );
+    },
+  });
+
+  console.log(
+    `✅ Backfill complete: ${result.achievementsAwarded} achievements awarded to ${result.usersProcessed} users`
+  );
+
+  if (result.failedUsers.length > 0) {
+    console.warn(`⚠️ ${result.failedUsers.length} users failed: ${result.failedUsers.join(', ')}`);
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch(e => {
+    console.error('❌ Achievement backfill failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
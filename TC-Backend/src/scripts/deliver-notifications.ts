@@ -0,0 +1,63 @@
+#!/usr/bin/env tsx
+
+/**
+ * TCWatch Notification Delivery Script
+ *
+ * Sends queued push and email notifications, including ones held for quiet
+ * hours and ones due a retry. Run it every minute or so from cron, or pass
+ * --every to keep it running and deliver on an interval (in minutes). Only
+ * run one at a time.
+ *
+ * Usage:
+ *   npm run notifications:deliver
+ *   npm run notifications:deliver -- --every 1
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { NotificationDispatcher } from '../services/notification/notification-dispatcher.service';
+
+const prisma = new PrismaClient();
+
+async function deliver(dispatcher: NotificationDispatcher) {
+  const result = await dispatcher.deliverDue();
+  const total = Object.values(result).reduce((sum, count) => sum + count, 0);
+
+  if (total === 0) {
+    return;
+  }
+
+  console.log(
+    `📬 Sent ${result.sent}, skipped ${result.skipped}, failed ${result.failed}, ` +
+      `${result.retrying} to retry and ${result.held} held for quiet hours`
+  );
+}
+
+async function main() {
+  const dispatcher = new NotificationDispatcher(prisma);
+  const index = process.argv.indexOf('--every');
+  const everyMinutes = index >= 0 ? Number(process.argv[index + 1]) : NaN;
+
+  console.log('📨 Delivering due notifications...');
+  await deliver(dispatcher);
+
+  if (!Number.isFinite(everyMinutes) || everyMinutes <= 0) {
+    return;
+  }
+
+  console.log(`⏱️ Delivering every ${everyMinutes} minutes`);
+
+  // Keep going after a failed run; the next one may succeed
+  for (;;) {
+    await new Promise(resolve => setTimeout(resolve, everyMinutes * 60 * 1000));
+    await deliver(dispatcher).catch(e => console.error('❌ Delivering notifications failed:', e));
+  }
+}
+
+main()
+  .catch(e => {
+    console.error('❌ Delivering notifications failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
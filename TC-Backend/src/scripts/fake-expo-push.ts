@@ -0,0 +1,78 @@
+#!/usr/bin/env tsx
+
+/**
+ * TCWatch Fake Expo Push Server
+ *
+ * Local stand-in for Expo's push API. Logs every push it is sent and
+ * answers like Expo does, so push delivery can be tried end to end without
+ * a device. Tokens containing "Unregistered" are answered with
+ * DeviceNotRegistered, as Expo does for uninstalled apps.
+ *
+ * Point the backend at it with EXPO_PUSH_URL=http://localhost:4010/push/send
+ *
+ * Usage:
+ *   npm run notifications:fake-push
+ *   npm run notifications:fake-push -- --port 4010
+ */
+
+import http from 'http';
+import { randomUUID } from 'crypto';
+
+interface PushMessage {
+  to: string;
+  title?: string;
+  body?: string;
+  data?: Record<string, unknown>;
+}
+
+function ticketFor(message: PushMessage) {
+  if (message.to.includes('Unregistered')) {
+    return {
+      status: 'error',
+      message: `"${message.to}" is not a registered push notification recipient`,
+      details: { error: 'DeviceNotRegistered' },
+    };
+  }
+
+  return { status: 'ok', id: randomUUID() };
+}
+
+const index = process.argv.indexOf('--port');
+const port =
+  index >= 0 ? Number(process.argv[index + 1]) : Number(process.env.FAKE_EXPO_PUSH_PORT ?? 4010);
+
+const server = http.createServer((req, res) => {
+  if (req.method !== 'POST' || req.url !== '/push/send') {
+    res.writeHead(404).end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => (body += chunk));
+  req.on('end', () => {
+    let messages: PushMessage[];
+
+    try {
+      const parsed = JSON.parse(body) as PushMessage | PushMessage[];
+      messages = Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ errors: [{ code: 'VALIDATION_ERROR', message: 'Invalid JSON' }] }));
+      return;
+    }
+
+    messages.forEach(message =>
+      console.log(
+        `📱 ${message.to}: ${message.title ?? ''} — ${message.body ?? ''}`,
+        message.data ?? {}
+      )
+    );
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ data: messages.map(ticketFor) }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`🚀 Fake Expo push server listening on http://localhost:${port}/push/send`);
+});
@@ -0,0 +1,34 @@
+#!/usr/bin/env tsx
+
+/**
+ * TCWatch Data Export Purge Script
+ *
+ * Deletes data export archives from storage once their download window has
+ * passed. The export records stay so users can see past requests. Safe to run
+ * on a schedule.
+ *
+ * Usage:
+ *   npm run exports:purge
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { DataExportService } from '../services/account/data-export.service';
+
+const prisma = new PrismaClient();
+
+async function main() {
+  console.log('🗑️ Purging expired data exports...');
+
+  const purged = await new DataExportService(prisma).purgeExpiredExports();
+
+  console.log(`✅ Deleted ${purged} expired export archives`);
+}
+
+main()
+  .catch(e => {
+    console.error('❌ Purging data exports failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,58 @@
+#!/usr/bin/env tsx
+
+/**
+ * TCWatch Trending Recompute Script
+ *
+ * Rebuilds the day, week and month trending rankings from tracking,
+ * completions, ratings, list adds and detail views. Run it every 15 minutes
+ * or so from cron, or pass --every to keep it running and recompute on an
+ * interval (in minutes).
+ *
+ * Usage:
+ *   npm run trending:recompute
+ *   npm run trending:recompute -- --every 15
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { TrendingService } from '../services/content/trending.service';
+
+const prisma = new PrismaClient();
+
+async function recompute(service: TrendingService) {
+  console.log('🔥 Recomputing trending rankings...');
+
+  const ranked = await service.recompute();
+
+  console.log(
+    `✅ Ranked ${ranked.day} titles for today, ${ranked.week} this week and ${ranked.month} this month`
+  );
+}
+
+async function main() {
+  const service = new TrendingService(prisma);
+  const index = process.argv.indexOf('--every');
+  const everyMinutes = index >= 0 ? Number(process.argv[index + 1]) : NaN;
+
+  await recompute(service);
+
+  if (!Number.isFinite(everyMinutes) || everyMinutes <= 0) {
+    return;
+  }
+
+  console.log(`⏱️ Recomputing every ${everyMinutes} minutes`);
+
+  // Keep going after a failed run; the next one may succeed
+  for (;;) {
+    await new Promise(resolve => setTimeout(resolve, everyMinutes * 60 * 1000));
+    await recompute(service).catch(e => console.error('❌ Recomputing trending failed:', e));
+  }
+}
+
+main()
+  .catch(e => {
+    console.error('❌ Recomputing trending failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
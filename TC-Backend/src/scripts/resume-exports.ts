@@ -0,0 +1,35 @@
+#!/usr/bin/env tsx
+
+/**
+ * TCWatch Data Export Resume Script
+ *
+ * Finishes data exports that were interrupted by a restart or deploy. Users
+ * can't request a new export while one is still queued or running. Run it
+ * while no server is building exports, since exports still marked as running
+ * are built again.
+ *
+ * Usage:
+ *   npm run exports:resume
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { DataExportService } from '../services/account/data-export.service';
+
+const prisma = new PrismaClient();
+
+async function main() {
+  console.log('📦 Resuming data exports...');
+
+  const resumed = await new DataExportService(prisma).resumeExports();
+
+  console.log(`✅ Processed ${resumed} exports`);
+}
+
+main()
+  .catch(e => {
+    console.error('❌ Resuming data exports failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,35 @@
+#!/usr/bin/env tsx
+
+/**
+ * TCWatch History Import Resume Script
+ *
+ * Finishes watch history imports that were interrupted by a restart or deploy.
+ * Rows that were already matched are not processed again. Run it while no
+ * server is working on imports, since imports still marked as running are
+ * picked up again.
+ *
+ * Usage:
+ *   npm run imports:resume
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { HistoryImportService } from '../services/import/history-import.service';
+
+const prisma = new PrismaClient();
+
+async function main() {
+  console.log('📥 Resuming history imports...');
+
+  const resumed = await new HistoryImportService(prisma).resumeImports();
+
+  console.log(`✅ Processed ${resumed} imports`);
+}
+
+main()
+  .catch(e => {
+    console.error('❌ Resuming imports failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
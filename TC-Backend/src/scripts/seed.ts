@@ -534,19 +534,19 @@ async function createSocialActivities(users: any[], content: any[], lists: any[]
   const activitiesData = [
     {
       userId: users[0].userId,
-      activityType: "content_completed",
+      activityType: "completed",
       contentId: content[0].id,
-      activityData: JSON.stringify({ rating: 4, platform: "Netflix" })
+      activityData: JSON.stringify({ rating: 4 })
     },
     {
       userId: users[0].userId,
-      activityType: "list_created",
+      activityType: "created_list",
       listId: lists[0].id,
-      activityData: JSON.stringify({ listTitle: lists[0].title })
+      activityData: JSON.stringify({ listTitle: lists[0].title, privacy: lists[0].privacy })
     },
     {
       userId: users[1].userId,
-      activityType: "content_started",
+      activityType: "started",
       contentId: content[4].id,
       activityData: JSON.stringify({ platform: "HBO Max" })
     }
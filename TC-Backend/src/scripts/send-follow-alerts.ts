@@ -0,0 +1,56 @@
+#!/usr/bin/env tsx
+
+/**
+ * TCWatch Follow Alert Script
+ *
+ * Sends the new-content alerts content sync queued for people following
+ * cases, real people and TV series, batched into one notification per user.
+ * Run it every 15 minutes or so from cron, or pass --every to keep it running
+ * and send on an interval (in minutes).
+ *
+ * Usage:
+ *   npm run follows:send-alerts
+ *   npm run follows:send-alerts -- --every 15
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { FollowAlertService } from '../services/content/follow-alert.service';
+
+const prisma = new PrismaClient();
+
+async function send(service: FollowAlertService) {
+  console.log('🔔 Sending follow alerts...');
+
+  const sent = await service.sendPending();
+
+  console.log(`✅ Sent ${sent.alerts} alerts to ${sent.users} users`);
+}
+
+async function main() {
+  const service = new FollowAlertService(prisma);
+  const index = process.argv.indexOf('--every');
+  const everyMinutes = index >= 0 ? Number(process.argv[index + 1]) : NaN;
+
+  await send(service);
+
+  if (!Number.isFinite(everyMinutes) || everyMinutes <= 0) {
+    return;
+  }
+
+  console.log(`⏱️ Sending every ${everyMinutes} minutes`);
+
+  // Keep going after a failed run; the next one may succeed
+  for (;;) {
+    await new Promise(resolve => setTimeout(resolve, everyMinutes * 60 * 1000));
+    await send(service).catch(e => console.error('❌ Sending follow alerts failed:', e));
+  }
+}
+
+main()
+  .catch(e => {
+    console.error('❌ Sending follow alerts failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,55 @@
+#!/usr/bin/env tsx
+
+/**
+ * TCWatch Challenge Start Script
+ *
+ * Moves upcoming challenges to active once their start date passes and
+ * notifies everyone who joined them. Run it every few minutes from cron, or
+ * pass --every to keep it running and check on an interval (in minutes).
+ *
+ * Usage:
+ *   npm run challenges:start
+ *   npm run challenges:start -- --every 5
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { ChallengeService } from '../services/social/challenge.service';
+
+const prisma = new PrismaClient();
+
+async function start(service: ChallengeService) {
+  console.log('🏁 Starting due challenges...');
+
+  const started = await service.startDueChallenges();
+
+  console.log(`✅ Started ${started} challenges`);
+}
+
+async function main() {
+  const service = new ChallengeService(prisma);
+  const index = process.argv.indexOf('--every');
+  const everyMinutes = index >= 0 ? Number(process.argv[index + 1]) : NaN;
+
+  await start(service);
+
+  if (!Number.isFinite(everyMinutes) || everyMinutes <= 0) {
+    return;
+  }
+
+  console.log(`⏱️ Checking every ${everyMinutes} minutes`);
+
+  // Keep going after a failed run; the next one may succeed
+  for (;;) {
+    await new Promise(resolve => setTimeout(resolve, everyMinutes * 60 * 1000));
+    await start(service).catch(e => console.error('❌ Starting challenges failed:', e));
+  }
+}
+
+main()
+  .catch(e => {
+    console.error('❌ Starting challenges failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
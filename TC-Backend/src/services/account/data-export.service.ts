@@ -0,0 +1,297 @@
+// Data Export Service - Builds downloadable archives of a user's personal data
+import { DataExport, PrismaClient } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import { StorageService } from '../auth/storage.service';
+import { NotificationService } from '../notification/notification.service';
+import { createZip } from '../../utils/zip';
+import { EXPORT_FORMAT_VERSION, buildExportFiles, collectUserData } from './export-bundle';
+
+export const EXPORT_BUCKET = 'exports';
+
+// Archives are deleted from storage after this long
+export const EXPORT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Lifetime of each download link; a fresh link is issued every time the export is fetched
+export const DOWNLOAD_URL_TTL_SECONDS = 60 * 60;
+
+// One new export per day is plenty and keeps large accounts from hammering the database
+const EXPORT_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+const MAX_ARCHIVE_BYTES = 50 * 1024 * 1024;
+
+const EXPORT_NOTIFICATION_TYPE = 'data_export_ready';
+
+export type StorageClient = Pick<StorageService, 'uploadFile' | 'createSignedUrl' | 'deleteFile'>;
+
+export class DataExportService {
+  private storage: StorageClient | undefined;
+  private notifications: NotificationService;
+
+  constructor(
+    private prisma: PrismaClient,
+    storage?: StorageClient | undefined
+  ) {
+    this.storage = storage;
+    this.notifications = new NotificationService(prisma);
+  }
+
+  /**
+   * Queue an export of everything stored for the user. Call runInBackground to build it.
+   */
+  async requestExport(userId: string): Promise<DataExport> {
+    try {
+      const recent = await this.prisma.dataExport.findFirst({
+        where: {
+          userId,
+          OR: [
+            { status: { in: ['PENDING', 'RUNNING'] } },
+            {
+              status: 'COMPLETED',
+              createdAt: { gte: new Date(Date.now() - EXPORT_COOLDOWN_MS) },
+            },
+          ],
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      if (recent?.status === 'PENDING' || recent?.status === 'RUNNING') {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'Your export is already being prepared',
+        });
+      }
+
+      if (recent) {
+        throw new TRPCError({
+          code: 'TOO_MANY_REQUESTS',
+          message: 'You can request one export per day. Download your latest export instead.',
+        });
+      }
+
+      return await this.prisma.dataExport.create({
+        data: { userId, formatVersion: EXPORT_FORMAT_VERSION },
+      });
+    } catch (error) {
+      this.rethrow(error, 'Failed to request data export');
+    }
+  }
+
+  /**
+   * Build an export without holding up the request that asked for it
+   */
+  runInBackground(exportId: string): void {
+    setImmediate(() => {
+      this.processExport(exportId).catch(error => {
+        console.error(`Data export ${exportId} failed:`, error);
+      });
+    });
+  }
+
+  /**
+   * Collect the user's data, zip it and upload the archive to the private exports bucket
+   */
+  async processExport(exportId: string): Promise<void> {
+    const claimed = await this.prisma.dataExport.updateMany({
+      where: { id: exportId, status: 'PENDING' },
+      data: { status: 'RUNNING' },
+    });
+
+    if (claimed.count === 0) {
+      return;
+    }
+
+    const dataExport = await this.prisma.dataExport.findUniqueOrThrow({
+      where: { id: exportId },
+    });
+
+    try {
+      const bundle = await collectUserData(this.prisma, dataExport.userId);
+      const archive = createZip(buildExportFiles(bundle), bundle.exportedAt);
+
+      const upload = await this.getStorage().uploadFile(
+        archive,
+        'tcwatch-export.zip',
+        'application/zip',
+        {
+          bucket: EXPORT_BUCKET,
+          folder: `users/${dataExport.userId}`,
+          allowedMimeTypes: ['application/zip'],
+          maxSizeBytes: MAX_ARCHIVE_BYTES,
+        }
+      );
+
+      const completedAt = new Date();
+
+      await this.prisma.dataExport.update({
+        where: { id: exportId },
+        data: {
+          status: 'COMPLETED',
+          filePath: upload.path,
+          fileSize: upload.size,
+          completedAt,
+          expiresAt: new Date(completedAt.getTime() + EXPORT_RETENTION_MS),
+        },
+      });
+
+      await this.notifications.notify({
+        type: EXPORT_NOTIFICATION_TYPE,
+        userId: dataExport.userId,
+        payload: { exportId },
+      });
+    } catch (error) {
+      console.error(`Data export ${exportId} failed:`, error);
+      await this.prisma.dataExport.update({
+        where: { id: exportId },
+        data: {
+          status: 'FAILED',
+          completedAt: new Date(),
+          errorMessage: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  /**
+   * Put exports interrupted by a restart back in the queue and build everything queued.
+   * Until this runs, the user can't request a new export.
+   */
+  async resumeExports(): Promise<number> {
+    await this.prisma.dataExport.updateMany({
+      where: { status: 'RUNNING' },
+      data: { status: 'PENDING' },
+    });
+
+    const queued = await this.prisma.dataExport.findMany({
+      where: { status: 'PENDING' },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    });
+
+    for (const { id } of queued) {
+      await this.processExport(id);
+    }
+
+    return queued.length;
+  }
+
+  /**
+   * Export status, with a short-lived download link once the archive is ready
+   */
+  async getExport(userId: string, exportId: string) {
+    try {
+      const dataExport = await this.prisma.dataExport.findUnique({
+        where: { id: exportId },
+      });
+
+      if (!dataExport || dataExport.userId !== userId) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Export not found',
+        });
+      }
+
+      const expired = !dataExport.expiresAt || dataExport.expiresAt <= new Date();
+      let downloadUrl: string | null = null;
+
+      if (dataExport.status === 'COMPLETED' && dataExport.filePath && !expired) {
+        downloadUrl = await this.getStorage().createSignedUrl(
+          dataExport.filePath,
+          DOWNLOAD_URL_TTL_SECONDS,
+          EXPORT_BUCKET
+        );
+
+        if (!downloadUrl) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to create download link',
+          });
+        }
+      }
+
+      return {
+        id: dataExport.id,
+        status: dataExport.status,
+        formatVersion: dataExport.formatVersion,
+        fileSize: dataExport.fileSize,
+        createdAt: dataExport.createdAt,
+        completedAt: dataExport.completedAt,
+        expiresAt: dataExport.expiresAt,
+        expired: dataExport.status === 'COMPLETED' && expired,
+        downloadUrl,
+        downloadUrlExpiresAt: downloadUrl
+          ? new Date(Date.now() + DOWNLOAD_URL_TTL_SECONDS * 1000)
+          : null,
+      };
+    } catch (error) {
+      this.rethrow(error, 'Failed to fetch data export');
+    }
+  }
+
+  /**
+   * The user's exports, newest first
+   */
+  async listExports(userId: string) {
+    try {
+      return await this.prisma.dataExport.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: 10,
+        select: {
+          id: true,
+          status: true,
+          formatVersion: true,
+          fileSize: true,
+          createdAt: true,
+          completedAt: true,
+          expiresAt: true,
+        },
+      });
+    } catch (error) {
+      this.rethrow(error, 'Failed to fetch data exports');
+    }
+  }
+
+  /**
+   * Delete archives past their expiry from storage. The export rows are kept as a record.
+   */
+  async purgeExpiredExports(): Promise<number> {
+    const expired = await this.prisma.dataExport.findMany({
+      where: { filePath: { not: null }, expiresAt: { lte: new Date() } },
+      select: { id: true, filePath: true },
+    });
+
+    let purged = 0;
+
+    for (const dataExport of expired) {
+      const deleted = await this.getStorage().deleteFile(dataExport.filePath!, EXPORT_BUCKET);
+
+      if (deleted) {
+        await this.prisma.dataExport.update({
+          where: { id: dataExport.id },
+          data: { filePath: null },
+        });
+        purged++;
+      }
+    }
+
+    return purged;
+  }
+
+  // Created on first use so the service can be constructed without storage credentials
+  private getStorage(): StorageClient {
+    this.storage ??= new StorageService();
+    return this.storage;
+  }
+
+  private rethrow(error: unknown, message: string): never {
+    if (error instanceof TRPCError) {
+      throw error;
+    }
+
+    console.error(`${message}:`, error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message,
+    });
+  }
+}
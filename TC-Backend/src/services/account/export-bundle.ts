@@ -0,0 +1,483 @@
+// Export Bundle - Collects a user's data and lays it out as JSON and CSV files
+import { PrismaClient } from '@prisma/client';
+import { ZipEntry } from '../../utils/zip';
+
+// Bump when fields are renamed or removed so consumers can tell bundles apart
+export const EXPORT_FORMAT_VERSION = 1;
+
+const CONTENT_SELECT = {
+  id: true,
+  title: true,
+  contentType: true,
+  releaseDate: true,
+} as const;
+
+const PERSON_SELECT = {
+  userId: true,
+  displayName: true,
+} as const;
+
+export type ExportBundle = Awaited<ReturnType<typeof collectUserData>>;
+
+/**
+ * Everything stored for a user, read in one pass. Other users appear only by ID and
+ * display name.
+ */
+export async function collectUserData(prisma: PrismaClient, userId: string) {
+  const [
+    profile,
+    library,
+    episodeProgress,
+    lists,
+    listCollaborations,
+    friendships,
+    activities,
+    notifications,
+    challenges,
+    achievements,
+    historyImports,
+    reviews,
+    follows,
+    pushTokens,
+  ] = await Promise.all([
+    prisma.userProfile.findUnique({ where: { userId } }),
+    prisma.userContent.findMany({
+      where: { userId },
+      orderBy: { dateAdded: 'asc' },
+      include: { content: { select: CONTENT_SELECT } },
+    }),
+    prisma.episodeProgress.findMany({
+      where: { userId },
+      orderBy: [{ contentId: 'asc' }, { seasonNumber: 'asc' }, { episodeNumber: 'asc' }],
+      include: { content: { select: CONTENT_SELECT } },
+    }),
+    prisma.customList.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        listItems: {
+          orderBy: { orderIndex: 'asc' },
+          include: { content: { select: CONTENT_SELECT } },
+        },
+      },
+    }),
+    prisma.listCollaborator.findMany({
+      where: { userId },
+      include: { customList: { select: { id: true, title: true } } },
+    }),
+    prisma.friendship.findMany({
+      where: { OR: [{ requesterId: userId }, { addresseeId: userId }] },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        requester: { select: PERSON_SELECT },
+        addressee: { select: PERSON_SELECT },
+      },
+    }),
+    prisma.socialActivity.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.notification.findMany({
+      where: { userId },
+      orderBy: { sentAt: 'asc' },
+    }),
+    prisma.challengeParticipant.findMany({
+      where: { userId },
+      orderBy: { joinedAt: 'asc' },
+      include: {
+        challenge: {
+          select: { id: true, title: true, challengeType: true, startDate: true, endDate: true },
+        },
+        progress: true,
+      },
+    }),
+    prisma.userAchievement.findMany({
+      where: { userId },
+      orderBy: { earnedAt: 'asc' },
+    }),
+    prisma.historyImport.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.review.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      include: { content: { select: CONTENT_SELECT } },
+    }),
+    prisma.follow.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        contentCase: { select: { id: true, caseName: true } },
+        content: { select: CONTENT_SELECT },
+      },
+    }),
+    prisma.pushToken.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+
+  return {
+    formatVersion: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date(),
+    userId,
+    profile: profile && {
+      displayName: profile.displayName,
+      avatarUrl: profile.avatarUrl,
+      interests: profile.interests,
+      createdAt: profile.createdAt,
+      updatedAt: profile.updatedAt,
+    },
+    settings: {
+      privacy: profile?.privacySettings ?? null,
+      notifications: profile?.notificationSettings ?? null,
+    },
+    library: library.map(item => ({
+      content: item.content,
+      status: item.status,
+      rating: item.rating,
+      notes: item.notes,
+      tags: item.tags,
+      platformWatched: item.platformWatched,
+      dateAdded: item.dateAdded,
+      dateStarted: item.dateStarted,
+      dateCompleted: item.dateCompleted,
+      updatedAt: item.updatedAt,
+    })),
+    episodeProgress: episodeProgress.map(episode => ({
+      content: episode.content,
+      seasonNumber: episode.seasonNumber,
+      episodeNumber: episode.episodeNumber,
+      watched: episode.watched,
+      watchedAt: episode.watchedAt,
+    })),
+    lists: lists.map(list => ({
+      id: list.id,
+      title: list.title,
+      description: list.description,
+      privacy: list.privacy,
+      slug: list.slug,
+      viewCount: list.viewCount,
+      forkCount: list.forkCount,
+      forkedFromId: list.forkedFromId,
+      createdAt: list.createdAt,
+      updatedAt: list.updatedAt,
+      items: list.listItems.map(item => ({
+        position: item.orderIndex,
+        content: item.content,
+        notes: item.notes,
+        addedBy: item.addedBy,
+      })),
+    })),
+    listCollaborations: listCollaborations.map(collaboration => ({
+      list: collaboration.customList,
+      status: collaboration.status,
+      invitedAt: collaboration.invitedAt,
+      acceptedAt: collaboration.acceptedAt,
+    })),
+    friendships: friendships.map(friendship => {
+      const sent = friendship.requesterId === userId;
+
+      return {
+        friend: sent ? friendship.addressee : friendship.requester,
+        direction: sent ? 'sent' : 'received',
+        status: friendship.status,
+        createdAt: friendship.createdAt,
+        updatedAt: friendship.updatedAt,
+      };
+    }),
+    activities: activities.map(activity => ({
+      activityType: activity.activityType,
+      contentId: activity.contentId,
+      listId: activity.listId,
+      activityData: activity.activityData,
+      createdAt: activity.createdAt,
+    })),
+    notifications: notifications.map(notification => ({
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      data: notification.data,
+      read: notification.read,
+      sentAt: notification.sentAt,
+      readAt: notification.readAt,
+    })),
+    challenges: challenges.map(participant => ({
+      challenge: participant.challenge,
+      status: participant.status,
+      completedCount: participant.completedCount,
+      totalPoints: participant.totalPoints,
+      joinedAt: participant.joinedAt,
+      completedAt: participant.completedAt,
+      progress: participant.progress.map(progress => ({
+        contentId: progress.contentId,
+        completed: progress.completed,
+        completedAt: progress.completedAt,
+        points: progress.points,
+      })),
+    })),
+    achievements: achievements.map(achievement => ({
+      achievementType: achievement.achievementType,
+      achievementData: achievement.achievementData,
+      earnedAt: achievement.earnedAt,
+    })),
+    historyImports: historyImports.map(historyImport => ({
+      source: historyImport.source,
+      fileName: historyImport.fileName,
+      status: historyImport.status,
+      totalRows: historyImport.totalRows,
+      importedRows: historyImport.importedRows,
+      unmatchedRows: historyImport.unmatchedRows,
+      createdAt: historyImport.createdAt,
+      completedAt: historyImport.completedAt,
+    })),
+    reviews: reviews.map(review => ({
+      content: review.content,
+      rating: review.rating,
+      body: review.body,
+      hasSpoilers: review.hasSpoilers,
+      visibility: review.visibility,
+      helpfulCount: review.helpfulCount,
+      hidden: review.hiddenAt !== null,
+      createdAt: review.createdAt,
+      editedAt: review.editedAt,
+    })),
+    follows: follows.map(follow => ({
+      targetType: follow.targetType,
+      case: follow.contentCase,
+      series: follow.content,
+      person: follow.personWikidataId
+        ? { wikidataId: follow.personWikidataId, name: follow.personName }
+        : null,
+      createdAt: follow.createdAt,
+    })),
+    pushTokens: pushTokens.map(pushToken => ({
+      token: pushToken.token,
+      platform: pushToken.platform,
+      createdAt: pushToken.createdAt,
+      updatedAt: pushToken.updatedAt,
+      disabledAt: pushToken.disabledAt,
+    })),
+  };
+}
+
+/**
+ * Files in the archive: the full bundle as JSON, a CSV per table for spreadsheets
+ * and a short README
+ */
+export function buildExportFiles(bundle: ExportBundle): ZipEntry[] {
+  return [
+    { name: 'README.txt', data: readme(bundle) },
+    { name: 'tcwatch-data.json', data: JSON.stringify(bundle, null, 2) },
+    {
+      name: 'csv/library.csv',
+      data: toCsv(
+        [
+          'content_id',
+          'title',
+          'type',
+          'status',
+          'rating',
+          'notes',
+          'tags',
+          'platform',
+          'date_added',
+          'date_started',
+          'date_completed',
+        ],
+        bundle.library.map(item => [
+          item.content.id,
+          item.content.title,
+          item.content.contentType,
+          item.status,
+          item.rating,
+          item.notes,
+          item.tags,
+          item.platformWatched,
+          item.dateAdded,
+          item.dateStarted,
+          item.dateCompleted,
+        ])
+      ),
+    },
+    {
+      name: 'csv/episode-progress.csv',
+      data: toCsv(
+        ['content_id', 'title', 'season', 'episode', 'watched', 'watched_at'],
+        bundle.episodeProgress.map(episode => [
+          episode.content.id,
+          episode.content.title,
+          episode.seasonNumber,
+          episode.episodeNumber,
+          episode.watched,
+          episode.watchedAt,
+        ])
+      ),
+    },
+    {
+      name: 'csv/lists.csv',
+      data: toCsv(
+        ['list_id', 'list_title', 'privacy', 'position', 'content_id', 'title', 'notes'],
+        bundle.lists.flatMap(list =>
+          list.items.map(item => [
+            list.id,
+            list.title,
+            list.privacy,
+            item.position + 1,
+            item.content.id,
+            item.content.title,
+            item.notes,
+          ])
+        )
+      ),
+    },
+    {
+      name: 'csv/reviews.csv',
+      data: toCsv(
+        ['content_id', 'title', 'rating', 'review', 'spoilers', 'visibility', 'created_at'],
+        bundle.reviews.map(review => [
+          review.content.id,
+          review.content.title,
+          review.rating,
+          review.body,
+          review.hasSpoilers,
+          review.visibility,
+          review.createdAt,
+        ])
+      ),
+    },
+    {
+      name: 'csv/friendships.csv',
+      data: toCsv(
+        ['friend_id', 'friend_name', 'direction', 'status', 'created_at'],
+        bundle.friendships.map(friendship => [
+          friendship.friend.userId,
+          friendship.friend.displayName,
+          friendship.direction,
+          friendship.status,
+          friendship.createdAt,
+        ])
+      ),
+    },
+    {
+      name: 'csv/activities.csv',
+      data: toCsv(
+        ['activity_type', 'content_id', 'list_id', 'details', 'created_at'],
+        bundle.activities.map(activity => [
+          activity.activityType,
+          activity.contentId,
+          activity.listId,
+          activity.activityData,
+          activity.createdAt,
+        ])
+      ),
+    },
+    {
+      name: 'csv/notifications.csv',
+      data: toCsv(
+        ['type', 'title', 'message', 'read', 'sent_at', 'read_at'],
+        bundle.notifications.map(notification => [
+          notification.type,
+          notification.title,
+          notification.message,
+          notification.read,
+          notification.sentAt,
+          notification.readAt,
+        ])
+      ),
+    },
+    {
+      name: 'csv/challenges.csv',
+      data: toCsv(
+        [
+          'challenge_id',
+          'title',
+          'type',
+          'status',
+          'completed_count',
+          'total_points',
+          'joined_at',
+          'completed_at',
+        ],
+        bundle.challenges.map(participant => [
+          participant.challenge.id,
+          participant.challenge.title,
+          participant.challenge.challengeType,
+          participant.status,
+          participant.completedCount,
+          participant.totalPoints,
+          participant.joinedAt,
+          participant.completedAt,
+        ])
+      ),
+    },
+    {
+      name: 'csv/follows.csv',
+      data: toCsv(
+        ['target_type', 'target_id', 'target_name', 'created_at'],
+        bundle.follows.map(follow => [
+          follow.targetType,
+          follow.case?.id ?? follow.series?.id ?? follow.person?.wikidataId,
+          follow.case?.caseName ?? follow.series?.title ?? follow.person?.name,
+          follow.createdAt,
+        ])
+      ),
+    },
+    {
+      name: 'csv/achievements.csv',
+      data: toCsv(
+        ['achievement_type', 'details', 'earned_at'],
+        bundle.achievements.map(achievement => [
+          achievement.achievementType,
+          achievement.achievementData,
+          achievement.earnedAt,
+        ])
+      ),
+    },
+  ];
+}
+
+/**
+ * RFC 4180 CSV with a header row. Dates are ISO 8601, arrays are joined with "; " and
+ * objects are written as JSON.
+ */
+export function toCsv(columns: string[], rows: unknown[][]): string {
+  return [columns, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function csvCell(value: unknown): string {
+  let text: string;
+
+  if (value === null || value === undefined) {
+    text = '';
+  } else if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (Array.isArray(value)) {
+    text = value.join('; ');
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else if (typeof value === 'string') {
+    // Keep spreadsheets from evaluating user-written text as a formula
+    text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  } else {
+    text = String(value);
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function readme(bundle: ExportBundle): string {
+  return [
+    'TCWatch data export',
+    '',
+    `Exported: ${bundle.exportedAt.toISOString()}`,
+    `Format version: ${bundle.formatVersion}`,
+    '',
+    'tcwatch-data.json  Everything in this export, including settings and imports',
+    'csv/               The same records as spreadsheets, one file per kind of data',
+    '',
+    'Other people appear only by their user ID and display name.',
+    '',
+  ].join('\n');
+}
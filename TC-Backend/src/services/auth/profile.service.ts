@@ -465,6 +465,7 @@ export class ProfileService {
         droppedCount,
         listsCount,
         friendsCount,
+        achievementsCount,
       ] = await Promise.all([
         this.prisma.userProfile.findUnique({
           where: { userId },
@@ -492,6 +493,7 @@ export class ProfileService {
             ]
           }
         }),
+        this.prisma.userAchievement.count({ where: { userId } }),
       ]);
 
       if (!profile) {
@@ -509,7 +511,7 @@ export class ProfileService {
         droppedCount,
         listsCount,
         friendsCount,
-        achievementsCount: 0, // TODO: Implement achievements
+        achievementsCount,
         joinedDate: profile.createdAt,
         lastActiveDate: profile.updatedAt,
       };
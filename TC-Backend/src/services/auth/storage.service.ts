@@ -211,16 +211,16 @@ export class StorageService {
           search: path.basename(filePath),
         });
 
-      if (error || !data || data.length === 0) {
+      const fileInfo = data?.[0];
+      if (error !== null || !fileInfo) {
         return null;
       }
 
-      const fileInfo = data[0];
       return {
         name: fileInfo.name,
         size: fileInfo.metadata?.size || 0,
         mimeType: fileInfo.metadata?.mimetype || 'application/octet-stream',
-        lastModified: new Date(fileInfo.updated_at),
+        ...(fileInfo.updated_at && { lastModified: new Date(fileInfo.updated_at) }),
       };
     } catch (error) {
       console.error('Failed to get file metadata:', error);
@@ -270,8 +270,8 @@ export class StorageService {
       const { data, error } = await this.supabase.storage
         .from(targetBucket)
         .list(folderPath, {
-          limit,
-          offset,
+          ...(limit !== undefined && { limit }),
+          ...(offset !== undefined && { offset }),
         });
 
       if (error) {
@@ -285,7 +285,7 @@ export class StorageService {
         name: file.name,
         size: file.metadata?.size || 0,
         mimeType: file.metadata?.mimetype || 'application/octet-stream',
-        lastModified: new Date(file.updated_at),
+        ...(file.updated_at && { lastModified: new Date(file.updated_at) }),
       }));
     } catch (error) {
       if (error instanceof TRPCError) {
@@ -420,6 +420,7 @@ export class StorageService {
       'application/pdf': ['.pdf'],
       'text/plain': ['.txt'],
       'application/json': ['.json'],
+      'application/zip': ['.zip'],
     };
 
     const extensions: string[] = [];
@@ -451,6 +452,12 @@ export class StorageService {
           allowedMimeTypes: ['*/*'],
           fileSizeLimit: 50 * 1024 * 1024, // 50MB
         },
+        {
+          name: 'exports',
+          public: false,
+          allowedMimeTypes: ['application/zip'],
+          fileSizeLimit: 50 * 1024 * 1024, // 50MB
+        },
       ];
 
       for (const bucket of buckets) {
@@ -0,0 +1,579 @@
+// Bulk Tracking Service - Library changes across many titles, with undo
+import { Prisma, PrismaClient, SocialActivity, TrackingStatus, UserContent } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import {
+  ACTIVITY_COALESCE_WINDOW_MS,
+  ACTIVITY_TYPES,
+  ActivityRecorderService,
+} from '../social/activity-recorder.service';
+import { AchievementService } from '../social/achievement.service';
+import { SearchIndexerService } from '../search/search-indexer.service';
+import { ChallengeService } from '../social/challenge.service';
+
+type Tx = Prisma.TransactionClient;
+
+export type BulkOperation =
+  | { type: 'status'; status: TrackingStatus }
+  | { type: 'rating'; rating: number | null }
+  | { type: 'tags'; add?: string[] | undefined; remove?: string[] | undefined }
+  | { type: 'remove' };
+
+export type BulkSkipReason = 'not_found' | 'not_tracked' | 'unchanged';
+
+export interface BulkTrackResult {
+  changed: string[];
+  skipped: Array<{ contentId: string; reason: BulkSkipReason }>;
+  // Null when nothing changed, so there is nothing to undo
+  undoToken: string | null;
+  undoExpiresAt: Date | null;
+}
+
+export interface UndoResult {
+  restored: string[];
+  // Titles changed again after the bulk operation are left as they are
+  conflicts: string[];
+}
+
+// How long a bulk change can be undone
+export const UNDO_WINDOW_MS = 10 * 60 * 1000;
+
+export const MAX_BULK_ITEMS = 100;
+
+// Activities a tracking change can write
+const TRACKING_ACTIVITY_TYPES = [
+  ACTIVITY_TYPES.STARTED,
+  ACTIVITY_TYPES.COMPLETED,
+  ACTIVITY_TYPES.RATED,
+];
+
+// Everything about a library entry the user can change, as stored in the snapshot
+interface SavedUserContent {
+  status: TrackingStatus;
+  rating: number | null;
+  notes: string | null;
+  tags: string[];
+  platformWatched: string | null;
+  dateAdded: string;
+  dateStarted: string | null;
+  dateCompleted: string | null;
+}
+
+interface SavedEpisode {
+  seasonNumber: number;
+  episodeNumber: number;
+  watched: boolean;
+  watchedAt: string | null;
+}
+
+interface UndoSnapshot {
+  items: Array<{
+    contentId: string;
+    before: SavedUserContent | null;
+    // updatedAt right after the change, null if the entry was removed
+    after: string | null;
+  }>;
+  // Episode progress of titles whose episodes were marked watched
+  episodes: Array<{ contentId: string; rows: SavedEpisode[] }>;
+  // Challenge participations a completion was credited to
+  challenges: Array<{ contentId: string; participantIds: string[] }>;
+  activities: {
+    created: Array<{ id: string; contentId: string | null }>;
+    updated: Array<{
+      id: string;
+      contentId: string | null;
+      activityData: Prisma.JsonValue;
+      lastActivityAt: string;
+    }>;
+  };
+}
+
+type EntryChanges = Partial<
+  Pick<UserContent, 'status' | 'rating' | 'tags' | 'dateStarted' | 'dateCompleted'>
+>;
+
+interface PlannedChange {
+  contentId: string;
+  before: UserContent | null;
+  after: UserContent | null;
+}
+
+export class BulkTrackingService {
+  private activityRecorder: ActivityRecorderService;
+
+  constructor(
+    private prisma: PrismaClient,
+    private searchIndexer: SearchIndexerService = new SearchIndexerService(prisma)
+  ) {
+    this.activityRecorder = new ActivityRecorderService(prisma);
+  }
+
+  /**
+   * Apply one change to many library entries in a single transaction. Returns an undo
+   * token that restores every affected entry for the next few minutes.
+   */
+  async bulkTrack(
+    userId: string,
+    contentIds: string[],
+    operation: BulkOperation
+  ): Promise<BulkTrackResult> {
+    const ids = Array.from(new Set(contentIds));
+
+    if (ids.length > MAX_BULK_ITEMS) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: `You can change up to ${MAX_BULK_ITEMS} titles at once`,
+      });
+    }
+
+    try {
+      const { changes, skipped, undo } = await this.prisma.$transaction(async tx => {
+        const [contents, existing] = await Promise.all([
+          tx.content.findMany({
+            where: { id: { in: ids } },
+            select: { id: true, totalSeasons: true, totalEpisodes: true },
+          }),
+          tx.userContent.findMany({ where: { userId, contentId: { in: ids } } }),
+        ]);
+
+        const contentById = new Map(contents.map(content => [content.id, content]));
+        const existingById = new Map(existing.map(entry => [entry.contentId, entry]));
+        const changes: PlannedChange[] = [];
+        const skipped: BulkTrackResult['skipped'] = [];
+        const episodes: UndoSnapshot['episodes'] = [];
+
+        for (const contentId of ids) {
+          const content = contentById.get(contentId);
+          const before = existingById.get(contentId) ?? null;
+
+          if (!content) {
+            skipped.push({ contentId, reason: 'not_found' });
+            continue;
+          }
+
+          if (!before && operation.type !== 'status') {
+            skipped.push({ contentId, reason: 'not_tracked' });
+            continue;
+          }
+
+          const data = this.changeFor(before, operation);
+
+          if (data === undefined) {
+            skipped.push({ contentId, reason: 'unchanged' });
+            continue;
+          }
+
+          let after: UserContent | null = null;
+
+          if (data === null) {
+            await tx.userContent.delete({ where: { id: before!.id } });
+          } else if (before) {
+            after = await tx.userContent.update({ where: { id: before.id }, data });
+          } else {
+            // Only status changes reach here for untracked titles
+            after = await tx.userContent.create({
+              data: { ...data, userId, contentId, status: data.status! },
+            });
+          }
+
+          // Finishing a single-season series marks its episodes watched, like finishing
+          // the season marks the series finished
+          if (
+            operation.type === 'status' &&
+            operation.status === 'COMPLETED' &&
+            content.totalSeasons === 1 &&
+            content.totalEpisodes
+          ) {
+            episodes.push({
+              contentId,
+              rows: await this.markSeasonWatched(tx, userId, contentId, content.totalEpisodes),
+            });
+          }
+
+          changes.push({ contentId, before, after });
+        }
+
+        if (changes.length === 0) {
+          return { changes, skipped, undo: null };
+        }
+
+        // Tokens are short-lived, so clear out the user's old ones as new ones are made
+        await tx.libraryUndo.deleteMany({ where: { userId, expiresAt: { lt: new Date() } } });
+
+        const snapshot: UndoSnapshot = {
+          items: changes.map(change => ({
+            contentId: change.contentId,
+            before: change.before && saveUserContent(change.before),
+            after: change.after?.updatedAt.toISOString() ?? null,
+          })),
+          episodes,
+          challenges: [],
+          activities: { created: [], updated: [] },
+        };
+
+        const undo = await tx.libraryUndo.create({
+          data: {
+            userId,
+            operation: operation.type,
+            snapshot: snapshot as unknown as Prisma.InputJsonValue,
+            expiresAt: new Date(Date.now() + UNDO_WINDOW_MS),
+          },
+        });
+
+        return { changes, skipped, undo: { record: undo, snapshot } };
+      });
+
+      if (undo) {
+        await this.afterChanges(userId, changes, undo.record.id, undo.snapshot);
+
+        // Tags aren't indexed; every other change can move a title's rating or tracking count
+        if (operation.type !== 'tags') {
+          this.searchIndexer.queueIndexContent(changes.map(change => change.contentId));
+        }
+      }
+
+      return {
+        changed: changes.map(change => change.contentId),
+        skipped,
+        undoToken: undo?.record.id ?? null,
+        undoExpiresAt: undo?.record.expiresAt ?? null,
+      };
+    } catch (error) {
+      this.rethrow(error, 'Failed to update your library');
+    }
+  }
+
+  /**
+   * Put every entry a bulk change touched back the way it was, along with the episode
+   * progress, feed activities and challenge credit the change wrote. Each token works once.
+   */
+  async undo(userId: string, token: string): Promise<UndoResult> {
+    try {
+      const { result, snapshot } = await this.prisma.$transaction(async tx => {
+        const undo = await tx.libraryUndo.findUnique({ where: { id: token } });
+
+        if (!undo || undo.userId !== userId) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Nothing to undo',
+          });
+        }
+
+        const claimed = await tx.libraryUndo.updateMany({
+          where: { id: token, undoneAt: null, expiresAt: { gt: new Date() } },
+          data: { undoneAt: new Date() },
+        });
+
+        if (claimed.count === 0) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: undo.undoneAt
+              ? 'This change has already been undone'
+              : 'This change can no longer be undone',
+          });
+        }
+
+        const snapshot = undo.snapshot as unknown as UndoSnapshot;
+        const current = await tx.userContent.findMany({
+          where: { userId, contentId: { in: snapshot.items.map(item => item.contentId) } },
+        });
+        const currentById = new Map(current.map(entry => [entry.contentId, entry]));
+        const restored: string[] = [];
+        const conflicts: string[] = [];
+
+        for (const item of snapshot.items) {
+          const entry = currentById.get(item.contentId);
+          const untouched = entry ? entry.updatedAt.toISOString() === item.after : !item.after;
+
+          if (!untouched) {
+            conflicts.push(item.contentId);
+            continue;
+          }
+
+          if (!item.before) {
+            await tx.userContent.delete({ where: { id: entry!.id } });
+          } else if (entry) {
+            await tx.userContent.update({
+              where: { id: entry.id },
+              data: restoreUserContent(item.before),
+            });
+          } else {
+            await tx.userContent.create({
+              data: { ...restoreUserContent(item.before), userId, contentId: item.contentId },
+            });
+          }
+
+          restored.push(item.contentId);
+        }
+
+        const isRestored = (contentId: string | null) =>
+          contentId !== null && restored.includes(contentId);
+
+        for (const { contentId, rows } of snapshot.episodes.filter(e => isRestored(e.contentId))) {
+          await tx.episodeProgress.deleteMany({ where: { userId, contentId } });
+          await tx.episodeProgress.createMany({
+            data: rows.map(row => ({
+              userId,
+              contentId,
+              seasonNumber: row.seasonNumber,
+              episodeNumber: row.episodeNumber,
+              watched: row.watched,
+              watchedAt: row.watchedAt ? new Date(row.watchedAt) : null,
+            })),
+          });
+        }
+
+        const created = snapshot.activities.created.filter(a => isRestored(a.contentId));
+        if (created.length > 0) {
+          await tx.socialActivity.deleteMany({
+            where: { userId, id: { in: created.map(activity => activity.id) } },
+          });
+        }
+
+        for (const activity of snapshot.activities.updated.filter(a => isRestored(a.contentId))) {
+          await tx.socialActivity.updateMany({
+            where: { id: activity.id, userId },
+            data: {
+              activityData: activity.activityData ?? Prisma.DbNull,
+              lastActivityAt: new Date(activity.lastActivityAt),
+            },
+          });
+        }
+
+        return { result: { restored, conflicts }, snapshot };
+      });
+
+      await this.revokeChallengeCredit(userId, snapshot, result.restored);
+      this.searchIndexer.queueIndexContent(result.restored);
+
+      return result;
+    } catch (error) {
+      this.rethrow(error, 'Failed to undo library change');
+    }
+  }
+
+  /**
+   * Update data for an entry, null to delete it, or undefined when the operation
+   * wouldn't change anything
+   */
+  private changeFor(
+    entry: UserContent | null,
+    operation: BulkOperation
+  ): EntryChanges | null | undefined {
+    switch (operation.type) {
+      case 'status': {
+        if (entry?.status === operation.status) {
+          return undefined;
+        }
+
+        const now = new Date();
+        return {
+          status: operation.status,
+          dateStarted: operation.status === 'WATCHING' ? now : (entry?.dateStarted ?? null),
+          dateCompleted: operation.status === 'COMPLETED' ? now : null,
+        };
+      }
+
+      case 'rating':
+        return entry!.rating === operation.rating ? undefined : { rating: operation.rating };
+
+      case 'tags': {
+        const removed = new Set(operation.remove ?? []);
+        const tags = Array.from(new Set([...entry!.tags, ...(operation.add ?? [])])).filter(
+          tag => !removed.has(tag)
+        );
+        const unchanged =
+          tags.length === entry!.tags.length && tags.every(tag => entry!.tags.includes(tag));
+
+        return unchanged ? undefined : { tags };
+      }
+
+      case 'remove':
+        return null;
+    }
+  }
+
+  /**
+   * Mark every episode of season one watched and return the progress as it was before
+   */
+  private async markSeasonWatched(
+    tx: Tx,
+    userId: string,
+    contentId: string,
+    episodeCount: number
+  ): Promise<SavedEpisode[]> {
+    const previous = await tx.episodeProgress.findMany({ where: { userId, contentId } });
+    const now = new Date();
+
+    await tx.episodeProgress.updateMany({
+      where: { userId, contentId, seasonNumber: 1, watched: false },
+      data: { watched: true, watchedAt: now },
+    });
+    await tx.episodeProgress.createMany({
+      data: Array.from({ length: episodeCount }, (_, index) => ({
+        userId,
+        contentId,
+        seasonNumber: 1,
+        episodeNumber: index + 1,
+        watched: true,
+        watchedAt: now,
+      })),
+      skipDuplicates: true,
+    });
+
+    return previous.map(row => ({
+      seasonNumber: row.seasonNumber,
+      episodeNumber: row.episodeNumber,
+      watched: row.watched,
+      watchedAt: row.watchedAt?.toISOString() ?? null,
+    }));
+  }
+
+  /**
+   * Feed activities, challenge credit and achievements for the committed changes. The
+   * activities written are added to the undo snapshot so undo can take them back.
+   */
+  private async afterChanges(
+    userId: string,
+    changes: PlannedChange[],
+    undoId: string,
+    snapshot: UndoSnapshot
+  ): Promise<void> {
+    const tracked = changes.filter(change => change.after);
+
+    if (tracked.length === 0) {
+      return;
+    }
+
+    // Recent activities the recorder may fold the new ones into
+    const foldable = await this.prisma.socialActivity.findMany({
+      where: {
+        userId,
+        contentId: { in: tracked.map(change => change.contentId) },
+        activityType: { in: TRACKING_ACTIVITY_TYPES },
+        lastActivityAt: { gte: new Date(Date.now() - ACTIVITY_COALESCE_WINDOW_MS) },
+      },
+    });
+    const foldableById = new Map(foldable.map(activity => [activity.id, activity]));
+    const written = new Map<string, SocialActivity>();
+
+    for (const { contentId, before, after } of tracked) {
+      const activities = await this.activityRecorder.recordTrackingChange(userId, contentId, {
+        status: after!.status,
+        previousStatus: before?.status,
+        rating: after!.rating,
+        previousRating: before?.rating,
+      });
+
+      activities.forEach(activity => written.set(activity.id, activity));
+
+      // Credit completions to any challenges the user has joined
+      if (after!.status === 'COMPLETED' && before?.status !== 'COMPLETED') {
+        try {
+          const credited = await new ChallengeService(this.prisma).recordCompletion(
+            userId,
+            contentId
+          );
+
+          if (credited.length > 0) {
+            snapshot.challenges.push({
+              contentId,
+              participantIds: credited.map(participant => participant.id),
+            });
+          }
+        } catch (error) {
+          console.error(`Failed to credit challenges for ${contentId}:`, error);
+        }
+      }
+    }
+
+    for (const activity of written.values()) {
+      const previous = foldableById.get(activity.id);
+
+      if (previous) {
+        snapshot.activities.updated.push({
+          id: previous.id,
+          contentId: previous.contentId,
+          activityData: previous.activityData,
+          lastActivityAt: previous.lastActivityAt.toISOString(),
+        });
+      } else {
+        snapshot.activities.created.push({ id: activity.id, contentId: activity.contentId });
+      }
+    }
+
+    if (written.size > 0 || snapshot.challenges.length > 0) {
+      await this.prisma.libraryUndo.update({
+        where: { id: undoId },
+        data: { snapshot: snapshot as unknown as Prisma.InputJsonValue },
+      });
+    }
+
+    await new AchievementService(this.prisma).handleEvent(userId, {
+      type: 'content_tracked',
+      contentId: tracked[0]!.contentId,
+      status: tracked[0]!.after!.status,
+    });
+  }
+
+  /**
+   * Take back the challenge credit for completions that were undone. Runs after the undo
+   * commits, like the crediting ran after the change did.
+   */
+  private async revokeChallengeCredit(
+    userId: string,
+    snapshot: UndoSnapshot,
+    restored: string[]
+  ): Promise<void> {
+    const challenges = new ChallengeService(this.prisma);
+
+    for (const { contentId, participantIds } of snapshot.challenges) {
+      if (!restored.includes(contentId)) {
+        continue;
+      }
+
+      try {
+        await challenges.revokeCompletion(userId, contentId, participantIds);
+      } catch (error) {
+        console.error(`Failed to revoke challenge credit for ${contentId}:`, error);
+      }
+    }
+  }
+
+  private rethrow(error: unknown, message: string): never {
+    if (error instanceof TRPCError) {
+      throw error;
+    }
+
+    console.error(`${message}:`, error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message,
+    });
+  }
+}
+
+function saveUserContent(entry: UserContent): SavedUserContent {
+  return {
+    status: entry.status,
+    rating: entry.rating,
+    notes: entry.notes,
+    tags: entry.tags,
+    platformWatched: entry.platformWatched,
+    dateAdded: entry.dateAdded.toISOString(),
+    dateStarted: entry.dateStarted?.toISOString() ?? null,
+    dateCompleted: entry.dateCompleted?.toISOString() ?? null,
+  };
+}
+
+function restoreUserContent(saved: SavedUserContent) {
+  return {
+    status: saved.status,
+    rating: saved.rating,
+    notes: saved.notes,
+    tags: saved.tags,
+    platformWatched: saved.platformWatched,
+    dateAdded: new Date(saved.dateAdded),
+    dateStarted: saved.dateStarted ? new Date(saved.dateStarted) : null,
+    dateCompleted: saved.dateCompleted ? new Date(saved.dateCompleted) : null,
+  };
+}
@@ -0,0 +1,393 @@
+// Case Sync Service - Promotes aggregator related cases into ContentCase records and links
+import { CaseRelationship, CaseStatus, ContentCase, PrismaClient } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import { CriminalCase, WikidataApiClient } from '../external/wikidata-client';
+import { RelatedCase } from '../transformation/content-aggregator';
+import { FollowAlertService } from './follow-alert.service';
+import { PostgresSearchService } from '../search/postgres-search.service';
+import { SearchIndexerService } from '../search/search-indexer.service';
+import { slugify } from '../../utils/slug';
+
+export interface CaseSyncResult {
+  linked: number;
+  // Cases the content was not linked to before this sync
+  newCaseIds: string[];
+  queued: number;
+  skipped: number;
+  errors: string[];
+}
+
+// Matches at or above this confidence are linked directly; weaker ones wait for review
+export const CASE_LINK_CONFIDENCE_THRESHOLD = 0.6;
+
+const RELATIONSHIPS: Record<RelatedCase['relationship'], CaseRelationship> = {
+  directly_based_on: 'DIRECTLY_BASED_ON',
+  inspired_by: 'INSPIRED_BY',
+  covers_case: 'COVERS_CASE',
+  features_person: 'FEATURES_PERSON',
+  same_perpetrator: 'SAME_PERPETRATOR',
+  same_location: 'SAME_LOCATION',
+};
+
+const CASE_STATUSES: Record<CriminalCase['status'], CaseStatus> = {
+  solved: 'SOLVED',
+  unsolved: 'UNSOLVED',
+  cold_case: 'COLD',
+};
+
+export class CaseSyncService {
+  constructor(
+    private prisma: PrismaClient,
+    private wikidataClient: WikidataApiClient,
+    private searchIndexer: SearchIndexerService = new SearchIndexerService(prisma),
+    private postgresSearch: PostgresSearchService = new PostgresSearchService(prisma),
+    private followAlerts: FollowAlertService = new FollowAlertService(prisma)
+  ) {}
+
+  /**
+   * Upsert ContentCase rows for the aggregator's related cases and link them to
+   * the content. Matches below the confidence threshold go to the review queue and
+   * their case is only created once the match is approved.
+   */
+  async syncRelatedCases(contentId: string, relatedCases: RelatedCase[]): Promise<CaseSyncResult> {
+    const result: CaseSyncResult = {
+      linked: 0,
+      newCaseIds: [],
+      queued: 0,
+      skipped: 0,
+      errors: [],
+    };
+
+    for (const related of relatedCases) {
+      if (!related.wikidataId) {
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        const relationship = RELATIONSHIPS[related.relationship];
+
+        if (related.confidence >= CASE_LINK_CONFIDENCE_THRESHOLD) {
+          const contentCase = await this.upsertCase(related.wikidataId);
+
+          if (!contentCase) {
+            result.skipped++;
+            continue;
+          }
+
+          const existingLink = await this.prisma.contentCaseLink.findUnique({
+            where: { contentId_caseId: { contentId, caseId: contentCase.id } },
+            select: { contentId: true },
+          });
+
+          await this.prisma.contentCaseLink.upsert({
+            where: { contentId_caseId: { contentId, caseId: contentCase.id } },
+            update: { relationship, confidence: related.confidence },
+            create: {
+              contentId,
+              caseId: contentCase.id,
+              relationship,
+              confidence: related.confidence,
+            },
+          });
+          result.linked++;
+
+          if (!existingLink) {
+            result.newCaseIds.push(contentCase.id);
+          }
+        } else if (
+          await this.queueForReview(contentId, related.wikidataId, relationship, related)
+        ) {
+          result.queued++;
+        } else {
+          result.skipped++;
+        }
+      } catch (error) {
+        console.error(`Failed to sync case ${related.wikidataId} for content ${contentId}:`, error);
+        result.errors.push(`${related.caseName}: ${error}`);
+      }
+    }
+
+    // Case names are part of the search document
+    if (result.linked > 0) {
+      await this.reindex(contentId);
+    }
+
+    return result;
+  }
+
+  /**
+   * Create or refresh a ContentCase from Wikidata. Returns null if Wikidata has no record.
+   */
+  async upsertCase(wikidataId: string): Promise<ContentCase | null> {
+    const details = await this.wikidataClient.getCriminalCaseDetails(wikidataId);
+
+    if (!details) {
+      return null;
+    }
+
+    const data = {
+      description: details.description ?? null,
+      perpetrators: details.perpetrators.map(person => person.name),
+      victims: details.victims.map(person => person.name),
+      locations: details.locations.map(location => location.name),
+      timePeriod: formatTimePeriod(details.dateRange),
+      caseStatus: CASE_STATUSES[details.status],
+      wikipediaUrl: details.wikipediaUrl ?? null,
+    };
+
+    const existing = await this.findCase(wikidataId, details.name);
+
+    if (existing) {
+      return this.prisma.contentCase.update({
+        where: { id: existing.id },
+        data: { ...data, wikidataId },
+      });
+    }
+
+    // Another Wikidata case already has this name
+    const nameTaken = await this.prisma.contentCase.findUnique({
+      where: { caseName: details.name },
+      select: { id: true },
+    });
+
+    return this.prisma.contentCase.create({
+      data: {
+        ...data,
+        wikidataId,
+        caseName: nameTaken ? `${details.name} (${wikidataId})` : details.name,
+        caseSlug: await this.uniqueSlug(details.name, wikidataId),
+      },
+    });
+  }
+
+  /**
+   * Pending low-confidence matches, oldest first
+   */
+  async listPendingReviews(
+    options: { page?: number | undefined; limit?: number | undefined } = {}
+  ) {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? 50;
+
+    try {
+      const [reviews, total] = await Promise.all([
+        this.prisma.caseLinkReview.findMany({
+          where: { status: 'PENDING' },
+          orderBy: { createdAt: 'asc' },
+          skip: (page - 1) * limit,
+          take: limit,
+          include: {
+            content: { select: { id: true, title: true, contentType: true, posterUrl: true } },
+            contentCase: { select: { id: true, caseName: true, caseSlug: true } },
+          },
+        }),
+        this.prisma.caseLinkReview.count({ where: { status: 'PENDING' } }),
+      ]);
+
+      return { reviews, total };
+    } catch (error) {
+      this.rethrow(error, 'Failed to fetch case link reviews');
+    }
+  }
+
+  /**
+   * Approve a queued match, create its case from Wikidata and publish the link. Followers
+   * of the case are alerted when the content wasn't linked to it already.
+   */
+  async approveReview(reviewId: string, reviewerId: string) {
+    try {
+      const review = await this.getPendingReview(reviewId);
+      const contentCase = await this.upsertCase(review.wikidataId);
+
+      if (!contentCase) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Case not found on Wikidata',
+        });
+      }
+
+      const caseId = contentCase.id;
+      const [link, content] = await Promise.all([
+        this.prisma.contentCaseLink.findUnique({
+          where: { contentId_caseId: { contentId: review.contentId, caseId } },
+          select: { contentId: true },
+        }),
+        this.prisma.content.findUnique({
+          where: { id: review.contentId },
+          select: { title: true },
+        }),
+      ]);
+
+      await this.prisma.$transaction([
+        this.prisma.contentCaseLink.upsert({
+          where: { contentId_caseId: { contentId: review.contentId, caseId } },
+          update: { relationship: review.relationship, confidence: review.confidence },
+          create: {
+            contentId: review.contentId,
+            caseId,
+            relationship: review.relationship,
+            confidence: review.confidence,
+          },
+        }),
+        this.prisma.caseLinkReview.update({
+          where: { id: review.id },
+          data: { status: 'APPROVED', caseId, reviewedBy: reviewerId, reviewedAt: new Date() },
+        }),
+      ]);
+
+      await this.reindex(review.contentId);
+
+      if (link === null && content !== null) {
+        await this.followAlerts.recordSyncedContent({
+          contentId: review.contentId,
+          title: content.title,
+          created: false,
+          newCaseIds: [caseId],
+          personWikidataIds: [],
+        });
+      }
+    } catch (error) {
+      this.rethrow(error, 'Failed to approve case link');
+    }
+  }
+
+  /**
+   * Reject a queued match. Rejected pairs are not queued again by later syncs.
+   */
+  async rejectReview(reviewId: string, reviewerId: string) {
+    try {
+      const review = await this.getPendingReview(reviewId);
+
+      await this.prisma.caseLinkReview.update({
+        where: { id: review.id },
+        data: { status: 'REJECTED', reviewedBy: reviewerId, reviewedAt: new Date() },
+      });
+    } catch (error) {
+      this.rethrow(error, 'Failed to reject case link');
+    }
+  }
+
+  /**
+   * Queue a match for review unless it is already linked or was reviewed before.
+   * Returns whether the match is now pending.
+   */
+  private async queueForReview(
+    contentId: string,
+    wikidataId: string,
+    relationship: CaseRelationship,
+    related: RelatedCase
+  ): Promise<boolean> {
+    const [existingCase, review] = await Promise.all([
+      this.prisma.contentCase.findUnique({
+        where: { wikidataId },
+        select: { id: true },
+      }),
+      this.prisma.caseLinkReview.findUnique({
+        where: { contentId_wikidataId: { contentId, wikidataId } },
+        select: { id: true, status: true },
+      }),
+    ]);
+    const link = existingCase
+      ? await this.prisma.contentCaseLink.findUnique({
+          where: { contentId_caseId: { contentId, caseId: existingCase.id } },
+          select: { contentId: true },
+        })
+      : null;
+
+    if (link !== null || (review !== null && review.status !== 'PENDING')) {
+      return false;
+    }
+
+    await this.prisma.caseLinkReview.upsert({
+      where: { contentId_wikidataId: { contentId, wikidataId } },
+      update: { caseName: related.caseName, relationship, confidence: related.confidence },
+      create: {
+        contentId,
+        wikidataId,
+        caseName: related.caseName,
+        relationship,
+        confidence: related.confidence,
+      },
+    });
+
+    return true;
+  }
+
+  /**
+   * The case for a Wikidata item: the row carrying its ID, or else a case of the same
+   * name that isn't tied to any Wikidata item yet
+   */
+  private async findCase(wikidataId: string, caseName: string): Promise<ContentCase | null> {
+    return (
+      (await this.prisma.contentCase.findUnique({ where: { wikidataId } })) ??
+      this.prisma.contentCase.findFirst({ where: { caseName, wikidataId: null } })
+    );
+  }
+
+  private async getPendingReview(reviewId: string) {
+    const review = await this.prisma.caseLinkReview.findUnique({
+      where: { id: reviewId },
+    });
+
+    if (!review || review.status !== 'PENDING') {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Pending case link review not found',
+      });
+    }
+
+    return review;
+  }
+
+  /**
+   * Slug from the case name, suffixed with the Wikidata ID if it is already taken
+   */
+  private async uniqueSlug(caseName: string, wikidataId: string): Promise<string> {
+    const slug = slugify(caseName);
+    const taken = await this.prisma.contentCase.findUnique({
+      where: { caseSlug: slug },
+      select: { id: true },
+    });
+
+    return taken ? `${slug}-${wikidataId.toLowerCase()}` : slug;
+  }
+
+  /**
+   * Refresh both search backends so the new case names are searchable
+   */
+  private async reindex(contentId: string): Promise<void> {
+    try {
+      await Promise.all([
+        this.searchIndexer.indexContent([contentId]),
+        this.postgresSearch.refreshSearchVectors([contentId]),
+      ]);
+    } catch (error) {
+      console.error(`Failed to reindex content ${contentId} after case sync:`, error);
+    }
+  }
+
+  private rethrow(error: unknown, message: string): never {
+    if (error instanceof TRPCError) {
+      throw error;
+    }
+
+    console.error(`${message}:`, error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message,
+    });
+  }
+}
+
+function formatTimePeriod(range: CriminalCase['dateRange']): string | null {
+  const start = range.start ? new Date(range.start).getUTCFullYear() : null;
+  const end = range.end ? new Date(range.end).getUTCFullYear() : null;
+
+  if (start && end && end !== start) {
+    return `${start}-${end}`;
+  }
+
+  const year = start ?? end;
+  return year === null ? null : String(year);
+}
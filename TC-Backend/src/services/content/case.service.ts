@@ -0,0 +1,287 @@
+// Case Service - Criminal case browsing, linked content and similar cases
+import { CaseStatus, ContentCase, ContentType, Prisma, PrismaClient } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+
+export type CaseSort = 'name' | 'popular' | 'recent';
+
+export interface CaseListOptions {
+  query?: string | undefined;
+  status?: CaseStatus | undefined;
+  timePeriod?: string | undefined;
+  location?: string | undefined;
+  perpetrator?: string | undefined;
+  sort?: CaseSort | undefined;
+  page?: number | undefined;
+  limit?: number | undefined;
+}
+
+export interface SimilarCase {
+  case: ContentCase & { contentCount: number };
+  score: number;
+  sharedPerpetrators: string[];
+  sharedLocations: string[];
+}
+
+// Weighting for similar cases: a shared perpetrator says more than a shared city
+const SIMILARITY_WEIGHTS = {
+  perpetrator: 3,
+  location: 1,
+  timePeriod: 1,
+} as const;
+
+const CONTENT_TYPES: ContentType[] = ['DOCUMENTARY', 'TV_SERIES', 'MOVIE', 'PODCAST'];
+
+const CASE_CONTENT_SELECT = {
+  id: true,
+  title: true,
+  description: true,
+  contentType: true,
+  posterUrl: true,
+  releaseDate: true,
+  runtimeMinutes: true,
+  totalSeasons: true,
+  platforms: true,
+} as const;
+
+const CASE_SORT: Record<CaseSort, Prisma.ContentCaseOrderByWithRelationInput> = {
+  name: { caseName: 'asc' },
+  popular: { contentCaseLinks: { _count: 'desc' } },
+  recent: { updatedAt: 'desc' },
+};
+
+export class CaseService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Browse cases with optional status, time period, location and perpetrator filters.
+   * Location and perpetrator match partially and ignore case.
+   */
+  async listCases(options: CaseListOptions = {}) {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? 20;
+
+    try {
+      const where: Prisma.ContentCaseWhereInput = {
+        ...(options.query && { caseName: { contains: options.query, mode: 'insensitive' } }),
+        ...(options.status && { caseStatus: options.status }),
+        ...(options.timePeriod && {
+          timePeriod: { contains: options.timePeriod, mode: 'insensitive' },
+        }),
+      };
+
+      const idFilters = await Promise.all([
+        options.location ? this.findIdsByArrayValue('locations', options.location) : null,
+        options.perpetrator ? this.findIdsByArrayValue('perpetrators', options.perpetrator) : null,
+      ]);
+
+      const matchingIds = idFilters
+        .filter((ids): ids is string[] => ids !== null)
+        .reduce<string[] | null>(
+          (acc, ids) => (acc === null ? ids : acc.filter(id => ids.includes(id))),
+          null
+        );
+
+      if (matchingIds !== null) {
+        where.id = { in: matchingIds };
+      }
+
+      const [cases, total] = await Promise.all([
+        this.prisma.contentCase.findMany({
+          where,
+          orderBy: [CASE_SORT[options.sort ?? 'name'], { caseName: 'asc' }],
+          skip: (page - 1) * limit,
+          take: limit,
+          include: { _count: { select: { contentCaseLinks: true } } },
+        }),
+        this.prisma.contentCase.count({ where }),
+      ]);
+
+      return {
+        cases: cases.map(({ _count, ...contentCase }) => ({
+          ...contentCase,
+          contentCount: _count.contentCaseLinks,
+        })),
+        total,
+      };
+    } catch (error) {
+      this.rethrow(error, 'Failed to list cases');
+    }
+  }
+
+  /**
+   * Case detail by slug, with how much content of each type covers it
+   */
+  async getBySlug(caseSlug: string) {
+    try {
+      const contentCase = await this.findBySlug(caseSlug);
+
+      const links = await this.prisma.contentCaseLink.findMany({
+        where: { caseId: contentCase.id },
+        select: { content: { select: { contentType: true } } },
+      });
+
+      const contentTypeCounts = Object.fromEntries(
+        CONTENT_TYPES.map(type => [
+          type,
+          links.filter(link => link.content.contentType === type).length,
+        ])
+      ) as Record<ContentType, number>;
+
+      return {
+        ...contentCase,
+        contentCount: links.length,
+        contentTypeCounts,
+      };
+    } catch (error) {
+      this.rethrow(error, 'Failed to fetch case');
+    }
+  }
+
+  /**
+   * All content linked to a case, grouped by content type. Signed-in users get
+   * their tracking status and rating on each item.
+   */
+  async getCaseContent(caseSlug: string, userId?: string) {
+    try {
+      const contentCase = await this.findBySlug(caseSlug);
+
+      const links = await this.prisma.contentCaseLink.findMany({
+        where: { caseId: contentCase.id },
+        include: {
+          content: {
+            select: {
+              ...CASE_CONTENT_SELECT,
+              ...(userId && {
+                userContent: {
+                  where: { userId },
+                  select: { status: true, rating: true, updatedAt: true },
+                },
+              }),
+            },
+          },
+        },
+        orderBy: { content: { releaseDate: 'desc' } },
+      });
+
+      const grouped = Object.fromEntries(CONTENT_TYPES.map(type => [type, [] as unknown[]]));
+
+      for (const { content } of links) {
+        const { userContent, ...item } = content as typeof content & {
+          userContent?: Array<{ status: string; rating: number | null; updatedAt: Date }>;
+        };
+
+        grouped[item.contentType]!.push({
+          ...item,
+          tracking: userContent?.[0] ?? null,
+        });
+      }
+
+      return {
+        case: contentCase,
+        contentByType: grouped,
+        totalContent: links.length,
+      };
+    } catch (error) {
+      this.rethrow(error, 'Failed to fetch case content');
+    }
+  }
+
+  /**
+   * Cases sharing perpetrators or locations with the given case, best matches first
+   */
+  async getSimilarCases(caseSlug: string, limit: number = 10): Promise<SimilarCase[]> {
+    try {
+      const source = await this.findBySlug(caseSlug);
+
+      if (source.perpetrators.length === 0 && source.locations.length === 0) {
+        return [];
+      }
+
+      const candidates = await this.prisma.contentCase.findMany({
+        where: {
+          id: { not: source.id },
+          OR: [
+            { perpetrators: { hasSome: source.perpetrators } },
+            { locations: { hasSome: source.locations } },
+          ],
+        },
+        include: { _count: { select: { contentCaseLinks: true } } },
+        take: 200,
+      });
+
+      return candidates
+        .map(({ _count, ...candidate }) => {
+          const sharedPerpetrators = sharedValues(source.perpetrators, candidate.perpetrators);
+          const sharedLocations = sharedValues(source.locations, candidate.locations);
+          const samePeriod =
+            !!source.timePeriod && source.timePeriod === candidate.timePeriod ? 1 : 0;
+
+          return {
+            case: { ...candidate, contentCount: _count.contentCaseLinks },
+            score:
+              sharedPerpetrators.length * SIMILARITY_WEIGHTS.perpetrator +
+              sharedLocations.length * SIMILARITY_WEIGHTS.location +
+              samePeriod * SIMILARITY_WEIGHTS.timePeriod,
+            sharedPerpetrators,
+            sharedLocations,
+          };
+        })
+        .sort((a, b) => b.score - a.score || b.case.contentCount - a.case.contentCount)
+        .slice(0, limit);
+    } catch (error) {
+      this.rethrow(error, 'Failed to find similar cases');
+    }
+  }
+
+  private async findBySlug(caseSlug: string): Promise<ContentCase> {
+    const contentCase = await this.prisma.contentCase.findUnique({
+      where: { caseSlug },
+    });
+
+    if (!contentCase) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Case not found',
+      });
+    }
+
+    return contentCase;
+  }
+
+  /**
+   * Case ids with an array element containing the term, ignoring case
+   */
+  private async findIdsByArrayValue(
+    column: 'locations' | 'perpetrators',
+    term: string
+  ): Promise<string[]> {
+    const pattern = `%${term.replace(/[\\%_]/g, '\\$&')}%`;
+
+    const rows = await this.prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT cc.id
+      FROM content_cases cc
+      WHERE EXISTS (
+        SELECT 1 FROM unnest(cc.${Prisma.raw(column)}) AS value WHERE value ILIKE ${pattern}
+      )
+    `;
+
+    return rows.map(row => row.id);
+  }
+
+  private rethrow(error: unknown, message: string): never {
+    if (error instanceof TRPCError) {
+      throw error;
+    }
+
+    console.error(`${message}:`, error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message,
+    });
+  }
+}
+
+function sharedValues(a: string[], b: string[]): string[] {
+  const lower = new Set(b.map(value => value.toLowerCase()));
+  return a.filter(value => lower.has(value.toLowerCase()));
+}
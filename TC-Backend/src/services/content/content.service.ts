@@ -3,8 +3,14 @@ import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
 import { redisService } from '../core/redis.service';
 import { MeiliSearchService } from '../search/meilisearch.service';
+import { ContentSearchService, SearchEngine } from '../search/content-search.service';
+import { SearchIndexerService } from '../search/search-indexer.service';
 import { ExternalAPIManager } from '../external';
 import { RecommendationService } from './recommendation.service';
+import { RecommendationType } from './recommendation-strategies';
+import { TrendingService } from './trending.service';
+import { ACTIVITY_TYPES, ActivityRecorderService } from '../social/activity-recorder.service';
+import { AchievementService } from '../social/achievement.service';
 import { transformSearchResult, transformContentItem } from '../../utils/field-transformer';
 
 // Content types enum (aligned with Prisma)
@@ -23,14 +29,28 @@ export enum TrackingState {
   ABANDONED = 'ABANDONED'
 }
 
-// Recommendation types
-export enum RecommendationType {
-  TRENDING = 'trending',
-  SIMILAR_CONTENT = 'similar_content',
-  CASE_BASED = 'case_based',
-  COLLABORATIVE = 'collaborative',
-  NEW_RELEASES = 'new_releases',
-  FOR_YOU = 'for_you'
+// Engine that served a search request
+export type { SearchEngine };
+
+// Recommendation types (defined alongside the strategy blends)
+export { RecommendationType };
+
+// Result of a ContentService method, as stored in the cache
+type CachedResult<M extends keyof ContentService> = ContentService[M] extends (
+  ...args: never[]
+) => Promise<infer R>
+  ? R
+  : never;
+
+// A page of search results and the engine that served it
+export interface ContentSearchResult {
+  results: Content[];
+  facetDistribution: Record<string, Record<string, number>>;
+  total: number;
+  hasMore: boolean;
+  query: string;
+  processingTimeMs: number;
+  engine: SearchEngine;
 }
 
 // Cache TTL constants
@@ -137,8 +157,13 @@ export type RecommendationResult = z.infer<typeof RecommendationResultSchema>;
 export class ContentService {
   private prisma: PrismaClient;
   private searchService: MeiliSearchService;
+  private contentSearch: ContentSearchService;
+  private searchIndexer: SearchIndexerService;
   private externalAPI: ExternalAPIManager;
   private recommendationService: RecommendationService;
+  private trendingService: TrendingService;
+  private activityRecorder: ActivityRecorderService;
+  private achievementService: AchievementService;
   private cachePrefix = 'content:';
   private userCachePrefix = 'user_content:';
   private recommendationPrefix = 'recommendations:';
@@ -146,12 +171,17 @@ export class ContentService {
   constructor(prisma: PrismaClient, externalAPI?: ExternalAPIManager) {
     this.prisma = prisma;
     this.searchService = new MeiliSearchService();
+    this.contentSearch = new ContentSearchService(prisma, this.searchService);
+    this.searchIndexer = new SearchIndexerService(prisma, this.searchService);
     this.externalAPI = externalAPI || new ExternalAPIManager({
       tmdbApiKey: process.env.TMDB_API_KEY,
       watchmodeApiKey: process.env.WATCHMODE_API_KEY,
       tvdbApiKey: process.env.TVDB_API_KEY,
     });
-    this.recommendationService = new RecommendationService(prisma, this);
+    this.recommendationService = new RecommendationService(prisma);
+    this.trendingService = new TrendingService(prisma, this.externalAPI.tmdb ?? null);
+    this.activityRecorder = new ActivityRecorderService(prisma);
+    this.achievementService = new AchievementService(prisma);
   }
 
   /**
@@ -285,7 +315,7 @@ export class ContentService {
     facets?: string[];
     sort?: string[];
     useCache?: boolean;
-  }) {
+  }): Promise<ContentSearchResult> {
     const {
       query = '',
       contentType,
@@ -305,7 +335,7 @@ export class ContentService {
     const cacheKey = `${this.cachePrefix}search:${Buffer.from(JSON.stringify(params)).toString('base64')}`;
 
     if (useCache) {
-      const cached = await redisService.get(cacheKey);
+      const cached = await redisService.get<ContentSearchResult>(cacheKey);
       if (cached) {
         return cached;
       }
@@ -349,10 +379,12 @@ export class ContentService {
 
       console.log('[ContentService.search] Searching with query:', query, 'and filters:', filters);
 
-      // Search using enhanced Meilisearch service
-      const searchResults = await this.searchService.search('content', query, searchOptions);
+      // Prefer Meilisearch; fall back to Postgres full-text search if it is unavailable
+      const searchResults = await this.contentSearch.search(query, searchOptions);
+      const { engine } = searchResults;
 
       console.log('[ContentService.search] Search returned:', {
+        engine,
         totalHits: searchResults.totalHits,
         hitsCount: searchResults.hits?.length || 0,
         firstHit: searchResults.hits?.[0] ? { id: searchResults.hits[0].id, title: searchResults.hits[0].title } : null,
@@ -368,15 +400,20 @@ export class ContentService {
         hasMore: offset + limit < (searchResults.totalHits || 0),
         query,
         processingTimeMs: searchResults.processingTimeMs,
+        engine,
       };
 
-      // Cache the result
-      if (useCache) {
+      // Cache the result; fallback results are not cached so Meilisearch takes over once it recovers
+      if (useCache && engine === 'meilisearch') {
         await redisService.set(cacheKey, result, CACHE_TTL.SEARCH_RESULTS);
       }
 
       return result;
     } catch (error) {
+      if (error instanceof TRPCError) {
+        throw error;
+      }
+
       console.error('Search error:', error);
       throw new TRPCError({
         code: 'INTERNAL_SERVER_ERROR',
@@ -386,7 +423,7 @@ export class ContentService {
   }
 
   /**
-   * Get trending content with multiple algorithms
+   * Get trending content from the time-decayed trending rankings
    */
   async getTrending(params: {
     limit?: number;
@@ -405,56 +442,16 @@ export class ContentService {
     }
 
     try {
-      // Calculate date range for trending
-      const now = new Date();
-      const timeRanges = {
-        day: new Date(now.getTime() - 24 * 60 * 60 * 1000),
-        week: new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000),
-        month: new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000),
-      };
-
-      const startDate = timeRanges[timeframe];
-
-      // Build where clause
-      const where: any = {
-        userContent: {
-          some: {
-            updatedAt: {
-              gte: startDate,
-            },
-          },
-        },
-      };
-
-      if (contentType) {
-        where.contentType = contentType;
-      }
-
-      // Fetch trending content based on recent tracking activity
-      const trending = await this.prisma.content.findMany({
-        where,
-        take: limit,
-        orderBy: [
-          { userContent: { _count: 'desc' } },
-          { updatedAt: 'desc' },
-        ],
-        include: {
-          contentCaseLinks: {
-            include: {
-              contentCase: true
-            }
-          },
-          _count: {
-            select: {
-              userContent: true
-            }
-          }
-        },
+      // Precomputed rankings, topped up from TMDb when our own activity is too sparse
+      const trending = await this.trendingService.getTrending({
+        limit,
+        timeframe,
+        ...(contentType && { contentType }),
       });
 
-      const transformed = trending.map(content => ({
-        ...this.transformContent(content),
-        popularity: content._count.userContent,
+      const transformed = trending.map(entry => ({
+        ...this.transformContent(entry.content),
+        popularity: entry.score,
       }));
 
       // Cache for shorter period
@@ -489,39 +486,21 @@ export class ContentService {
     const cacheKey = `${this.recommendationPrefix}${userId}:${type}:${limit}`;
 
     // Check cache
-    const cached = await redisService.get(cacheKey);
+    const cached = await redisService.get<CachedResult<'getRecommendations'>>(cacheKey);
     if (cached) {
       return cached;
     }
 
     try {
-      let recommendations;
-
-      switch (type) {
-        case RecommendationType.TRENDING:
-          recommendations = await this.getTrendingRecommendations(userId, limit);
-          break;
-        case RecommendationType.SIMILAR_CONTENT:
-          recommendations = await this.getSimilarContentRecommendations(userId, limit, excludeWatched);
-          break;
-        case RecommendationType.CASE_BASED:
-          recommendations = await this.getCaseBasedRecommendations(userId, limit, excludeWatched);
-          break;
-        case RecommendationType.COLLABORATIVE:
-          recommendations = await this.getCollaborativeRecommendations(userId, limit, excludeWatched);
-          break;
-        case RecommendationType.NEW_RELEASES:
-          recommendations = await this.getNewReleaseRecommendations(userId, limit, excludeWatched);
-          break;
-        case RecommendationType.FOR_YOU:
-          recommendations = await this.getForYouRecommendations(userId, limit, excludeWatched);
-          break;
-        default:
-          recommendations = await this.getTrendingRecommendations(userId, limit);
-      }
+      const recommendations = (
+        await this.recommendationService.recommend(userId, type, { limit, excludeWatched })
+      ).map(recommendation => ({
+        ...recommendation,
+        content: this.transformContent(recommendation.content),
+      }));
 
       const result = {
-        recommendations: recommendations.slice(0, limit),
+        recommendations,
         totalScore: recommendations.reduce((sum, rec) => sum + rec.score, 0),
         algorithm: type,
       };
@@ -539,305 +518,6 @@ export class ContentService {
     }
   }
 
-  /**
-   * Get trending-based recommendations
-   */
-  private async getTrendingRecommendations(userId: string, limit: number) {
-    const trendingContent = await this.getTrending({ limit: limit * 2 });
-
-    // Filter out user's already watched content if needed
-    const userContentIds = await this.getUserWatchedContentIds(userId);
-    const filtered = trendingContent.filter(content => !userContentIds.has(content.id));
-
-    return filtered.slice(0, limit).map((content, index) => ({
-      content,
-      score: (limit - index) / limit, // Higher score for higher trending position
-      reason: 'Trending in the True Crime community',
-      metadata: { position: index + 1, type: 'trending' }
-    }));
-  }
-
-  /**
-   * Get similar content recommendations based on user's preferences
-   */
-  private async getSimilarContentRecommendations(userId: string, limit: number, excludeWatched: boolean) {
-    // Get user's favorite content and extract preferences
-    const userPreferences = await this.getUserPreferences(userId);
-
-    if (userPreferences.favoriteGenres.length === 0) {
-      return this.getTrendingRecommendations(userId, limit);
-    }
-
-    // Search for similar content using Meilisearch
-    const searchQuery = userPreferences.favoriteGenres.join(' ');
-    const searchResults = await this.searchService.search('content', searchQuery, {
-      filters: {
-        genres: userPreferences.favoriteGenres,
-        type: userPreferences.favoriteContentType,
-      },
-      limit: limit * 2,
-    });
-
-    // Filter out watched content
-    const userContentIds = excludeWatched ? await this.getUserWatchedContentIds(userId) : new Set();
-    const filtered = searchResults.hits.filter((hit: any) => !userContentIds.has(hit.id));
-
-    return filtered.slice(0, limit).map((hit: any, index: number) => ({
-      content: hit,
-      score: (hit._rankingScore || 1) * 0.8, // Use Meilisearch ranking score
-      reason: `Similar to your favorite ${userPreferences.favoriteGenres.join(', ')} content`,
-      metadata: { genres: userPreferences.favoriteGenres, type: 'similar' }
-    }));
-  }
-
-  /**
-   * Get case-based recommendations
-   */
-  private async getCaseBasedRecommendations(userId: string, limit: number, excludeWatched: boolean) {
-    // Get user's favorite cases
-    const userCases = await this.getUserFavoriteCases(userId);
-
-    if (userCases.length === 0) {
-      return this.getSimilarContentRecommendations(userId, limit, excludeWatched);
-    }
-
-    // Find content related to these cases
-    const caseBasedContent = await this.prisma.content.findMany({
-      where: {
-        caseTags: {
-          hasSome: userCases,
-        },
-      },
-      take: limit * 2,
-      orderBy: {
-        updatedAt: 'desc',
-      },
-      include: {
-        contentCaseLinks: {
-          include: {
-            contentCase: true
-          }
-        },
-      },
-    });
-
-    // Filter out watched content
-    const userContentIds = excludeWatched ? await this.getUserWatchedContentIds(userId) : new Set();
-    const filtered = caseBasedContent
-      .filter(content => !userContentIds.has(content.id))
-      .map(this.transformContent);
-
-    return filtered.slice(0, limit).map((content, index) => ({
-      content,
-      score: 0.9 - (index * 0.1), // High score for case-based matches
-      reason: `Related to cases you're interested in`,
-      metadata: { cases: userCases, type: 'case_based' }
-    }));
-  }
-
-  /**
-   * Get collaborative filtering recommendations using advanced algorithms
-   */
-  private async getCollaborativeRecommendations(userId: string, limit: number, excludeWatched: boolean) {
-    try {
-      // Use the new advanced recommendation service
-      const hybridResults = await this.recommendationService.generateHybridRecommendations(userId, {
-        limit,
-        excludeWatched,
-        hybridWeights: {
-          collaborative: 0.8, // Emphasize collaborative for this specific call
-          contentBased: 0.15,
-          trending: 0.05,
-          case: 0.0,
-          temporal: 0.0
-        }
-      });
-
-      // Transform to match the expected format
-      return hybridResults.recommendations.map(rec => ({
-        content: rec.content,
-        score: rec.score,
-        reason: rec.reason || 'Recommended by users with similar interests',
-        metadata: {
-          algorithm: rec.algorithm,
-          confidence: rec.confidence,
-          factors: rec.factors,
-          type: 'collaborative_advanced'
-        }
-      }));
-    } catch (error) {
-      console.error('Advanced collaborative filtering failed, falling back to simple method:', error);
-
-      // Fallback to simple collaborative filtering
-      return this.getSimpleCollaborativeRecommendations(userId, limit, excludeWatched);
-    }
-  }
-
-  /**
-   * Simple collaborative filtering fallback
-   */
-  private async getSimpleCollaborativeRecommendations(userId: string, limit: number, excludeWatched: boolean) {
-    // Find users with similar interests
-    const similarUsers = await this.findSimilarUsers(userId, 10);
-
-    if (similarUsers.length === 0) {
-      return this.getSimilarContentRecommendations(userId, limit, excludeWatched);
-    }
-
-    // Get content liked by similar users
-    const collaborativeContent = await this.prisma.content.findMany({
-      where: {
-        userContent: {
-          some: {
-            userId: { in: similarUsers },
-            status: { in: ['COMPLETED', 'WATCHING'] },
-            rating: { gte: 4 }, // Only well-rated content
-          },
-        },
-      },
-      take: limit * 2,
-      orderBy: {
-        userContent: { _count: 'desc' },
-      },
-      include: {
-        contentCaseLinks: {
-          include: {
-            contentCase: true
-          }
-        },
-      },
-    });
-
-    // Filter out watched content
-    const userContentIds = excludeWatched ? await this.getUserWatchedContentIds(userId) : new Set();
-    const filtered = collaborativeContent
-      .filter(content => !userContentIds.has(content.id))
-      .map(this.transformContent);
-
-    return filtered.slice(0, limit).map((content, index) => ({
-      content,
-      score: 0.85 - (index * 0.05),
-      reason: 'Recommended by users with similar interests',
-      metadata: { similarUsers: similarUsers.length, type: 'collaborative_simple' }
-    }));
-  }
-
-  /**
-   * Get new release recommendations
-   */
-  private async getNewReleaseRecommendations(userId: string, limit: number, excludeWatched: boolean) {
-    const userPreferences = await this.getUserPreferences(userId);
-    const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
-
-    const newReleases = await this.prisma.content.findMany({
-      where: {
-        createdAt: { gte: thirtyDaysAgo },
-        genreTags: {
-          hasSome: userPreferences.favoriteGenres.length > 0
-            ? userPreferences.favoriteGenres
-            : ['true-crime', 'crime', 'documentary']
-        },
-      },
-      take: limit * 2,
-      orderBy: {
-        createdAt: 'desc',
-      },
-      include: {
-        contentCaseLinks: {
-          include: {
-            contentCase: true
-          }
-        },
-      },
-    });
-
-    // Filter out watched content
-    const userContentIds = excludeWatched ? await this.getUserWatchedContentIds(userId) : new Set();
-    const filtered = newReleases
-      .filter(content => !userContentIds.has(content.id))
-      .map(this.transformContent);
-
-    return filtered.slice(0, limit).map((content, index) => ({
-      content,
-      score: 0.7 - (index * 0.05),
-      reason: 'New True Crime content',
-      metadata: { releaseDate: content.createdAt, type: 'new_release' }
-    }));
-  }
-
-  /**
-   * Get "For You" personalized recommendations using hybrid system
-   */
-  private async getForYouRecommendations(userId: string, limit: number, excludeWatched: boolean) {
-    try {
-      // Use the advanced hybrid recommendation system
-      const hybridResults = await this.recommendationService.generateHybridRecommendations(userId, {
-        limit,
-        excludeWatched,
-        // Balanced weights for personalized recommendations
-        hybridWeights: {
-          collaborative: 0.35,
-          contentBased: 0.35,
-          trending: 0.15,
-          case: 0.1,
-          temporal: 0.05
-        }
-      });
-
-      // Transform to match the expected format
-      return hybridResults.recommendations.map(rec => ({
-        content: rec.content,
-        score: rec.score,
-        reason: rec.reason || 'Personalized for you',
-        metadata: {
-          algorithm: rec.algorithm,
-          confidence: rec.confidence,
-          factors: rec.factors,
-          type: 'for_you_hybrid'
-        }
-      }));
-    } catch (error) {
-      console.error('Hybrid for you recommendations failed, falling back to simple method:', error);
-
-      // Fallback to previous method
-      return this.getSimpleForYouRecommendations(userId, limit, excludeWatched);
-    }
-  }
-
-  /**
-   * Simple "For You" recommendations fallback
-   */
-  private async getSimpleForYouRecommendations(userId: string, limit: number, excludeWatched: boolean) {
-    // Combine multiple recommendation types with weighted scoring
-    const [similar, caseBased, collaborative, trending] = await Promise.all([
-      this.getSimilarContentRecommendations(userId, Math.ceil(limit * 0.4), excludeWatched),
-      this.getCaseBasedRecommendations(userId, Math.ceil(limit * 0.3), excludeWatched),
-      this.getSimpleCollaborativeRecommendations(userId, Math.ceil(limit * 0.2), excludeWatched),
-      this.getTrendingRecommendations(userId, Math.ceil(limit * 0.1)),
-    ]);
-
-    // Combine and deduplicate
-    const allRecs = [...similar, ...caseBased, ...collaborative, ...trending];
-    const seen = new Set<string>();
-    const deduped = allRecs.filter(rec => {
-      if (seen.has(rec.content.id)) {
-        return false;
-      }
-      seen.add(rec.content.id);
-      return true;
-    });
-
-    // Sort by score and return top recommendations
-    return deduped
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit)
-      .map(rec => ({
-        ...rec,
-        reason: 'Personalized for you',
-        metadata: { ...rec.metadata, type: 'for_you_simple' }
-      }));
-  }
-
   /**
    * Track user content
    */
@@ -966,11 +646,8 @@ export class ContentService {
         results.push(...batchResults);
       }
 
-      // Transform for search indexing
-      const transformedContent = results.map(content => this.transformContentForIndexing(content));
-
-      // Index in search engine
-      await this.searchService.indexDocuments('content', transformedContent);
+      // Index in search engine, with each title's rating and tracking count
+      await this.searchIndexer.indexContent(results.map(content => content.id));
 
       // Clear cache
       await this.clearCache();
@@ -1109,6 +786,14 @@ export class ContentService {
 
       // Clear user's progress cache
       await this.clearUserProgressCache(userId);
+
+      const watched = data.filter(episode => episode.watched);
+      await this.activityRecorder.recordEpisodesWatched(userId, watched);
+
+      for (const contentId of new Set(watched.map(episode => episode.contentId))) {
+        await this.recordFinishedSeasons(userId, contentId);
+        await this.achievementService.handleEvent(userId, { type: 'episode_progress', contentId });
+      }
     } catch (error) {
       console.error('Episode progress tracking error:', error);
       throw new TRPCError({
@@ -1118,13 +803,41 @@ export class ContentService {
     }
   }
 
+  /**
+   * Record a finished_season activity for each season the user has fully watched.
+   * Per-season episode counts aren't stored, so only single-season series are checked.
+   */
+  private async recordFinishedSeasons(userId: string, contentId: string): Promise<void> {
+    const content = await this.prisma.content.findUnique({
+      where: { id: contentId },
+      select: { totalSeasons: true, totalEpisodes: true },
+    });
+
+    if (content?.totalSeasons !== 1 || !content.totalEpisodes) {
+      return;
+    }
+
+    const watchedCount = await this.prisma.episodeProgress.count({
+      where: { userId, contentId, seasonNumber: 1, watched: true },
+    });
+
+    if (watchedCount >= content.totalEpisodes) {
+      await this.activityRecorder.record(
+        userId,
+        ACTIVITY_TYPES.FINISHED_SEASON,
+        { seasonNumber: 1, episodeCount: content.totalEpisodes },
+        { contentId }
+      );
+    }
+  }
+
   /**
    * Get user's episode progress for a content
    */
   async getUserEpisodeProgress(userId: string, contentId: string): Promise<any[]> {
     const cacheKey = `${this.userCachePrefix}progress:${userId}:${contentId}`;
 
-    const cached = await redisService.get(cacheKey);
+    const cached = await redisService.get<CachedResult<'getUserEpisodeProgress'>>(cacheKey);
     if (cached) {
       return cached;
     }
@@ -1144,65 +857,6 @@ export class ContentService {
     return progress;
   }
 
-  /**
-   * Get user preferences based on their content history
-   */
-  private async getUserPreferences(userId: string) {
-    const cacheKey = `${this.userCachePrefix}preferences:${userId}`;
-
-    const cached = await redisService.get(cacheKey);
-    if (cached) {
-      return cached;
-    }
-
-    const userContent = await this.prisma.userContent.findMany({
-      where: {
-        userId,
-        status: { in: ['COMPLETED', 'WATCHING'] },
-      },
-      include: {
-        content: true,
-      },
-    });
-
-    // Analyze user preferences
-    const genreCount: Record<string, number> = {};
-    const typeCount: Record<string, number> = {};
-    const caseCount: Record<string, number> = {};
-
-    userContent.forEach(uc => {
-      // Count genres with rating weight
-      const weight = uc.rating || 3;
-      uc.content.genreTags.forEach(genre => {
-        genreCount[genre] = (genreCount[genre] || 0) + weight;
-      });
-
-      // Count content types
-      typeCount[uc.content.contentType] = (typeCount[uc.content.contentType] || 0) + weight;
-
-      // Count cases
-      uc.content.caseTags.forEach(caseTag => {
-        caseCount[caseTag] = (caseCount[caseTag] || 0) + weight;
-      });
-    });
-
-    const preferences = {
-      favoriteGenres: Object.entries(genreCount)
-        .sort(([, a], [, b]) => b - a)
-        .slice(0, 5)
-        .map(([genre]) => genre),
-      favoriteContentType: Object.entries(typeCount)
-        .sort(([, a], [, b]) => b - a)[0]?.[0],
-      favoriteCases: Object.entries(caseCount)
-        .sort(([, a], [, b]) => b - a)
-        .slice(0, 3)
-        .map(([caseTag]) => caseTag),
-    };
-
-    await redisService.set(cacheKey, preferences, CACHE_TTL.USER_CONTENT);
-    return preferences;
-  }
-
   /**
    * Get user's watched content IDs
    */
@@ -1215,72 +869,6 @@ export class ContentService {
     return new Set(userContent.map(uc => uc.contentId));
   }
 
-  /**
-   * Get user's favorite cases based on their content
-   */
-  private async getUserFavoriteCases(userId: string): Promise<string[]> {
-    const userContent = await this.prisma.userContent.findMany({
-      where: {
-        userId,
-        status: { in: ['COMPLETED', 'WATCHING'] },
-        rating: { gte: 4 },
-      },
-      include: {
-        content: {
-          select: {
-            caseTags: true,
-          },
-        },
-      },
-    });
-
-    const caseCount: Record<string, number> = {};
-    userContent.forEach(uc => {
-      uc.content.caseTags.forEach(caseTag => {
-        caseCount[caseTag] = (caseCount[caseTag] || 0) + 1;
-      });
-    });
-
-    return Object.entries(caseCount)
-      .sort(([, a], [, b]) => b - a)
-      .slice(0, 5)
-      .map(([caseTag]) => caseTag);
-  }
-
-  /**
-   * Find users with similar content preferences
-   */
-  private async findSimilarUsers(userId: string, limit: number): Promise<string[]> {
-    // Get user's content
-    const userContent = await this.prisma.userContent.findMany({
-      where: {
-        userId,
-        status: { in: ['COMPLETED', 'WATCHING'] },
-      },
-      select: { contentId: true },
-    });
-
-    const userContentIds = userContent.map(uc => uc.contentId);
-
-    if (userContentIds.length === 0) {
-      return [];
-    }
-
-    // Find users who watched similar content
-    const similarUsers = await this.prisma.userContent.findMany({
-      where: {
-        contentId: { in: userContentIds },
-        userId: { not: userId },
-        status: { in: ['COMPLETED', 'WATCHING'] },
-      },
-      select: { userId: true },
-      distinct: ['userId'],
-      take: limit,
-    });
-
-    return similarUsers.map(uc => uc.userId);
-  }
-
   /**
    * Clear user-specific caches
    */
@@ -1416,7 +1004,7 @@ export class ContentService {
     const cacheKey = `${this.cachePrefix}credits:${id}:${includePhotos}`;
 
     if (useCache) {
-      const cached = await redisService.get(cacheKey);
+      const cached = await redisService.get<CachedResult<'getCastAndCrew'>>(cacheKey);
       if (cached) {
         return cached;
       }
@@ -1695,7 +1283,7 @@ export class ContentService {
     const cacheKey = `${this.cachePrefix}related:${id}:${limit}:${userId || 'anonymous'}:${similarityThreshold}`;
 
     if (useCache) {
-      const cached = await redisService.get(cacheKey);
+      const cached = await redisService.get<CachedResult<'getRelatedContent'>>(cacheKey);
       if (cached) {
         return cached;
       }
@@ -2020,6 +1608,13 @@ export class ContentService {
    * Add content to user's watchlist
    */
   private async addToWatchlist(userId: string, contentId: string, data?: any): Promise<any> {
+    const previous = await this.prisma.userContent.findUnique({
+      where: {
+        userId_contentId: { userId, contentId },
+      },
+      select: { status: true },
+    });
+
     const userContent = await this.prisma.userContent.upsert({
       where: {
         userId_contentId: { userId, contentId },
@@ -2039,14 +1634,9 @@ export class ContentService {
       },
     });
 
-    // Create social activity
-    await this.prisma.socialActivity.create({
-      data: {
-        userId,
-        activityType: 'content_added',
-        contentId,
-        activityData: { status: userContent.status },
-      },
+    await this.activityRecorder.recordTrackingChange(userId, contentId, {
+      status: userContent.status,
+      previousStatus: previous?.status,
     });
 
     return userContent;
@@ -2056,22 +1646,12 @@ export class ContentService {
    * Remove content from user's watchlist
    */
   private async removeFromWatchlist(userId: string, contentId: string): Promise<any> {
-    const deleted = await this.prisma.userContent.delete({
+    await this.prisma.userContent.delete({
       where: {
         userId_contentId: { userId, contentId },
       },
     });
 
-    // Create social activity
-    await this.prisma.socialActivity.create({
-      data: {
-        userId,
-        activityType: 'content_removed',
-        contentId,
-        activityData: { previousStatus: deleted.status },
-      },
-    });
-
     return { success: true };
   }
 
@@ -2086,6 +1666,13 @@ export class ContentService {
       });
     }
 
+    const previous = await this.prisma.userContent.findUnique({
+      where: {
+        userId_contentId: { userId, contentId },
+      },
+      select: { status: true, rating: true },
+    });
+
     const userContent = await this.prisma.userContent.upsert({
       where: {
         userId_contentId: { userId, contentId },
@@ -2108,14 +1695,11 @@ export class ContentService {
       },
     });
 
-    // Create social activity
-    await this.prisma.socialActivity.create({
-      data: {
-        userId,
-        activityType: 'content_rated',
-        contentId,
-        activityData: { rating, notes },
-      },
+    await this.activityRecorder.recordTrackingChange(userId, contentId, {
+      status: userContent.status,
+      previousStatus: previous?.status,
+      rating,
+      previousRating: previous?.rating,
     });
 
     return userContent;
@@ -2151,6 +1735,14 @@ export class ContentService {
         },
       });
 
+      if (watched) {
+        await this.activityRecorder.recordEpisodesWatched(userId, [
+          { contentId, seasonNumber, episodeNumber },
+        ]);
+        await this.recordFinishedSeasons(userId, contentId);
+        await this.achievementService.handleEvent(userId, { type: 'episode_progress', contentId });
+      }
+
       return { success: true, progress: data.progress };
     }
 
@@ -2260,7 +1852,7 @@ export class ContentService {
         };
 
         const contentType = transformedHit.contentType || 'DOCUMENTARY';
-        return placeholders[contentType] || 'https://via.placeholder.com/500x750/333/eee?text=True+Crime';
+        return placeholders[contentType as keyof typeof placeholders] || 'https://via.placeholder.com/500x750/333/eee?text=True+Crime';
       };
 
       return {
@@ -2268,7 +1860,7 @@ export class ContentService {
         externalId: transformedHit.externalId || transformedHit.id,
         title: transformedHit.title,
         contentType: transformedHit.contentType as ContentType,
-        description: transformedHit.description,
+        description: transformedHit.description ?? undefined,
         releaseDate: transformedHit.releaseDate ?
           (typeof transformedHit.releaseDate === 'string' ? new Date(transformedHit.releaseDate) : transformedHit.releaseDate) :
           (transformedHit.releaseYear ? new Date(`${transformedHit.releaseYear}-01-01`) : undefined),
@@ -2281,12 +1873,12 @@ export class ContentService {
             : undefined),
         // Add rating field for frontend
         rating: transformedHit.rating || transformedHit.userRating || transformedHit.imdbRating || undefined,
-        runtimeMinutes: transformedHit.runtimeMinutes,
+        runtimeMinutes: transformedHit.runtimeMinutes ?? undefined,
         posterUrl: getPosterUrl(),
-        trailerUrl: transformedHit.trailerUrl,
-        tmdbId: transformedHit.tmdbId,
-        imdbId: transformedHit.imdbId,
-        tvdbId: transformedHit.tvdbId,
+        trailerUrl: transformedHit.trailerUrl ?? undefined,
+        tmdbId: transformedHit.tmdbId ?? undefined,
+        imdbId: transformedHit.imdbId ?? undefined,
+        tvdbId: transformedHit.tvdbId ?? undefined,
         // Transform platforms to ensure they have the expected structure
         platforms: Array.isArray(transformedHit.platforms) ?
           transformedHit.platforms.map((p: any) => ({
@@ -2300,10 +1892,10 @@ export class ContentService {
         caseIds: Array.isArray(transformedHit.caseTags) ? transformedHit.caseTags :
                  (Array.isArray(transformedHit.caseIds) ? transformedHit.caseIds : []),
         caseTags: Array.isArray(transformedHit.caseTags) ? transformedHit.caseTags : [],
-        totalSeasons: transformedHit.totalSeasons,
-        totalEpisodes: transformedHit.totalEpisodes,
-        status: transformedHit.status,
-        searchVector: transformedHit.searchVector,
+        totalSeasons: transformedHit.totalSeasons ?? undefined,
+        totalEpisodes: transformedHit.totalEpisodes ?? undefined,
+        status: transformedHit.status ?? undefined,
+        searchVector: transformedHit.searchVector ?? undefined,
         createdAt: transformedHit.createdAt ?
           (typeof transformedHit.createdAt === 'string' ? new Date(transformedHit.createdAt) : transformedHit.createdAt) :
           new Date(),
@@ -2377,43 +1969,5 @@ export class ContentService {
       updatedAt: hit.updatedAt ? new Date(hit.updatedAt) : new Date(),
     };
   }
-
-  /**
-   * Transform content for search indexing
-   * Ensures consistent camelCase field names for Meilisearch indexing
-   */
-  private transformContentForIndexing(content: any): any {
-    // First apply our standard transformation to ensure camelCase
-    const transformed = transformSearchResult(content);
-
-    // Return a clean, consistent object for indexing
-    return {
-      id: transformed.id,
-      externalId: transformed.externalId || transformed.id,
-      title: transformed.title,
-      description: transformed.description,
-      contentType: transformed.contentType,
-      genreTags: Array.isArray(transformed.genreTags) ? transformed.genreTags : [],
-      caseTags: Array.isArray(transformed.caseTags) ? transformed.caseTags : [],
-      caseIds: Array.isArray(transformed.caseIds) ? transformed.caseIds : [],
-      releaseDate: transformed.releaseDate,
-      releaseYear: transformed.releaseYear,
-      runtimeMinutes: transformed.runtimeMinutes,
-      posterUrl: transformed.posterUrl,
-      trailerUrl: transformed.trailerUrl,
-      platforms: Array.isArray(transformed.platforms) ? transformed.platforms : [],
-      totalSeasons: transformed.totalSeasons,
-      totalEpisodes: transformed.totalEpisodes,
-      status: transformed.status,
-      tmdbId: transformed.tmdbId,
-      imdbId: transformed.imdbId,
-      tvdbId: transformed.tvdbId,
-      popularity: transformed.popularity || 0,
-      rating: transformed.rating || 0,
-      searchVector: transformed.searchVector,
-      createdAt: transformed.createdAt,
-      updatedAt: transformed.updatedAt
-    };
-  }
 }
 
@@ -0,0 +1,576 @@
+// Episode Tracking Service - Per-episode progress with season roll-ups and automatic library status
+import { Prisma, PrismaClient, TrackingStatus, UserContent } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import { RedisService, redisService } from '../core/redis.service';
+import { createTVDBClient } from '../external';
+import { TVDBApiClient } from '../external/tvdb-client';
+import { SearchIndexerService } from '../search/search-indexer.service';
+import {
+  ACTIVITY_TYPES,
+  ActivityRecorderService,
+  EpisodeRef,
+} from '../social/activity-recorder.service';
+import { AchievementService } from '../social/achievement.service';
+import { ChallengeService } from '../social/challenge.service';
+
+type Tx = Prisma.TransactionClient;
+
+export type EpisodeGuideClient = Pick<TVDBApiClient, 'getSeriesEpisodes'>;
+
+export type EpisodeGuideCache = Pick<RedisService, 'get' | 'set'>;
+
+export type EpisodeSelection =
+  | { type: 'episode'; seasonNumber: number; episodeNumber: number; watched: boolean }
+  | { type: 'season'; seasonNumber: number; watched: boolean }
+  // Everything aired up to and including this episode, e.g. "watched up to S3E5"
+  | { type: 'up_to'; seasonNumber: number; episodeNumber: number };
+
+export interface SeasonProgress {
+  seasonNumber: number;
+  watched: number;
+  // Null when the episode list for the series isn't known
+  total: number | null;
+  percent: number | null;
+  complete: boolean;
+}
+
+export interface EpisodeProgressSummary {
+  contentId: string;
+  status: TrackingStatus | null;
+  watched: number;
+  total: number | null;
+  percent: number | null;
+  seasons: SeasonProgress[];
+  // First aired episode not yet watched
+  nextEpisode: EpisodeRef | null;
+  lastAiredEpisode: EpisodeRef | null;
+  // Every aired episode has been watched
+  caughtUp: boolean;
+}
+
+export interface EpisodeUpdateResult {
+  changed: number;
+  statusChange: { from: TrackingStatus | null; to: TrackingStatus } | null;
+  progress: EpisodeProgressSummary;
+}
+
+// Aired episodes of a series in order, specials excluded
+type EpisodeGuide = EpisodeRef[];
+
+// Dated episodes as cached; airing is checked on read so new episodes count right away
+type CachedEpisode = EpisodeRef & { aired: string };
+
+type ProgressCounts = Omit<EpisodeProgressSummary, 'contentId' | 'status'>;
+
+interface ProgressContent {
+  id: string;
+  tvdbId: number | null;
+  totalSeasons: number | null;
+  totalEpisodes: number | null;
+}
+
+// TVDB pages hold 500 episodes, so this covers even long-running daily shows
+const MAX_GUIDE_PAGES = 20;
+
+const SPECIALS_SEASON = 0;
+
+const GUIDE_CACHE_PREFIX = 'episode_guide:';
+const GUIDE_CACHE_TTL_SECONDS = 6 * 60 * 60;
+
+export class EpisodeTrackingService {
+  private activityRecorder: ActivityRecorderService;
+  private guideClient: EpisodeGuideClient | null;
+
+  constructor(
+    private prisma: PrismaClient,
+    guideClient?: EpisodeGuideClient | null | undefined,
+    private cache: EpisodeGuideCache = redisService,
+    private searchIndexer: SearchIndexerService = new SearchIndexerService(prisma)
+  ) {
+    this.activityRecorder = new ActivityRecorderService(prisma);
+    this.guideClient =
+      guideClient !== undefined
+        ? guideClient
+        : process.env.TVDB_API_KEY
+          ? createTVDBClient(process.env.TVDB_API_KEY, process.env.TVDB_PIN)
+          : null;
+  }
+
+  /**
+   * Mark an episode, a season or everything up to an episode watched (or unwatched).
+   * The library entry moves to WATCHING with the first episode and to COMPLETED once the
+   * latest aired episode is watched.
+   */
+  async updateProgress(
+    userId: string,
+    contentId: string,
+    selection: EpisodeSelection
+  ): Promise<EpisodeUpdateResult> {
+    try {
+      const content = await this.getContent(contentId);
+      const guide = await this.getEpisodeGuide(content);
+      const watched = selection.type === 'up_to' || selection.watched;
+
+      const { changedRefs, before, after, progress } = await this.prisma.$transaction(async tx => {
+        const current = await tx.episodeProgress.findMany({
+          where: { userId, contentId, watched: true },
+          select: { seasonNumber: true, episodeNumber: true },
+        });
+        const watchedByKey = byKey(current);
+        const refs = this.resolveSelection(selection, guide, current);
+        const changedRefs = refs.filter(ref => watchedByKey.has(episodeKey(ref)) !== watched);
+
+        if (changedRefs.length > 0) {
+          await this.writeEpisodes(tx, userId, contentId, changedRefs, watched);
+          changedRefs.forEach(ref =>
+            watched ? watchedByKey.set(episodeKey(ref), ref) : watchedByKey.delete(episodeKey(ref))
+          );
+        }
+
+        const before = await tx.userContent.findUnique({
+          where: { userId_contentId: { userId, contentId } },
+        });
+        const summary = summarizeProgress(content, guide, watchedByKey);
+        const status = nextStatus(before, summary, watched, changedRefs.length > 0);
+        let after = before;
+
+        if (status) {
+          const now = new Date();
+          const data = {
+            status,
+            dateStarted: before?.dateStarted ?? now,
+            dateCompleted: status === 'COMPLETED' ? now : null,
+          };
+
+          after = before
+            ? await tx.userContent.update({ where: { id: before.id }, data })
+            : await tx.userContent.create({ data: { ...data, userId, contentId } });
+        }
+
+        return {
+          changedRefs,
+          before,
+          after,
+          progress: { ...summary, contentId, status: after?.status ?? null },
+        };
+      });
+
+      if (watched && changedRefs.length > 0) {
+        await this.afterEpisodesWatched(userId, contentId, changedRefs, progress);
+      }
+
+      if (after && after.status !== before?.status) {
+        await this.afterStatusChange(userId, contentId, before, after);
+      }
+
+      return {
+        changed: changedRefs.length,
+        statusChange:
+          after && after.status !== before?.status
+            ? { from: before?.status ?? null, to: after.status }
+            : null,
+        progress,
+      };
+    } catch (error) {
+      this.rethrow(error, 'Failed to update episode progress');
+    }
+  }
+
+  /**
+   * Watched counts and completion percentages per season and for the whole series
+   */
+  async getProgress(userId: string, contentId: string): Promise<EpisodeProgressSummary> {
+    try {
+      const content = await this.getContent(contentId);
+      const [guide, rows, entry] = await Promise.all([
+        this.getEpisodeGuide(content),
+        this.prisma.episodeProgress.findMany({
+          where: { userId, contentId, watched: true },
+          select: { seasonNumber: true, episodeNumber: true },
+        }),
+        this.prisma.userContent.findUnique({
+          where: { userId_contentId: { userId, contentId } },
+          select: { status: true },
+        }),
+      ]);
+
+      return {
+        ...summarizeProgress(content, guide, byKey(rows)),
+        contentId,
+        status: entry?.status ?? null,
+      };
+    } catch (error) {
+      this.rethrow(error, 'Failed to fetch episode progress');
+    }
+  }
+
+  private async getContent(contentId: string): Promise<ProgressContent> {
+    const content = await this.prisma.content.findUnique({
+      where: { id: contentId },
+      select: {
+        id: true,
+        contentType: true,
+        tvdbId: true,
+        totalSeasons: true,
+        totalEpisodes: true,
+      },
+    });
+
+    if (!content) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Content not found',
+      });
+    }
+
+    if (content.contentType === 'MOVIE') {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Movies do not have episodes',
+      });
+    }
+
+    return content;
+  }
+
+  /**
+   * Aired episodes from TVDB. Falls back to numbering the episodes of a single-season
+   * series from totalEpisodes, and to null when the episode list can't be known.
+   */
+  private async getEpisodeGuide(content: ProgressContent): Promise<EpisodeGuide | null> {
+    if (this.guideClient && content.tvdbId) {
+      try {
+        const now = new Date();
+        const guide: EpisodeGuide = (await this.getDatedEpisodes(this.guideClient, content.tvdbId))
+          .filter(episode => new Date(episode.aired) <= now)
+          .map(({ seasonNumber, episodeNumber }) => ({ seasonNumber, episodeNumber }));
+
+        if (guide.length > 0) {
+          return uniqueSorted(guide);
+        }
+      } catch (error) {
+        console.error(`Failed to fetch episode list for ${content.id}:`, error);
+      }
+    }
+
+    if (content.totalSeasons === 1 && content.totalEpisodes) {
+      return Array.from({ length: content.totalEpisodes }, (_, index) => ({
+        seasonNumber: 1,
+        episodeNumber: index + 1,
+      }));
+    }
+
+    return null;
+  }
+
+  /**
+   * Every dated episode of a series outside the specials, from the cache or read page by
+   * page from TVDB
+   */
+  private async getDatedEpisodes(
+    client: EpisodeGuideClient,
+    tvdbId: number
+  ): Promise<CachedEpisode[]> {
+    const cacheKey = `${GUIDE_CACHE_PREFIX}${tvdbId}`;
+    const cached = await this.cache.get<CachedEpisode[]>(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const dated: CachedEpisode[] = [];
+
+    for (let page = 0; page < MAX_GUIDE_PAGES; page++) {
+      const { episodes, links } = await client.getSeriesEpisodes(tvdbId, undefined, page);
+
+      for (const episode of episodes) {
+        if (episode.seasonNumber !== SPECIALS_SEASON && episode.aired) {
+          dated.push({
+            seasonNumber: episode.seasonNumber,
+            episodeNumber: episode.number,
+            aired: episode.aired,
+          });
+        }
+      }
+
+      if (!links?.next) {
+        break;
+      }
+    }
+
+    await this.cache.set(cacheKey, dated, GUIDE_CACHE_TTL_SECONDS);
+    return dated;
+  }
+
+  /**
+   * Episodes a selection covers. Whole seasons and "up to" need the episode list, except
+   * when unwatching, which only touches episodes already marked watched.
+   */
+  private resolveSelection(
+    selection: EpisodeSelection,
+    guide: EpisodeGuide | null,
+    watchedRows: EpisodeRef[]
+  ): EpisodeRef[] {
+    if (selection.type === 'episode') {
+      return [{ seasonNumber: selection.seasonNumber, episodeNumber: selection.episodeNumber }];
+    }
+
+    if (selection.type === 'season' && !selection.watched) {
+      return uniqueSorted([
+        ...(guide ?? []).filter(ref => ref.seasonNumber === selection.seasonNumber),
+        ...watchedRows.filter(ref => ref.seasonNumber === selection.seasonNumber),
+      ]);
+    }
+
+    if (!guide) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message:
+          'The episode list for this series is not available yet. Mark episodes one at a time instead.',
+      });
+    }
+
+    if (selection.type === 'season') {
+      const episodes = guide.filter(ref => ref.seasonNumber === selection.seasonNumber);
+
+      if (episodes.length === 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Season ${selection.seasonNumber} has no aired episodes`,
+        });
+      }
+
+      return episodes;
+    }
+
+    const target = { seasonNumber: selection.seasonNumber, episodeNumber: selection.episodeNumber };
+
+    return uniqueSorted([...guide.filter(ref => compareEpisodes(ref, target) <= 0), target]);
+  }
+
+  private async writeEpisodes(
+    tx: Tx,
+    userId: string,
+    contentId: string,
+    refs: EpisodeRef[],
+    watched: boolean
+  ): Promise<void> {
+    const where = {
+      userId,
+      contentId,
+      OR: refs.map(ref => ({ seasonNumber: ref.seasonNumber, episodeNumber: ref.episodeNumber })),
+    };
+
+    if (!watched) {
+      await tx.episodeProgress.updateMany({ where, data: { watched: false, watchedAt: null } });
+      return;
+    }
+
+    const now = new Date();
+
+    await tx.episodeProgress.updateMany({
+      where: { ...where, watched: false },
+      data: { watched: true, watchedAt: now },
+    });
+    await tx.episodeProgress.createMany({
+      data: refs.map(ref => ({ userId, contentId, ...ref, watched: true, watchedAt: now })),
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * Feed activities and achievements for newly watched episodes and finished seasons
+   */
+  private async afterEpisodesWatched(
+    userId: string,
+    contentId: string,
+    refs: EpisodeRef[],
+    progress: EpisodeProgressSummary
+  ): Promise<void> {
+    await this.activityRecorder.recordEpisodesWatched(
+      userId,
+      refs.map(ref => ({ ...ref, contentId }))
+    );
+
+    const touchedSeasons = new Set(refs.map(ref => ref.seasonNumber));
+
+    for (const season of progress.seasons) {
+      if (season.complete && touchedSeasons.has(season.seasonNumber)) {
+        await this.activityRecorder.record(
+          userId,
+          ACTIVITY_TYPES.FINISHED_SEASON,
+          { seasonNumber: season.seasonNumber, episodeCount: season.total! },
+          { contentId }
+        );
+      }
+    }
+
+    await new AchievementService(this.prisma).handleEvent(userId, {
+      type: 'episode_progress',
+      contentId,
+    });
+  }
+
+  private async afterStatusChange(
+    userId: string,
+    contentId: string,
+    before: UserContent | null,
+    after: UserContent
+  ): Promise<void> {
+    await this.activityRecorder.recordTrackingChange(userId, contentId, {
+      status: after.status,
+      previousStatus: before?.status,
+    });
+
+    // A new library entry adds to the title's tracking count in the search index
+    if (!before) {
+      this.searchIndexer.queueIndexContent([contentId]);
+    }
+
+    // Credit completions to any challenges the user has joined, and take the credit
+    // back when unwatching an episode reopens the title
+    try {
+      if (after.status === 'COMPLETED') {
+        await new ChallengeService(this.prisma).recordCompletion(userId, contentId);
+      } else if (before?.status === 'COMPLETED') {
+        await new ChallengeService(this.prisma).revokeCompletion(userId, contentId);
+      }
+    } catch (error) {
+      console.error(`Failed to update challenges for ${contentId}:`, error);
+    }
+
+    await new AchievementService(this.prisma).handleEvent(userId, {
+      type: 'content_tracked',
+      contentId,
+      status: after.status,
+    });
+  }
+
+  private rethrow(error: unknown, message: string): never {
+    if (error instanceof TRPCError) {
+      throw error;
+    }
+
+    console.error(`${message}:`, error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message,
+    });
+  }
+}
+
+/**
+ * Library status the entry should move to after an episode change, or null to leave it
+ */
+function nextStatus(
+  entry: UserContent | null,
+  progress: ProgressCounts,
+  watched: boolean,
+  changed: boolean
+): TrackingStatus | null {
+  if (!changed) {
+    return null;
+  }
+
+  if (watched && progress.caughtUp) {
+    return entry?.status === 'COMPLETED' ? null : 'COMPLETED';
+  }
+
+  if (watched && (!entry || entry.status === 'WANT_TO_WATCH')) {
+    return 'WATCHING';
+  }
+
+  // Unwatching an aired episode of a completed series puts it back in progress
+  if (!watched && entry?.status === 'COMPLETED' && !progress.caughtUp) {
+    return 'WATCHING';
+  }
+
+  return null;
+}
+
+/**
+ * Roll watched episodes up into per-season and overall completion. With an episode list,
+ * only aired episodes count towards the total; without one, totalEpisodes is the total.
+ */
+function summarizeProgress(
+  content: ProgressContent,
+  guide: EpisodeGuide | null,
+  watchedByKey: Map<string, EpisodeRef>
+): ProgressCounts {
+  const watched = Array.from(watchedByKey.values()).filter(
+    ref => ref.seasonNumber !== SPECIALS_SEASON
+  );
+  const seasonNumbers = Array.from(
+    new Set([...(guide ?? []), ...watched].map(ref => ref.seasonNumber))
+  ).sort((a, b) => a - b);
+
+  if (!guide) {
+    const total = content.totalEpisodes;
+
+    return {
+      watched: watched.length,
+      total,
+      percent: percentOf(watched.length, total),
+      seasons: seasonNumbers.map(seasonNumber => ({
+        seasonNumber,
+        watched: watched.filter(ref => ref.seasonNumber === seasonNumber).length,
+        total: null,
+        percent: null,
+        complete: false,
+      })),
+      nextEpisode: null,
+      lastAiredEpisode: null,
+      caughtUp: total !== null && total > 0 && watched.length >= total,
+    };
+  }
+
+  const isWatched = (ref: EpisodeRef) => watchedByKey.has(episodeKey(ref));
+  const lastAiredEpisode = guide[guide.length - 1] ?? null;
+  const watchedAired = guide.filter(isWatched).length;
+
+  return {
+    watched: watchedAired,
+    total: guide.length,
+    percent: percentOf(watchedAired, guide.length),
+    seasons: seasonNumbers.map(seasonNumber => {
+      const aired = guide.filter(ref => ref.seasonNumber === seasonNumber);
+      const total = aired.length > 0 ? aired.length : null;
+
+      return {
+        seasonNumber,
+        watched: watched.filter(ref => ref.seasonNumber === seasonNumber).length,
+        total,
+        percent: percentOf(aired.filter(isWatched).length, total),
+        complete: aired.length > 0 && aired.every(isWatched),
+      };
+    }),
+    nextEpisode: guide.find(ref => !isWatched(ref)) ?? null,
+    lastAiredEpisode,
+    caughtUp: guide.length > 0 && watchedAired === guide.length,
+  };
+}
+
+function percentOf(count: number, total: number | null): number | null {
+  return total ? Math.min(100, Math.round((count / total) * 100)) : null;
+}
+
+function episodeKey(ref: EpisodeRef): string {
+  return `${ref.seasonNumber}:${ref.episodeNumber}`;
+}
+
+function byKey(refs: EpisodeRef[]): Map<string, EpisodeRef> {
+  return new Map(
+    refs.map(ref => [
+      episodeKey(ref),
+      { seasonNumber: ref.seasonNumber, episodeNumber: ref.episodeNumber },
+    ])
+  );
+}
+
+function compareEpisodes(a: EpisodeRef, b: EpisodeRef): number {
+  return a.seasonNumber - b.seasonNumber || a.episodeNumber - b.episodeNumber;
+}
+
+function uniqueSorted(refs: EpisodeRef[]): EpisodeRef[] {
+  return Array.from(byKey(refs).values()).sort(compareEpisodes);
+}
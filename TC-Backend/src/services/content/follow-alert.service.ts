@@ -0,0 +1,191 @@
+// Follow Alert Service - Queues new-content alerts for followers during content sync and sends them in per-user batches
+import { Prisma, PrismaClient } from '@prisma/client';
+import { NotificationService } from '../notification/notification.service';
+
+export interface SyncedContent {
+  contentId: string;
+  title: string;
+  // Whether the sync created the content rather than refreshing it
+  created: boolean;
+  // Cases the sync linked the content to for the first time
+  newCaseIds: string[];
+  // Wikidata IDs of the real people in the credits
+  personWikidataIds: string[];
+  // Episode counts of a TV series before and after the sync
+  previousEpisodes?: number | null | undefined;
+  totalEpisodes?: number | null | undefined;
+}
+
+export interface AlertRunResult {
+  users: number;
+  alerts: number;
+}
+
+// The oldest alert waits this long before a user's batch goes out, so content found by one
+// sync run arrives as a single notification
+export const ALERT_BATCH_DELAY_MS = 15 * 60 * 1000;
+
+const ALERT_INCLUDE = {
+  content: { select: { title: true } },
+  follow: {
+    select: {
+      personWikidataId: true,
+      personName: true,
+      contentCase: { select: { id: true, caseName: true } },
+    },
+  },
+} as const;
+
+type PendingAlert = Prisma.FollowAlertGetPayload<{ include: typeof ALERT_INCLUDE }>;
+
+export class FollowAlertService {
+  private notifications: NotificationService;
+
+  constructor(
+    private prisma: PrismaClient,
+    notifications?: NotificationService | undefined
+  ) {
+    this.notifications = notifications ?? new NotificationService(prisma);
+  }
+
+  /**
+   * Queue alerts for everyone who follows a case the content was newly linked to, a person in
+   * the credits of new content, or a series that gained episodes. A user gets one alert per
+   * title however many of their follows match, and never a second for the same title.
+   * Returns the number queued. Failures are logged, not thrown, so they never fail a sync.
+   */
+  async recordSyncedContent(synced: SyncedContent): Promise<number> {
+    const hasNewEpisodes = (synced.totalEpisodes ?? 0) > (synced.previousEpisodes ?? 0);
+    const matches: Prisma.FollowWhereInput[] = [
+      ...(synced.newCaseIds.length > 0 ? [{ caseId: { in: synced.newCaseIds } }] : []),
+      ...(synced.created && synced.personWikidataIds.length > 0
+        ? [{ personWikidataId: { in: synced.personWikidataIds } }]
+        : []),
+      ...(!synced.created && hasNewEpisodes ? [{ contentId: synced.contentId }] : []),
+    ];
+
+    if (matches.length === 0) {
+      return 0;
+    }
+
+    try {
+      const follows = await this.prisma.follow.findMany({
+        where: { OR: matches },
+        select: { id: true, userId: true, targetType: true },
+        orderBy: { createdAt: 'asc' },
+      });
+      const alerts = new Map<string, Prisma.FollowAlertCreateManyInput>();
+
+      for (const follow of follows) {
+        // New episodes can be announced again the next time the series grows
+        const dedupeKey =
+          follow.targetType === 'SERIES'
+            ? `episodes:${synced.contentId}:${synced.totalEpisodes}`
+            : `content:${synced.contentId}`;
+        const key = `${follow.userId}:${dedupeKey}`;
+
+        if (!alerts.has(key)) {
+          alerts.set(key, {
+            userId: follow.userId,
+            followId: follow.id,
+            contentId: synced.contentId,
+            dedupeKey,
+          });
+        }
+      }
+
+      if (alerts.size === 0) {
+        return 0;
+      }
+
+      // Alerts already queued or sent for the same title are skipped
+      const { count } = await this.prisma.followAlert.createMany({
+        data: Array.from(alerts.values()),
+        skipDuplicates: true,
+      });
+
+      return count;
+    } catch (error) {
+      console.error(`Failed to queue follow alerts for content ${synced.contentId}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Send queued alerts as one notification per user: the single alert's own notification, or a
+   * digest when several titles are waiting. Whether it is delivered follows the user's
+   * new_content_alerts setting. Run on a schedule, one run at a time.
+   */
+  async sendPending(now: Date = new Date(), limit: number = 500): Promise<AlertRunResult> {
+    const result: AlertRunResult = { users: 0, alerts: 0 };
+    const ready = await this.prisma.followAlert.findMany({
+      where: { sentAt: null, createdAt: { lte: new Date(now.getTime() - ALERT_BATCH_DELAY_MS) } },
+      distinct: ['userId'],
+      select: { userId: true },
+      take: limit,
+    });
+
+    for (const { userId } of ready) {
+      const alerts = await this.prisma.followAlert.findMany({
+        where: { userId, sentAt: null },
+        include: ALERT_INCLUDE,
+        orderBy: { createdAt: 'asc' },
+      });
+
+      const { count } = await this.prisma.followAlert.updateMany({
+        where: { id: { in: alerts.map(alert => alert.id) }, sentAt: null },
+        data: { sentAt: now },
+      });
+
+      if (count === 0) {
+        continue;
+      }
+
+      await this.send(userId, alerts);
+      result.users++;
+      result.alerts += count;
+    }
+
+    return result;
+  }
+
+  private async send(userId: string, alerts: PendingAlert[]): Promise<void> {
+    const titles = new Map(alerts.map(alert => [alert.contentId, alert.content.title]));
+
+    if (titles.size > 1) {
+      await this.notifications.followedContentDigest(userId, {
+        contentTitles: Array.from(titles.values()),
+      });
+      return;
+    }
+
+    const [alert] = alerts;
+
+    if (!alert) {
+      return;
+    }
+
+    const { follow, contentId, content } = alert;
+
+    if (follow.contentCase) {
+      await this.notifications.followedCaseContent(userId, {
+        caseId: follow.contentCase.id,
+        caseName: follow.contentCase.caseName,
+        contentId,
+        contentTitle: content.title,
+      });
+    } else if (follow.personWikidataId) {
+      await this.notifications.followedPersonContent(userId, {
+        personWikidataId: follow.personWikidataId,
+        personName: follow.personName ?? follow.personWikidataId,
+        contentId,
+        contentTitle: content.title,
+      });
+    } else {
+      await this.notifications.followedSeriesEpisodes(userId, {
+        contentId,
+        seriesTitle: content.title,
+      });
+    }
+  }
+}
@@ -0,0 +1,151 @@
+// Follow Service - Following cases, real people and TV series for new-content alerts
+import { Follow, FollowTargetType, PrismaClient } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+
+export type FollowTarget =
+  | { type: 'CASE'; caseId: string }
+  // People are identified by the Wikidata IDs on content credits
+  | { type: 'PERSON'; wikidataId: string; name: string }
+  | { type: 'SERIES'; contentId: string };
+
+export const WIKIDATA_ID_PATTERN = /^Q\d+$/;
+
+const FOLLOW_INCLUDE = {
+  contentCase: { select: { id: true, caseName: true, caseSlug: true } },
+  content: { select: { id: true, title: true, posterUrl: true } },
+} as const;
+
+export class FollowService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Follow a case, person or series. Following something twice keeps the first follow.
+   */
+  async follow(userId: string, target: FollowTarget): Promise<Follow> {
+    try {
+      switch (target.type) {
+        case 'CASE': {
+          await this.assertCaseExists(target.caseId);
+
+          return await this.prisma.follow.upsert({
+            where: { userId_caseId: { userId, caseId: target.caseId } },
+            update: {},
+            create: { userId, targetType: 'CASE', caseId: target.caseId },
+          });
+        }
+        case 'PERSON': {
+          if (!WIKIDATA_ID_PATTERN.test(target.wikidataId)) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: 'People are followed by their Wikidata ID',
+            });
+          }
+
+          return await this.prisma.follow.upsert({
+            where: { userId_personWikidataId: { userId, personWikidataId: target.wikidataId } },
+            update: { personName: target.name },
+            create: {
+              userId,
+              targetType: 'PERSON',
+              personWikidataId: target.wikidataId,
+              personName: target.name,
+            },
+          });
+        }
+        case 'SERIES': {
+          await this.assertSeriesExists(target.contentId);
+
+          return await this.prisma.follow.upsert({
+            where: { userId_contentId: { userId, contentId: target.contentId } },
+            update: {},
+            create: { userId, targetType: 'SERIES', contentId: target.contentId },
+          });
+        }
+      }
+    } catch (error) {
+      this.rethrow(error, 'Failed to follow');
+    }
+  }
+
+  /**
+   * Stop following. Alerts still waiting to be sent for the follow are dropped with it.
+   */
+  async unfollow(userId: string, followId: string): Promise<void> {
+    try {
+      const { count } = await this.prisma.follow.deleteMany({
+        where: { id: followId, userId },
+      });
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Follow not found',
+        });
+      }
+    } catch (error) {
+      this.rethrow(error, 'Failed to unfollow');
+    }
+  }
+
+  /**
+   * Everything the user follows, newest first
+   */
+  async listFollows(userId: string, targetType?: FollowTargetType | undefined) {
+    try {
+      return await this.prisma.follow.findMany({
+        where: { userId, ...(targetType && { targetType }) },
+        include: FOLLOW_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      this.rethrow(error, 'Failed to fetch follows');
+    }
+  }
+
+  private async assertCaseExists(caseId: string): Promise<void> {
+    const contentCase = await this.prisma.contentCase.findUnique({
+      where: { id: caseId },
+      select: { id: true },
+    });
+
+    if (!contentCase) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Case not found',
+      });
+    }
+  }
+
+  private async assertSeriesExists(contentId: string): Promise<void> {
+    const content = await this.prisma.content.findUnique({
+      where: { id: contentId },
+      select: { contentType: true },
+    });
+
+    if (!content) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Content not found',
+      });
+    }
+
+    if (content.contentType !== 'TV_SERIES') {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Only TV series can be followed',
+      });
+    }
+  }
+
+  private rethrow(error: unknown, message: string): never {
+    if (error instanceof TRPCError) {
+      throw error;
+    }
+
+    console.error(`${message}:`, error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message,
+    });
+  }
+}
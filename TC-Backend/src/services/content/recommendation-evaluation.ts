@@ -0,0 +1,281 @@
+// Recommendation Evaluation - Offline precision@k of each recommendation type against held-out ratings
+import {
+  Interaction,
+  RecommendableContent,
+  RecommendationDataset,
+  RecommendationType,
+  rankRecommendations,
+} from './recommendation-strategies';
+
+export interface EvaluationOptions {
+  // Number of recommendations checked per user
+  k?: number | undefined;
+  // Share of each user's most recent titles hidden from the recommender
+  holdoutFraction?: number | undefined;
+  // Users with fewer rated titles are skipped
+  minRatings?: number | undefined;
+  // Held-out titles rated at least this count as relevant
+  relevantRating?: number | undefined;
+  types?: RecommendationType[] | undefined;
+  now?: Date | undefined;
+}
+
+export interface PrecisionResult {
+  precisionAtK: number;
+  // Share of users with at least one relevant title in their top k
+  hitRate: number;
+}
+
+export interface EvaluationReport {
+  k: number;
+  usersEvaluated: number;
+  // Most popular titles the user hasn't tracked, to compare the blends against
+  baseline: PrecisionResult;
+  results: Array<PrecisionResult & { type: RecommendationType }>;
+}
+
+export interface SeededDatasetOptions {
+  seed?: number | undefined;
+  users?: number | undefined;
+  titles?: number | undefined;
+  // Titles each user has rated
+  ratingsPerUser?: number | undefined;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SEED_GENRES = [
+  'Crime',
+  'Documentary',
+  'Mystery',
+  'Drama',
+  'Thriller',
+  'History',
+  'Biography',
+  'Legal',
+  'Investigation',
+  'Cold Case',
+];
+
+const SEED_THEMES = [
+  ['serial', 'killer', 'manhunt', 'profiler'],
+  ['cult', 'leader', 'compound', 'followers'],
+  ['heist', 'robbery', 'vault', 'getaway'],
+  ['wrongful', 'conviction', 'appeal', 'innocence'],
+  ['disappearance', 'search', 'missing', 'volunteers'],
+  ['fraud', 'scheme', 'investors', 'collapse'],
+];
+
+/**
+ * Precision@k of each recommendation type. For every user with enough ratings, their most
+ * recent titles are hidden, recommendations are made from the rest of the data, and the
+ * top k are checked against the hidden titles they rated highly.
+ */
+export function evaluatePrecisionAtK(
+  dataset: RecommendationDataset,
+  options: EvaluationOptions = {}
+): EvaluationReport {
+  const {
+    k = 10,
+    holdoutFraction = 0.2,
+    minRatings = 5,
+    relevantRating = 4,
+    types = Object.values(RecommendationType),
+    now = new Date(),
+  } = options;
+
+  const byUser = new Map<string, Interaction[]>();
+  dataset.interactions.forEach(interaction => {
+    byUser.set(interaction.userId, [...(byUser.get(interaction.userId) ?? []), interaction]);
+  });
+
+  const activity = countActivity(dataset.interactions);
+  const totals = new Map<RecommendationType | 'baseline', { precision: number; hits: number }>();
+  let usersEvaluated = 0;
+
+  byUser.forEach((interactions, userId) => {
+    if (interactions.filter(interaction => interaction.rating !== null).length < minRatings) {
+      return;
+    }
+
+    const newestFirst = [...interactions].sort(
+      (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()
+    );
+    const heldOut = newestFirst.slice(
+      0,
+      Math.max(1, Math.ceil(interactions.length * holdoutFraction))
+    );
+    const relevant = new Set(
+      heldOut
+        .filter(interaction => (interaction.rating ?? 0) >= relevantRating)
+        .map(interaction => interaction.contentId)
+    );
+
+    if (relevant.size === 0) {
+      return;
+    }
+
+    const hidden = new Set(heldOut);
+    const recentActivity = new Map(activity);
+    heldOut.forEach(interaction =>
+      recentActivity.set(
+        interaction.contentId,
+        (recentActivity.get(interaction.contentId) ?? 1) - 1
+      )
+    );
+    const training: RecommendationDataset = {
+      contents: dataset.contents,
+      interactions: dataset.interactions.filter(interaction => !hidden.has(interaction)),
+      recentActivity,
+    };
+    const library = new Set(
+      interactions.filter(interaction => !hidden.has(interaction)).map(i => i.contentId)
+    );
+
+    usersEvaluated += 1;
+
+    const record = (key: RecommendationType | 'baseline', contentIds: string[]) => {
+      const hits = contentIds.filter(id => relevant.has(id)).length;
+      const total = totals.get(key) ?? { precision: 0, hits: 0 };
+
+      total.precision += hits / k;
+      total.hits += hits > 0 ? 1 : 0;
+      totals.set(key, total);
+    };
+
+    record(
+      'baseline',
+      Array.from(recentActivity.entries())
+        .filter(([contentId, count]) => count > 0 && !library.has(contentId))
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, k)
+        .map(([contentId]) => contentId)
+    );
+
+    types.forEach(type =>
+      record(
+        type,
+        rankRecommendations(training, userId, type, { limit: k, now }).map(
+          recommendation => recommendation.contentId
+        )
+      )
+    );
+  });
+
+  const result = (key: RecommendationType | 'baseline'): PrecisionResult => {
+    const total = totals.get(key);
+
+    return {
+      precisionAtK: total && usersEvaluated > 0 ? round(total.precision / usersEvaluated) : 0,
+      hitRate: total && usersEvaluated > 0 ? round(total.hits / usersEvaluated) : 0,
+    };
+  };
+
+  return {
+    k,
+    usersEvaluated,
+    baseline: result('baseline'),
+    results: types.map(type => ({ type, ...result(type) })),
+  };
+}
+
+/**
+ * Reproducible synthetic catalog and ratings for evaluation. Titles belong to themes that
+ * share genres, keywords and a case; each user favours one or two themes and rates those
+ * titles highly, with some random viewing mixed in.
+ */
+export function createSeededDataset(
+  options: SeededDatasetOptions = {},
+  now: Date = new Date()
+): RecommendationDataset {
+  const { seed = 42, users = 200, titles = 300, ratingsPerUser = 12 } = options;
+  const random = seededRandom(seed);
+  const pick = <T>(values: T[]): T => values[Math.floor(random() * values.length)]!;
+
+  const contents = new Map<string, RecommendableContent>();
+  const themeTitles: string[][] = SEED_THEMES.map(() => []);
+
+  for (let index = 0; index < titles; index++) {
+    const theme = index % SEED_THEMES.length;
+    const id = `title-${index}`;
+
+    contents.set(id, {
+      id,
+      title: `Title ${index}`,
+      genreTags: Array.from(
+        new Set([SEED_GENRES[theme]!, SEED_GENRES[theme + 4]!, pick(SEED_GENRES)])
+      ),
+      caseTags: [`case-${theme}`],
+      keywords: Array.from(
+        new Set([pick(SEED_THEMES[theme]!), pick(SEED_THEMES[theme]!), `word${index}`])
+      ),
+      cases: random() < 0.7 ? [{ id: `case-${theme}`, name: `Case ${theme}` }] : [],
+      releaseDate: new Date(now.getTime() - Math.floor(random() * 3 * 365) * DAY_MS),
+    });
+    themeTitles[theme]!.push(id);
+  }
+
+  const allTitles = Array.from(contents.keys());
+  const interactions: Interaction[] = [];
+
+  for (let user = 0; user < users; user++) {
+    const userId = `user-${user}`;
+    const favorites = new Set([
+      Math.floor(random() * SEED_THEMES.length),
+      Math.floor(random() * SEED_THEMES.length),
+    ]);
+    const favoriteTitles = Array.from(favorites).flatMap(theme => themeTitles[theme]!);
+    const rated = new Set<string>();
+
+    while (rated.size < Math.min(ratingsPerUser, allTitles.length)) {
+      const favorite = random() < 0.8;
+      const contentId = pick(favorite ? favoriteTitles : allTitles);
+
+      if (rated.has(contentId)) {
+        continue;
+      }
+
+      rated.add(contentId);
+      interactions.push({
+        userId,
+        contentId,
+        status: 'COMPLETED',
+        rating: favoriteTitles.includes(contentId)
+          ? 4 + Math.round(random())
+          : 1 + Math.floor(random() * 3),
+        updatedAt: new Date(now.getTime() - Math.floor(random() * 90) * DAY_MS),
+      });
+    }
+  }
+
+  return { contents, interactions, recentActivity: countActivity(interactions) };
+}
+
+function countActivity(interactions: Interaction[]): Map<string, number> {
+  const counts = new Map<string, number>();
+
+  interactions.forEach(interaction =>
+    counts.set(interaction.contentId, (counts.get(interaction.contentId) ?? 0) + 1)
+  );
+
+  return counts;
+}
+
+/**
+ * Mulberry32, so a seed always produces the same dataset
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,495 @@
+// Recommendation Strategies - Scoring strategies and the per-type blends that rank recommendations
+import { TrackingStatus } from '@prisma/client';
+
+// Recommendation types
+export enum RecommendationType {
+  TRENDING = 'trending',
+  SIMILAR_CONTENT = 'similar_content',
+  CASE_BASED = 'case_based',
+  COLLABORATIVE = 'collaborative',
+  NEW_RELEASES = 'new_releases',
+  FOR_YOU = 'for_you',
+}
+
+export type StrategyName =
+  'similarity' | 'caseAffinity' | 'collaborative' | 'recency' | 'popularity';
+
+// The features of a title the strategies score on
+export interface RecommendableContent {
+  id: string;
+  title: string;
+  genreTags: string[];
+  caseTags: string[];
+  keywords: string[];
+  cases: Array<{ id: string; name: string }>;
+  releaseDate: Date | null;
+}
+
+export interface Interaction {
+  userId: string;
+  contentId: string;
+  status: TrackingStatus;
+  rating: number | null;
+  updatedAt: Date;
+}
+
+// Everything a ranking needs, loaded from the database or generated for evaluation
+export interface RecommendationDataset {
+  contents: Map<string, RecommendableContent>;
+  // The user's own library plus ratings from other users of the same titles
+  interactions: Interaction[];
+  // Trending score, or tracking activity over the popularity window, per title
+  recentActivity: Map<string, number>;
+}
+
+export interface StrategyScore {
+  // 0-1
+  score: number;
+  reason: string;
+}
+
+export interface ScoredRecommendation {
+  contentId: string;
+  score: number;
+  // From the strategy that contributed most to the score
+  reason: string;
+  factors: Partial<Record<StrategyName, number>>;
+}
+
+export interface RankOptions {
+  limit?: number | undefined;
+  // Leave out everything in the library rather than only finished titles
+  excludeWatched?: boolean | undefined;
+  now?: Date | undefined;
+}
+
+interface Blend {
+  weights: Partial<Record<StrategyName, number>>;
+  // Candidates must score on this strategy, e.g. new releases must be recent
+  required?: StrategyName;
+}
+
+interface UserContext {
+  userId: string;
+  now: Date;
+  library: Map<string, Interaction>;
+  // Titles the user engaged with positively, weighted 0-1
+  liked: Array<{ content: RecommendableContent; weight: number }>;
+  caseAffinity: Map<string, { name: string; weight: number }>;
+  maxCaseAffinity: number;
+  // Rating preference (-1 to 1) per title per user
+  preferences: Map<string, Map<string, number>>;
+  ownPreferences: Array<{ content: RecommendableContent; preference: number }>;
+  maxActivity: number;
+  activity: Map<string, number>;
+}
+
+type Strategy = (candidate: RecommendableContent, context: UserContext) => StrategyScore | null;
+
+// How each recommendation type weighs the strategies
+export const BLENDS: Record<RecommendationType, Blend> = {
+  [RecommendationType.FOR_YOU]: {
+    weights: {
+      similarity: 0.3,
+      collaborative: 0.3,
+      caseAffinity: 0.2,
+      recency: 0.1,
+      popularity: 0.1,
+    },
+  },
+  [RecommendationType.SIMILAR_CONTENT]: {
+    weights: { similarity: 0.8, collaborative: 0.1, popularity: 0.1 },
+    required: 'similarity',
+  },
+  [RecommendationType.CASE_BASED]: {
+    weights: { caseAffinity: 0.7, similarity: 0.2, recency: 0.1 },
+    required: 'caseAffinity',
+  },
+  [RecommendationType.COLLABORATIVE]: {
+    weights: { collaborative: 0.8, similarity: 0.15, popularity: 0.05 },
+    required: 'collaborative',
+  },
+  [RecommendationType.NEW_RELEASES]: {
+    weights: { recency: 0.6, similarity: 0.25, caseAffinity: 0.15 },
+    required: 'recency',
+  },
+  [RecommendationType.TRENDING]: {
+    weights: { popularity: 0.7, similarity: 0.2, recency: 0.1 },
+    required: 'popularity',
+  },
+};
+
+// Feature weights for content similarity
+const GENRE_WEIGHT = 0.4;
+const KEYWORD_WEIGHT = 0.3;
+const CASE_TAG_WEIGHT = 0.3;
+
+// Co-raters needed before an item-item similarity is fully trusted
+const COLLABORATIVE_SHRINKAGE = 3;
+
+// A release loses half its recency score every six months
+const RECENCY_HALF_LIFE_DAYS = 180;
+const NEW_RELEASE_DAYS = 90;
+const MIN_RECENCY_SCORE = 0.05;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Preference for tracked titles without a rating
+const STATUS_PREFERENCE: Record<TrackingStatus, number> = {
+  COMPLETED: 0.6,
+  WATCHING: 0.5,
+  WANT_TO_WATCH: 0.3,
+  ABANDONED: -0.5,
+};
+
+const STOP_WORDS = new Set(
+  (
+    'a an and are as at be but by for from has have he her his how in into is it its of on ' +
+    'or she that the their they this to was were what when where which who why will with ' +
+    'after about over story true crime series documentary film new one two'
+  ).split(' ')
+);
+
+const STRATEGIES: Record<StrategyName, Strategy> = {
+  /**
+   * Shared genres, description keywords and case tags with the title the user liked most
+   */
+  similarity: (candidate, context) => {
+    let best: { score: number; title: string } | null = null;
+
+    for (const { content, weight } of context.liked) {
+      if (content.id === candidate.id) {
+        continue;
+      }
+
+      const score = contentSimilarity(content, candidate) * (0.5 + 0.5 * weight);
+
+      if (score > (best?.score ?? 0)) {
+        best = { score, title: content.title };
+      }
+    }
+
+    return best ? { score: best.score, reason: `Similar to ${best.title}` } : null;
+  },
+
+  /**
+   * Cases the user keeps coming back to, via ContentCaseLink
+   */
+  caseAffinity: (candidate, context) => {
+    let best: { score: number; name: string } | null = null;
+
+    for (const contentCase of candidate.cases) {
+      const affinity = context.caseAffinity.get(contentCase.id);
+
+      if (affinity && affinity.weight > 0) {
+        const score = affinity.weight / context.maxCaseAffinity;
+
+        if (score > (best?.score ?? 0)) {
+          best = { score, name: affinity.name };
+        }
+      }
+    }
+
+    return best
+      ? { score: best.score, reason: `Because you've watched titles about ${best.name}` }
+      : null;
+  },
+
+  /**
+   * Item-item collaborative filtering: titles rated like the ones the user rated, by the
+   * people who rated both
+   */
+  collaborative: (candidate, context) => {
+    const candidateRatings = context.preferences.get(candidate.id);
+
+    if (!candidateRatings) {
+      return null;
+    }
+
+    let weighted = 0;
+    let totalSimilarity = 0;
+    let top: { contribution: number; title: string } | null = null;
+
+    for (const { content, preference } of context.ownPreferences) {
+      const ratings = context.preferences.get(content.id);
+      const similarity = ratings ? itemSimilarity(ratings, candidateRatings, context.userId) : 0;
+
+      if (similarity <= 0) {
+        continue;
+      }
+
+      weighted += similarity * preference;
+      totalSimilarity += similarity;
+
+      if (similarity * preference > (top?.contribution ?? 0)) {
+        top = { contribution: similarity * preference, title: content.title };
+      }
+    }
+
+    if (totalSimilarity === 0 || !top) {
+      return null;
+    }
+
+    const score = (weighted / totalSimilarity) * Math.min(1, totalSimilarity);
+
+    return score > 0 ? { score, reason: `Fans of ${top.title} also rated this highly` } : null;
+  },
+
+  /**
+   * Recent releases, decaying with age
+   */
+  recency: (candidate, context) => {
+    if (!candidate.releaseDate || candidate.releaseDate > context.now) {
+      return null;
+    }
+
+    const ageDays = (context.now.getTime() - candidate.releaseDate.getTime()) / DAY_MS;
+    const score = Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+
+    if (score < MIN_RECENCY_SCORE) {
+      return null;
+    }
+
+    return {
+      score,
+      reason:
+        ageDays <= NEW_RELEASE_DAYS
+          ? 'New release'
+          : `Released in ${candidate.releaseDate.getUTCFullYear()}`,
+    };
+  },
+
+  /**
+   * Titles people have been tracking lately
+   */
+  popularity: (candidate, context) => {
+    const activity = context.activity.get(candidate.id) ?? 0;
+
+    return activity > 0 && context.maxActivity > 0
+      ? { score: activity / context.maxActivity, reason: 'Trending in the True Crime community' }
+      : null;
+  },
+};
+
+/**
+ * Score every candidate in the dataset for the user with the blend for the type, highest
+ * first. Titles no strategy has anything to say about are left out.
+ */
+export function rankRecommendations(
+  dataset: RecommendationDataset,
+  userId: string,
+  type: RecommendationType,
+  options: RankOptions = {}
+): ScoredRecommendation[] {
+  const { limit = 10, excludeWatched = true, now = new Date() } = options;
+  const context = buildUserContext(dataset, userId, now);
+  const blend = BLENDS[type];
+  const weights = Object.entries(blend.weights) as Array<[StrategyName, number]>;
+  const totalWeight = weights.reduce((sum, [, weight]) => sum + weight, 0);
+  const ranked: ScoredRecommendation[] = [];
+
+  for (const candidate of dataset.contents.values()) {
+    const tracked = context.library.get(candidate.id);
+
+    if (tracked && (excludeWatched || tracked.status === 'COMPLETED')) {
+      continue;
+    }
+
+    const factors: Partial<Record<StrategyName, number>> = {};
+    let total = 0;
+    let top: { contribution: number; reason: string } | null = null;
+
+    for (const [name, weight] of weights) {
+      const result = STRATEGIES[name](candidate, context);
+
+      if (!result || result.score <= 0) {
+        continue;
+      }
+
+      factors[name] = round(result.score);
+      total += weight * result.score;
+
+      if (weight * result.score > (top?.contribution ?? 0)) {
+        top = { contribution: weight * result.score, reason: result.reason };
+      }
+    }
+
+    if (!top || (blend.required && factors[blend.required] === undefined)) {
+      continue;
+    }
+
+    ranked.push({
+      contentId: candidate.id,
+      score: round(total / totalWeight),
+      reason: top.reason,
+      factors,
+    });
+  }
+
+  return ranked
+    .sort((a, b) => b.score - a.score || a.contentId.localeCompare(b.contentId))
+    .slice(0, limit);
+}
+
+/**
+ * Significant words from a title and description, for keyword similarity
+ */
+export function extractKeywords(text: string): string[] {
+  return Array.from(
+    new Set(
+      text
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    )
+  );
+}
+
+/**
+ * How much the user likes a title, from -1 to 1: from the rating when there is one
+ * (3 is neutral), otherwise from its tracking status
+ */
+export function preferenceOf(interaction: Pick<Interaction, 'status' | 'rating'>): number {
+  return interaction.rating !== null
+    ? (interaction.rating - 3) / 2
+    : STATUS_PREFERENCE[interaction.status];
+}
+
+function buildUserContext(dataset: RecommendationDataset, userId: string, now: Date): UserContext {
+  const library = new Map<string, Interaction>();
+  const preferences = new Map<string, Map<string, number>>();
+
+  dataset.interactions.forEach(interaction => {
+    if (interaction.userId === userId) {
+      library.set(interaction.contentId, interaction);
+    }
+
+    if (interaction.rating !== null) {
+      const ratings = preferences.get(interaction.contentId) ?? new Map<string, number>();
+      ratings.set(interaction.userId, preferenceOf(interaction));
+      preferences.set(interaction.contentId, ratings);
+    }
+  });
+
+  const liked: UserContext['liked'] = [];
+  const ownPreferences: UserContext['ownPreferences'] = [];
+  const caseAffinity = new Map<string, { name: string; weight: number }>();
+
+  library.forEach(interaction => {
+    const content = dataset.contents.get(interaction.contentId);
+
+    if (!content) {
+      return;
+    }
+
+    const preference = preferenceOf(interaction);
+
+    if (preference > 0) {
+      liked.push({ content, weight: preference });
+    }
+
+    if (interaction.rating !== null) {
+      ownPreferences.push({ content, preference });
+    }
+
+    content.cases.forEach(contentCase => {
+      const affinity = caseAffinity.get(contentCase.id) ?? { name: contentCase.name, weight: 0 };
+      affinity.weight += preference;
+      caseAffinity.set(contentCase.id, affinity);
+    });
+  });
+
+  return {
+    userId,
+    now,
+    library,
+    liked,
+    caseAffinity,
+    maxCaseAffinity: Math.max(0, ...Array.from(caseAffinity.values(), affinity => affinity.weight)),
+    preferences,
+    ownPreferences,
+    activity: dataset.recentActivity,
+    maxActivity: Math.max(0, ...dataset.recentActivity.values()),
+  };
+}
+
+/**
+ * Weighted Jaccard similarity over genres, keywords and case tags. Feature kinds neither
+ * title has are left out rather than counted as a mismatch.
+ */
+function contentSimilarity(a: RecommendableContent, b: RecommendableContent): number {
+  let score = 0;
+  let weight = 0;
+
+  for (const [left, right, featureWeight] of [
+    [a.genreTags, b.genreTags, GENRE_WEIGHT],
+    [a.keywords, b.keywords, KEYWORD_WEIGHT],
+    [a.caseTags, b.caseTags, CASE_TAG_WEIGHT],
+  ] as Array<[string[], string[], number]>) {
+    if (left.length === 0 && right.length === 0) {
+      continue;
+    }
+
+    score += jaccard(left, right) * featureWeight;
+    weight += featureWeight;
+  }
+
+  return weight > 0 ? score / weight : 0;
+}
+
+/**
+ * Cosine similarity of two titles' rating preferences over the users who rated both,
+ * shrunk towards zero when few people did. The user being recommended to is left out.
+ */
+function itemSimilarity(
+  a: Map<string, number>,
+  b: Map<string, number>,
+  excludeUserId: string
+): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  let coRaters = 0;
+
+  a.forEach((preferenceA, raterId) => {
+    const preferenceB = b.get(raterId);
+
+    if (raterId === excludeUserId || preferenceB === undefined) {
+      return;
+    }
+
+    dot += preferenceA * preferenceB;
+    normA += preferenceA * preferenceA;
+    normB += preferenceB * preferenceB;
+    coRaters += 1;
+  });
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return (
+    (dot / (Math.sqrt(normA) * Math.sqrt(normB))) *
+    (coRaters / (coRaters + COLLABORATIVE_SHRINKAGE))
+  );
+}
+
+function jaccard(a: string[], b: string[]): number {
+  const left = new Set(a.map(value => value.toLowerCase()));
+  const right = new Set(b.map(value => value.toLowerCase()));
+  let shared = 0;
+
+  left.forEach(value => {
+    if (right.has(value)) {
+      shared += 1;
+    }
+  });
+
+  const union = left.size + right.size - shared;
+
+  return union > 0 ? shared / union : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,358 @@
+// Recommendation Service - Loads a user's ratings and candidate titles and ranks them with the strategy blends
+import { PrismaClient } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import {
+  Interaction,
+  RecommendableContent,
+  RecommendationDataset,
+  RecommendationType,
+  ScoredRecommendation,
+  extractKeywords,
+  rankRecommendations,
+} from './recommendation-strategies';
+
+export interface RecommendOptions {
+  limit?: number | undefined;
+  excludeWatched?: boolean | undefined;
+}
+
+export interface Recommendation {
+  content: RecommendedContent;
+  score: number;
+  reason: string;
+  metadata: {
+    algorithm: RecommendationType;
+    factors: ScoredRecommendation['factors'];
+  };
+}
+
+export type RecommendedContent = Awaited<ReturnType<typeof findRecommendedContent>>[number];
+
+interface FeatureRow {
+  id: string;
+  title: string;
+  description: string | null;
+  genreTags: string[];
+  caseTags: string[];
+  releaseDate: Date | null;
+  contentCaseLinks: Array<{ contentCase: { id: string; caseName: string } }>;
+}
+
+export const MAX_RECOMMENDATIONS = 50;
+
+// Candidates that share genres or cases with the user's library
+const SIMILAR_CANDIDATES = 300;
+// Ratings of the user's titles by others, and of other titles by those raters
+const CO_RATINGS_LIMIT = 2000;
+const NEIGHBOR_RATINGS_LIMIT = 5000;
+const MAX_NEIGHBORS = 200;
+const POPULAR_CANDIDATES = 100;
+const NEW_RELEASE_CANDIDATES = 100;
+
+const POPULARITY_WINDOW_DAYS = 30;
+const NEW_RELEASE_WINDOW_DAYS = 365;
+const TOP_GENRES = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FEATURE_SELECT = {
+  id: true,
+  title: true,
+  description: true,
+  genreTags: true,
+  caseTags: true,
+  releaseDate: true,
+  contentCaseLinks: { select: { contentCase: { select: { id: true, caseName: true } } } },
+} as const;
+
+const INTERACTION_SELECT = {
+  userId: true,
+  contentId: true,
+  status: true,
+  rating: true,
+  updatedAt: true,
+} as const;
+
+export class RecommendationService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Recommendations of the given type, each with its score and the reason it was picked
+   */
+  async recommend(
+    userId: string,
+    type: RecommendationType,
+    options: RecommendOptions = {}
+  ): Promise<Recommendation[]> {
+    const { limit = 10, excludeWatched = true } = options;
+
+    try {
+      const dataset = await this.loadUserDataset(userId);
+      const ranked = rankRecommendations(dataset, userId, type, {
+        limit: Math.min(limit, MAX_RECOMMENDATIONS),
+        excludeWatched,
+      });
+
+      if (ranked.length === 0) {
+        return [];
+      }
+
+      const contents = await findRecommendedContent(
+        this.prisma,
+        ranked.map(recommendation => recommendation.contentId)
+      );
+      const byId = new Map(contents.map(content => [content.id, content]));
+
+      return ranked.flatMap(recommendation => {
+        const content = byId.get(recommendation.contentId);
+
+        return content
+          ? [
+              {
+                content,
+                score: recommendation.score,
+                reason: recommendation.reason,
+                metadata: { algorithm: type, factors: recommendation.factors },
+              },
+            ]
+          : [];
+      });
+    } catch (error) {
+      this.rethrow(error, 'Failed to generate recommendations');
+    }
+  }
+
+  /**
+   * The whole catalog and every tracked title, for offline evaluation
+   */
+  async loadEvaluationDataset(): Promise<RecommendationDataset> {
+    const [contents, interactions] = await Promise.all([
+      this.prisma.content.findMany({ select: FEATURE_SELECT }),
+      this.prisma.userContent.findMany({ select: INTERACTION_SELECT }),
+    ]);
+
+    const recentActivity = new Map<string, number>();
+    interactions.forEach(interaction =>
+      recentActivity.set(
+        interaction.contentId,
+        (recentActivity.get(interaction.contentId) ?? 0) + 1
+      )
+    );
+
+    return {
+      contents: new Map(contents.map(content => [content.id, toRecommendable(content)])),
+      interactions,
+      recentActivity,
+    };
+  }
+
+  /**
+   * The user's library, ratings from people who rated the same titles, and candidates
+   * from shared genres and cases, those raters, recent activity and new releases
+   */
+  private async loadUserDataset(userId: string): Promise<RecommendationDataset> {
+    const now = Date.now();
+
+    const library = await this.prisma.userContent.findMany({
+      where: { userId },
+      select: { ...INTERACTION_SELECT, content: { select: FEATURE_SELECT } },
+    });
+
+    const libraryIds = library.map(entry => entry.contentId);
+    const ratedIds = library.filter(entry => entry.rating !== null).map(entry => entry.contentId);
+    const liked = library.filter(entry => (entry.rating ?? 3) >= 3 && entry.status !== 'ABANDONED');
+    const genres = topValues(
+      liked.flatMap(entry => entry.content.genreTags),
+      TOP_GENRES
+    );
+    const caseTags = Array.from(new Set(liked.flatMap(entry => entry.content.caseTags)));
+    const caseIds = Array.from(
+      new Set(
+        liked.flatMap(entry => entry.content.contentCaseLinks.map(link => link.contentCase.id))
+      )
+    );
+
+    const [coRatings, similar, popular, newReleases] = await Promise.all([
+      ratedIds.length > 0
+        ? this.prisma.userContent.findMany({
+            where: { contentId: { in: ratedIds }, userId: { not: userId }, rating: { not: null } },
+            orderBy: { updatedAt: 'desc' },
+            take: CO_RATINGS_LIMIT,
+            select: INTERACTION_SELECT,
+          })
+        : Promise.resolve([]),
+      genres.length > 0 || caseTags.length > 0 || caseIds.length > 0
+        ? this.prisma.content.findMany({
+            where: {
+              id: { notIn: libraryIds },
+              OR: [
+                { genreTags: { hasSome: genres } },
+                { caseTags: { hasSome: caseTags } },
+                { contentCaseLinks: { some: { caseId: { in: caseIds } } } },
+              ],
+            },
+            orderBy: { updatedAt: 'desc' },
+            take: SIMILAR_CANDIDATES,
+            select: FEATURE_SELECT,
+          })
+        : Promise.resolve([]),
+      this.loadPopularity(now),
+      this.prisma.content.findMany({
+        where: {
+          id: { notIn: libraryIds },
+          releaseDate: {
+            gte: new Date(now - NEW_RELEASE_WINDOW_DAYS * DAY_MS),
+            lte: new Date(now),
+          },
+        },
+        orderBy: { releaseDate: 'desc' },
+        take: NEW_RELEASE_CANDIDATES,
+        select: FEATURE_SELECT,
+      }),
+    ]);
+
+    const neighborIds = Array.from(new Set(coRatings.map(rating => rating.userId))).slice(
+      0,
+      MAX_NEIGHBORS
+    );
+    const neighborRatings =
+      neighborIds.length > 0
+        ? await this.prisma.userContent.findMany({
+            where: { userId: { in: neighborIds }, rating: { not: null } },
+            orderBy: { updatedAt: 'desc' },
+            take: NEIGHBOR_RATINGS_LIMIT,
+            select: INTERACTION_SELECT,
+          })
+        : [];
+
+    const contents = new Map<string, RecommendableContent>();
+    [...library.map(entry => entry.content), ...similar, ...newReleases].forEach(content =>
+      contents.set(content.id, toRecommendable(content))
+    );
+
+    const missingIds = Array.from(
+      new Set([...neighborRatings.map(rating => rating.contentId), ...popular.keys()])
+    ).filter(id => !contents.has(id));
+
+    if (missingIds.length > 0) {
+      const missing = await this.prisma.content.findMany({
+        where: { id: { in: missingIds } },
+        select: FEATURE_SELECT,
+      });
+      missing.forEach(content => contents.set(content.id, toRecommendable(content)));
+    }
+
+    const interactions: Interaction[] = [
+      ...library.map(toInteraction),
+      ...dedupeInteractions([...coRatings, ...neighborRatings]),
+    ];
+
+    return {
+      contents,
+      interactions,
+      recentActivity: popular,
+    };
+  }
+
+  /**
+   * This week's trending scores, or tracking activity over the popularity window until the
+   * trending rankings have been computed
+   */
+  private async loadPopularity(now: number): Promise<Map<string, number>> {
+    const trending = await this.prisma.contentTrendingScore.findMany({
+      where: { timeframe: 'WEEK' },
+      orderBy: { rank: 'asc' },
+      take: POPULAR_CANDIDATES,
+      select: { contentId: true, score: true },
+    });
+
+    if (trending.length > 0) {
+      return new Map(trending.map(row => [row.contentId, row.score]));
+    }
+
+    const popular = await this.prisma.userContent.groupBy({
+      by: ['contentId'],
+      where: { updatedAt: { gte: new Date(now - POPULARITY_WINDOW_DAYS * DAY_MS) } },
+      _count: { _all: true },
+      orderBy: { _count: { contentId: 'desc' } },
+      take: POPULAR_CANDIDATES,
+    });
+
+    return new Map(popular.map(row => [row.contentId, row._count._all]));
+  }
+
+  private rethrow(error: unknown, message: string): never {
+    if (error instanceof TRPCError) {
+      throw error;
+    }
+
+    console.error(`${message}:`, error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message,
+    });
+  }
+}
+
+function findRecommendedContent(prisma: PrismaClient, ids: string[]) {
+  return prisma.content.findMany({
+    where: { id: { in: ids } },
+    select: {
+      id: true,
+      title: true,
+      description: true,
+      contentType: true,
+      genreTags: true,
+      caseTags: true,
+      releaseDate: true,
+      posterUrl: true,
+      platforms: true,
+    },
+  });
+}
+
+function toRecommendable(content: FeatureRow): RecommendableContent {
+  return {
+    id: content.id,
+    title: content.title,
+    genreTags: content.genreTags,
+    caseTags: content.caseTags,
+    keywords: extractKeywords(`${content.title} ${content.description ?? ''}`),
+    cases: content.contentCaseLinks.map(link => ({
+      id: link.contentCase.id,
+      name: link.contentCase.caseName,
+    })),
+    releaseDate: content.releaseDate,
+  };
+}
+
+function toInteraction(entry: Interaction): Interaction {
+  return {
+    userId: entry.userId,
+    contentId: entry.contentId,
+    status: entry.status,
+    rating: entry.rating,
+    updatedAt: entry.updatedAt,
+  };
+}
+
+function dedupeInteractions(interactions: Interaction[]): Interaction[] {
+  return Array.from(
+    new Map(
+      interactions.map(interaction => [
+        `${interaction.userId}:${interaction.contentId}`,
+        interaction,
+      ])
+    ).values()
+  );
+}
+
+function topValues(values: string[], limit: number): string[] {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([value]) => value);
+}
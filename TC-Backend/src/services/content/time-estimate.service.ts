@@ -0,0 +1,399 @@
+// Time Estimate Service - Hours left and projected finish dates from runtime and viewing pace
+import { ContentType, PrismaClient, TrackingStatus } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import { randomUUID } from 'crypto';
+import { RedisService, redisService } from '../core/redis.service';
+
+export type EstimateCache = Pick<RedisService, 'get' | 'set' | 'mget' | 'mset'>;
+
+export interface ViewingPace {
+  minutesPerDay: number;
+  // False when there's too little history and the default pace is used
+  measured: boolean;
+}
+
+export interface TimeEstimate {
+  contentId: string;
+  title: string;
+  contentType: ContentType;
+  status: TrackingStatus | null;
+  // Null for movies and for series without an episode count
+  remainingEpisodes: number | null;
+  remainingMinutes: number | null;
+  hoursRemaining: number | null;
+  // Null when finished or when the length is unknown
+  projectedFinishDate: string | null;
+  // The title has no runtime, so a typical episode length was assumed
+  runtimeEstimated: boolean;
+}
+
+export interface ListTimeEstimate {
+  count: number;
+  remainingMinutes: number;
+  hoursRemaining: number;
+  projectedFinishDate: string | null;
+  // Titles left out of the totals because their length is unknown
+  unknownCount: number;
+  items: TimeEstimate[];
+}
+
+export interface WatchlistTimeEstimate {
+  pace: ViewingPace;
+  watching: ListTimeEstimate;
+  wantToWatch: ListTimeEstimate;
+  total: Omit<ListTimeEstimate, 'items'>;
+}
+
+interface EstimateContent {
+  id: string;
+  title: string;
+  contentType: ContentType;
+  runtimeMinutes: number | null;
+  totalEpisodes: number | null;
+}
+
+export const MAX_BATCH_ESTIMATES = 50;
+
+const CACHE_PREFIX = 'time_estimate:';
+const CACHE_TTL_SECONDS = 60 * 60;
+
+// Pace is measured over the last four weeks of viewing
+const PACE_WINDOW_DAYS = 28;
+// A user who started last week isn't averaged over the whole window, but a single
+// evening isn't taken as their everyday pace either
+const MIN_PACE_DAYS = 7;
+// Marking a whole season watched at once shouldn't read as a binge of that length
+const MAX_COUNTED_MINUTES_PER_DAY = 8 * 60;
+
+const DEFAULT_MINUTES_PER_DAY = 60;
+const DEFAULT_EPISODE_MINUTES = 45;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class TimeEstimateService {
+  constructor(
+    private prisma: PrismaClient,
+    private cache: EstimateCache = redisService
+  ) {}
+
+  /**
+   * Hours left and projected finish date for one title
+   */
+  async getTimeEstimate(userId: string, contentId: string): Promise<TimeEstimate> {
+    const [estimate] = await this.getBatchTimeEstimates(userId, [contentId]);
+
+    if (!estimate) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Content not found',
+      });
+    }
+
+    return estimate;
+  }
+
+  /**
+   * Estimates for several titles, served from the cache where possible. Unknown content
+   * IDs are left out.
+   */
+  async getBatchTimeEstimates(userId: string, contentIds: string[]): Promise<TimeEstimate[]> {
+    const ids = Array.from(new Set(contentIds));
+
+    if (ids.length > MAX_BATCH_ESTIMATES) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: `You can estimate up to ${MAX_BATCH_ESTIMATES} titles at once`,
+      });
+    }
+
+    try {
+      const prefix = await this.userPrefix(userId);
+      const cached = await this.cache.mget<TimeEstimate>(ids.map(id => `${prefix}content:${id}`));
+      const missing = ids.filter((_, index) => !cached[index]);
+      const computed = new Map<string, TimeEstimate>();
+
+      if (missing.length > 0) {
+        const pace = await this.getViewingPace(userId);
+        const estimates = await this.computeEstimates(userId, missing, pace);
+
+        estimates.forEach(estimate => computed.set(estimate.contentId, estimate));
+        await this.cache.mset(
+          Object.fromEntries(
+            estimates.map(estimate => [`${prefix}content:${estimate.contentId}`, estimate])
+          ),
+          CACHE_TTL_SECONDS
+        );
+      }
+
+      return ids
+        .map((id, index) => cached[index] ?? computed.get(id))
+        .filter((estimate): estimate is TimeEstimate => estimate !== undefined);
+    } catch (error) {
+      this.rethrow(error, 'Failed to estimate time remaining');
+    }
+  }
+
+  /**
+   * Per-title estimates and totals for the Watching and Want to Watch lists
+   */
+  async getWatchlistTimeEstimate(userId: string): Promise<WatchlistTimeEstimate> {
+    try {
+      const cacheKey = `${await this.userPrefix(userId)}watchlist`;
+      const cached = await this.cache.get<WatchlistTimeEstimate>(cacheKey);
+      if (cached) {
+        return cached;
+      }
+
+      const entries = await this.prisma.userContent.findMany({
+        where: { userId, status: { in: ['WATCHING', 'WANT_TO_WATCH'] } },
+        orderBy: { updatedAt: 'desc' },
+        select: { contentId: true },
+      });
+      const pace = await this.getViewingPace(userId);
+      const estimates = await this.computeEstimates(
+        userId,
+        entries.map(entry => entry.contentId),
+        pace
+      );
+
+      const watching = summarizeList(
+        estimates.filter(estimate => estimate.status === 'WATCHING'),
+        pace
+      );
+      const wantToWatch = summarizeList(
+        estimates.filter(estimate => estimate.status === 'WANT_TO_WATCH'),
+        pace
+      );
+      const result = { pace, watching, wantToWatch, total: listTotals(estimates, pace) };
+      await this.cache.set(cacheKey, result, CACHE_TTL_SECONDS);
+
+      return result;
+    } catch (error) {
+      this.rethrow(error, 'Failed to estimate watchlist time');
+    }
+  }
+
+  /**
+   * Drop the user's cached estimates and pace and return a fresh estimate for the title
+   * whose progress changed
+   */
+  async updateOnProgress(userId: string, contentId: string): Promise<TimeEstimate> {
+    await this.invalidate(userId);
+    return this.getTimeEstimate(userId, contentId);
+  }
+
+  /**
+   * Forget everything cached for the user. Called whenever their progress or library changes.
+   * Moving the user to a new cache version orphans the old entries, which then expire.
+   */
+  async invalidate(userId: string): Promise<void> {
+    await this.cache.set(this.versionKey(userId), randomUUID(), CACHE_TTL_SECONDS);
+  }
+
+  /**
+   * Average minutes watched per day over recent weeks, counting episodes by their
+   * watchedAt and movies by their completion date
+   */
+  async getViewingPace(userId: string): Promise<ViewingPace> {
+    const cacheKey = `${await this.userPrefix(userId)}pace`;
+    const cached = await this.cache.get<ViewingPace>(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const since = new Date(Date.now() - PACE_WINDOW_DAYS * DAY_MS);
+    const [episodes, movies] = await Promise.all([
+      this.prisma.episodeProgress.findMany({
+        where: { userId, watched: true, watchedAt: { gte: since } },
+        select: { watchedAt: true, content: { select: { runtimeMinutes: true } } },
+      }),
+      this.prisma.userContent.findMany({
+        where: {
+          userId,
+          status: 'COMPLETED',
+          dateCompleted: { gte: since },
+          content: { contentType: 'MOVIE' },
+        },
+        select: { dateCompleted: true, content: { select: { runtimeMinutes: true } } },
+      }),
+    ]);
+
+    const minutesByDay = new Map<string, number>();
+    let earliest = Date.now();
+
+    for (const { watchedAt, minutes } of [
+      ...episodes.map(episode => ({
+        watchedAt: episode.watchedAt!,
+        minutes: episode.content.runtimeMinutes ?? DEFAULT_EPISODE_MINUTES,
+      })),
+      ...movies
+        .filter(movie => movie.content.runtimeMinutes)
+        .map(movie => ({
+          watchedAt: movie.dateCompleted!,
+          minutes: movie.content.runtimeMinutes!,
+        })),
+    ]) {
+      const day = watchedAt.toISOString().slice(0, 10);
+      minutesByDay.set(day, (minutesByDay.get(day) ?? 0) + minutes);
+      earliest = Math.min(earliest, watchedAt.getTime());
+    }
+
+    const totalMinutes = Array.from(minutesByDay.values()).reduce(
+      (sum, minutes) => sum + Math.min(minutes, MAX_COUNTED_MINUTES_PER_DAY),
+      0
+    );
+    const days = Math.min(
+      PACE_WINDOW_DAYS,
+      Math.max(MIN_PACE_DAYS, Math.ceil((Date.now() - earliest) / DAY_MS))
+    );
+
+    // At least a minute a day, so a sliver of viewing still projects a finish date
+    const pace =
+      totalMinutes > 0
+        ? { minutesPerDay: Math.max(1, Math.round(totalMinutes / days)), measured: true }
+        : { minutesPerDay: DEFAULT_MINUTES_PER_DAY, measured: false };
+
+    await this.cache.set(cacheKey, pace, CACHE_TTL_SECONDS);
+    return pace;
+  }
+
+  private async computeEstimates(
+    userId: string,
+    contentIds: string[],
+    pace: ViewingPace
+  ): Promise<TimeEstimate[]> {
+    if (contentIds.length === 0) {
+      return [];
+    }
+
+    const [contents, entries, watched] = await Promise.all([
+      this.prisma.content.findMany({
+        where: { id: { in: contentIds } },
+        select: {
+          id: true,
+          title: true,
+          contentType: true,
+          runtimeMinutes: true,
+          totalEpisodes: true,
+        },
+      }),
+      this.prisma.userContent.findMany({
+        where: { userId, contentId: { in: contentIds } },
+        select: { contentId: true, status: true },
+      }),
+      this.prisma.episodeProgress.groupBy({
+        by: ['contentId'],
+        where: { userId, contentId: { in: contentIds }, watched: true, seasonNumber: { gt: 0 } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const contentById = new Map(contents.map(content => [content.id, content]));
+    const statusById = new Map(entries.map(entry => [entry.contentId, entry.status]));
+    const watchedById = new Map(watched.map(row => [row.contentId, row._count._all]));
+
+    return contentIds.flatMap(id => {
+      const content = contentById.get(id);
+
+      return content
+        ? [estimateTitle(content, statusById.get(id) ?? null, watchedById.get(id) ?? 0, pace)]
+        : [];
+    });
+  }
+
+  /**
+   * Key prefix for the user's current cache version, starting a version if they have none
+   */
+  private async userPrefix(userId: string): Promise<string> {
+    let version = await this.cache.get<string>(this.versionKey(userId));
+
+    if (!version) {
+      version = randomUUID();
+      await this.cache.set(this.versionKey(userId), version, CACHE_TTL_SECONDS);
+    }
+
+    return `${CACHE_PREFIX}${userId}:${version}:`;
+  }
+
+  private versionKey(userId: string): string {
+    return `${CACHE_PREFIX}${userId}:version`;
+  }
+
+  private rethrow(error: unknown, message: string): never {
+    if (error instanceof TRPCError) {
+      throw error;
+    }
+
+    console.error(`${message}:`, error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message,
+    });
+  }
+}
+
+function estimateTitle(
+  content: EstimateContent,
+  status: TrackingStatus | null,
+  watchedEpisodes: number,
+  pace: ViewingPace
+): TimeEstimate {
+  const isMovie = content.contentType === 'MOVIE';
+  const runtimeEstimated = !isMovie && !content.runtimeMinutes;
+  const episodeMinutes = content.runtimeMinutes ?? DEFAULT_EPISODE_MINUTES;
+
+  let remainingEpisodes: number | null = null;
+  let remainingMinutes: number | null = null;
+
+  if (isMovie) {
+    remainingMinutes = status === 'COMPLETED' ? 0 : content.runtimeMinutes;
+  } else if (content.totalEpisodes !== null) {
+    remainingEpisodes =
+      status === 'COMPLETED' ? 0 : Math.max(0, content.totalEpisodes - watchedEpisodes);
+    remainingMinutes = remainingEpisodes * episodeMinutes;
+  } else if (status === 'COMPLETED') {
+    remainingMinutes = 0;
+  }
+
+  return {
+    contentId: content.id,
+    title: content.title,
+    contentType: content.contentType,
+    status,
+    remainingEpisodes,
+    remainingMinutes,
+    hoursRemaining: remainingMinutes === null ? null : toHours(remainingMinutes),
+    projectedFinishDate: projectFinish(remainingMinutes, pace),
+    runtimeEstimated,
+  };
+}
+
+function summarizeList(items: TimeEstimate[], pace: ViewingPace): ListTimeEstimate {
+  return { ...listTotals(items, pace), items };
+}
+
+function listTotals(items: TimeEstimate[], pace: ViewingPace): Omit<ListTimeEstimate, 'items'> {
+  const remainingMinutes = items.reduce((sum, item) => sum + (item.remainingMinutes ?? 0), 0);
+
+  return {
+    count: items.length,
+    remainingMinutes,
+    hoursRemaining: toHours(remainingMinutes),
+    projectedFinishDate: projectFinish(remainingMinutes, pace),
+    unknownCount: items.filter(item => item.remainingMinutes === null).length,
+  };
+}
+
+function projectFinish(remainingMinutes: number | null, pace: ViewingPace): string | null {
+  if (!remainingMinutes) {
+    return null;
+  }
+
+  const days = remainingMinutes / pace.minutesPerDay;
+  return new Date(Date.now() + days * DAY_MS).toISOString();
+}
+
+function toHours(minutes: number): number {
+  return Math.round((minutes / 60) * 10) / 10;
+}
@@ -0,0 +1,152 @@
+// Trending Signals - Time-decayed engagement scoring and the blend with TMDb's trending list
+export type TrendingTimeframe = 'day' | 'week' | 'month';
+
+export type TrendingSignal = 'track' | 'completion' | 'rating' | 'listAdd' | 'view';
+
+export type TrendingSource = 'tcwatch' | 'tmdb';
+
+export interface TrendingEvent {
+  contentId: string;
+  signal: TrendingSignal;
+  occurredAt: Date;
+  // Multiplier on the signal weight, e.g. the number of views or the rating out of 5
+  weight?: number | undefined;
+}
+
+export interface TrendingScore {
+  contentId: string;
+  score: number;
+  signals: Partial<Record<TrendingSignal, number>>;
+}
+
+export interface BlendedTrending {
+  contentId: string;
+  source: TrendingSource;
+  score: number;
+  signals: Partial<Record<TrendingSignal, number>>;
+}
+
+export interface BlendOptions {
+  limit: number;
+  // Local titles scoring below this aren't trending yet and make room for TMDb's picks
+  minScore?: number | undefined;
+}
+
+interface TimeframeConfig {
+  windowDays: number;
+  // Events lose half their weight every half-life
+  halfLifeHours: number;
+}
+
+export const TRENDING_TIMEFRAMES: Record<TrendingTimeframe, TimeframeConfig> = {
+  day: { windowDays: 1, halfLifeHours: 6 },
+  week: { windowDays: 7, halfLifeHours: 48 },
+  month: { windowDays: 30, halfLifeHours: 168 },
+};
+
+// Finishing or rating a title says more about it than opening its page
+export const SIGNAL_WEIGHTS: Record<TrendingSignal, number> = {
+  view: 0.5,
+  track: 2,
+  listAdd: 2,
+  rating: 3,
+  completion: 4,
+};
+
+// A couple of recent completions; anything less is noise
+export const MIN_TRENDING_SCORE = 5;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Event weight for a day's unique views of a title. Views count on a log scale, so page views
+ * alone take a crowd to trend where a few completions do.
+ */
+export function viewWeight(views: number): number {
+  return Math.log2(1 + views);
+}
+
+/**
+ * Score every title with events inside the timeframe's window. Each event counts its signal
+ * weight, halved every half-life, so a burst of activity today outranks a busier week last month.
+ */
+export function scoreTrending(
+  events: TrendingEvent[],
+  timeframe: TrendingTimeframe,
+  now: Date = new Date()
+): TrendingScore[] {
+  const { windowDays, halfLifeHours } = TRENDING_TIMEFRAMES[timeframe];
+  const since = now.getTime() - windowDays * 24 * HOUR_MS;
+  const scores = new Map<string, TrendingScore>();
+
+  events.forEach(event => {
+    const occurredAt = Math.min(event.occurredAt.getTime(), now.getTime());
+
+    if (occurredAt < since) {
+      return;
+    }
+
+    const decay = Math.pow(0.5, (now.getTime() - occurredAt) / (halfLifeHours * HOUR_MS));
+    const value = SIGNAL_WEIGHTS[event.signal] * (event.weight ?? 1) * decay;
+    const entry = scores.get(event.contentId) ?? {
+      contentId: event.contentId,
+      score: 0,
+      signals: {},
+    };
+
+    entry.score += value;
+    entry.signals[event.signal] = (entry.signals[event.signal] ?? 0) + value;
+    scores.set(event.contentId, entry);
+  });
+
+  return Array.from(scores.values())
+    .map(entry => ({
+      contentId: entry.contentId,
+      score: round(entry.score),
+      signals: Object.fromEntries(
+        Object.entries(entry.signals).map(([signal, value]) => [signal, round(value)])
+      ),
+    }))
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score || a.contentId.localeCompare(b.contentId));
+}
+
+/**
+ * Our own trending titles first, topped up from TMDb's trending list (already matched to
+ * catalog ids, in TMDb's order) while there are too few titles above the minimum score
+ */
+export function blendTrending(
+  local: TrendingScore[],
+  external: string[],
+  options: BlendOptions
+): BlendedTrending[] {
+  const { limit, minScore = MIN_TRENDING_SCORE } = options;
+  const blended: BlendedTrending[] = local
+    .filter(entry => entry.score >= minScore)
+    .slice(0, limit)
+    .map(entry => ({ ...entry, source: 'tcwatch' as const }));
+  const seen = new Set(blended.map(entry => entry.contentId));
+
+  for (const contentId of external) {
+    if (blended.length >= limit) {
+      break;
+    }
+
+    if (!seen.has(contentId)) {
+      seen.add(contentId);
+      blended.push({ contentId, source: 'tmdb', score: 0, signals: {} });
+    }
+  }
+
+  // Quiet local titles still beat an empty slot
+  local
+    .filter(entry => !seen.has(entry.contentId))
+    .slice(0, Math.max(0, limit - blended.length))
+    .forEach(entry => blended.push({ ...entry, source: 'tcwatch' as const }));
+
+  return blended;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
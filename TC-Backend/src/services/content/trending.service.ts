@@ -0,0 +1,327 @@
+// Trending Service - Rebuilds trending rankings from engagement signals and serves them blended with TMDb
+import {
+  Content,
+  ContentType,
+  Prisma,
+  PrismaClient,
+  TrendingTimeframe as TimeframeColumn,
+} from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import { createHash } from 'crypto';
+import { RedisService, redisService } from '../core/redis.service';
+import { TMDbApiClient } from '../external/tmdb-client';
+import {
+  MIN_TRENDING_SCORE,
+  TRENDING_TIMEFRAMES,
+  TrendingEvent,
+  TrendingScore,
+  TrendingSource,
+  TrendingTimeframe,
+  blendTrending,
+  scoreTrending,
+  viewWeight,
+} from './trending-signals';
+
+export type ViewCache = Pick<RedisService, 'setIfAbsent'>;
+
+export interface TrendingQuery {
+  timeframe?: TrendingTimeframe | undefined;
+  limit?: number | undefined;
+  contentType?: ContentType | undefined;
+}
+
+export interface TrendingContent {
+  content: Content;
+  rank: number;
+  score: number;
+  // 'tmdb' when the title was added from TMDb's trending list because our own data was too sparse
+  source: TrendingSource;
+  signals: TrendingScore['signals'];
+}
+
+export type TrendingRecomputeResult = Record<TrendingTimeframe, number>;
+
+export const MAX_TRENDING = 50;
+
+// Titles kept per timeframe each time the rankings are rebuilt
+const RANKED_PER_TIMEFRAME = 500;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const VIEW_CACHE_PREFIX = 'trending_view:';
+
+const TIMEFRAME_COLUMN: Record<TrendingTimeframe, TimeframeColumn> = {
+  day: 'DAY',
+  week: 'WEEK',
+  month: 'MONTH',
+};
+
+export class TrendingService {
+  constructor(
+    private prisma: PrismaClient,
+    private tmdb: TMDbApiClient | null = null,
+    private viewCache: ViewCache = redisService
+  ) {}
+
+  /**
+   * Count a detail page view towards today's trending signals, once per viewer and title each
+   * UTC day. The viewer is a user ID or an IP address; only a hash of it is stored. Failures are
+   * logged, not thrown, so a view never fails the page.
+   */
+  async recordView(contentId: string, viewer: string, now: Date = new Date()): Promise<void> {
+    const day = startOfUtcDay(now);
+    const viewerHash = createHash('sha256').update(viewer).digest('hex').slice(0, 32);
+
+    try {
+      const firstToday = await this.viewCache.setIfAbsent(
+        `${VIEW_CACHE_PREFIX}${contentId}:${day.toISOString().slice(0, 10)}:${viewerHash}`,
+        1,
+        Math.ceil((day.getTime() + DAY_MS - now.getTime()) / 1000)
+      );
+
+      if (!firstToday) {
+        return;
+      }
+
+      await this.prisma.contentViewCount.upsert({
+        where: { contentId_day: { contentId, day } },
+        create: { contentId, day, views: 1 },
+        update: { views: { increment: 1 } },
+      });
+    } catch (error) {
+      console.error(`Failed to record view of content ${contentId}:`, error);
+    }
+  }
+
+  /**
+   * Trending titles for the timeframe, topped up from TMDb's trending list when too few of
+   * our own titles have enough activity
+   */
+  async getTrending(query: TrendingQuery = {}): Promise<TrendingContent[]> {
+    const { timeframe = 'week', limit = 10, contentType } = query;
+    const take = Math.min(limit, MAX_TRENDING);
+
+    try {
+      const rows = await this.prisma.contentTrendingScore.findMany({
+        where: {
+          timeframe: TIMEFRAME_COLUMN[timeframe],
+          ...(contentType && { content: { contentType } }),
+        },
+        orderBy: { rank: 'asc' },
+        take,
+        include: { content: true },
+      });
+
+      const local: TrendingScore[] = rows.map(row => ({
+        contentId: row.contentId,
+        score: row.score,
+        signals: row.signals as TrendingScore['signals'],
+      }));
+      const sparse = local.filter(entry => entry.score >= MIN_TRENDING_SCORE).length < take;
+      const external = sparse ? await this.findTmdbTrending(timeframe, contentType) : [];
+
+      const contents = new Map<string, Content>([
+        ...rows.map(row => [row.contentId, row.content] as const),
+        ...external.map(content => [content.id, content] as const),
+      ]);
+
+      const blended = blendTrending(
+        local,
+        external.map(content => content.id),
+        { limit: take }
+      );
+
+      return blended
+        .flatMap(entry => {
+          const content = contents.get(entry.contentId);
+
+          return content
+            ? [{ content, score: entry.score, source: entry.source, signals: entry.signals }]
+            : [];
+        })
+        .map((entry, index) => ({ ...entry, rank: index + 1 }));
+    } catch (error) {
+      this.rethrow(error, 'Failed to load trending content');
+    }
+  }
+
+  /**
+   * Rebuild the day, week and month rankings from tracking, completions, ratings, list adds
+   * and detail views. Run on a schedule; returns the number of titles ranked per timeframe.
+   */
+  async recompute(now: Date = new Date()): Promise<TrendingRecomputeResult> {
+    const timeframes = Object.keys(TRENDING_TIMEFRAMES) as TrendingTimeframe[];
+    const longestWindow = Math.max(
+      ...timeframes.map(timeframe => TRENDING_TIMEFRAMES[timeframe].windowDays)
+    );
+    const since = new Date(now.getTime() - longestWindow * DAY_MS);
+    const events = await this.loadEvents(since);
+    const result = {} as TrendingRecomputeResult;
+
+    for (const timeframe of timeframes) {
+      const ranked = scoreTrending(events, timeframe, now).slice(0, RANKED_PER_TIMEFRAME);
+
+      await this.prisma.$transaction(async tx => {
+        await tx.contentTrendingScore.deleteMany({
+          where: { timeframe: TIMEFRAME_COLUMN[timeframe] },
+        });
+        await tx.contentTrendingScore.createMany({
+          data: ranked.map((entry, index) => ({
+            contentId: entry.contentId,
+            timeframe: TIMEFRAME_COLUMN[timeframe],
+            rank: index + 1,
+            score: entry.score,
+            signals: entry.signals as Prisma.InputJsonObject,
+            computedAt: now,
+          })),
+        });
+      });
+
+      result[timeframe] = ranked.length;
+    }
+
+    // View counts older than every window no longer affect any ranking
+    await this.prisma.contentViewCount.deleteMany({
+      where: { day: { lt: startOfUtcDay(since) } },
+    });
+
+    return result;
+  }
+
+  /**
+   * Engagement since the given time. A rating is dated by when its library entry was last
+   * saved, as the rating itself has no timestamp.
+   */
+  private async loadEvents(since: Date): Promise<TrendingEvent[]> {
+    const [tracked, listItems, views] = await Promise.all([
+      this.prisma.userContent.findMany({
+        where: {
+          OR: [
+            { dateAdded: { gte: since } },
+            { dateCompleted: { gte: since } },
+            { rating: { not: null }, updatedAt: { gte: since } },
+          ],
+        },
+        select: {
+          contentId: true,
+          dateAdded: true,
+          dateCompleted: true,
+          rating: true,
+          updatedAt: true,
+        },
+      }),
+      this.prisma.listItem.findMany({
+        where: { addedAt: { gte: since } },
+        select: { contentId: true, addedAt: true },
+      }),
+      this.prisma.contentViewCount.findMany({
+        where: { day: { gte: startOfUtcDay(since) } },
+        select: { contentId: true, day: true, views: true },
+      }),
+    ]);
+
+    const events: TrendingEvent[] = [];
+
+    tracked.forEach(entry => {
+      if (entry.dateAdded >= since) {
+        events.push({ contentId: entry.contentId, signal: 'track', occurredAt: entry.dateAdded });
+      }
+
+      if (entry.dateCompleted && entry.dateCompleted >= since) {
+        events.push({
+          contentId: entry.contentId,
+          signal: 'completion',
+          occurredAt: entry.dateCompleted,
+        });
+      }
+
+      // A five-star rating counts fully, a one-star rating barely
+      if (entry.rating !== null && entry.updatedAt >= since) {
+        events.push({
+          contentId: entry.contentId,
+          signal: 'rating',
+          occurredAt: entry.updatedAt,
+          weight: entry.rating / 5,
+        });
+      }
+    });
+
+    listItems.forEach(item =>
+      events.push({ contentId: item.contentId, signal: 'listAdd', occurredAt: item.addedAt })
+    );
+
+    // Views are counted per day, so date them at midday
+    views.forEach(row =>
+      events.push({
+        contentId: row.contentId,
+        signal: 'view',
+        occurredAt: new Date(row.day.getTime() + 12 * HOUR_MS),
+        weight: viewWeight(row.views),
+      })
+    );
+
+    return events;
+  }
+
+  /**
+   * TMDb's trending True Crime titles that are in our catalog, in TMDb's order. TMDb has no
+   * monthly list, so month uses the weekly one. Failures are logged and treated as no titles.
+   */
+  private async findTmdbTrending(
+    timeframe: TrendingTimeframe,
+    contentType: ContentType | undefined
+  ): Promise<Content[]> {
+    if (!this.tmdb) {
+      return [];
+    }
+
+    try {
+      const results = await this.tmdb.getTrendingTrueCrime(timeframe === 'day' ? 'day' : 'week');
+
+      if (results.length === 0) {
+        return [];
+      }
+
+      const contents = await this.prisma.content.findMany({
+        where: {
+          tmdbId: { in: results.map(result => result.id) },
+          ...(contentType && { contentType }),
+        },
+      });
+
+      // Movie and TV ids overlap on TMDb, so match on the kind of title as well
+      const byTmdbKey = new Map(
+        contents.map(content => [
+          `${content.contentType === 'TV_SERIES' ? 'tv' : 'movie'}:${content.tmdbId}`,
+          content,
+        ])
+      );
+
+      return results.flatMap(result => {
+        const content = byTmdbKey.get(`${'firstAirDate' in result ? 'tv' : 'movie'}:${result.id}`);
+
+        return content ? [content] : [];
+      });
+    } catch (error) {
+      console.error('Failed to load TMDb trending titles:', error);
+      return [];
+    }
+  }
+
+  private rethrow(error: unknown, message: string): never {
+    if (error instanceof TRPCError) {
+      throw error;
+    }
+
+    console.error(`${message}:`, error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message,
+    });
+  }
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
@@ -0,0 +1,338 @@
+// Up Next Service - The next episode to watch for each series in progress
+import { Prisma, PrismaClient } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import { RedisService, redisService } from '../core/redis.service';
+import { createTVMazeClient } from '../external';
+import { EpisodeScheduleInfo, TVMazeApiClient } from '../external/tvmaze-client';
+import { EpisodeRef } from '../social/activity-recorder.service';
+
+export type AirScheduleClient = Pick<TVMazeApiClient, 'getShowByExternalId' | 'getShowAirDates'>;
+
+export type AirScheduleCache = Pick<RedisService, 'get' | 'set'>;
+
+export interface UpNextEpisode {
+  seasonNumber: number;
+  episodeNumber: number;
+  title: string | null;
+  airsAt: Date | null;
+  // Null when the air schedule for the series couldn't be checked
+  aired: boolean | null;
+}
+
+export interface WatchOption {
+  name: string;
+  type: string | null;
+  url: string | null;
+}
+
+export interface UpNextEntry {
+  content: {
+    id: string;
+    title: string;
+    posterUrl: string | null;
+    contentType: string;
+    totalSeasons: number | null;
+    totalEpisodes: number | null;
+  };
+  nextEpisode: UpNextEpisode;
+  lastWatchedAt: Date | null;
+  watchOn: WatchOption[];
+}
+
+export const MAX_UP_NEXT = 50;
+
+const SCHEDULE_CACHE_PREFIX = 'air_schedule:';
+const SCHEDULE_CACHE_TTL_SECONDS = 60 * 60;
+
+// TVMaze allows about 20 calls every 10 seconds, so series are looked up a few at a time
+const SCHEDULE_CONCURRENCY = 5;
+
+interface ScheduleContent {
+  id: string;
+  tvdbId: number | null;
+  imdbId: string | null;
+}
+
+interface AirSchedule {
+  recent: EpisodeScheduleInfo[];
+  upcoming: EpisodeScheduleInfo[];
+}
+
+// Wrapped so series that aren't on TVMaze are cached too
+interface CachedAirSchedule {
+  schedule: AirSchedule | null;
+}
+
+export class UpNextService {
+  private schedule: AirScheduleClient | null;
+
+  constructor(
+    private prisma: PrismaClient,
+    schedule?: AirScheduleClient | null | undefined,
+    private cache: AirScheduleCache = redisService
+  ) {
+    this.schedule = schedule !== undefined ? schedule : createTVMazeClient();
+  }
+
+  /**
+   * Next unwatched episode of every series the user is watching. Episodes available now
+   * come first, most recently watched series first, followed by episodes still to air in
+   * air date order. Series the user has caught up on with nothing scheduled are left out.
+   */
+  async getUpNext(userId: string, limit = 20): Promise<UpNextEntry[]> {
+    try {
+      const entries = await this.prisma.userContent.findMany({
+        where: { userId, status: 'WATCHING', content: { contentType: { not: 'MOVIE' } } },
+        orderBy: { updatedAt: 'desc' },
+        take: MAX_UP_NEXT,
+        include: {
+          content: {
+            select: {
+              id: true,
+              title: true,
+              posterUrl: true,
+              contentType: true,
+              totalSeasons: true,
+              totalEpisodes: true,
+              tvdbId: true,
+              imdbId: true,
+              platforms: true,
+            },
+          },
+        },
+      });
+
+      if (entries.length === 0) {
+        return [];
+      }
+
+      const watchedWhere = {
+        userId,
+        contentId: { in: entries.map(entry => entry.contentId) },
+        watched: true,
+        seasonNumber: { gt: 0 },
+      };
+      const [furthest, lastWatched] = await Promise.all([
+        this.prisma.episodeProgress.findMany({
+          where: watchedWhere,
+          orderBy: [{ contentId: 'asc' }, { seasonNumber: 'desc' }, { episodeNumber: 'desc' }],
+          distinct: ['contentId'],
+          select: { contentId: true, seasonNumber: true, episodeNumber: true },
+        }),
+        this.prisma.episodeProgress.groupBy({
+          by: ['contentId'],
+          where: watchedWhere,
+          _max: { watchedAt: true },
+        }),
+      ]);
+
+      const furthestById = new Map(furthest.map(row => [row.contentId, row]));
+      const lastWatchedById = new Map(
+        lastWatched.map(row => [row.contentId, row._max.watchedAt ?? null])
+      );
+
+      const toEntry = async ({
+        content,
+        dateStarted,
+      }: (typeof entries)[number]): Promise<UpNextEntry | null> => {
+        const schedule = await this.getAirSchedule(content);
+        const nextEpisode = pickNextEpisode(furthestById.get(content.id) ?? null, schedule);
+
+        if (!nextEpisode) {
+          return null;
+        }
+
+        return {
+          content: {
+            id: content.id,
+            title: content.title,
+            posterUrl: content.posterUrl,
+            contentType: content.contentType,
+            totalSeasons: content.totalSeasons,
+            totalEpisodes: content.totalEpisodes,
+          },
+          nextEpisode,
+          lastWatchedAt: lastWatchedById.get(content.id) ?? dateStarted,
+          watchOn: watchOptions(content.platforms),
+        };
+      };
+
+      const feed: Array<UpNextEntry | null> = [];
+
+      for (let start = 0; start < entries.length; start += SCHEDULE_CONCURRENCY) {
+        feed.push(
+          ...(await Promise.all(entries.slice(start, start + SCHEDULE_CONCURRENCY).map(toEntry)))
+        );
+      }
+
+      return feed
+        .filter((entry): entry is UpNextEntry => entry !== null)
+        .sort(compareEntries)
+        .slice(0, limit);
+    } catch (error) {
+      this.rethrow(error, 'Failed to fetch up next');
+    }
+  }
+
+  /**
+   * Recent and upcoming episodes from TVMaze, looked up by TVDB or IMDb ID and cached for
+   * an hour. Null when the series isn't on TVMaze or the lookup fails; failures aren't cached.
+   */
+  private async getAirSchedule(content: ScheduleContent): Promise<AirSchedule | null> {
+    if (!this.schedule || (!content.tvdbId && !content.imdbId)) {
+      return null;
+    }
+
+    const cacheKey = content.tvdbId
+      ? `${SCHEDULE_CACHE_PREFIX}tvdb:${content.tvdbId}`
+      : `${SCHEDULE_CACHE_PREFIX}imdb:${content.imdbId}`;
+    const cached = await this.cache.get<CachedAirSchedule>(cacheKey);
+
+    if (cached) {
+      return cached.schedule;
+    }
+
+    try {
+      const show = content.tvdbId
+        ? await this.schedule.getShowByExternalId(String(content.tvdbId), 'thetvdb')
+        : await this.schedule.getShowByExternalId(content.imdbId!, 'imdb');
+      const schedule = show ? await this.schedule.getShowAirDates(show.id) : null;
+
+      await this.cache.set(cacheKey, { schedule }, SCHEDULE_CACHE_TTL_SECONDS);
+      return schedule;
+    } catch (error) {
+      console.error(`Failed to fetch air dates for ${content.id}:`, error);
+      return null;
+    }
+  }
+
+  private rethrow(error: unknown, message: string): never {
+    if (error instanceof TRPCError) {
+      throw error;
+    }
+
+    console.error(`${message}:`, error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message,
+    });
+  }
+}
+
+/**
+ * The episode after the furthest one watched: the next in the season, else the first of
+ * the next season. The schedule only covers a few episodes either side of today, so a user
+ * far behind gets the next episode by number, known to have aired because later ones have.
+ */
+function pickNextEpisode(
+  furthest: EpisodeRef | null,
+  schedule: AirSchedule | null
+): UpNextEpisode | null {
+  const from = furthest ?? { seasonNumber: 1, episodeNumber: 0 };
+  const nextInSeason = { seasonNumber: from.seasonNumber, episodeNumber: from.episodeNumber + 1 };
+  const nextSeason = { seasonNumber: from.seasonNumber + 1, episodeNumber: 1 };
+
+  if (!schedule) {
+    return { ...nextInSeason, title: null, airsAt: null, aired: null };
+  }
+
+  const known = [...schedule.recent, ...schedule.upcoming]
+    .filter(episode => episode.season > 0 && episode.episode !== undefined)
+    .map(episode => ({ ref: toRef(episode), episode: toUpNextEpisode(episode) }))
+    .sort((a, b) => compareEpisodes(a.ref, b.ref));
+
+  for (const candidate of [nextInSeason, nextSeason]) {
+    const match = known.find(item => compareEpisodes(item.ref, candidate) === 0);
+
+    if (match) {
+      return match.episode;
+    }
+  }
+
+  const later = known.filter(item => compareEpisodes(item.ref, from) > 0);
+
+  if (later.length === 0) {
+    return null;
+  }
+
+  if (later.some(item => item.episode.aired)) {
+    return { ...nextInSeason, title: null, airsAt: null, aired: true };
+  }
+
+  return later[0]!.episode;
+}
+
+function toUpNextEpisode(episode: EpisodeScheduleInfo): UpNextEpisode {
+  const airsAt = episode.airTimestamp ? new Date(episode.airTimestamp) : null;
+
+  return {
+    seasonNumber: episode.season,
+    episodeNumber: episode.episode!,
+    title: episode.name || null,
+    airsAt,
+    aired: airsAt ? airsAt <= new Date() : null,
+  };
+}
+
+function toRef(episode: EpisodeScheduleInfo): EpisodeRef {
+  return { seasonNumber: episode.season, episodeNumber: episode.episode! };
+}
+
+function compareEpisodes(a: EpisodeRef, b: EpisodeRef): number {
+  return a.seasonNumber - b.seasonNumber || a.episodeNumber - b.episodeNumber;
+}
+
+/**
+ * Watchable episodes first, most recently watched series first; then episodes still to
+ * air, soonest first
+ */
+function compareEntries(a: UpNextEntry, b: UpNextEntry): number {
+  const aUpcoming = a.nextEpisode.aired === false;
+  const bUpcoming = b.nextEpisode.aired === false;
+
+  if (aUpcoming !== bUpcoming) {
+    return aUpcoming ? 1 : -1;
+  }
+
+  if (aUpcoming) {
+    return (
+      (a.nextEpisode.airsAt?.getTime() ?? Infinity) - (b.nextEpisode.airsAt?.getTime() ?? Infinity)
+    );
+  }
+
+  return (b.lastWatchedAt?.getTime() ?? 0) - (a.lastWatchedAt?.getTime() ?? 0);
+}
+
+/**
+ * Platforms from Content.platforms the title can be watched on today
+ */
+function watchOptions(platforms: Prisma.JsonValue): WatchOption[] {
+  if (!Array.isArray(platforms)) {
+    return [];
+  }
+
+  const now = new Date();
+
+  return platforms.flatMap(platform => {
+    if (!platform || typeof platform !== 'object' || Array.isArray(platform)) {
+      return [];
+    }
+
+    const { name, type, url, availableTo } = platform as Record<string, unknown>;
+
+    if (
+      typeof name !== 'string' ||
+      (typeof availableTo === 'string' && new Date(availableTo) < now)
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        name,
+        type: typeof type === 'string' ? type : null,
+        url: typeof url === 'string' ? url : null,
+      },
+    ];
+  });
+}
@@ -6,9 +6,13 @@
  */
 
 import { PrismaClient } from '@prisma/client';
-import { BaseRepository } from '../base/repository.js';
-import { ContentAggregatorService, AggregatedContent, AggregationResult } from '../transformation/content-aggregator.js';
+import { BaseRepository, CreateOptions, UpdateOptions } from '../base/repository.js';
+import { SearchIndexerService } from '../search/search-indexer.service.js';
+import { PostgresSearchService } from '../search/postgres-search.service.js';
+import { ContentAggregatorService, AggregatedContent, AggregationResult, ContentMatchingParams } from '../transformation/content-aggregator.js';
 import { ExternalAPIManager } from '../external/index.js';
+import { CaseSyncService } from '../content/case-sync.service.js';
+import { FollowAlertService } from '../content/follow-alert.service.js';
 
 // Domain types for content service
 export interface ContentEntity {
@@ -26,6 +30,8 @@ export interface ContentEntity {
   platforms: any; // JSON field
   tmdbId?: number;
   imdbId?: string;
+  totalSeasons?: number;
+  totalEpisodes?: number;
   searchVector?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -34,31 +40,35 @@ export interface ContentEntity {
 export interface CreateContentData {
   externalId: string;
   title: string;
-  description?: string;
+  description?: string | undefined;
   contentType: 'MOVIE' | 'TV_SERIES' | 'DOCUMENTARY' | 'PODCAST';
   genreTags: string[];
   caseTags: string[];
-  releaseDate?: Date;
-  runtimeMinutes?: number;
-  posterUrl?: string;
-  trailerUrl?: string;
+  releaseDate?: Date | undefined;
+  runtimeMinutes?: number | undefined;
+  posterUrl?: string | undefined;
+  trailerUrl?: string | undefined;
   platforms: any;
-  tmdbId?: number;
-  imdbId?: string;
+  tmdbId?: number | undefined;
+  imdbId?: string | undefined;
+  totalSeasons?: number | undefined;
+  totalEpisodes?: number | undefined;
 }
 
 export interface UpdateContentData {
   title?: string;
-  description?: string;
+  description?: string | undefined;
   genreTags?: string[];
   caseTags?: string[];
-  releaseDate?: Date;
-  runtimeMinutes?: number;
-  posterUrl?: string;
-  trailerUrl?: string;
+  releaseDate?: Date | undefined;
+  runtimeMinutes?: number | undefined;
+  posterUrl?: string | undefined;
+  trailerUrl?: string | undefined;
   platforms?: any;
-  tmdbId?: number;
-  imdbId?: string;
+  tmdbId?: number | undefined;
+  imdbId?: string | undefined;
+  totalSeasons?: number | undefined;
+  totalEpisodes?: number | undefined;
 }
 
 export interface ContentSearchParams {
@@ -85,6 +95,72 @@ class ContentRepository extends BaseRepository<ContentEntity, CreateContentData,
   protected model = this.prisma.content;
   protected entityName = 'Content';
 
+  constructor(
+    prisma: PrismaClient,
+    private searchIndexer: SearchIndexerService = new SearchIndexerService(prisma),
+    private postgresSearch: PostgresSearchService = new PostgresSearchService(prisma)
+  ) {
+    super(prisma);
+  }
+
+  /**
+   * Create content and push it to the search index
+   */
+  override async create(data: CreateContentData, options?: CreateOptions): Promise<ContentEntity> {
+    const created = await super.create(data, options);
+    await this.refreshSearchVector(created.id);
+    this.syncSearchIndex('upsert', created.id);
+    return created;
+  }
+
+  /**
+   * Update content and refresh its search document
+   */
+  override async update(id: string, data: UpdateContentData, options?: UpdateOptions): Promise<ContentEntity | null> {
+    const updated = await super.update(id, data, options);
+    if (updated) {
+      await this.refreshSearchVector(id);
+      this.syncSearchIndex('upsert', id);
+    }
+    return updated;
+  }
+
+  /**
+   * Delete content and drop it from the search index
+   */
+  override async delete(id: string): Promise<ContentEntity | null> {
+    const deleted = await super.delete(id);
+    if (deleted) {
+      this.syncSearchIndex('delete', id);
+    }
+    return deleted;
+  }
+
+  /**
+   * Keep the Postgres fallback search document current; failures are logged, not thrown
+   */
+  private async refreshSearchVector(id: string): Promise<void> {
+    try {
+      await this.postgresSearch.refreshSearchVectors([id]);
+    } catch (error) {
+      console.error(`Failed to refresh search vector for content ${id}:`, error);
+    }
+  }
+
+  /**
+   * Index writes happen in the background; a search outage must not fail the database write
+   */
+  private syncSearchIndex(action: 'upsert' | 'delete', id: string): void {
+    const task =
+      action === 'upsert'
+        ? this.searchIndexer.indexContent([id])
+        : this.searchIndexer.removeContent([id]);
+
+    task.catch(error => {
+      console.error(`Failed to ${action} content ${id} in search index:`, error);
+    });
+  }
+
   /**
    * Search content using full-text search
    */
@@ -109,7 +185,7 @@ class ContentRepository extends BaseRepository<ContentEntity, CreateContentData,
       whereClause.OR = [
         { title: { contains: query, mode: 'insensitive' } },
         { description: { contains: query, mode: 'insensitive' } },
-        { searchVector: { contains: query } }
+        { searchVector: { contains: query, mode: 'insensitive' } }
       ];
     }
 
@@ -197,19 +273,40 @@ class ContentRepository extends BaseRepository<ContentEntity, CreateContentData,
   }
 
   /**
-   * Get trending True Crime content
+   * Get trending True Crime content: this week's trending rankings first, then recently
+   * updated True Crime titles while the rankings are too short
    */
   async getTrendingTrueCrime(limit: number = 20): Promise<ContentEntity[]> {
-    return this.findMany({
-      where: {
-        OR: [
-          { genreTags: { hasSome: ['Crime', 'Documentary', 'Mystery', 'Thriller'] } },
-          { caseTags: { isEmpty: false } }
-        ]
-      },
-      orderBy: { updatedAt: 'desc' },
-      take: limit
+    const ranked = await this.prisma.contentTrendingScore.findMany({
+      where: { timeframe: 'WEEK' },
+      orderBy: { rank: 'asc' },
+      take: limit,
+      select: { contentId: true }
     });
+    const rankedIds = ranked.map(row => row.contentId);
+
+    const [trending, recent] = await Promise.all([
+      rankedIds.length > 0 ? this.findMany({ where: { id: { in: rankedIds } } }) : Promise.resolve([]),
+      rankedIds.length < limit
+        ? this.findMany({
+            where: {
+              id: { notIn: rankedIds },
+              OR: [
+                { genreTags: { hasSome: ['Crime', 'Documentary', 'Mystery', 'Thriller'] } },
+                { caseTags: { isEmpty: false } }
+              ]
+            },
+            orderBy: { updatedAt: 'desc' },
+            take: limit - rankedIds.length
+          })
+        : Promise.resolve([])
+    ]);
+
+    const byId = new Map(trending.map(content => [content.id, content]));
+    return [
+      ...rankedIds.flatMap(id => byId.get(id) ?? []),
+      ...recent
+    ];
   }
 
   /**
@@ -228,17 +325,7 @@ class ContentRepository extends BaseRepository<ContentEntity, CreateContentData,
    */
   async updateSearchVector(id: string): Promise<void> {
     try {
-      const content = await this.findById(id);
-      if (!content) return;
-
-      const searchVector = [
-        content.title,
-        content.description || '',
-        ...content.genreTags,
-        ...content.caseTags
-      ].join(' ').toLowerCase();
-
-      await this.update(id, { searchVector } as UpdateContentData);
+      await this.postgresSearch.refreshSearchVectors([id]);
     } catch (error) {
       throw this.handleError(error, 'updateSearchVector');
     }
@@ -248,12 +335,16 @@ class ContentRepository extends BaseRepository<ContentEntity, CreateContentData,
 export class ContentService {
   private contentRepository: ContentRepository;
   private contentAggregator: ContentAggregatorService;
+  private caseSync: CaseSyncService;
+  private followAlerts: FollowAlertService;
 
   constructor(
     private prisma: PrismaClient,
     private externalAPIManager: ExternalAPIManager
   ) {
     this.contentRepository = new ContentRepository(prisma);
+    this.caseSync = new CaseSyncService(prisma, externalAPIManager.wikidata!);
+    this.followAlerts = new FollowAlertService(prisma);
     this.contentAggregator = new ContentAggregatorService(
       externalAPIManager.watchmode!,
       externalAPIManager.tmdb!,
@@ -364,6 +455,24 @@ export class ContentService {
     return results;
   }
 
+  /**
+   * Look up a title we don't have through the aggregator and store it.
+   * Returns null if no source recognises it as True Crime.
+   */
+  async importContent(params: ContentMatchingParams): Promise<ContentEntity | null> {
+    const { content } = await this.contentAggregator.aggregateContent(params);
+
+    if (!content.title || !this.contentAggregator.isTrueCrimeContent({
+      title: content.title,
+      genres: content.genreTags,
+      keywords: content.keywords
+    })) {
+      return null;
+    }
+
+    return this.syncSingleContent(content);
+  }
+
   /**
    * Sync a single content item from aggregated data
    */
@@ -380,19 +489,41 @@ export class ContentService {
     }
 
     const contentData = this.transformAggregatedContent(aggregatedContent);
+    let content: ContentEntity;
 
     if (existingContent) {
       // Update existing content
-      return this.contentRepository.update(existingContent.id, contentData) as Promise<ContentEntity>;
+      content = await this.contentRepository.update(existingContent.id, contentData) as ContentEntity;
     } else {
       // Create new content
-      return this.contentRepository.create({
+      content = await this.contentRepository.create({
         ...contentData,
         externalId: aggregatedContent.externalIds.tmdb?.toString() ||
                    aggregatedContent.externalIds.imdb ||
                    aggregatedContent.title.toLowerCase().replace(/[^a-z0-9]/g, '-')
       });
     }
+
+    // Promote related cases; low-confidence matches are queued for review
+    let newCaseIds: string[] = [];
+    if (aggregatedContent.relatedCases.length > 0) {
+      const caseSync = await this.caseSync.syncRelatedCases(content.id, aggregatedContent.relatedCases);
+      newCaseIds = caseSync.newCaseIds;
+    }
+
+    // Queue alerts for followers of the content's cases, people and series
+    const people = [...aggregatedContent.cast, ...aggregatedContent.crew];
+    await this.followAlerts.recordSyncedContent({
+      contentId: content.id,
+      title: content.title,
+      created: !existingContent,
+      newCaseIds,
+      personWikidataIds: [...new Set(people.flatMap(person => person.wikidataId ? [person.wikidataId] : []))],
+      previousEpisodes: existingContent?.totalEpisodes,
+      totalEpisodes: content.totalEpisodes
+    });
+
+    return content;
   }
 
   /**
@@ -411,7 +542,9 @@ export class ContentService {
       trailerUrl: aggregated.trailerUrl,
       platforms: aggregated.platforms,
       tmdbId: aggregated.externalIds.tmdb,
-      imdbId: aggregated.externalIds.imdb
+      imdbId: aggregated.externalIds.imdb,
+      totalSeasons: aggregated.totalSeasons,
+      totalEpisodes: aggregated.totalEpisodes
     };
   }
 
@@ -436,14 +569,8 @@ export class ContentService {
    * Update content metadata
    */
   async updateContent(id: string, data: UpdateContentData): Promise<ContentEntity | null> {
-    const updated = await this.contentRepository.update(id, data);
-
-    if (updated) {
-      // Update search vector
-      await this.contentRepository.updateSearchVector(id);
-    }
-
-    return updated;
+    // The repository refreshes the search vector and search index on update
+    return this.contentRepository.update(id, data);
   }
 
   /**
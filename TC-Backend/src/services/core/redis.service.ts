@@ -0,0 +1,134 @@
+// Redis Cache Service - JSON cache helpers shared by the content services
+import Redis from 'ioredis';
+
+export class RedisService {
+  private redis: Redis;
+  private readonly DEFAULT_TTL = 3600; // 1 hour in seconds
+
+  constructor(redis?: Redis) {
+    this.redis = redis ?? new Redis(process.env.REDIS_URL!);
+  }
+
+  /**
+   * Get a cached value, or null when missing or unreadable
+   */
+  async get<T = unknown>(key: string): Promise<T | null> {
+    try {
+      const value = await this.redis.get(key);
+      return value ? (JSON.parse(value) as T) : null;
+    } catch (error) {
+      console.warn(`Redis get failed for ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Cache a value with a TTL in seconds
+   */
+  async set(key: string, value: unknown, ttlSeconds: number = this.DEFAULT_TTL): Promise<void> {
+    try {
+      await this.redis.setex(key, ttlSeconds, JSON.stringify(value));
+    } catch (error) {
+      console.warn(`Redis set failed for ${key}:`, error);
+    }
+  }
+
+  /**
+   * Cache a value only if the key isn't set yet. Returns whether it was set, and false when
+   * Redis is unavailable.
+   */
+  async setIfAbsent(
+    key: string,
+    value: unknown,
+    ttlSeconds: number = this.DEFAULT_TTL
+  ): Promise<boolean> {
+    try {
+      return (await this.redis.set(key, JSON.stringify(value), 'EX', ttlSeconds, 'NX')) === 'OK';
+    } catch (error) {
+      console.warn(`Redis set failed for ${key}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Get several cached values at once, preserving key order
+   */
+  async mget<T = unknown>(keys: string[]): Promise<(T | null)[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+
+    try {
+      const values = await this.redis.mget(...keys);
+      return values.map(value => (value ? (JSON.parse(value) as T) : null));
+    } catch (error) {
+      console.warn('Redis mget failed:', error);
+      return keys.map(() => null);
+    }
+  }
+
+  /**
+   * Cache several values at once with a shared TTL
+   */
+  async mset(
+    entries: Record<string, unknown>,
+    ttlSeconds: number = this.DEFAULT_TTL
+  ): Promise<void> {
+    try {
+      const pipeline = this.redis.pipeline();
+      for (const [key, value] of Object.entries(entries)) {
+        pipeline.setex(key, ttlSeconds, JSON.stringify(value));
+      }
+      await pipeline.exec();
+    } catch (error) {
+      console.warn('Redis mset failed:', error);
+    }
+  }
+
+  /**
+   * Delete a single key
+   */
+  async delete(key: string): Promise<void> {
+    try {
+      await this.redis.del(key);
+    } catch (error) {
+      console.warn(`Redis delete failed for ${key}:`, error);
+    }
+  }
+
+  /**
+   * Delete every key matching a glob pattern
+   */
+  async clearPattern(pattern: string): Promise<number> {
+    let deleted = 0;
+
+    try {
+      let cursor = '0';
+      do {
+        const [nextCursor, keys] = await this.redis.scan(cursor, 'MATCH', pattern, 'COUNT', 100);
+        cursor = nextCursor;
+
+        if (keys.length > 0) {
+          deleted += await this.redis.del(...keys);
+        }
+      } while (cursor !== '0');
+    } catch (error) {
+      console.warn(`Redis clearPattern failed for ${pattern}:`, error);
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Check Redis connectivity
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      return (await this.redis.ping()) === 'PONG';
+    } catch (error) {
+      return false;
+    }
+  }
+}
+
+export const redisService = new RedisService();
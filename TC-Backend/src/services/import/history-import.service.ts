@@ -0,0 +1,631 @@
+// History Import Service - Imports watch history from other services into UserContent
+import {
+  HistoryImport,
+  HistoryImportRow,
+  ImportRowStatus,
+  ImportSource,
+  PrismaClient,
+  TrackingStatus,
+} from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import { ContentRepository, ContentService } from '../core/content-service';
+import { createExternalAPIManager } from '../external';
+import { NotificationService } from '../notification/notification.service';
+import { EVENT_METRICS } from '../social/achievement-rules';
+import { AchievementService } from '../social/achievement.service';
+import { StatsService } from '../social/stats.service';
+import {
+  ImportSourceName,
+  ParsedHistoryRow,
+  normalizeTitle,
+  parseHistoryExport,
+  parseMediaType,
+} from './history-parsers';
+
+export type MatchMethod = 'imdb_id' | 'tmdb_id' | 'title_year' | 'aggregator' | 'manual';
+
+export interface CreateImportInput {
+  source: ImportSourceName;
+  data: string;
+  fileName?: string | undefined;
+}
+
+export interface ImportRowsOptions {
+  status?: ImportRowStatus | undefined;
+  page?: number | undefined;
+  limit?: number | undefined;
+}
+
+// Anything that can add a title we don't have yet to the catalog
+export type CatalogImporter = Pick<ContentService, 'importContent'>;
+
+// Larger histories should be split into several files
+export const MAX_IMPORT_ROWS = 5000;
+
+// Minimum title similarity for a title-and-year match
+export const TITLE_MATCH_THRESHOLD = 0.85;
+
+const ROW_BATCH_SIZE = 50;
+
+const SOURCES: Record<ImportSourceName, ImportSource> = {
+  letterboxd: 'LETTERBOXD',
+  trakt: 'TRAKT',
+  imdb: 'IMDB',
+};
+
+const IMPORT_NOTIFICATION_TYPE = 'history_import_completed';
+
+export class HistoryImportService {
+  private achievementService: AchievementService;
+  private statsService: StatsService;
+  private notifications: NotificationService;
+
+  constructor(
+    private prisma: PrismaClient,
+    private catalog: CatalogImporter = new ContentService(
+      prisma,
+      createExternalAPIManager({
+        ...(process.env.TMDB_API_KEY && { tmdbApiKey: process.env.TMDB_API_KEY }),
+        ...(process.env.WATCHMODE_API_KEY && { watchmodeApiKey: process.env.WATCHMODE_API_KEY }),
+        ...(process.env.TVDB_API_KEY && { tvdbApiKey: process.env.TVDB_API_KEY }),
+      })
+    ),
+    private repository: ContentRepository = new ContentRepository(prisma)
+  ) {
+    this.achievementService = new AchievementService(prisma);
+    this.statsService = new StatsService(prisma);
+    this.notifications = new NotificationService(prisma);
+  }
+
+  /**
+   * Parse an export file and queue it for import. Call runInBackground to process it.
+   */
+  async createImport(userId: string, input: CreateImportInput): Promise<HistoryImport> {
+    try {
+      const rows = parseHistoryExport(input.source, input.data);
+
+      if (rows.length > MAX_IMPORT_ROWS) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Imports are limited to ${MAX_IMPORT_ROWS} titles. Split the file and try again.`,
+        });
+      }
+
+      const inProgress = await this.prisma.historyImport.findFirst({
+        where: { userId, status: { in: ['PENDING', 'RUNNING'] } },
+        select: { id: true },
+      });
+
+      if (inProgress) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'You already have an import in progress',
+        });
+      }
+
+      return await this.prisma.historyImport.create({
+        data: {
+          userId,
+          source: SOURCES[input.source],
+          fileName: input.fileName ?? null,
+          totalRows: rows.length,
+          rows: {
+            createMany: {
+              data: rows.map((row, index) => toRowData(row, index + 1)),
+            },
+          },
+        },
+      });
+    } catch (error) {
+      this.rethrow(error, 'Failed to start import');
+    }
+  }
+
+  /**
+   * Process an import without holding up the request that started it
+   */
+  runInBackground(importId: string): void {
+    setImmediate(() => {
+      this.processImport(importId).catch(error => {
+        console.error(`History import ${importId} failed:`, error);
+      });
+    });
+  }
+
+  /**
+   * Match every pending row and add the matches to the user's library. Only one worker
+   * can claim an import; rows already handled are not processed again.
+   */
+  async processImport(importId: string): Promise<void> {
+    const claimed = await this.prisma.historyImport.updateMany({
+      where: { id: importId, status: 'PENDING' },
+      data: { status: 'RUNNING', startedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      return;
+    }
+
+    const historyImport = await this.prisma.historyImport.findUniqueOrThrow({
+      where: { id: importId },
+    });
+
+    try {
+      let rows: HistoryImportRow[];
+
+      do {
+        rows = await this.prisma.historyImportRow.findMany({
+          where: { importId, status: 'PENDING' },
+          orderBy: { rowNumber: 'asc' },
+          take: ROW_BATCH_SIZE,
+        });
+
+        for (const row of rows) {
+          await this.processRow(historyImport.userId, row);
+        }
+
+        await this.updateCounts(importId);
+      } while (rows.length === ROW_BATCH_SIZE);
+
+      const finished = await this.prisma.historyImport.update({
+        where: { id: importId },
+        data: { status: 'COMPLETED', completedAt: new Date() },
+      });
+
+      await this.afterImport(finished);
+    } catch (error) {
+      console.error(`History import ${importId} failed:`, error);
+      await this.prisma.historyImport.update({
+        where: { id: importId },
+        data: {
+          status: 'FAILED',
+          completedAt: new Date(),
+          errorMessage: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  /**
+   * Put imports interrupted by a restart back in the queue and process everything queued
+   */
+  async resumeImports(): Promise<number> {
+    await this.prisma.historyImport.updateMany({
+      where: { status: 'RUNNING' },
+      data: { status: 'PENDING' },
+    });
+
+    const queued = await this.prisma.historyImport.findMany({
+      where: { status: 'PENDING' },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    });
+
+    for (const { id } of queued) {
+      await this.processImport(id);
+    }
+
+    return queued.length;
+  }
+
+  /**
+   * The user's imports, newest first
+   */
+  async listImports(userId: string) {
+    try {
+      return await this.prisma.historyImport.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: 20,
+      });
+    } catch (error) {
+      this.rethrow(error, 'Failed to fetch imports');
+    }
+  }
+
+  /**
+   * Import progress and the report of rows that still need attention
+   */
+  async getImport(userId: string, importId: string) {
+    try {
+      const historyImport = await this.findImport(userId, importId);
+
+      const [pendingRows, skippedRows] = await Promise.all([
+        this.prisma.historyImportRow.count({ where: { importId, status: 'PENDING' } }),
+        this.prisma.historyImportRow.count({ where: { importId, status: 'SKIPPED' } }),
+      ]);
+
+      return { ...historyImport, pendingRows, skippedRows };
+    } catch (error) {
+      this.rethrow(error, 'Failed to fetch import');
+    }
+  }
+
+  /**
+   * Rows of an import, optionally only those with a given status
+   */
+  async getRows(userId: string, importId: string, options: ImportRowsOptions = {}) {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? 50;
+
+    try {
+      await this.findImport(userId, importId);
+
+      const where = { importId, ...(options.status && { status: options.status }) };
+
+      const [rows, total] = await Promise.all([
+        this.prisma.historyImportRow.findMany({
+          where,
+          orderBy: { rowNumber: 'asc' },
+          skip: (page - 1) * limit,
+          take: limit,
+          include: {
+            content: {
+              select: {
+                id: true,
+                title: true,
+                posterUrl: true,
+                contentType: true,
+                releaseDate: true,
+              },
+            },
+          },
+        }),
+        this.prisma.historyImportRow.count({ where }),
+      ]);
+
+      return { rows, total };
+    } catch (error) {
+      this.rethrow(error, 'Failed to fetch import rows');
+    }
+  }
+
+  /**
+   * Match a row to content by hand and add it to the user's library
+   */
+  async resolveRow(userId: string, rowId: string, contentId: string) {
+    try {
+      const row = await this.findRow(userId, rowId);
+
+      const content = await this.prisma.content.findUnique({
+        where: { id: contentId },
+        select: { id: true },
+      });
+
+      if (!content) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Content not found',
+        });
+      }
+
+      await this.addToLibrary(userId, row, contentId);
+      await this.statsService.invalidate(userId, [row.watchedAt]);
+
+      const updated = await this.prisma.historyImportRow.update({
+        where: { id: row.id },
+        data: { status: 'IMPORTED', contentId, matchMethod: 'manual' },
+      });
+
+      await this.updateCounts(row.importId);
+
+      return updated;
+    } catch (error) {
+      this.rethrow(error, 'Failed to match import row');
+    }
+  }
+
+  /**
+   * Leave a row out of the import
+   */
+  async skipRow(userId: string, rowId: string) {
+    try {
+      const row = await this.findRow(userId, rowId);
+
+      if (row.status === 'IMPORTED') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'This title has already been imported',
+        });
+      }
+
+      const updated = await this.prisma.historyImportRow.update({
+        where: { id: row.id },
+        data: { status: 'SKIPPED' },
+      });
+
+      await this.updateCounts(row.importId);
+
+      return updated;
+    } catch (error) {
+      this.rethrow(error, 'Failed to skip import row');
+    }
+  }
+
+  private async processRow(userId: string, row: HistoryImportRow): Promise<void> {
+    try {
+      const match = await this.matchRow(row);
+
+      if (!match) {
+        await this.prisma.historyImportRow.update({
+          where: { id: row.id },
+          data: { status: 'UNMATCHED' },
+        });
+        return;
+      }
+
+      await this.addToLibrary(userId, row, match.contentId);
+      await this.prisma.historyImportRow.update({
+        where: { id: row.id },
+        data: { status: 'IMPORTED', contentId: match.contentId, matchMethod: match.method },
+      });
+    } catch (error) {
+      // One bad row shouldn't stop the import; it goes to the report for a manual fix
+      console.error(`Failed to import row ${row.rowNumber} of ${row.importId}:`, error);
+      await this.prisma.historyImportRow.update({
+        where: { id: row.id },
+        data: { status: 'UNMATCHED' },
+      });
+    }
+  }
+
+  /**
+   * Match by IMDb ID, then TMDb ID, then title and year, then ask the aggregator
+   */
+  private async matchRow(
+    row: HistoryImportRow
+  ): Promise<{ contentId: string; method: MatchMethod } | null> {
+    if (row.imdbId) {
+      const content = await this.repository.findByImdbId(row.imdbId);
+      if (content) return { contentId: content.id, method: 'imdb_id' };
+    }
+
+    if (row.tmdbId) {
+      const content = await this.repository.findByTmdbId(row.tmdbId);
+      if (content) return { contentId: content.id, method: 'tmdb_id' };
+    }
+
+    const byTitle = await this.findByTitleAndYear(row.title, row.year);
+    if (byTitle) return { contentId: byTitle, method: 'title_year' };
+
+    const mediaType = parseMediaType(row.mediaType);
+    const imported = await this.catalog.importContent({
+      title: row.title,
+      ...(row.year && { year: row.year }),
+      ...(mediaType && { type: mediaType }),
+      ...(row.imdbId && { imdbId: row.imdbId }),
+      ...(row.tmdbId && { tmdbId: row.tmdbId }),
+    });
+
+    return imported ? { contentId: imported.id, method: 'aggregator' } : null;
+  }
+
+  /**
+   * Closest title released within a year either side. Without a year only an exact
+   * title match counts.
+   */
+  private async findByTitleAndYear(title: string, year: number | null): Promise<string | null> {
+    const normalized = normalizeTitle(title);
+    const keyword = normalized.split(' ').sort((a, b) => b.length - a.length)[0];
+
+    if (!keyword) {
+      return null;
+    }
+
+    const candidates = await this.prisma.content.findMany({
+      where: {
+        title: { contains: keyword, mode: 'insensitive' },
+        ...(year && {
+          releaseDate: {
+            gte: new Date(Date.UTC(year - 1, 0, 1)),
+            lt: new Date(Date.UTC(year + 2, 0, 1)),
+          },
+        }),
+      },
+      select: { id: true, title: true, releaseDate: true },
+      take: 25,
+    });
+
+    let best: { id: string; score: number } | null = null;
+
+    for (const candidate of candidates) {
+      const similarity = titleSimilarity(normalized, normalizeTitle(candidate.title));
+      const threshold = year ? TITLE_MATCH_THRESHOLD : 1;
+
+      if (similarity < threshold) {
+        continue;
+      }
+
+      // Prefer the exact release year when a remake or re-release is close by
+      const sameYear = year !== null && candidate.releaseDate?.getUTCFullYear() === year;
+      const score = similarity + (sameYear ? 0.1 : 0);
+
+      if (!best || score > best.score) {
+        best = { id: candidate.id, score };
+      }
+    }
+
+    return best?.id ?? null;
+  }
+
+  /**
+   * Track the title for the user. Existing tracking is kept; the import only fills in
+   * a missing rating or completion date.
+   */
+  private async addToLibrary(
+    userId: string,
+    row: HistoryImportRow,
+    contentId: string
+  ): Promise<void> {
+    const status: TrackingStatus = row.mediaType === 'tv' ? 'WATCHING' : 'COMPLETED';
+
+    const existing = await this.prisma.userContent.findUnique({
+      where: { userId_contentId: { userId, contentId } },
+      select: { id: true, status: true, rating: true, dateCompleted: true },
+    });
+
+    if (!existing) {
+      await this.prisma.userContent.create({
+        data: {
+          userId,
+          contentId,
+          status,
+          rating: row.rating,
+          ...(row.watchedAt && { dateAdded: row.watchedAt }),
+          ...(status === 'COMPLETED'
+            ? { dateCompleted: row.watchedAt }
+            : { dateStarted: row.watchedAt }),
+        },
+      });
+      return;
+    }
+
+    const fillRating = existing.rating === null && row.rating !== null;
+    const fillCompleted =
+      existing.status === 'COMPLETED' && !existing.dateCompleted && row.watchedAt !== null;
+
+    if (fillRating || fillCompleted) {
+      await this.prisma.userContent.update({
+        where: { id: existing.id },
+        data: {
+          ...(fillRating && { rating: row.rating }),
+          ...(fillCompleted && { dateCompleted: row.watchedAt }),
+        },
+      });
+    }
+  }
+
+  private async afterImport(historyImport: HistoryImport): Promise<void> {
+    // One achievement check for the whole import rather than one per title
+    if (historyImport.importedRows > 0) {
+      try {
+        await this.achievementService.evaluate(historyImport.userId, {
+          metrics: EVENT_METRICS.content_tracked,
+        });
+      } catch (error) {
+        console.error(`Failed to evaluate achievements for import ${historyImport.id}:`, error);
+      }
+
+      // Imported history can fall in any month
+      try {
+        await this.statsService.invalidate(historyImport.userId);
+      } catch (error) {
+        console.error(`Failed to refresh stats for import ${historyImport.id}:`, error);
+      }
+    }
+
+    await this.notifications.notify({
+      type: IMPORT_NOTIFICATION_TYPE,
+      userId: historyImport.userId,
+      payload: {
+        importId: historyImport.id,
+        importedRows: historyImport.importedRows,
+        totalRows: historyImport.totalRows,
+        unmatchedRows: historyImport.unmatchedRows,
+      },
+    });
+  }
+
+  private async updateCounts(importId: string): Promise<HistoryImport> {
+    const [importedRows, unmatchedRows] = await Promise.all([
+      this.prisma.historyImportRow.count({ where: { importId, status: 'IMPORTED' } }),
+      this.prisma.historyImportRow.count({ where: { importId, status: 'UNMATCHED' } }),
+    ]);
+
+    return this.prisma.historyImport.update({
+      where: { id: importId },
+      data: { importedRows, unmatchedRows },
+    });
+  }
+
+  private async findImport(userId: string, importId: string): Promise<HistoryImport> {
+    const historyImport = await this.prisma.historyImport.findUnique({
+      where: { id: importId },
+    });
+
+    if (!historyImport || historyImport.userId !== userId) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Import not found',
+      });
+    }
+
+    return historyImport;
+  }
+
+  private async findRow(userId: string, rowId: string) {
+    const row = await this.prisma.historyImportRow.findUnique({
+      where: { id: rowId },
+      include: { historyImport: { select: { userId: true } } },
+    });
+
+    if (!row || row.historyImport.userId !== userId) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Import row not found',
+      });
+    }
+
+    return row;
+  }
+
+  private rethrow(error: unknown, message: string): never {
+    if (error instanceof TRPCError) {
+      throw error;
+    }
+
+    console.error(`${message}:`, error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message,
+    });
+  }
+}
+
+function toRowData(row: ParsedHistoryRow, rowNumber: number) {
+  return {
+    rowNumber,
+    title: row.title.slice(0, 255),
+    year: row.year,
+    mediaType: row.mediaType,
+    imdbId: row.imdbId,
+    tmdbId: row.tmdbId,
+    rating: row.rating,
+    sourceRating: row.sourceRating,
+    watchedAt: row.watchedAt,
+  };
+}
+
+/**
+ * Dice coefficient over character bigrams of two normalized titles
+ */
+function titleSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+
+  const bigrams = (value: string) => {
+    const compact = value.replace(/ /g, '');
+    const counts = new Map<string, number>();
+    for (let i = 0; i < compact.length - 1; i++) {
+      const bigram = compact.slice(i, i + 2);
+      counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+    }
+    return counts;
+  };
+
+  const left = bigrams(a);
+  const right = bigrams(b);
+  let overlap = 0;
+  let total = 0;
+
+  for (const [bigram, count] of left) {
+    overlap += Math.min(count, right.get(bigram) ?? 0);
+    total += count;
+  }
+  for (const count of right.values()) {
+    total += count;
+  }
+
+  return total === 0 ? 0 : (2 * overlap) / total;
+}
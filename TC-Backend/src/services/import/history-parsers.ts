@@ -0,0 +1,320 @@
+// History Parsers - Read watch history exports from Letterboxd, Trakt and IMDb
+import { TRPCError } from '@trpc/server';
+
+export type ImportSourceName = 'letterboxd' | 'trakt' | 'imdb';
+
+export type HistoryMediaType = 'movie' | 'tv';
+
+export interface ParsedHistoryRow {
+  title: string;
+  year: number | null;
+  mediaType: HistoryMediaType | null;
+  imdbId: string | null;
+  tmdbId: number | null;
+  // Rating on our 1-5 scale
+  rating: number | null;
+  // Rating as it appeared in the export, for the import report
+  sourceRating: number | null;
+  watchedAt: Date | null;
+}
+
+/**
+ * Parse an export into history rows. Rows for the same title are merged, keeping the
+ * latest watch date and any rating.
+ */
+export function parseHistoryExport(source: ImportSourceName, data: string): ParsedHistoryRow[] {
+  const rows =
+    source === 'letterboxd'
+      ? parseLetterboxd(data)
+      : source === 'trakt'
+        ? parseTrakt(data)
+        : parseImdb(data);
+
+  if (rows.length === 0) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'No watch history found in this file. Check that you chose the right service.',
+    });
+  }
+
+  return mergeRows(rows);
+}
+
+/**
+ * Letterboxd diary.csv, ratings.csv and watched.csv. Ratings are 0.5-5 stars.
+ */
+function parseLetterboxd(data: string): ParsedHistoryRow[] {
+  const records = parseCsv(data);
+  requireColumns(records, ['Name', 'Year'], 'Letterboxd');
+
+  return records
+    .filter(record => record.Name)
+    .map(record => {
+      const sourceRating = parseNumber(record.Rating);
+
+      return {
+        title: record.Name!,
+        year: parseNumber(record.Year),
+        mediaType: 'movie' as const,
+        imdbId: null,
+        tmdbId: null,
+        rating: sourceRating === null ? null : toFiveStar(sourceRating, 5),
+        sourceRating,
+        watchedAt: parseDate(record['Watched Date']) ?? parseDate(record.Date),
+      };
+    });
+}
+
+/**
+ * IMDb ratings.csv. Ratings are 1-10.
+ */
+function parseImdb(data: string): ParsedHistoryRow[] {
+  const records = parseCsv(data);
+  requireColumns(records, ['Const', 'Title'], 'IMDb');
+
+  return records
+    .filter(record => record.Title)
+    .map(record => {
+      const sourceRating = parseNumber(record['Your Rating']);
+      const titleType = (record['Title Type'] ?? '').toLowerCase();
+
+      return {
+        title: record.Title!,
+        year: parseNumber(record.Year),
+        mediaType: titleType
+          ? titleType.startsWith('tv')
+            ? ('tv' as const)
+            : ('movie' as const)
+          : null,
+        imdbId: parseImdbId(record.Const),
+        tmdbId: null,
+        rating: sourceRating === null ? null : toFiveStar(sourceRating, 10),
+        sourceRating,
+        watchedAt: parseDate(record['Date Rated']),
+      };
+    });
+}
+
+interface TraktMedia {
+  title?: string;
+  year?: number | null;
+  ids?: { imdb?: string | null; tmdb?: number | null };
+}
+
+interface TraktEntry {
+  type?: string;
+  movie?: TraktMedia;
+  show?: TraktMedia;
+  rating?: number;
+  watched_at?: string;
+  last_watched_at?: string;
+  rated_at?: string;
+  collected_at?: string;
+}
+
+/**
+ * Trakt JSON exports: history, watched-movies, watched-shows, ratings-movies,
+ * ratings-shows. Episode entries count towards their show. Ratings are 1-10.
+ */
+function parseTrakt(data: string): ParsedHistoryRow[] {
+  let entries: unknown;
+
+  try {
+    entries = JSON.parse(data);
+  } catch {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'This Trakt export is not valid JSON',
+    });
+  }
+
+  if (!Array.isArray(entries)) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'Expected a Trakt export containing a list of items',
+    });
+  }
+
+  return (entries as TraktEntry[]).flatMap(entry => {
+    const media = entry.movie ?? entry.show;
+
+    // Season ratings and other entry kinds we don't track
+    if (!media?.title || (entry.type && !['movie', 'show', 'episode'].includes(entry.type))) {
+      return [];
+    }
+
+    const sourceRating = typeof entry.rating === 'number' ? entry.rating : null;
+    const isShow = !entry.movie;
+
+    return [
+      {
+        title: media.title,
+        year: media.year ?? null,
+        mediaType: isShow ? ('tv' as const) : ('movie' as const),
+        imdbId: parseImdbId(media.ids?.imdb),
+        tmdbId: media.ids?.tmdb ?? null,
+        // Episode ratings are not a rating of the show
+        rating:
+          sourceRating === null || entry.type === 'episode' ? null : toFiveStar(sourceRating, 10),
+        sourceRating: entry.type === 'episode' ? null : sourceRating,
+        watchedAt: parseDate(entry.watched_at ?? entry.last_watched_at ?? entry.rated_at),
+      },
+    ];
+  });
+}
+
+/**
+ * Convert a rating on a 0-max scale to 1-5, rounding half stars up
+ */
+export function toFiveStar(rating: number, max: number): number {
+  return Math.min(5, Math.max(1, Math.round((rating / max) * 5)));
+}
+
+/**
+ * Minimal RFC 4180 reader: quoted fields, escaped quotes, CRLF and a header row
+ */
+export function parseCsv(data: string): Array<Record<string, string>> {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const text = data.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map(column => column.trim());
+
+  return body.map(cells =>
+    Object.fromEntries(columns.map((column, index) => [column, (cells[index] ?? '').trim()]))
+  );
+}
+
+function requireColumns(
+  records: Array<Record<string, string>>,
+  columns: string[],
+  service: string
+): void {
+  const first = records[0];
+
+  if (first && columns.some(column => !(column in first))) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `This doesn't look like an export from ${service} (missing ${columns.join(', ')} columns)`,
+    });
+  }
+}
+
+function mergeRows(rows: ParsedHistoryRow[]): ParsedHistoryRow[] {
+  const merged = new Map<string, ParsedHistoryRow>();
+
+  for (const row of rows) {
+    const key =
+      row.imdbId ?? `${row.mediaType}:${row.tmdbId ?? normalizeTitle(row.title)}:${row.year}`;
+    const existing = merged.get(key);
+
+    if (!existing) {
+      merged.set(key, { ...row });
+      continue;
+    }
+
+    if (row.watchedAt && (!existing.watchedAt || row.watchedAt > existing.watchedAt)) {
+      existing.watchedAt = row.watchedAt;
+      // The most recent rating wins
+      if (row.rating !== null) {
+        existing.rating = row.rating;
+        existing.sourceRating = row.sourceRating;
+      }
+    } else if (existing.rating === null && row.rating !== null) {
+      existing.rating = row.rating;
+      existing.sourceRating = row.sourceRating;
+    }
+
+    existing.imdbId ??= row.imdbId;
+    existing.tmdbId ??= row.tmdbId;
+  }
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Lowercase title without punctuation, accents or a leading article
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(/^(the|a|an) /, '')
+    .trim();
+}
+
+/**
+ * Media type of a stored import row, whose column is plain text
+ */
+export function parseMediaType(value: string | null): HistoryMediaType | null {
+  return value === 'movie' || value === 'tv' ? value : null;
+}
+
+function parseNumber(value: string | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function parseDate(value: string | undefined): Date | null {
+  if (!value) {
+    return null;
+  }
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function parseImdbId(value: string | null | undefined): string | null {
+  return value && /^tt\d+$/.test(value) ? value : null;
+}
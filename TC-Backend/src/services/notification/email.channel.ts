@@ -0,0 +1,76 @@
+// Email Channel - Sends notification emails over SMTP to the address on the user's account
+import { createClient } from '@supabase/supabase-js';
+import { SmtpConfig, SmtpError, sendMail } from '../../utils/smtp';
+import { ChannelMessage, ChannelResult, NotificationChannelAdapter } from './notification-channels';
+
+// Finds the email address of a user; addresses live in Supabase auth, not in our tables
+export type EmailLookup = (userId: string) => Promise<string | null>;
+
+export interface EmailSender {
+  email: string;
+  name?: string | undefined;
+}
+
+export class EmailChannel implements NotificationChannelAdapter<'EMAIL'> {
+  constructor(
+    // null when SMTP is not configured, so email is skipped rather than failed
+    private smtp: SmtpConfig | null,
+    private lookupEmail: EmailLookup,
+    private sender: EmailSender
+  ) {}
+
+  async send({ userId, content }: ChannelMessage<'EMAIL'>): Promise<ChannelResult> {
+    if (!this.smtp) {
+      return { status: 'skipped', reason: 'channel_unavailable' };
+    }
+
+    const to = await this.lookupEmail(userId);
+
+    if (!to) {
+      return { status: 'skipped', reason: 'no_email_address' };
+    }
+
+    try {
+      await sendMail(this.smtp, {
+        from: this.sender.email,
+        fromName: this.sender.name,
+        to,
+        subject: content.subject,
+        text: content.text,
+        html: content.html,
+      });
+
+      return { status: 'sent' };
+    } catch (error) {
+      return {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        retryable: !(error instanceof SmtpError && error.permanent),
+      };
+    }
+  }
+}
+
+/**
+ * Looks addresses up with the Supabase admin API. Without a service role key no address can
+ * be found, so email is skipped.
+ */
+export function supabaseEmailLookup(env: NodeJS.ProcessEnv = process.env): EmailLookup {
+  if (!env.SUPABASE_URL || !env.SUPABASE_SERVICE_ROLE_KEY) {
+    return async () => null;
+  }
+
+  const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  return async userId => {
+    const { data, error } = await supabase.auth.admin.getUserById(userId);
+
+    if (error) {
+      throw error;
+    }
+
+    return data.user?.email ?? null;
+  };
+}
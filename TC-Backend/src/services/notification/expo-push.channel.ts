@@ -0,0 +1,114 @@
+// Expo Push Channel - Sends push notifications to the devices a user registered through Expo
+import axios from 'axios';
+import { PrismaClient } from '@prisma/client';
+import { ChannelMessage, ChannelResult, NotificationChannelAdapter } from './notification-channels';
+
+export interface ExpoPushConfig {
+  // Point at a local stand-in during development
+  url?: string | undefined;
+  // Only needed when enhanced push security is turned on for the Expo project
+  accessToken?: string | undefined;
+  timeoutMs?: number | undefined;
+}
+
+interface ExpoPushTicket {
+  status: 'ok' | 'error';
+  id?: string;
+  message?: string;
+  details?: { error?: string };
+}
+
+export const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+
+export const EXPO_PUSH_TOKEN_PATTERN = /^Expo(nent)?PushToken\[[^\]]+\]$/;
+
+// Expo accepts up to 100 messages per request
+const MAX_MESSAGES_PER_REQUEST = 100;
+
+export class ExpoPushChannel implements NotificationChannelAdapter<'PUSH'> {
+  constructor(
+    private prisma: PrismaClient,
+    private config: ExpoPushConfig = {}
+  ) {}
+
+  /**
+   * Push to every active device of the user. Devices Expo reports as no longer registered are
+   * disabled so they are not tried again.
+   */
+  async send({ userId, content }: ChannelMessage<'PUSH'>): Promise<ChannelResult> {
+    const devices = await this.prisma.pushToken.findMany({
+      where: { userId, disabledAt: null },
+      select: { token: true },
+      orderBy: { updatedAt: 'desc' },
+      take: MAX_MESSAGES_PER_REQUEST,
+    });
+
+    if (devices.length === 0) {
+      return { status: 'skipped', reason: 'no_device' };
+    }
+
+    let tickets: ExpoPushTicket[];
+
+    try {
+      const response = await axios.post<{ data: ExpoPushTicket[] }>(
+        this.config.url ?? EXPO_PUSH_URL,
+        devices.map(({ token }) => ({
+          to: token,
+          title: content.title,
+          body: content.body,
+          data: content.data,
+          sound: 'default',
+        })),
+        {
+          headers: {
+            Accept: 'application/json',
+            'Content-Type': 'application/json',
+            ...(this.config.accessToken && { Authorization: `Bearer ${this.config.accessToken}` }),
+          },
+          timeout: this.config.timeoutMs ?? 10000,
+        }
+      );
+      tickets = response.data.data;
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+
+      return {
+        status: 'failed',
+        error: `Expo push request failed${status ? ` with ${status}` : ''}: ${errorMessage(error)}`,
+        // Rate limits, server errors and network failures are worth another try
+        retryable: status === undefined || status === 429 || status >= 500,
+      };
+    }
+
+    const unregistered = devices.filter(
+      (_, index) => tickets[index]?.details?.error === 'DeviceNotRegistered'
+    );
+
+    if (unregistered.length > 0) {
+      await this.prisma.pushToken.updateMany({
+        where: { token: { in: unregistered.map(device => device.token) } },
+        data: { disabledAt: new Date() },
+      });
+    }
+
+    if (tickets.some(ticket => ticket.status === 'ok')) {
+      return { status: 'sent' };
+    }
+
+    if (unregistered.length === devices.length) {
+      return { status: 'skipped', reason: 'no_device' };
+    }
+
+    const rejected = tickets.find(ticket => ticket.status === 'error');
+
+    return {
+      status: 'failed',
+      error: rejected?.message ?? 'Expo did not accept the push notification',
+      retryable: rejected?.details?.error === 'MessageRateExceeded',
+    };
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,52 @@
+// Notification Channels - Adapter contract for delivery channels, and the in-app channel
+import { NotificationChannel, PrismaClient } from '@prisma/client';
+import { RenderedNotification } from './notification-events';
+import { SkipReason } from './notification-preferences';
+
+// What each channel is handed: its own rendering of the notification
+export interface ChannelContent {
+  IN_APP: RenderedNotification['inApp'];
+  PUSH: RenderedNotification['push'];
+  EMAIL: RenderedNotification['email'];
+}
+
+export interface ChannelMessage<C extends NotificationChannel> {
+  userId: string;
+  eventType: string;
+  content: ChannelContent[C];
+}
+
+export type ChannelResult =
+  | { status: 'sent'; notificationId?: string | undefined }
+  | { status: 'skipped'; reason: SkipReason }
+  // retryable is false when sending again would fail the same way
+  | { status: 'failed'; error: string; retryable: boolean };
+
+export interface NotificationChannelAdapter<C extends NotificationChannel> {
+  send(message: ChannelMessage<C>): Promise<ChannelResult>;
+}
+
+export type NotificationChannels = {
+  [C in NotificationChannel]: NotificationChannelAdapter<C>;
+};
+
+/**
+ * Writes the notification to the user's inbox
+ */
+export class InAppChannel implements NotificationChannelAdapter<'IN_APP'> {
+  constructor(private prisma: PrismaClient) {}
+
+  async send({ userId, eventType, content }: ChannelMessage<'IN_APP'>): Promise<ChannelResult> {
+    const notification = await this.prisma.notification.create({
+      data: {
+        userId,
+        type: eventType,
+        title: content.title,
+        message: content.message,
+        data: content.data,
+      },
+    });
+
+    return { status: 'sent', notificationId: notification.id };
+  }
+}
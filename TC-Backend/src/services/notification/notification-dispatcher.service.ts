@@ -0,0 +1,304 @@
+// Notification Dispatcher - Checks preferences and quiet hours, renders templates and delivers notifications over each channel
+import {
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationDeliveryStatus,
+  Prisma,
+  PrismaClient,
+} from '@prisma/client';
+import { smtpConfigFromEnv } from '../../utils/smtp';
+import { EmailChannel, supabaseEmailLookup } from './email.channel';
+import { ExpoPushChannel } from './expo-push.channel';
+import {
+  ChannelContent,
+  ChannelResult,
+  InAppChannel,
+  NotificationChannelAdapter,
+  NotificationChannels,
+} from './notification-channels';
+import {
+  NotificationEvent,
+  RenderedNotification,
+  getNotificationDefinition,
+  isNotificationType,
+  renderNotification,
+} from './notification-events';
+import {
+  NotificationPreferences,
+  SkipReason,
+  channelSkipReason,
+  parseNotificationSettings,
+  quietHoursEnd,
+} from './notification-preferences';
+
+export interface DeliverySummary {
+  channel: NotificationChannel;
+  status: NotificationDeliveryStatus;
+  skipReason: string | null;
+  nextAttemptAt: Date | null;
+}
+
+export interface DispatchResult {
+  // The in-app notification, when one was written
+  notificationId: string | null;
+  deliveries: DeliverySummary[];
+}
+
+export type DeliveryRunResult = Record<'sent' | 'skipped' | 'failed' | 'retrying' | 'held', number>;
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+// Retries wait 1, 4, 16 and then 64 minutes
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_FACTOR = 4;
+
+const RESULT_STATUS: Record<ChannelResult['status'], NotificationDeliveryStatus> = {
+  sent: 'SENT',
+  skipped: 'SKIPPED',
+  failed: 'FAILED',
+};
+
+// How a delivery that was just attempted is counted in a run
+const RUN_OUTCOME: Record<NotificationDeliveryStatus, keyof DeliveryRunResult> = {
+  SENT: 'sent',
+  SKIPPED: 'skipped',
+  FAILED: 'failed',
+  PENDING: 'retrying',
+};
+
+const CHANNEL_CONTENT: Record<NotificationChannel, keyof RenderedNotification> = {
+  IN_APP: 'inApp',
+  PUSH: 'push',
+  EMAIL: 'email',
+};
+
+/**
+ * Channels configured from the environment: Expo push (EXPO_PUSH_URL, EXPO_ACCESS_TOKEN),
+ * SMTP email (SMTP_*, FROM_EMAIL, FROM_NAME) and the in-app inbox
+ */
+export function createNotificationChannels(
+  prisma: PrismaClient,
+  env: NodeJS.ProcessEnv = process.env
+): NotificationChannels {
+  return {
+    IN_APP: new InAppChannel(prisma),
+    PUSH: new ExpoPushChannel(prisma, {
+      url: env.EXPO_PUSH_URL,
+      accessToken: env.EXPO_ACCESS_TOKEN,
+    }),
+    EMAIL: new EmailChannel(smtpConfigFromEnv(env), supabaseEmailLookup(env), {
+      email: env.FROM_EMAIL ?? 'noreply@tcwatch.com',
+      name: env.FROM_NAME ?? 'TCWatch',
+    }),
+  };
+}
+
+export class NotificationDispatcher {
+  private channels: NotificationChannels;
+
+  constructor(
+    private prisma: PrismaClient,
+    channels?: NotificationChannels | undefined
+  ) {
+    this.channels = channels ?? createNotificationChannels(prisma);
+  }
+
+  /**
+   * Notify a user on every channel the event uses and their settings allow. The in-app
+   * notification is written straight away; push and email are only queued, and deliverDue sends
+   * them once any quiet hours end. Failures are logged, not thrown, so a notification never
+   * fails the action that triggered it.
+   */
+  async dispatch(event: NotificationEvent, now: Date = new Date()): Promise<DispatchResult> {
+    try {
+      const definition = getNotificationDefinition(event.type);
+      const rendered = renderNotification(event);
+      const preferences = await this.loadPreferences(event.userId);
+      const heldUntil = quietHoursEnd(preferences.quietHours, now);
+
+      const queue = (channel: NotificationChannel, notificationId: string | null) => {
+        const skipReason = channelSkipReason(preferences, definition.preference, channel);
+        const holdUntil = channel === 'IN_APP' ? null : heldUntil;
+
+        return this.queue(event, channel, rendered, { skipReason, holdUntil, notificationId }, now);
+      };
+
+      // In-app goes first so the push and email deliveries can point at the notification
+      const inApp = definition.channels.includes('IN_APP') ? await queue('IN_APP', null) : null;
+      const notificationId = inApp?.notificationId ?? null;
+      const others = await Promise.all(
+        definition.channels
+          .filter(channel => channel !== 'IN_APP')
+          .map(channel => queue(channel, notificationId))
+      );
+
+      return {
+        notificationId,
+        deliveries: [...(inApp ? [inApp] : []), ...others].map(toSummary),
+      };
+    } catch (error) {
+      console.error(`Failed to dispatch ${event.type} notification to ${event.userId}:`, error);
+      return { notificationId: null, deliveries: [] };
+    }
+  }
+
+  /**
+   * Send push and email deliveries that are newly queued, were held for quiet hours or are due
+   * a retry. Settings are checked again, so turning a channel off also stops what is already
+   * queued. Run on a schedule, one run at a time.
+   */
+  async deliverDue(now: Date = new Date(), limit: number = 100): Promise<DeliveryRunResult> {
+    const result: DeliveryRunResult = { sent: 0, skipped: 0, failed: 0, retrying: 0, held: 0 };
+    const due = await this.prisma.notificationDelivery.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+    });
+    const preferencesByUser = new Map<string, NotificationPreferences>();
+
+    for (const delivery of due) {
+      let preferences = preferencesByUser.get(delivery.userId);
+
+      if (!preferences) {
+        preferences = await this.loadPreferences(delivery.userId);
+        preferencesByUser.set(delivery.userId, preferences);
+      }
+
+      const preference = isNotificationType(delivery.eventType)
+        ? getNotificationDefinition(delivery.eventType).preference
+        : null;
+      const skipReason = channelSkipReason(preferences, preference, delivery.channel);
+
+      if (skipReason) {
+        await this.prisma.notificationDelivery.update({
+          where: { id: delivery.id },
+          data: { status: 'SKIPPED', skipReason, nextAttemptAt: null },
+        });
+        result.skipped++;
+        continue;
+      }
+
+      const heldUntil =
+        delivery.channel === 'IN_APP' ? null : quietHoursEnd(preferences.quietHours, now);
+
+      if (heldUntil) {
+        await this.prisma.notificationDelivery.update({
+          where: { id: delivery.id },
+          data: { nextAttemptAt: heldUntil },
+        });
+        result.held++;
+        continue;
+      }
+
+      const attempted = await this.attempt(delivery, now);
+      result[RUN_OUTCOME[attempted.status]]++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Record a delivery for the channel. Only in-app is written now; push and email wait for
+   * deliverDue so a slow provider never holds up the action that sent them.
+   */
+  private async queue(
+    event: NotificationEvent,
+    channel: NotificationChannel,
+    rendered: RenderedNotification,
+    plan: { skipReason: SkipReason | null; holdUntil: Date | null; notificationId: string | null },
+    now: Date
+  ): Promise<NotificationDelivery> {
+    const delivery = await this.prisma.notificationDelivery.create({
+      data: {
+        userId: event.userId,
+        eventType: event.type,
+        channel,
+        payload: rendered[CHANNEL_CONTENT[channel]] as Prisma.InputJsonObject,
+        ...(plan.notificationId && { notificationId: plan.notificationId }),
+        ...(plan.skipReason
+          ? { status: 'SKIPPED' as const, skipReason: plan.skipReason }
+          : { nextAttemptAt: plan.holdUntil ?? now }),
+      },
+    });
+
+    if (plan.skipReason !== null || channel !== 'IN_APP') {
+      return delivery;
+    }
+
+    return this.attempt(delivery, now);
+  }
+
+  /**
+   * Send a delivery once and record the attempt. A retryable failure stays pending with a
+   * backed-off next attempt until MAX_DELIVERY_ATTEMPTS is reached.
+   */
+  private async attempt(delivery: NotificationDelivery, now: Date): Promise<NotificationDelivery> {
+    const attempt = delivery.attempts + 1;
+    const result = await this.send(delivery);
+    const retry = result.status === 'failed' && result.retryable && attempt < MAX_DELIVERY_ATTEMPTS;
+
+    return this.prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        attempts: attempt,
+        status: retry ? 'PENDING' : RESULT_STATUS[result.status],
+        nextAttemptAt: retry ? new Date(now.getTime() + retryDelay(attempt)) : null,
+        ...(result.status === 'sent' && {
+          deliveredAt: now,
+          ...(result.notificationId && { notificationId: result.notificationId }),
+        }),
+        ...(result.status === 'skipped' && { skipReason: result.reason }),
+        ...(result.status === 'failed' && { lastError: result.error }),
+        attemptLog: {
+          create: {
+            attempt,
+            status: RESULT_STATUS[result.status],
+            ...(result.status === 'failed' && { error: result.error }),
+          },
+        },
+      },
+    });
+  }
+
+  private async send(delivery: NotificationDelivery): Promise<ChannelResult> {
+    const channel = this.channels[
+      delivery.channel
+    ] as NotificationChannelAdapter<NotificationChannel>;
+
+    try {
+      return await channel.send({
+        userId: delivery.userId,
+        eventType: delivery.eventType,
+        content: delivery.payload as unknown as ChannelContent[NotificationChannel],
+      });
+    } catch (error) {
+      return {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        retryable: true,
+      };
+    }
+  }
+
+  private async loadPreferences(userId: string): Promise<NotificationPreferences> {
+    const profile = await this.prisma.userProfile.findUnique({
+      where: { userId },
+      select: { notificationSettings: true },
+    });
+
+    return parseNotificationSettings(profile?.notificationSettings);
+  }
+}
+
+function retryDelay(attempt: number): number {
+  return RETRY_BASE_MS * RETRY_FACTOR ** (attempt - 1);
+}
+
+function toSummary(delivery: NotificationDelivery): DeliverySummary {
+  return {
+    channel: delivery.channel,
+    status: delivery.status,
+    skipReason: delivery.skipReason,
+    nextAttemptAt: delivery.nextAttemptAt,
+  };
+}
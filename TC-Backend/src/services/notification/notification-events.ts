@@ -0,0 +1,317 @@
+// Notification Events - Typed notification events, the preference that gates them and their per-channel templates
+import { NotificationChannel } from '@prisma/client';
+
+// notificationSettings toggles that turn a group of notifications off
+export type NotificationPreference =
+  'new_content_alerts' | 'friend_activity' | 'weekly_digest' | 'cable_reminders';
+
+export type NotificationData = Record<string, string | number | boolean>;
+
+// Payload each notification type is dispatched with
+export interface NotificationPayloads {
+  friend_request: { friendshipId: string; fromUserId: string; fromName: string };
+  friend_request_accepted: { friendshipId: string; fromUserId: string; fromName: string };
+  friend_request_declined: { fromUserId: string };
+  friend_request_cancelled: { fromUserId: string; fromName: string };
+  friend_removed: { fromUserId: string; fromName: string };
+  user_blocked: { blockedUserId: string; blockedName: string };
+  list_editor_invite: { listId: string; listTitle: string; fromUserId: string; fromName: string };
+  list_editor_invite_accepted: {
+    listId: string;
+    listTitle: string;
+    fromUserId: string;
+    fromName: string;
+  };
+  achievement_earned: { achievementId: string; key: string; name: string; description: string };
+  challenge_starting: { challengeId: string; challengeTitle: string };
+  case_new_content: { caseId: string; caseName: string; contentId: string; contentTitle: string };
+  person_new_content: {
+    personWikidataId: string;
+    personName: string;
+    contentId: string;
+    contentTitle: string;
+  };
+  series_new_episodes: { contentId: string; seriesTitle: string };
+  // Several new-content alerts batched into one notification
+  followed_content_digest: { contentTitles: string[] };
+  history_import_completed: {
+    importId: string;
+    importedRows: number;
+    totalRows: number;
+    unmatchedRows: number;
+  };
+  data_export_ready: { exportId: string };
+  system: { title: string; message: string; data?: NotificationData | undefined };
+}
+
+export type NotificationType = keyof NotificationPayloads;
+
+export type NotificationEvent = {
+  [T in NotificationType]: { type: T; userId: string; payload: NotificationPayloads[T] };
+}[NotificationType];
+
+// Wording shared by every channel; a template only writes what differs from it
+interface NotificationCopy {
+  title: string;
+  body: string;
+  // Stored on the in-app notification and sent with the push so the app can open the right screen
+  data: NotificationData;
+  // Screen the app opens when the notification is tapped, added to data as deepLink
+  link?: string;
+  emailSubject?: string;
+}
+
+interface NotificationDefinition<T extends NotificationType> {
+  // Toggle that turns the notification off; null for account notices that always go out
+  preference: NotificationPreference | null;
+  // Channels it goes out on when the user's settings allow them
+  channels: NotificationChannel[];
+  render: (payload: NotificationPayloads[T]) => NotificationCopy;
+}
+
+export interface RenderedNotification {
+  inApp: { title: string; message: string; data: NotificationData };
+  push: { title: string; body: string; data: NotificationData };
+  email: { subject: string; text: string; html: string };
+}
+
+// iOS cuts a lock screen notification off after a couple of lines
+const MAX_PUSH_BODY_LENGTH = 178;
+
+// Deep links use the app scheme from TC-Frontend/app.json and must open a route in TC-Frontend/app
+const APP_LINK_PREFIX = 'tcwatch://';
+
+export function appLink(...segments: string[]): string {
+  return APP_LINK_PREFIX + segments.map(encodeURIComponent).join('/');
+}
+
+const IN_APP_ONLY: NotificationChannel[] = ['IN_APP'];
+const IN_APP_AND_PUSH: NotificationChannel[] = ['IN_APP', 'PUSH'];
+const ALL_CHANNELS: NotificationChannel[] = ['IN_APP', 'PUSH', 'EMAIL'];
+
+export const NOTIFICATION_DEFINITIONS: {
+  [T in NotificationType]: NotificationDefinition<T>;
+} = {
+  friend_request: {
+    preference: 'friend_activity',
+    channels: ALL_CHANNELS,
+    render: ({ friendshipId, fromUserId, fromName }) => ({
+      title: 'New friend request',
+      body: `${fromName} sent you a friend request`,
+      data: { friendshipId, fromUserId },
+      link: appLink('profile'),
+      emailSubject: `${fromName} wants to be friends on TCWatch`,
+    }),
+  },
+  friend_request_accepted: {
+    preference: 'friend_activity',
+    channels: IN_APP_AND_PUSH,
+    render: ({ friendshipId, fromUserId, fromName }) => ({
+      title: 'Friend request accepted',
+      body: `${fromName} accepted your friend request`,
+      data: { friendshipId, fromUserId },
+    }),
+  },
+  friend_request_declined: {
+    preference: 'friend_activity',
+    channels: IN_APP_ONLY,
+    render: ({ fromUserId }) => ({
+      title: 'Friend request declined',
+      body: 'Your friend request was declined',
+      data: { fromUserId },
+    }),
+  },
+  friend_request_cancelled: {
+    preference: 'friend_activity',
+    channels: IN_APP_ONLY,
+    render: ({ fromUserId, fromName }) => ({
+      title: 'Friend request withdrawn',
+      body: `${fromName} withdrew their friend request`,
+      data: { fromUserId },
+    }),
+  },
+  friend_removed: {
+    preference: 'friend_activity',
+    channels: IN_APP_ONLY,
+    render: ({ fromUserId, fromName }) => ({
+      title: 'Friend removed',
+      body: `${fromName} removed you as a friend`,
+      data: { fromUserId },
+    }),
+  },
+  user_blocked: {
+    preference: null,
+    channels: IN_APP_ONLY,
+    render: ({ blockedUserId, blockedName }) => ({
+      title: 'User blocked',
+      body: `You blocked ${blockedName}`,
+      data: { blockedUserId },
+    }),
+  },
+  list_editor_invite: {
+    preference: 'friend_activity',
+    channels: ALL_CHANNELS,
+    render: ({ listId, listTitle, fromUserId, fromName }) => ({
+      title: 'List invite',
+      body: `${fromName} invited you to edit "${listTitle}"`,
+      data: { listId, fromUserId },
+      link: appLink('my-list'),
+    }),
+  },
+  list_editor_invite_accepted: {
+    preference: 'friend_activity',
+    channels: IN_APP_AND_PUSH,
+    render: ({ listId, listTitle, fromUserId, fromName }) => ({
+      title: 'List invite accepted',
+      body: `${fromName} can now edit "${listTitle}"`,
+      data: { listId, fromUserId },
+    }),
+  },
+  achievement_earned: {
+    preference: null,
+    channels: IN_APP_AND_PUSH,
+    render: ({ achievementId, key, name, description }) => ({
+      title: 'Achievement unlocked',
+      body: `You earned "${name}": ${description}`,
+      data: { achievementId, key },
+      link: appLink('profile'),
+    }),
+  },
+  challenge_starting: {
+    preference: null,
+    channels: IN_APP_AND_PUSH,
+    render: ({ challengeId, challengeTitle }) => ({
+      title: 'Challenge starting',
+      body: `"${challengeTitle}" has started. Good luck!`,
+      data: { challengeId },
+      link: appLink('profile'),
+    }),
+  },
+  case_new_content: {
+    preference: 'new_content_alerts',
+    channels: IN_APP_AND_PUSH,
+    render: ({ caseId, caseName, contentId, contentTitle }) => ({
+      title: `New for ${caseName}`,
+      body: `"${contentTitle}" covers ${caseName}, a case you follow`,
+      data: { caseId, contentId },
+      link: appLink('content', contentId),
+    }),
+  },
+  person_new_content: {
+    preference: 'new_content_alerts',
+    channels: IN_APP_AND_PUSH,
+    render: ({ personWikidataId, personName, contentId, contentTitle }) => ({
+      title: `New with ${personName}`,
+      body: `"${contentTitle}" features ${personName}, who you follow`,
+      data: { personWikidataId, contentId },
+      link: appLink('content', contentId),
+    }),
+  },
+  series_new_episodes: {
+    preference: 'new_content_alerts',
+    channels: IN_APP_AND_PUSH,
+    render: ({ contentId, seriesTitle }) => ({
+      title: 'New episodes',
+      body: `New episodes of "${seriesTitle}" are out`,
+      data: { contentId },
+      link: appLink('content', contentId),
+    }),
+  },
+  followed_content_digest: {
+    preference: 'new_content_alerts',
+    channels: IN_APP_AND_PUSH,
+    render: ({ contentTitles }) => {
+      const named = contentTitles.slice(0, 2).map(title => `"${title}"`);
+      const others = contentTitles.length - named.length;
+
+      return {
+        title: `${contentTitles.length} new titles for you`,
+        body:
+          `${named.join(', ')}${others > 0 ? ` and ${others} more` : ''} ` +
+          'are about cases, people and series you follow',
+        data: { count: contentTitles.length },
+        link: appLink('following'),
+      };
+    },
+  },
+  history_import_completed: {
+    preference: null,
+    channels: ALL_CHANNELS,
+    render: ({ importId, importedRows, totalRows, unmatchedRows }) => ({
+      title: 'Import finished',
+      body: `Imported ${importedRows} of ${totalRows} titles.${
+        unmatchedRows > 0 ? ` ${unmatchedRows} need a manual match.` : ''
+      }`,
+      data: { importId },
+      emailSubject: 'Your watch history import has finished',
+    }),
+  },
+  data_export_ready: {
+    preference: null,
+    channels: ALL_CHANNELS,
+    render: ({ exportId }) => ({
+      title: 'Your data export is ready',
+      body: 'Download it from your account settings within the next 7 days.',
+      data: { exportId },
+    }),
+  },
+  system: {
+    preference: null,
+    channels: ALL_CHANNELS,
+    render: ({ title, message, data = {} }) => ({ title, body: message, data }),
+  },
+};
+
+export function isNotificationType(type: string): type is NotificationType {
+  return Object.prototype.hasOwnProperty.call(NOTIFICATION_DEFINITIONS, type);
+}
+
+export function getNotificationDefinition(type: NotificationType) {
+  return NOTIFICATION_DEFINITIONS[type] as NotificationDefinition<NotificationType>;
+}
+
+/**
+ * Render an event into the in-app, push and email versions of its message
+ */
+export function renderNotification(event: NotificationEvent): RenderedNotification {
+  const copy = getNotificationDefinition(event.type).render(event.payload);
+  const data = { ...copy.data, ...(copy.link && { deepLink: copy.link }) };
+  const text = [
+    copy.body,
+    'Open TCWatch to see more.',
+    'You can choose which emails you get under Settings > Notifications in the app.',
+  ].join('\n\n');
+
+  return {
+    inApp: { title: copy.title, message: copy.body, data },
+    push: {
+      title: copy.title,
+      body: truncate(copy.body, MAX_PUSH_BODY_LENGTH),
+      data: { type: event.type, ...data },
+    },
+    email: {
+      subject: copy.emailSubject ?? copy.title,
+      text,
+      html: [
+        `<h2>${escapeHtml(copy.title)}</h2>`,
+        `<p>${escapeHtml(copy.body)}</p>`,
+        '<p>Open TCWatch to see more.</p>',
+        '<p style="color:#777;font-size:12px">You can choose which emails you get under ' +
+          'Settings &gt; Notifications in the app.</p>',
+      ].join('\n'),
+    },
+  };
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,161 @@
+// Notification Preferences - Reads notificationSettings and decides which channels a notification may use
+import { NotificationChannel } from '@prisma/client';
+import { NotificationPreference } from './notification-events';
+
+export interface QuietHours {
+  enabled: boolean;
+  // "HH:mm" in the user's timezone; an end before the start spans midnight
+  start: string;
+  end: string;
+  timezone: string;
+}
+
+export interface NotificationPreferences {
+  pushEnabled: boolean;
+  emailEnabled: boolean;
+  categories: Record<NotificationPreference, boolean>;
+  quietHours: QuietHours | null;
+}
+
+// Why a delivery was not sent, stored on the delivery row
+export type SkipReason =
+  | 'category_disabled'
+  | 'push_disabled'
+  | 'email_disabled'
+  | 'no_device'
+  | 'no_email_address'
+  | 'channel_unavailable';
+
+const NOTIFICATION_PREFERENCES: NotificationPreference[] = [
+  'new_content_alerts',
+  'friend_activity',
+  'weekly_digest',
+  'cable_reminders',
+];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Preferences from the stored notificationSettings JSON. Anything missing falls back to the
+ * column default, which has every toggle on.
+ */
+export function parseNotificationSettings(settings: unknown): NotificationPreferences {
+  const stored = isRecord(settings) ? settings : {};
+  const enabled = (key: string) => stored[key] !== false;
+
+  return {
+    pushEnabled: enabled('push_enabled'),
+    emailEnabled: enabled('email_enabled'),
+    categories: Object.fromEntries(
+      NOTIFICATION_PREFERENCES.map(preference => [preference, enabled(preference)])
+    ) as Record<NotificationPreference, boolean>,
+    quietHours: parseQuietHours(stored.quiet_hours),
+  };
+}
+
+/**
+ * Why the user's settings rule out sending on this channel, or null when they allow it
+ */
+export function channelSkipReason(
+  preferences: NotificationPreferences,
+  preference: NotificationPreference | null,
+  channel: NotificationChannel
+): SkipReason | null {
+  if (preference && !preferences.categories[preference]) {
+    return 'category_disabled';
+  }
+
+  if (channel === 'PUSH' && !preferences.pushEnabled) {
+    return 'push_disabled';
+  }
+
+  if (channel === 'EMAIL' && !preferences.emailEnabled) {
+    return 'email_disabled';
+  }
+
+  return null;
+}
+
+/**
+ * When the quiet hours the given time falls in end, or null outside quiet hours. Push and email
+ * are held until then; in-app notifications are never held.
+ */
+export function quietHoursEnd(quietHours: QuietHours | null, now: Date): Date | null {
+  if (!quietHours?.enabled) {
+    return null;
+  }
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+
+  if (start === end) {
+    return null;
+  }
+
+  const current = localMinutes(now, quietHours.timezone);
+  const quiet = start < end ? current >= start && current < end : current >= start || current < end;
+
+  if (!quiet) {
+    return null;
+  }
+
+  const minutesLeft = (end - current + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const startOfMinute = now.getTime() - (now.getTime() % 60000);
+
+  return new Date(startOfMinute + minutesLeft * 60000);
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseQuietHours(value: unknown): QuietHours | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  const { enabled, start, end, timezone } = value;
+
+  if (typeof start !== 'string' || !TIME_PATTERN.test(start)) {
+    return null;
+  }
+
+  if (typeof end !== 'string' || !TIME_PATTERN.test(end)) {
+    return null;
+  }
+
+  return {
+    enabled: enabled === true,
+    start,
+    end,
+    timezone: typeof timezone === 'string' && isValidTimezone(timezone) ? timezone : 'UTC',
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Minutes since local midnight in the timezone
+function localMinutes(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+
+  return part('hour') * 60 + part('minute');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,104 @@
+// Notification Service - Typed producers for the notifications the server sends to users
+import { PrismaClient } from '@prisma/client';
+import { DispatchResult, NotificationDispatcher } from './notification-dispatcher.service';
+import { NotificationEvent, NotificationPayloads } from './notification-events';
+
+/**
+ * Notifications are only created on the server, from the actions that cause them. Each producer
+ * takes the payload of one event type; its template adds the deep link the app opens.
+ */
+export class NotificationService {
+  private dispatcher: NotificationDispatcher;
+
+  constructor(prisma: PrismaClient, dispatcher?: NotificationDispatcher | undefined) {
+    this.dispatcher = dispatcher ?? new NotificationDispatcher(prisma);
+  }
+
+  /**
+   * Someone sent the user a friend request
+   */
+  friendRequestReceived(
+    userId: string,
+    payload: NotificationPayloads['friend_request']
+  ): Promise<DispatchResult> {
+    return this.notify({ type: 'friend_request', userId, payload });
+  }
+
+  /**
+   * A friend shared one of their lists with the user by inviting them to edit it
+   */
+  listShared(
+    userId: string,
+    payload: NotificationPayloads['list_editor_invite']
+  ): Promise<DispatchResult> {
+    return this.notify({ type: 'list_editor_invite', userId, payload });
+  }
+
+  /**
+   * A challenge the user joined has started
+   */
+  challengeStarting(
+    userId: string,
+    payload: NotificationPayloads['challenge_starting']
+  ): Promise<DispatchResult> {
+    return this.notify({ type: 'challenge_starting', userId, payload });
+  }
+
+  /**
+   * The user earned an achievement
+   */
+  achievementEarned(
+    userId: string,
+    payload: NotificationPayloads['achievement_earned']
+  ): Promise<DispatchResult> {
+    return this.notify({ type: 'achievement_earned', userId, payload });
+  }
+
+  /**
+   * New content was linked to a case the user follows
+   */
+  followedCaseContent(
+    userId: string,
+    payload: NotificationPayloads['case_new_content']
+  ): Promise<DispatchResult> {
+    return this.notify({ type: 'case_new_content', userId, payload });
+  }
+
+  /**
+   * New content features a real person the user follows
+   */
+  followedPersonContent(
+    userId: string,
+    payload: NotificationPayloads['person_new_content']
+  ): Promise<DispatchResult> {
+    return this.notify({ type: 'person_new_content', userId, payload });
+  }
+
+  /**
+   * A TV series the user follows has new episodes
+   */
+  followedSeriesEpisodes(
+    userId: string,
+    payload: NotificationPayloads['series_new_episodes']
+  ): Promise<DispatchResult> {
+    return this.notify({ type: 'series_new_episodes', userId, payload });
+  }
+
+  /**
+   * Several new titles for things the user follows, sent as one notification. Takes at least
+   * two titles; a single alert uses one of the producers above.
+   */
+  followedContentDigest(
+    userId: string,
+    payload: NotificationPayloads['followed_content_digest']
+  ): Promise<DispatchResult> {
+    return this.notify({ type: 'followed_content_digest', userId, payload });
+  }
+
+  /**
+   * Send any other notification event. Like the producers, this never throws.
+   */
+  notify(event: NotificationEvent): Promise<DispatchResult> {
+    return this.dispatcher.dispatch(event);
+  }
+}
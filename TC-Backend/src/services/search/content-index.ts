@@ -0,0 +1,162 @@
+// Content Index Definition - Meilisearch settings and document shape for the content table
+import type { Settings } from 'meilisearch';
+import type { Content, Prisma } from '@prisma/client';
+import { camelizeKeys, getReleaseYear } from '../../utils/field-transformer';
+
+// Object literal type so documents satisfy the index's Record<string, unknown> constraint
+export type ContentDocument = {
+  id: string;
+  externalId: string;
+  title: string;
+  description: string | null;
+  contentType: string;
+  genreTags: string[];
+  caseTags: string[];
+  caseIds: string[];
+  caseNames: string[];
+  releaseDate: string | null;
+  releaseYear: number | null;
+  runtimeMinutes: number | null;
+  posterUrl: string | null;
+  trailerUrl: string | null;
+  platforms: Array<Record<string, unknown>>;
+  totalSeasons: number | null;
+  totalEpisodes: number | null;
+  status: string | null;
+  tmdbId: number | null;
+  imdbId: string | null;
+  tvdbId: number | null;
+  popularity: number;
+  rating: number;
+  createdAt: number;
+  updatedAt: number;
+};
+
+// Relations loaded with each content row so case data ends up in the document
+export const CONTENT_INDEX_INCLUDE = {
+  contentCaseLinks: {
+    include: {
+      contentCase: { select: { id: true, caseName: true, perpetrators: true } },
+    },
+  },
+} as const;
+
+// A content row as passed to toContentDocument. Case links are only present when the row was
+// loaded with CONTENT_INDEX_INCLUDE.
+export type ContentIndexRow = Content &
+  Partial<
+    Pick<Prisma.ContentGetPayload<{ include: typeof CONTENT_INDEX_INCLUDE }>, 'contentCaseLinks'>
+  >;
+
+// Community signals that are not columns on the content table
+export interface ContentEngagement {
+  // Average of users' 1-5 ratings, the same value the Postgres fallback filters on; 0 when unrated
+  rating: number;
+  // How many users track the title
+  popularity: number;
+}
+
+export const NO_ENGAGEMENT: ContentEngagement = { rating: 0, popularity: 0 };
+
+// Well-known aliases for cases and perpetrators, applied in both directions
+export const CONTENT_SYNONYMS: Record<string, string[]> = {
+  btk: ['dennis rader', 'bind torture kill'],
+  'dennis rader': ['btk'],
+  'bind torture kill': ['btk'],
+  'son of sam': ['david berkowitz'],
+  'david berkowitz': ['son of sam'],
+  'golden state killer': ['joseph deangelo', 'east area rapist', 'original night stalker'],
+  'joseph deangelo': ['golden state killer'],
+  'east area rapist': ['golden state killer'],
+  'original night stalker': ['golden state killer'],
+  'night stalker': ['richard ramirez'],
+  'richard ramirez': ['night stalker'],
+  'green river killer': ['gary ridgway'],
+  'gary ridgway': ['green river killer'],
+  unabomber: ['ted kaczynski'],
+  'ted kaczynski': ['unabomber'],
+  zodiac: ['zodiac killer'],
+  'zodiac killer': ['zodiac'],
+  doc: ['documentary'],
+  docuseries: ['documentary'],
+};
+
+export const CONTENT_INDEX_SETTINGS: Settings = {
+  searchableAttributes: ['title', 'caseNames', 'caseTags', 'description', 'genreTags'],
+  filterableAttributes: [
+    'contentType',
+    'genreTags',
+    'caseTags',
+    'caseIds',
+    'platforms.name',
+    'releaseYear',
+    'rating',
+    'status',
+  ],
+  sortableAttributes: ['title', 'releaseYear', 'popularity', 'rating', 'createdAt', 'updatedAt'],
+  rankingRules: ['words', 'typo', 'proximity', 'attribute', 'sort', 'exactness', 'popularity:desc'],
+  typoTolerance: {
+    enabled: true,
+    minWordSizeForTypos: { oneTypo: 4, twoTypos: 8 },
+  },
+  synonyms: CONTENT_SYNONYMS,
+  pagination: { maxTotalHits: 5000 },
+};
+
+function toTimestamp(value: Date | null | undefined): number {
+  if (!value) {
+    return 0;
+  }
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? 0 : time;
+}
+
+/**
+ * Build the Meilisearch document for a content row, with its engagement as of indexing
+ */
+export function toContentDocument(
+  content: ContentIndexRow,
+  engagement: ContentEngagement = NO_ENGAGEMENT
+): ContentDocument {
+  const caseLinks = content.contentCaseLinks ?? [];
+  const caseNames = caseLinks
+    .flatMap(link => [link.contentCase.caseName, ...link.contentCase.perpetrators])
+    .filter(name => name.length > 0);
+  const platforms = Array.isArray(content.platforms)
+    ? content.platforms.flatMap(platform =>
+        platform && typeof platform === 'object' && !Array.isArray(platform)
+          ? [camelizeKeys(platform)]
+          : []
+      )
+    : [];
+
+  return {
+    id: content.id,
+    externalId: content.externalId || content.id,
+    title: content.title,
+    description: content.description ?? null,
+    contentType: content.contentType,
+    genreTags: content.genreTags,
+    caseTags: content.caseTags,
+    caseIds: caseLinks.map(link => link.caseId),
+    caseNames: Array.from(new Set(caseNames)),
+    releaseDate: content.releaseDate
+      ? new Date(content.releaseDate).toISOString().slice(0, 10)
+      : null,
+    releaseYear: getReleaseYear(content.releaseDate) ?? null,
+    runtimeMinutes: content.runtimeMinutes ?? null,
+    posterUrl: content.posterUrl ?? null,
+    trailerUrl: content.trailerUrl ?? null,
+    platforms,
+    totalSeasons: content.totalSeasons ?? null,
+    totalEpisodes: content.totalEpisodes ?? null,
+    status: content.status ?? null,
+    tmdbId: content.tmdbId ?? null,
+    imdbId: content.imdbId ?? null,
+    tvdbId: content.tvdbId ?? null,
+    popularity: engagement.popularity,
+    rating: engagement.rating,
+    createdAt: toTimestamp(content.createdAt),
+    updatedAt: toTimestamp(content.updatedAt),
+  };
+}
@@ -0,0 +1,77 @@
+// Content Search Service - Meilisearch content search with a Postgres full-text fallback
+import { PrismaClient } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import {
+  MeiliSearchApiError,
+  MeiliSearchCommunicationError,
+  MeiliSearchTimeOutError,
+} from 'meilisearch';
+import {
+  IndexDocument,
+  MeiliSearchService,
+  SearchOptions,
+  SearchResults,
+} from './meilisearch.service';
+import { PostgresContentHit, PostgresSearchService } from './postgres-search.service';
+
+// Engine that served a search request
+export type SearchEngine = 'meilisearch' | 'postgres';
+
+export type ContentSearchResults = SearchResults<IndexDocument | PostgresContentHit> & {
+  engine: SearchEngine;
+};
+
+export class ContentSearchService {
+  constructor(
+    prisma: PrismaClient,
+    private searchService: MeiliSearchService = new MeiliSearchService(),
+    private postgresSearch: PostgresSearchService = new PostgresSearchService(prisma)
+  ) {}
+
+  /**
+   * Search the content index, falling back to Postgres while Meilisearch is unreachable.
+   * Requests Meilisearch rejects, such as an unknown filter or sort attribute, are
+   * reported as bad requests rather than retried against Postgres.
+   */
+  async search(query: string, options: SearchOptions = {}): Promise<ContentSearchResults> {
+    try {
+      const results = await this.searchService.search('content', query, options);
+      return { ...results, engine: 'meilisearch' };
+    } catch (error) {
+      if (isSearchUnavailable(error)) {
+        console.warn(
+          '[ContentSearchService] Meilisearch unavailable, using Postgres fallback:',
+          error
+        );
+        const results = await this.postgresSearch.search(query, options);
+        return { ...results, engine: 'postgres' };
+      }
+
+      if (error instanceof MeiliSearchApiError && error.httpStatus < 500) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: error.message,
+          cause: error,
+        });
+      }
+
+      throw error;
+    }
+  }
+}
+
+/**
+ * Whether Meilisearch failed because it couldn't be reached or isn't ready yet, as
+ * opposed to rejecting the request itself
+ */
+export function isSearchUnavailable(error: unknown): boolean {
+  if (error instanceof MeiliSearchCommunicationError || error instanceof MeiliSearchTimeOutError) {
+    return true;
+  }
+
+  if (error instanceof MeiliSearchApiError) {
+    return error.httpStatus >= 500 || error.code === 'index_not_found';
+  }
+
+  return false;
+}
@@ -0,0 +1,233 @@
+// Meilisearch Service - Query and document access for the search indexes
+import { MeiliSearch, Index, SearchParams, Settings } from 'meilisearch';
+
+export type SearchFilterValue =
+  | string
+  | number
+  | boolean
+  | Array<string | number>
+  | { $gte?: number; $lte?: number; $gt?: number; $lt?: number };
+
+export interface SearchOptions {
+  filters?: Record<string, SearchFilterValue | undefined> | undefined;
+  facets?: string[] | undefined;
+  limit?: number | undefined;
+  offset?: number | undefined;
+  sort?: string[] | undefined;
+  attributesToRetrieve?: string[] | undefined;
+  attributesToHighlight?: string[] | undefined;
+  attributesToCrop?: string[] | undefined;
+  cropLength?: number | undefined;
+}
+
+// Any document stored in an index
+export type IndexDocument = Record<string, unknown>;
+
+export interface SearchResults<T = IndexDocument> {
+  hits: Array<T & { _rankingScore?: number; _formatted?: IndexDocument }>;
+  totalHits: number;
+  facetDistribution: Record<string, Record<string, number>>;
+  processingTimeMs: number;
+  query: string;
+}
+
+// Logical index names used by services, mapped to the configured index UIDs
+const INDEX_NAMES: Record<string, string> = {
+  content: process.env.MEILISEARCH_CONTENT_INDEX ?? 'tcwatch_content',
+  cases: process.env.MEILISEARCH_CASES_INDEX ?? 'tcwatch_cases',
+  users: process.env.MEILISEARCH_USERS_INDEX ?? 'tcwatch_users',
+};
+
+// Filter keys accepted from callers that map onto a different indexed attribute
+const FILTER_ATTRIBUTE_ALIASES: Record<string, string> = {
+  genres: 'genreTags',
+  type: 'contentType',
+  platforms: 'platforms.name',
+};
+
+export class MeiliSearchService {
+  private client: MeiliSearch;
+
+  constructor(client?: MeiliSearch) {
+    this.client =
+      client ??
+      new MeiliSearch({
+        host: process.env.MEILISEARCH_HOST ?? 'http://localhost:7700',
+        apiKey: process.env.MEILISEARCH_API_KEY ?? process.env.MEILISEARCH_MASTER_KEY ?? '',
+      });
+  }
+
+  /**
+   * Resolve a logical index name ("content") to its configured UID
+   */
+  resolveIndexName(indexName: string): string {
+    return INDEX_NAMES[indexName] ?? indexName;
+  }
+
+  /**
+   * Get an index handle by logical name
+   */
+  getIndex<T extends IndexDocument = IndexDocument>(indexName: string): Index<T> {
+    return this.client.index<T>(this.resolveIndexName(indexName));
+  }
+
+  /**
+   * Get the underlying client for administrative operations
+   */
+  getClient(): MeiliSearch {
+    return this.client;
+  }
+
+  /**
+   * Search an index using structured filters
+   */
+  async search<T extends IndexDocument = IndexDocument>(
+    indexName: string,
+    query: string,
+    options: SearchOptions = {}
+  ): Promise<SearchResults<T>> {
+    const filter = this.buildFilter(options.filters);
+
+    const params: SearchParams = {
+      limit: options.limit ?? 20,
+      offset: options.offset ?? 0,
+      showRankingScore: true,
+    };
+
+    if (filter.length > 0) params.filter = filter;
+    if (options.facets) params.facets = options.facets;
+    if (options.sort) params.sort = options.sort;
+    if (options.attributesToRetrieve) params.attributesToRetrieve = options.attributesToRetrieve;
+    if (options.attributesToHighlight) params.attributesToHighlight = options.attributesToHighlight;
+    if (options.attributesToCrop) params.attributesToCrop = options.attributesToCrop;
+    if (options.cropLength !== undefined) params.cropLength = options.cropLength;
+
+    const response = await this.getIndex<T>(indexName).search(query, params);
+
+    return {
+      hits: response.hits as SearchResults<T>['hits'],
+      totalHits: response.estimatedTotalHits ?? response.hits.length,
+      facetDistribution: response.facetDistribution ?? {},
+      processingTimeMs: response.processingTimeMs,
+      query: response.query,
+    };
+  }
+
+  /**
+   * Add or replace documents in an index
+   */
+  async indexDocuments<T extends IndexDocument>(
+    indexName: string,
+    documents: T[],
+    primaryKey: string = 'id'
+  ): Promise<number | null> {
+    if (documents.length === 0) {
+      return null;
+    }
+
+    const task = await this.getIndex<T>(indexName).addDocuments(documents, { primaryKey });
+    return task.taskUid;
+  }
+
+  /**
+   * Remove documents from an index by ID
+   */
+  async deleteDocuments(indexName: string, ids: string[]): Promise<number | null> {
+    if (ids.length === 0) {
+      return null;
+    }
+
+    const task = await this.getIndex(indexName).deleteDocuments(ids);
+    return task.taskUid;
+  }
+
+  /**
+   * Remove every document from an index
+   */
+  async deleteAllDocuments(indexName: string): Promise<number> {
+    const task = await this.getIndex(indexName).deleteAllDocuments();
+    return task.taskUid;
+  }
+
+  /**
+   * Apply index settings, creating the index if needed
+   */
+  async updateSettings(indexName: string, settings: Settings): Promise<number> {
+    const task = await this.getIndex(indexName).updateSettings(settings);
+    return task.taskUid;
+  }
+
+  /**
+   * Wait for an enqueued task and throw if Meilisearch reports a failure
+   */
+  async waitForTask(taskUid: number, timeOutMs: number = 30000): Promise<void> {
+    const task = await this.client.waitForTask(taskUid, { timeOutMs });
+
+    if (task.status === 'failed') {
+      throw new Error(task.error?.message ?? `Meilisearch task ${taskUid} failed`);
+    }
+  }
+
+  /**
+   * Check whether the Meilisearch server is reachable
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      return await this.client.isHealthy();
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Convert structured filters into Meilisearch filter expressions.
+   * Arrays become OR groups, range objects become comparisons and
+   * every top-level key is ANDed together.
+   */
+  buildFilter(filters?: Record<string, SearchFilterValue | undefined>): string[] {
+    if (!filters) {
+      return [];
+    }
+
+    const expressions: string[] = [];
+
+    for (const [key, value] of Object.entries(filters)) {
+      if (value === undefined || value === null) {
+        continue;
+      }
+
+      const attribute = FILTER_ATTRIBUTE_ALIASES[key] ?? key;
+
+      if (Array.isArray(value)) {
+        if (value.length === 0) {
+          continue;
+        }
+        const group = value.map(item => `${attribute} = ${this.quote(item)}`).join(' OR ');
+        expressions.push(value.length > 1 ? `(${group})` : group);
+      } else if (typeof value === 'object') {
+        const comparisons: Array<[keyof typeof value, string]> = [
+          ['$gte', '>='],
+          ['$gt', '>'],
+          ['$lte', '<='],
+          ['$lt', '<'],
+        ];
+        for (const [operator, symbol] of comparisons) {
+          if (value[operator] !== undefined) {
+            expressions.push(`${attribute} ${symbol} ${value[operator]}`);
+          }
+        }
+      } else {
+        expressions.push(`${attribute} = ${this.quote(value)}`);
+      }
+    }
+
+    return expressions;
+  }
+
+  private quote(value: string | number | boolean): string {
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      return String(value);
+    }
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  }
+}
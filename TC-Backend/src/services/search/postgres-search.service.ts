@@ -0,0 +1,243 @@
+// Postgres Search Service - Ranked full-text search over content.search_vector
+import { Prisma, PrismaClient } from '@prisma/client';
+import type { SearchFilterValue, SearchResults } from './meilisearch.service';
+
+export interface PostgresSearchOptions {
+  filters?: Record<string, SearchFilterValue | undefined> | undefined;
+  facets?: string[] | undefined;
+  limit?: number | undefined;
+  offset?: number | undefined;
+}
+
+// A content row as selected by search, in the same camelCase shape as the index documents
+export type PostgresContentHit = {
+  id: string;
+  externalId: string;
+  title: string;
+  description: string | null;
+  contentType: string;
+  genreTags: string[];
+  caseTags: string[];
+  releaseDate: Date | null;
+  runtimeMinutes: number | null;
+  posterUrl: string | null;
+  trailerUrl: string | null;
+  platforms: Prisma.JsonValue;
+  tmdbId: number | null;
+  imdbId: string | null;
+  tvdbId: number | null;
+  totalSeasons: number | null;
+  totalEpisodes: number | null;
+  status: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  caseIds: string[];
+  _rankingScore: number;
+};
+
+// Text stored in content.search_vector: title, description, tags and linked case names.
+// Keep in sync with the backfill in prisma/search-indexes.sql.
+const SEARCH_VECTOR_SOURCE = Prisma.sql`
+  concat_ws(' ',
+    c.title,
+    c.description,
+    array_to_string(c.genre_tags, ' '),
+    array_to_string(c.case_tags, ' '),
+    (
+      SELECT string_agg(concat_ws(' ', cc.case_name, array_to_string(cc.perpetrators, ' ')), ' ')
+      FROM content_case_links ccl
+      JOIN content_cases cc ON cc.id = ccl.case_id
+      WHERE ccl.content_id = c.id
+    )
+  )
+`;
+
+// Must match the GIN index expression so the planner can use it
+const DOCUMENT_VECTOR = Prisma.sql`to_tsvector('english', coalesce(c.search_vector, ''))`;
+
+const FACET_COLUMNS: Record<string, Prisma.Sql> = {
+  contentType: Prisma.sql`c.content_type::text`,
+  genreTags: Prisma.sql`unnest(c.genre_tags)`,
+  'platforms.name': Prisma.sql`jsonb_array_elements(c.platforms::jsonb)->>'name'`,
+  caseIds: Prisma.sql`unnest(ARRAY(
+    SELECT ccl.case_id::text FROM content_case_links ccl WHERE ccl.content_id = c.id
+  ))`,
+  releaseYear: Prisma.sql`extract(year FROM c.release_date)::int::text`,
+};
+
+export class PostgresSearchService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Search content with the same result shape as MeiliSearchService.search
+   */
+  async search(
+    query: string,
+    options: PostgresSearchOptions = {}
+  ): Promise<SearchResults<PostgresContentHit>> {
+    const startedAt = Date.now();
+    const limit = options.limit ?? 20;
+    const offset = options.offset ?? 0;
+    const trimmedQuery = query.trim();
+
+    const conditions = this.buildConditions(trimmedQuery, options.filters);
+    const where =
+      conditions.length > 0 ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}` : Prisma.empty;
+
+    // Title matches outrank matches in the rest of the document
+    const rank = trimmedQuery
+      ? Prisma.sql`
+          ts_rank_cd(
+            setweight(to_tsvector('english', c.title), 'A') || setweight(${DOCUMENT_VECTOR}, 'B'),
+            websearch_to_tsquery('english', ${trimmedQuery})
+          )`
+      : Prisma.sql`0`;
+
+    const [hits, countRows, facetDistribution] = await Promise.all([
+      this.prisma.$queryRaw<PostgresContentHit[]>`
+        SELECT
+          c.id,
+          c.external_id AS "externalId",
+          c.title,
+          c.description,
+          c.content_type AS "contentType",
+          c.genre_tags AS "genreTags",
+          c.case_tags AS "caseTags",
+          c.release_date AS "releaseDate",
+          c.runtime_minutes AS "runtimeMinutes",
+          c.poster_url AS "posterUrl",
+          c.trailer_url AS "trailerUrl",
+          c.platforms,
+          c.tmdb_id AS "tmdbId",
+          c.imdb_id AS "imdbId",
+          c.tvdb_id AS "tvdbId",
+          c.total_seasons AS "totalSeasons",
+          c.total_episodes AS "totalEpisodes",
+          c.status,
+          c.created_at AS "createdAt",
+          c.updated_at AS "updatedAt",
+          ARRAY(
+            SELECT ccl.case_id::text FROM content_case_links ccl WHERE ccl.content_id = c.id
+          ) AS "caseIds",
+          ${rank}::float AS "_rankingScore"
+        FROM content c
+        ${where}
+        ORDER BY "_rankingScore" DESC, c.release_date DESC NULLS LAST, c.title ASC
+        LIMIT ${limit} OFFSET ${offset}
+      `,
+      this.prisma.$queryRaw<Array<{ total: bigint }>>`
+        SELECT COUNT(*) AS total FROM content c ${where}
+      `,
+      this.getFacetDistribution(where, options.facets),
+    ]);
+
+    return {
+      hits,
+      totalHits: Number(countRows[0]?.total ?? 0),
+      facetDistribution,
+      processingTimeMs: Date.now() - startedAt,
+      query,
+    };
+  }
+
+  /**
+   * Rebuild search_vector for the given content, or for every row when no IDs are passed
+   */
+  async refreshSearchVectors(contentIds?: string[]): Promise<number> {
+    if (contentIds && contentIds.length === 0) {
+      return 0;
+    }
+
+    const where = contentIds
+      ? Prisma.sql`WHERE c.id IN (${Prisma.join(contentIds.map(id => Prisma.sql`${id}::uuid`))})`
+      : Prisma.empty;
+
+    return this.prisma.$executeRaw`
+      UPDATE content AS c SET search_vector = ${SEARCH_VECTOR_SOURCE} ${where}
+    `;
+  }
+
+  private buildConditions(
+    query: string,
+    filters: Record<string, SearchFilterValue | undefined> = {}
+  ): Prisma.Sql[] {
+    const conditions: Prisma.Sql[] = [];
+
+    if (query) {
+      conditions.push(Prisma.sql`${DOCUMENT_VECTOR} @@ websearch_to_tsquery('english', ${query})`);
+    }
+
+    const { contentType, genreTags, platforms, caseIds, releaseYear, rating } = filters;
+
+    if (typeof contentType === 'string') {
+      conditions.push(Prisma.sql`c.content_type::text = ${contentType}`);
+    }
+
+    if (Array.isArray(genreTags) && genreTags.length > 0) {
+      conditions.push(Prisma.sql`c.genre_tags && ${genreTags.map(String)}::text[]`);
+    }
+
+    if (Array.isArray(platforms) && platforms.length > 0) {
+      conditions.push(Prisma.sql`
+        EXISTS (
+          SELECT 1 FROM jsonb_array_elements(c.platforms::jsonb) AS platform
+          WHERE platform->>'name' = ANY(${platforms.map(String)}::text[])
+        )
+      `);
+    }
+
+    if (Array.isArray(caseIds) && caseIds.length > 0) {
+      conditions.push(Prisma.sql`
+        EXISTS (
+          SELECT 1 FROM content_case_links ccl
+          WHERE ccl.content_id = c.id AND ccl.case_id::text = ANY(${caseIds.map(String)}::text[])
+        )
+      `);
+    }
+
+    if (typeof releaseYear === 'number') {
+      conditions.push(Prisma.sql`extract(year FROM c.release_date) = ${releaseYear}`);
+    }
+
+    // Content has no rating column, so filter on the community average
+    if (
+      rating &&
+      typeof rating === 'object' &&
+      !Array.isArray(rating) &&
+      rating.$gte !== undefined
+    ) {
+      conditions.push(Prisma.sql`
+        (SELECT AVG(uc.rating) FROM user_content uc WHERE uc.content_id = c.id) >= ${rating.$gte}
+      `);
+    }
+
+    return conditions;
+  }
+
+  private async getFacetDistribution(
+    where: Prisma.Sql,
+    facets: string[] = []
+  ): Promise<Record<string, Record<string, number>>> {
+    const distribution: Record<string, Record<string, number>> = {};
+    const supported = facets.filter(facet => FACET_COLUMNS[facet]);
+
+    await Promise.all(
+      supported.map(async facet => {
+        const rows = await this.prisma.$queryRaw<Array<{ value: string | null; count: bigint }>>`
+          SELECT value, COUNT(*) AS count
+          FROM (SELECT ${FACET_COLUMNS[facet]!} AS value FROM content c ${where}) AS facet_values
+          WHERE value IS NOT NULL
+          GROUP BY value
+          ORDER BY count DESC
+          LIMIT 100
+        `;
+
+        distribution[facet] = Object.fromEntries(
+          rows.map(row => [row.value as string, Number(row.count)])
+        );
+      })
+    );
+
+    return distribution;
+  }
+}
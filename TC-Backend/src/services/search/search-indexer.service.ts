@@ -0,0 +1,294 @@
+// Search Indexer Service - Keeps the Meilisearch content index in step with Prisma
+import { randomUUID } from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import { MeiliSearchService } from './meilisearch.service';
+import {
+  CONTENT_INDEX_INCLUDE,
+  CONTENT_INDEX_SETTINGS,
+  ContentDocument,
+  ContentEngagement,
+  ContentIndexRow,
+  NO_ENGAGEMENT,
+  toContentDocument,
+} from './content-index';
+
+export type IndexingJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface IndexingJob {
+  id: string;
+  indexName: string;
+  status: IndexingJobStatus;
+  totalDocuments: number;
+  processedDocuments: number;
+  failedDocuments: number;
+  clearExisting: boolean;
+  startedAt: Date;
+  completedAt: Date | null;
+  error: string | null;
+  cancelRequested: boolean;
+}
+
+export interface ReindexOptions {
+  batchSize?: number;
+  clearExisting?: boolean;
+}
+
+// The subset of MeiliSearchService the indexer needs, so tests can swap in a fake
+export type SearchIndexBackend = Pick<
+  MeiliSearchService,
+  'updateSettings' | 'indexDocuments' | 'deleteDocuments' | 'deleteAllDocuments' | 'waitForTask'
+>;
+
+const CONTENT_INDEX = 'content';
+const DEFAULT_BATCH_SIZE = 500;
+const FINISHED_JOB_RETENTION = 20;
+
+// Jobs are shared by every indexer instance in the process
+const jobs = new Map<string, IndexingJob>();
+
+function isActive(job: IndexingJob): boolean {
+  return job.status === 'pending' || job.status === 'running';
+}
+
+function pruneFinishedJobs(): void {
+  const finished = Array.from(jobs.values())
+    .filter(job => !isActive(job))
+    .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+
+  for (const job of finished.slice(FINISHED_JOB_RETENTION)) {
+    jobs.delete(job.id);
+  }
+}
+
+export class SearchIndexerService {
+  constructor(
+    private prisma: PrismaClient,
+    private backend: SearchIndexBackend = new MeiliSearchService()
+  ) {}
+
+  /**
+   * Apply searchable/filterable/sortable attributes, typo tolerance and synonyms
+   */
+  async configureIndex(): Promise<void> {
+    const taskUid = await this.backend.updateSettings(CONTENT_INDEX, CONTENT_INDEX_SETTINGS);
+    await this.backend.waitForTask(taskUid);
+  }
+
+  /**
+   * Start a background reindex of the content table and return its job
+   */
+  startReindex(options: ReindexOptions = {}): IndexingJob {
+    const running = this.getActiveJobs();
+    if (running.length > 0) {
+      throw new TRPCError({
+        code: 'CONFLICT',
+        message: `Indexing job ${running[0]!.id} is already running`,
+      });
+    }
+
+    const job = this.createJob(options);
+
+    this.reindex(options, job).catch(error => {
+      console.error(`Indexing job ${job.id} failed:`, error);
+    });
+
+    return { ...job };
+  }
+
+  /**
+   * Reindex every content row in batches. Runs to completion in the caller.
+   */
+  async reindex(
+    options: ReindexOptions = {},
+    job: IndexingJob = this.createJob(options)
+  ): Promise<IndexingJob> {
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+    try {
+      job.status = 'running';
+      job.totalDocuments = await this.prisma.content.count();
+
+      await this.configureIndex();
+
+      if (job.clearExisting) {
+        await this.backend.waitForTask(await this.backend.deleteAllDocuments(CONTENT_INDEX));
+      }
+
+      let cursor: string | undefined;
+
+      while (!job.cancelRequested) {
+        const batch = await this.prisma.content.findMany({
+          take: batchSize,
+          ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+          orderBy: { id: 'asc' },
+          include: CONTENT_INDEX_INCLUDE,
+        });
+
+        if (batch.length === 0) {
+          break;
+        }
+
+        try {
+          const taskUid = await this.backend.indexDocuments(
+            CONTENT_INDEX,
+            await this.toDocuments(batch)
+          );
+          if (taskUid !== null) {
+            await this.backend.waitForTask(taskUid);
+          }
+          job.processedDocuments += batch.length;
+        } catch (error) {
+          console.error(`Indexing job ${job.id} batch failed:`, error);
+          job.failedDocuments += batch.length;
+        }
+
+        cursor = batch[batch.length - 1]!.id;
+      }
+
+      job.status = job.cancelRequested ? 'cancelled' : 'completed';
+    } catch (error) {
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+    } finally {
+      job.completedAt = new Date();
+      pruneFinishedJobs();
+    }
+
+    return { ...job };
+  }
+
+  /**
+   * Get a job by ID
+   */
+  getJob(jobId: string): IndexingJob | null {
+    const job = jobs.get(jobId);
+    return job ? { ...job } : null;
+  }
+
+  /**
+   * Get jobs that are pending or running
+   */
+  getActiveJobs(): IndexingJob[] {
+    return Array.from(jobs.values())
+      .filter(isActive)
+      .map(job => ({ ...job }));
+  }
+
+  /**
+   * Get recent jobs, newest first
+   */
+  getRecentJobs(): IndexingJob[] {
+    return Array.from(jobs.values())
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+      .map(job => ({ ...job }));
+  }
+
+  /**
+   * Ask a running job to stop after its current batch
+   */
+  cancelJob(jobId: string): IndexingJob {
+    const job = jobs.get(jobId);
+
+    if (!job) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Indexing job not found',
+      });
+    }
+
+    if (!isActive(job)) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: `Indexing job is already ${job.status}`,
+      });
+    }
+
+    job.cancelRequested = true;
+    return { ...job };
+  }
+
+  /**
+   * Upsert content rows into the index. IDs that no longer exist are removed.
+   */
+  async indexContent(contentIds: string[]): Promise<void> {
+    if (contentIds.length === 0) {
+      return;
+    }
+
+    const contents = await this.prisma.content.findMany({
+      where: { id: { in: contentIds } },
+      include: CONTENT_INDEX_INCLUDE,
+    });
+
+    await this.backend.indexDocuments(CONTENT_INDEX, await this.toDocuments(contents));
+
+    const found = new Set(contents.map(content => content.id));
+    const missing = contentIds.filter(id => !found.has(id));
+    if (missing.length > 0) {
+      await this.backend.deleteDocuments(CONTENT_INDEX, missing);
+    }
+  }
+
+  /**
+   * Reindex content in the background after its ratings or tracking counts change.
+   * The write that triggered it has already succeeded, so failures are only logged.
+   */
+  queueIndexContent(contentIds: string[]): void {
+    this.indexContent(contentIds).catch(error => {
+      console.error(`Failed to reindex content ${contentIds.join(', ')}:`, error);
+    });
+  }
+
+  /**
+   * Remove content from the index
+   */
+  async removeContent(contentIds: string[]): Promise<void> {
+    await this.backend.deleteDocuments(CONTENT_INDEX, contentIds);
+  }
+
+  /**
+   * Build documents for a batch, with each title's average rating and tracking count
+   */
+  private async toDocuments(contents: ContentIndexRow[]): Promise<ContentDocument[]> {
+    if (contents.length === 0) {
+      return [];
+    }
+
+    const stats = await this.prisma.userContent.groupBy({
+      by: ['contentId'],
+      where: { contentId: { in: contents.map(content => content.id) } },
+      _avg: { rating: true },
+      _count: { _all: true },
+    });
+    const engagement = new Map<string, ContentEngagement>(
+      stats.map(row => [
+        row.contentId,
+        { rating: row._avg.rating ?? 0, popularity: row._count._all },
+      ])
+    );
+
+    return contents.map(content =>
+      toContentDocument(content, engagement.get(content.id) ?? NO_ENGAGEMENT)
+    );
+  }
+
+  private createJob(options: ReindexOptions): IndexingJob {
+    const job: IndexingJob = {
+      id: randomUUID(),
+      indexName: CONTENT_INDEX,
+      status: 'pending',
+      totalDocuments: 0,
+      processedDocuments: 0,
+      failedDocuments: 0,
+      clearExisting: options.clearExisting ?? false,
+      startedAt: new Date(),
+      completedAt: null,
+      error: null,
+      cancelRequested: false,
+    };
+
+    jobs.set(job.id, job);
+    return job;
+  }
+}
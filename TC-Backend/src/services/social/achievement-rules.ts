@@ -0,0 +1,159 @@
+// Achievement Rules - Badge definitions evaluated by the achievement engine
+import { AchievementType } from '@prisma/client';
+
+// Per-user counters that rules are evaluated against
+export type AchievementMetric =
+  | 'completedContent'
+  | 'episodesWatched'
+  | 'longestStreak'
+  | 'casesResearched'
+  | 'friends'
+  | 'challengesCompleted';
+
+// Events the engine reacts to
+export type AchievementEvent =
+  | { type: 'content_tracked'; contentId: string; status: string }
+  | { type: 'episode_progress'; contentId: string }
+  | { type: 'friendship_accepted'; friendId: string }
+  | { type: 'challenge_completed'; challengeId: string };
+
+export type AchievementEventType = AchievementEvent['type'];
+
+export interface AchievementRule {
+  // Stable identifier stored in achievementData.key; never rename once shipped
+  key: string;
+  achievementType: AchievementType;
+  name: string;
+  description: string;
+  metric: AchievementMetric;
+  threshold: number;
+}
+
+// Metrics that can change for each event, so only the relevant rules are re-checked
+export const EVENT_METRICS: Record<AchievementEventType, AchievementMetric[]> = {
+  content_tracked: ['completedContent', 'casesResearched', 'longestStreak'],
+  episode_progress: ['episodesWatched', 'longestStreak'],
+  friendship_accepted: ['friends'],
+  challenge_completed: ['challengesCompleted'],
+};
+
+export const ACHIEVEMENT_RULES: AchievementRule[] = [
+  // Content milestones
+  {
+    key: 'first_case_closed',
+    achievementType: 'CONTENT_MILESTONE',
+    name: 'First Case Closed',
+    description: 'Completed your first piece of true crime content',
+    metric: 'completedContent',
+    threshold: 1,
+  },
+  {
+    key: 'completed_10',
+    achievementType: 'CONTENT_MILESTONE',
+    name: 'First 10 Completed',
+    description: 'Completed 10 pieces of true crime content',
+    metric: 'completedContent',
+    threshold: 10,
+  },
+  {
+    key: 'completed_50',
+    achievementType: 'CONTENT_MILESTONE',
+    name: 'Seasoned Investigator',
+    description: 'Completed 50 pieces of true crime content',
+    metric: 'completedContent',
+    threshold: 50,
+  },
+  {
+    key: 'completed_100',
+    achievementType: 'CONTENT_MILESTONE',
+    name: 'Cold Case Veteran',
+    description: 'Completed 100 pieces of true crime content',
+    metric: 'completedContent',
+    threshold: 100,
+  },
+  {
+    key: 'episodes_100',
+    achievementType: 'CONTENT_MILESTONE',
+    name: 'Binge Detective',
+    description: 'Watched 100 episodes',
+    metric: 'episodesWatched',
+    threshold: 100,
+  },
+  {
+    key: 'episodes_500',
+    achievementType: 'CONTENT_MILESTONE',
+    name: 'Night Shift',
+    description: 'Watched 500 episodes',
+    metric: 'episodesWatched',
+    threshold: 500,
+  },
+
+  // Streaks
+  {
+    key: 'streak_7',
+    achievementType: 'STREAK_ACHIEVED',
+    name: '7 Day Streak',
+    description: 'Watched something 7 days in a row',
+    metric: 'longestStreak',
+    threshold: 7,
+  },
+  {
+    key: 'streak_30',
+    achievementType: 'STREAK_ACHIEVED',
+    name: '30 Day Streak',
+    description: 'Watched something 30 days in a row',
+    metric: 'longestStreak',
+    threshold: 30,
+  },
+
+  // Research badges
+  {
+    key: 'cases_5',
+    achievementType: 'RESEARCH_BADGE',
+    name: 'Case Researcher',
+    description: 'Completed content covering 5 different cases',
+    metric: 'casesResearched',
+    threshold: 5,
+  },
+  {
+    key: 'cases_25',
+    achievementType: 'RESEARCH_BADGE',
+    name: 'Case Archivist',
+    description: 'Completed content covering 25 different cases',
+    metric: 'casesResearched',
+    threshold: 25,
+  },
+
+  // Social milestones
+  {
+    key: 'first_friend',
+    achievementType: 'SOCIAL_MILESTONE',
+    name: 'Partner in Crime',
+    description: 'Made your first friend',
+    metric: 'friends',
+    threshold: 1,
+  },
+  {
+    key: 'friends_10',
+    achievementType: 'SOCIAL_MILESTONE',
+    name: 'Task Force',
+    description: 'Made 10 friends',
+    metric: 'friends',
+    threshold: 10,
+  },
+
+  // Community awards
+  {
+    key: 'challenges_5',
+    achievementType: 'COMMUNITY_AWARD',
+    name: 'Challenge Regular',
+    description: 'Completed 5 community challenges',
+    metric: 'challengesCompleted',
+    threshold: 5,
+  },
+];
+
+// Key for the badge awarded when a specific challenge is completed
+export function challengeAchievementKey(challengeId: string): string {
+  return `challenge:${challengeId}`;
+}
@@ -0,0 +1,398 @@
+// Achievement Service - Rule-driven badge engine writing UserAchievement rows
+import { Prisma, PrismaClient, UserAchievement } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import {
+  ACHIEVEMENT_RULES,
+  AchievementEvent,
+  AchievementMetric,
+  AchievementRule,
+  EVENT_METRICS,
+  challengeAchievementKey,
+} from './achievement-rules';
+import { ACTIVITY_TYPES, ActivityRecorderService } from './activity-recorder.service';
+import { NotificationService } from '../notification/notification.service';
+
+export const ACHIEVEMENT_NOTIFICATION_TYPE = 'achievement_earned';
+
+export interface AchievementAward {
+  key: string;
+  achievementType: UserAchievement['achievementType'];
+  name: string;
+  description: string;
+  data?: Record<string, string | number> | undefined;
+}
+
+export interface EvaluateOptions {
+  // Only re-check rules for these metrics; all rules when omitted
+  metrics?: AchievementMetric[] | undefined;
+  // Send notifications and feed activities for new awards
+  notify?: boolean | undefined;
+}
+
+export interface BackfillResult {
+  usersProcessed: number;
+  achievementsAwarded: number;
+  failedUsers: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class AchievementService {
+  private activityRecorder: ActivityRecorderService;
+  private notifications: NotificationService;
+
+  constructor(private prisma: PrismaClient) {
+    this.activityRecorder = new ActivityRecorderService(prisma);
+    this.notifications = new NotificationService(prisma);
+  }
+
+  /**
+   * Evaluate the rules affected by an event. Failures are logged rather than
+   * thrown so they never break the action that triggered them.
+   */
+  async handleEvent(userId: string, event: AchievementEvent): Promise<UserAchievement[]> {
+    try {
+      const awarded = await this.evaluate(userId, {
+        metrics: EVENT_METRICS[event.type],
+        notify: true,
+      });
+
+      if (event.type === 'challenge_completed') {
+        const challengeAward = await this.awardChallengeCompletion(userId, event.challengeId, true);
+        if (challengeAward) {
+          awarded.push(challengeAward);
+        }
+      }
+
+      return awarded;
+    } catch (error) {
+      console.error(`Failed to evaluate achievements for ${event.type}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Check rules against the user's current metrics and award any newly earned badges
+   */
+  async evaluate(userId: string, options: EvaluateOptions = {}): Promise<UserAchievement[]> {
+    const rules = options.metrics
+      ? ACHIEVEMENT_RULES.filter(rule => options.metrics!.includes(rule.metric))
+      : ACHIEVEMENT_RULES;
+
+    const earnedKeys = await this.getEarnedKeys(userId);
+    const pending = rules.filter(rule => !earnedKeys.has(rule.key));
+
+    if (pending.length === 0) {
+      return [];
+    }
+
+    const metrics = new Map<AchievementMetric, number>();
+    for (const metric of new Set(pending.map(rule => rule.metric))) {
+      metrics.set(metric, await this.getMetric(userId, metric));
+    }
+
+    const awarded: UserAchievement[] = [];
+
+    for (const rule of pending) {
+      const value = metrics.get(rule.metric) ?? 0;
+
+      if (value >= rule.threshold) {
+        const achievement = await this.award(
+          userId,
+          this.toAward(rule, value),
+          options.notify ?? true
+        );
+
+        if (achievement) {
+          awarded.push(achievement);
+        }
+      }
+    }
+
+    return awarded;
+  }
+
+  /**
+   * Award the per-challenge badge for a completed challenge
+   */
+  async awardChallengeCompletion(
+    userId: string,
+    challengeId: string,
+    notify: boolean = true
+  ): Promise<UserAchievement | null> {
+    const participant = await this.prisma.challengeParticipant.findUnique({
+      where: { challengeId_userId: { challengeId, userId } },
+      include: { challenge: { select: { title: true } } },
+    });
+
+    if (participant?.status !== 'COMPLETED') {
+      return null;
+    }
+
+    return this.award(
+      userId,
+      {
+        key: challengeAchievementKey(challengeId),
+        achievementType: 'CHALLENGE_COMPLETED',
+        name: participant.challenge.title,
+        description: `Completed the ${participant.challenge.title} challenge`,
+        data: { challengeId, totalPoints: participant.totalPoints },
+      },
+      notify
+    );
+  }
+
+  /**
+   * The user's achievements, newest first
+   */
+  async getUserAchievements(userId: string) {
+    try {
+      return await this.prisma.userAchievement.findMany({
+        where: { userId },
+        orderBy: { earnedAt: 'desc' },
+      });
+    } catch (error) {
+      this.rethrow(error, 'Failed to fetch achievements');
+    }
+  }
+
+  /**
+   * Grant historical achievements to existing users. Runs without notifications
+   * so users aren't flooded with badges for things they did long ago.
+   */
+  async backfill(
+    options: {
+      batchSize?: number;
+      onProgress?: (result: BackfillResult) => void;
+    } = {}
+  ): Promise<BackfillResult> {
+    const batchSize = options.batchSize ?? 100;
+    const result: BackfillResult = { usersProcessed: 0, achievementsAwarded: 0, failedUsers: [] };
+    let cursor: string | undefined;
+
+    await this.backfillKeys();
+
+    for (;;) {
+      const users = await this.prisma.userProfile.findMany({
+        select: { userId: true },
+        orderBy: { userId: 'asc' },
+        take: batchSize,
+        ...(cursor && { skip: 1, cursor: { userId: cursor } }),
+      });
+
+      if (users.length === 0) {
+        break;
+      }
+
+      for (const { userId } of users) {
+        try {
+          const awarded = await this.evaluate(userId, { notify: false });
+          const challengeAwards = await this.backfillChallenges(userId);
+          result.achievementsAwarded += awarded.length + challengeAwards;
+        } catch (error) {
+          console.error(`Achievement backfill failed for user ${userId}:`, error);
+          result.failedUsers.push(userId);
+        }
+        result.usersProcessed++;
+      }
+
+      options.onProgress?.(result);
+      cursor = users[users.length - 1]!.userId;
+    }
+
+    return result;
+  }
+
+  /**
+   * Copy achievementData.key into the key column on rows written before it existed, so the
+   * unique constraint also covers them. When a user somehow holds the same badge twice, only
+   * the earliest row gets the key.
+   */
+  private async backfillKeys(): Promise<number> {
+    return this.prisma.$executeRaw`
+      UPDATE user_achievements AS ua SET key = legacy.key
+      FROM (
+        SELECT DISTINCT ON (user_id, achievement_data->>'key') id, achievement_data->>'key' AS key
+        FROM user_achievements
+        WHERE key IS NULL AND achievement_data->>'key' IS NOT NULL
+        ORDER BY user_id, achievement_data->>'key', earned_at
+      ) AS legacy
+      WHERE ua.id = legacy.id
+        AND NOT EXISTS (
+          SELECT 1 FROM user_achievements AS other
+          WHERE other.user_id = ua.user_id AND other.key = legacy.key
+        )
+    `;
+  }
+
+  private async backfillChallenges(userId: string): Promise<number> {
+    const completed = await this.prisma.challengeParticipant.findMany({
+      where: { userId, status: 'COMPLETED' },
+      select: { challengeId: true },
+    });
+
+    let awarded = 0;
+    for (const { challengeId } of completed) {
+      if (await this.awardChallengeCompletion(userId, challengeId, false)) {
+        awarded++;
+      }
+    }
+
+    return awarded;
+  }
+
+  /**
+   * Write the achievement unless the user already has it. Returns null when it
+   * was already earned, which keeps repeated events and backfills idempotent.
+   * The (userId, key) unique constraint settles concurrent awards of the same badge.
+   */
+  private async award(
+    userId: string,
+    award: AchievementAward,
+    notify: boolean
+  ): Promise<UserAchievement | null> {
+    let achievement: UserAchievement;
+
+    try {
+      achievement = await this.prisma.userAchievement.create({
+        data: {
+          userId,
+          achievementType: award.achievementType,
+          key: award.key,
+          achievementData: {
+            key: award.key,
+            name: award.name,
+            description: award.description,
+            ...award.data,
+          } as Prisma.InputJsonValue,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+
+    if (notify) {
+      await this.notifications.achievementEarned(userId, {
+        achievementId: achievement.id,
+        key: award.key,
+        name: award.name,
+        description: award.description,
+      });
+
+      await this.activityRecorder.record(userId, ACTIVITY_TYPES.EARNED_ACHIEVEMENT, {
+        achievementId: achievement.id,
+        achievementName: award.name,
+      });
+    }
+
+    return achievement;
+  }
+
+  private async getEarnedKeys(userId: string): Promise<Set<string>> {
+    const achievements = await this.prisma.userAchievement.findMany({
+      where: { userId },
+      select: { achievementData: true },
+    });
+
+    return new Set(
+      achievements
+        .map(achievement => (achievement.achievementData as { key?: string } | null)?.key)
+        .filter((key): key is string => typeof key === 'string')
+    );
+  }
+
+  private toAward(rule: AchievementRule, value: number): AchievementAward {
+    return {
+      key: rule.key,
+      achievementType: rule.achievementType,
+      name: rule.name,
+      description: rule.description,
+      data: { metric: rule.metric, threshold: rule.threshold, value },
+    };
+  }
+
+  private async getMetric(userId: string, metric: AchievementMetric): Promise<number> {
+    switch (metric) {
+      case 'completedContent':
+        return this.prisma.userContent.count({ where: { userId, status: 'COMPLETED' } });
+
+      case 'episodesWatched':
+        return this.prisma.episodeProgress.count({ where: { userId, watched: true } });
+
+      case 'longestStreak':
+        return this.getLongestStreak(userId);
+
+      case 'casesResearched': {
+        const cases = await this.prisma.contentCaseLink.findMany({
+          where: { content: { userContent: { some: { userId, status: 'COMPLETED' } } } },
+          select: { caseId: true },
+          distinct: ['caseId'],
+        });
+        return cases.length;
+      }
+
+      case 'friends':
+        return this.prisma.friendship.count({
+          where: {
+            status: 'ACCEPTED',
+            OR: [{ requesterId: userId }, { addresseeId: userId }],
+          },
+        });
+
+      case 'challengesCompleted':
+        return this.prisma.challengeParticipant.count({ where: { userId, status: 'COMPLETED' } });
+    }
+  }
+
+  /**
+   * Longest run of consecutive UTC days with a watched episode or completed title
+   */
+  private async getLongestStreak(userId: string): Promise<number> {
+    const [episodes, completions] = await Promise.all([
+      this.prisma.episodeProgress.findMany({
+        where: { userId, watched: true, watchedAt: { not: null } },
+        select: { watchedAt: true },
+      }),
+      this.prisma.userContent.findMany({
+        where: { userId, dateCompleted: { not: null } },
+        select: { dateCompleted: true },
+      }),
+    ]);
+
+    const days = Array.from(
+      new Set(
+        [
+          ...episodes.map(episode => episode.watchedAt),
+          ...completions.map(completion => completion.dateCompleted),
+        ]
+          .filter((date): date is Date => date !== null)
+          .map(date => Math.floor(date.getTime() / DAY_MS))
+      )
+    ).sort((a, b) => a - b);
+
+    let longest = 0;
+    let current = 0;
+
+    days.forEach((day, index) => {
+      current = index > 0 && day === days[index - 1]! + 1 ? current + 1 : 1;
+      longest = Math.max(longest, current);
+    });
+
+    return longest;
+  }
+
+  private rethrow(error: unknown, message: string): never {
+    if (error instanceof TRPCError) {
+      throw error;
+    }
+
+    console.error(`${message}:`, error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message,
+    });
+  }
+}
@@ -0,0 +1,151 @@
+// Activity Feed Service - Friends-only, privacy-aware social activity feed
+import { Prisma, PrismaClient } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import { FriendshipService } from './friendship.service';
+import { afterCursorWhere, decodeCursor, encodeCursor } from '../../utils/cursor';
+import { parsePrivacySettings } from './privacy-settings';
+
+export interface ActivityFeedOptions {
+  cursor?: string | undefined;
+  limit?: number | undefined;
+}
+
+const FEED_INCLUDE = {
+  userProfile: {
+    select: {
+      id: true,
+      userId: true,
+      displayName: true,
+      avatarUrl: true,
+    },
+  },
+  content: {
+    select: {
+      id: true,
+      title: true,
+      posterUrl: true,
+      contentType: true,
+    },
+  },
+  customList: {
+    select: {
+      id: true,
+      title: true,
+      privacy: true,
+    },
+  },
+} as const;
+
+export type FeedActivity = Prisma.SocialActivityGetPayload<{ include: typeof FEED_INCLUDE }>;
+
+export interface ActivityFeedPage {
+  activities: FeedActivity[];
+  nextCursor: string | null;
+}
+
+export class ActivityFeedService {
+  private friendshipService: FriendshipService;
+
+  constructor(private prisma: PrismaClient) {
+    this.friendshipService = new FriendshipService(prisma);
+  }
+
+  /**
+   * Activities from the user's accepted friends, most recently active first.
+   * Authors who hide their activity, private lists and anything involving
+   * blocked users are left out.
+   */
+  async getFeed(userId: string, options: ActivityFeedOptions = {}): Promise<ActivityFeedPage> {
+    const limit = options.limit ?? 20;
+    const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+
+    if (options.cursor && !cursor) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Invalid cursor',
+      });
+    }
+
+    const [friendIds, blockedIds] = await Promise.all([
+      this.friendshipService.getFriendIds(userId),
+      this.friendshipService.getBlockedUserIds(userId),
+    ]);
+
+    const visibleAuthorIds = await this.getVisibleAuthorIds(
+      friendIds.filter(id => !blockedIds.includes(id))
+    );
+
+    if (visibleAuthorIds.length === 0) {
+      return { activities: [], nextCursor: null };
+    }
+
+    const conditions: Prisma.SocialActivityWhereInput[] = [
+      { userId: { in: visibleAuthorIds } },
+      // Keep activities without a list, or about non-private lists not owned by a blocked user
+      {
+        OR: [
+          { listId: null },
+          {
+            customList: {
+              privacy: { not: 'PRIVATE' },
+              userId: { notIn: blockedIds },
+            },
+          },
+        ],
+      },
+    ];
+
+    // Drop activities on content that blocked users are tracking
+    if (blockedIds.length > 0) {
+      conditions.push({
+        OR: [
+          { contentId: null },
+          {
+            content: { userContent: { none: { userId: { in: blockedIds } } } },
+          },
+        ],
+      });
+    }
+
+    if (cursor) {
+      conditions.push(afterCursorWhere('lastActivityAt', cursor));
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const rows = await this.prisma.socialActivity.findMany({
+      where: { AND: conditions },
+      take: limit + 1,
+      orderBy: [{ lastActivityAt: 'desc' }, { id: 'desc' }],
+      include: FEED_INCLUDE,
+    });
+
+    const activities = rows.slice(0, limit);
+    const last = activities[activities.length - 1];
+
+    return {
+      activities,
+      nextCursor:
+        rows.length > limit && last
+          ? encodeCursor({ timestamp: last.lastActivityAt, id: last.id })
+          : null,
+    };
+  }
+
+  /**
+   * Authors whose privacy settings allow their activity to be shown
+   */
+  private async getVisibleAuthorIds(userIds: string[]): Promise<string[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const profiles = await this.prisma.userProfile.findMany({
+      where: { userId: { in: userIds } },
+      select: { userId: true, privacySettings: true },
+    });
+
+    return profiles
+      .filter(profile => parsePrivacySettings(profile.privacySettings).activityVisible)
+      .map(profile => profile.userId);
+  }
+}
@@ -0,0 +1,259 @@
+// Activity Recorder Service - Central writer for SocialActivity rows
+import { Prisma, PrismaClient, SocialActivity } from '@prisma/client';
+
+export const ACTIVITY_TYPES = {
+  STARTED: 'started',
+  COMPLETED: 'completed',
+  RATED: 'rated',
+  WATCHED_EPISODES: 'watched_episodes',
+  FINISHED_SEASON: 'finished_season',
+  ADDED_TO_LIST: 'added_to_list',
+  CREATED_LIST: 'created_list',
+  EARNED_ACHIEVEMENT: 'earned_achievement',
+} as const;
+
+export type ActivityType = (typeof ACTIVITY_TYPES)[keyof typeof ACTIVITY_TYPES];
+
+export interface EpisodeRef {
+  seasonNumber: number;
+  episodeNumber: number;
+}
+
+// activityData payload stored for each activity type
+export interface ActivityPayloads {
+  started: { platform?: string };
+  completed: { rating?: number };
+  rated: { rating: number; previousRating?: number };
+  watched_episodes: { count: number; episodes: EpisodeRef[] };
+  finished_season: { seasonNumber: number; episodeCount: number };
+  added_to_list: { listTitle: string; count: number; contentIds: string[] };
+  created_list: { listTitle: string; privacy: string; itemCount: number };
+  earned_achievement: { achievementId: string; achievementName: string };
+}
+
+export interface ActivityTarget {
+  contentId?: string | undefined;
+  listId?: string | undefined;
+}
+
+interface ActivityDefinition<T extends ActivityType> {
+  // Which target identifies "the same" activity when coalescing
+  scope: 'content' | 'list' | 'user';
+  // Payload field that makes the activity a one-off, e.g. a given season or achievement
+  identity?: keyof ActivityPayloads[T];
+  // Combine a recent activity with a new one; null keeps them separate
+  merge: (previous: ActivityPayloads[T], next: ActivityPayloads[T]) => ActivityPayloads[T] | null;
+}
+
+// Activities of the same type and target within this window are folded into one row
+export const ACTIVITY_COALESCE_WINDOW_MS = 30 * 60 * 1000;
+
+const keepPrevious = <P>(previous: P): P => previous;
+
+const ACTIVITY_DEFINITIONS: { [T in ActivityType]: ActivityDefinition<T> } = {
+  started: { scope: 'content', merge: keepPrevious },
+  completed: { scope: 'content', merge: (_previous, next) => next },
+  rated: {
+    scope: 'content',
+    merge: (previous, next) => ({
+      rating: next.rating,
+      ...(previous.previousRating !== undefined && { previousRating: previous.previousRating }),
+    }),
+  },
+  watched_episodes: {
+    scope: 'content',
+    merge: (previous, next) => {
+      const episodes = uniqueEpisodes([...previous.episodes, ...next.episodes]);
+      return { count: episodes.length, episodes };
+    },
+  },
+  finished_season: { scope: 'content', identity: 'seasonNumber', merge: keepPrevious },
+  added_to_list: {
+    scope: 'list',
+    merge: (previous, next) => {
+      const contentIds = Array.from(new Set([...previous.contentIds, ...next.contentIds]));
+      return { listTitle: next.listTitle, count: contentIds.length, contentIds };
+    },
+  },
+  created_list: { scope: 'list', merge: keepPrevious },
+  earned_achievement: { scope: 'user', identity: 'achievementId', merge: keepPrevious },
+};
+
+function uniqueEpisodes(episodes: EpisodeRef[]): EpisodeRef[] {
+  const byKey = new Map(episodes.map(ep => [`${ep.seasonNumber}:${ep.episodeNumber}`, ep]));
+  return Array.from(byKey.values()).sort(
+    (a, b) => a.seasonNumber - b.seasonNumber || a.episodeNumber - b.episodeNumber
+  );
+}
+
+export class ActivityRecorderService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Record an activity for the user, folding it into a matching recent entry
+   * when possible. Failures are logged rather than thrown so they never break
+   * the action that triggered them.
+   */
+  async record<T extends ActivityType>(
+    userId: string,
+    activityType: T,
+    payload: ActivityPayloads[T],
+    target: ActivityTarget = {}
+  ): Promise<SocialActivity | null> {
+    const definition = ACTIVITY_DEFINITIONS[activityType] as ActivityDefinition<T>;
+
+    try {
+      const existing = await this.findCoalescable(userId, activityType, payload, target);
+
+      if (existing) {
+        const merged = definition.merge(existing.activityData as ActivityPayloads[T], payload);
+
+        if (merged === existing.activityData) {
+          return existing;
+        }
+
+        if (merged) {
+          return await this.prisma.socialActivity.update({
+            where: { id: existing.id },
+            data: {
+              activityData: merged as Prisma.InputJsonValue,
+              lastActivityAt: new Date(),
+            },
+          });
+        }
+      }
+
+      return await this.prisma.socialActivity.create({
+        data: {
+          userId,
+          activityType,
+          contentId: target.contentId ?? null,
+          listId: target.listId ?? null,
+          activityData: payload as Prisma.InputJsonValue,
+        },
+      });
+    } catch (error) {
+      console.error(`Failed to record ${activityType} activity:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Record started/completed/rated activities for a tracking change and return the
+   * rows written. Only transitions are recorded, so re-saving the same status is a no-op.
+   */
+  async recordTrackingChange(
+    userId: string,
+    contentId: string,
+    change: {
+      status: string;
+      previousStatus?: string | null | undefined;
+      rating?: number | null | undefined;
+      previousRating?: number | null | undefined;
+      platform?: string | null | undefined;
+    }
+  ): Promise<SocialActivity[]> {
+    const statusChanged = change.status !== change.previousStatus;
+    const rated = change.rating != null && change.rating !== change.previousRating;
+    const recorded: Array<SocialActivity | null> = [];
+
+    if (statusChanged && change.status === 'WATCHING') {
+      recorded.push(
+        await this.record(
+          userId,
+          ACTIVITY_TYPES.STARTED,
+          change.platform ? { platform: change.platform } : {},
+          { contentId }
+        )
+      );
+    }
+
+    if (statusChanged && change.status === 'COMPLETED') {
+      recorded.push(
+        await this.record(
+          userId,
+          ACTIVITY_TYPES.COMPLETED,
+          rated ? { rating: change.rating! } : {},
+          { contentId }
+        )
+      );
+    }
+
+    if (rated) {
+      recorded.push(
+        await this.record(
+          userId,
+          ACTIVITY_TYPES.RATED,
+          {
+            rating: change.rating!,
+            ...(change.previousRating != null && { previousRating: change.previousRating }),
+          },
+          { contentId }
+        )
+      );
+    }
+
+    return recorded.filter((activity): activity is SocialActivity => activity !== null);
+  }
+
+  /**
+   * Record a batch of newly watched episodes, grouped per content
+   */
+  async recordEpisodesWatched(
+    userId: string,
+    episodes: Array<EpisodeRef & { contentId: string }>
+  ): Promise<void> {
+    const byContent = new Map<string, EpisodeRef[]>();
+
+    for (const { contentId, seasonNumber, episodeNumber } of episodes) {
+      byContent.set(contentId, [
+        ...(byContent.get(contentId) ?? []),
+        { seasonNumber, episodeNumber },
+      ]);
+    }
+
+    for (const [contentId, refs] of byContent) {
+      const unique = uniqueEpisodes(refs);
+      await this.record(
+        userId,
+        ACTIVITY_TYPES.WATCHED_EPISODES,
+        { count: unique.length, episodes: unique },
+        { contentId }
+      );
+    }
+  }
+
+  /**
+   * Latest activity this one should be folded into, if any. One-off activities
+   * (identity field set) match regardless of age; others only within the window.
+   */
+  private async findCoalescable<T extends ActivityType>(
+    userId: string,
+    activityType: T,
+    payload: ActivityPayloads[T],
+    target: ActivityTarget
+  ): Promise<SocialActivity | null> {
+    const definition = ACTIVITY_DEFINITIONS[activityType] as ActivityDefinition<T>;
+    const where: Prisma.SocialActivityWhereInput = { userId, activityType };
+
+    if (definition.scope === 'content') {
+      where.contentId = target.contentId ?? null;
+    } else if (definition.scope === 'list') {
+      where.listId = target.listId ?? null;
+    }
+
+    if (definition.identity) {
+      where.activityData = {
+        path: [definition.identity as string],
+        equals: payload[definition.identity] as Prisma.InputJsonValue,
+      };
+    } else {
+      where.lastActivityAt = { gte: new Date(Date.now() - ACTIVITY_COALESCE_WINDOW_MS) };
+    }
+
+    return this.prisma.socialActivity.findFirst({
+      where,
+      orderBy: { lastActivityAt: 'desc' },
+    });
+  }
+}
@@ -0,0 +1,688 @@
+// Challenge Service - Community challenges, participation and leaderboards
+import { PrismaClient, ChallengeType, Prisma } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import { AchievementService } from './achievement.service';
+import { NotificationService } from '../notification/notification.service';
+
+export type ChallengePhase = 'upcoming' | 'active' | 'past';
+
+export interface ChallengeListOptions {
+  phase?: ChallengePhase | undefined;
+  challengeType?: ChallengeType | undefined;
+  page?: number | undefined;
+  limit?: number | undefined;
+}
+
+export interface ChallengeContentInput {
+  contentId: string;
+  isRequired?: boolean | undefined;
+  points?: number | undefined;
+}
+
+export interface CreateChallengeInput {
+  title: string;
+  description?: string | undefined;
+  challengeType: ChallengeType;
+  startDate: Date;
+  endDate: Date;
+  targetCount?: number | undefined;
+  rules?: Record<string, unknown> | undefined;
+  rewards?: Record<string, unknown> | undefined;
+  content?: ChallengeContentInput[] | undefined;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  userId: string;
+  displayName: string | null;
+  avatarUrl: string | null;
+  totalPoints: number;
+  completedCount: number;
+  status: string;
+}
+
+// Points awarded for challenge content that doesn't set its own
+export const DEFAULT_CHALLENGE_POINTS = 10;
+
+// Participants in these states are still competing
+const ACTIVE_PARTICIPANT_STATUSES = ['JOINED', 'ACTIVE'] as const;
+
+const CONTENT_SELECT = {
+  id: true,
+  title: true,
+  posterUrl: true,
+  contentType: true,
+  releaseDate: true,
+} as const;
+
+const PARTICIPATION_SELECT = { status: true, totalPoints: true, completedCount: true } as const;
+
+// A listed challenge; participants holds the signed-in user's own participation, if any
+type ChallengeListRow = Prisma.ChallengeGetPayload<{
+  include: { _count: { select: { challengeContent: true; participants: true } } };
+}> &
+  Partial<
+    Pick<
+      Prisma.ChallengeGetPayload<{
+        include: { participants: { select: typeof PARTICIPATION_SELECT } };
+      }>,
+      'participants'
+    >
+  >;
+
+export class ChallengeService {
+  private achievementService: AchievementService;
+  private notifications: NotificationService;
+
+  constructor(private prisma: PrismaClient) {
+    this.achievementService = new AchievementService(prisma);
+    this.notifications = new NotificationService(prisma);
+  }
+
+  /**
+   * List challenges by phase. Phases are derived from the date range so they
+   * stay correct even if the stored status hasn't been rolled over yet.
+   */
+  async listChallenges(userId: string | undefined, options: ChallengeListOptions = {}) {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? 20;
+    const where: Prisma.ChallengeWhereInput = {
+      ...this.phaseWhere(options.phase ?? 'active'),
+      ...(options.challengeType && { challengeType: options.challengeType }),
+    };
+
+    try {
+      const [challenges, total] = await Promise.all([
+        this.prisma.challenge.findMany({
+          where,
+          orderBy: { startDate: options.phase === 'past' ? 'desc' : 'asc' },
+          skip: (page - 1) * limit,
+          take: limit,
+          include: {
+            _count: {
+              select: {
+                challengeContent: true,
+                participants: { where: { status: { not: 'WITHDRAWN' } } },
+              },
+            },
+            ...(userId && {
+              participants: {
+                where: { userId },
+                select: PARTICIPATION_SELECT,
+              },
+            }),
+          },
+        }),
+        this.prisma.challenge.count({ where }),
+      ]);
+
+      return {
+        challenges: challenges.map(({ _count, participants, ...challenge }: ChallengeListRow) => ({
+          ...challenge,
+          phase: this.getPhase(challenge),
+          contentCount: _count.challengeContent,
+          participantCount: _count.participants,
+          participation: participants?.[0] ?? null,
+        })),
+        total,
+      };
+    } catch (error) {
+      this.rethrow(error, 'Failed to list challenges');
+    }
+  }
+
+  /**
+   * Challenge detail with required and optional content. Signed-in users also
+   * get their own participation and per-content progress.
+   */
+  async getChallenge(challengeId: string, userId?: string) {
+    try {
+      const challenge = await this.prisma.challenge.findUnique({
+        where: { id: challengeId },
+        include: {
+          challengeContent: {
+            include: { content: { select: CONTENT_SELECT } },
+          },
+          _count: {
+            select: { participants: { where: { status: { not: 'WITHDRAWN' } } } },
+          },
+        },
+      });
+
+      if (!challenge) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Challenge not found',
+        });
+      }
+
+      const participation = userId
+        ? await this.prisma.challengeParticipant.findUnique({
+            where: { challengeId_userId: { challengeId, userId } },
+            include: { progress: true },
+          })
+        : null;
+
+      const completedIds = new Set(
+        participation?.progress.filter(p => p.completed).map(p => p.contentId) ?? []
+      );
+
+      const { challengeContent, _count, ...rest } = challenge;
+      const items = challengeContent.map(item => ({
+        content: item.content,
+        isRequired: item.isRequired,
+        points: item.points ?? DEFAULT_CHALLENGE_POINTS,
+        completed: completedIds.has(item.contentId),
+      }));
+
+      return {
+        ...rest,
+        phase: this.getPhase(challenge),
+        participantCount: _count.participants,
+        requiredContent: items.filter(item => item.isRequired),
+        optionalContent: items.filter(item => !item.isRequired),
+        participation: participation
+          ? {
+              status: participation.status,
+              totalPoints: participation.totalPoints,
+              completedCount: participation.completedCount,
+              joinedAt: participation.joinedAt,
+              completedAt: participation.completedAt,
+            }
+          : null,
+      };
+    } catch (error) {
+      this.rethrow(error, 'Failed to fetch challenge');
+    }
+  }
+
+  /**
+   * Join a challenge, or rejoin after withdrawing. Content the user already
+   * completed during the challenge window counts straight away.
+   */
+  async join(userId: string, challengeId: string) {
+    try {
+      const challenge = await this.prisma.challenge.findUnique({
+        where: { id: challengeId },
+      });
+
+      if (!challenge) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Challenge not found',
+        });
+      }
+
+      if (challenge.status === 'CANCELLED' || this.getPhase(challenge) === 'past') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'This challenge is no longer open',
+        });
+      }
+
+      const existing = await this.prisma.challengeParticipant.findUnique({
+        where: { challengeId_userId: { challengeId, userId } },
+      });
+
+      if (existing && existing.status !== 'WITHDRAWN') {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'You have already joined this challenge',
+        });
+      }
+
+      const participant = await this.prisma.challengeParticipant.upsert({
+        where: { challengeId_userId: { challengeId, userId } },
+        update: { status: 'JOINED', joinedAt: new Date() },
+        create: { challengeId, userId },
+      });
+
+      const alreadyCompleted = await this.prisma.userContent.findMany({
+        where: {
+          userId,
+          status: 'COMPLETED',
+          dateCompleted: { gte: challenge.startDate, lte: challenge.endDate },
+          content: { challengeContent: { some: { challengeId } } },
+        },
+        select: { contentId: true, dateCompleted: true },
+      });
+
+      for (const { contentId, dateCompleted } of alreadyCompleted) {
+        await this.recordProgress(participant.id, challengeId, contentId, dateCompleted);
+      }
+
+      return alreadyCompleted.length > 0
+        ? await this.updateParticipantTotals(participant.id, challenge)
+        : participant;
+    } catch (error) {
+      this.rethrow(error, 'Failed to join challenge');
+    }
+  }
+
+  /**
+   * Withdraw from a challenge. Progress is kept in case the user rejoins.
+   */
+  async withdraw(userId: string, challengeId: string) {
+    try {
+      const participant = await this.prisma.challengeParticipant.findUnique({
+        where: { challengeId_userId: { challengeId, userId } },
+      });
+
+      if (!participant || participant.status === 'WITHDRAWN') {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'You are not participating in this challenge',
+        });
+      }
+
+      return await this.prisma.challengeParticipant.update({
+        where: { id: participant.id },
+        data: { status: 'WITHDRAWN' },
+      });
+    } catch (error) {
+      this.rethrow(error, 'Failed to withdraw from challenge');
+    }
+  }
+
+  /**
+   * Participants ranked by total points, then completed count, then who joined first
+   */
+  async getLeaderboard(
+    challengeId: string,
+    options: { page?: number | undefined; limit?: number | undefined } = {}
+  ): Promise<{ entries: LeaderboardEntry[]; total: number }> {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? 50;
+    const where = { challengeId, status: { not: 'WITHDRAWN' as const } };
+
+    try {
+      const [participants, total] = await Promise.all([
+        this.prisma.challengeParticipant.findMany({
+          where,
+          orderBy: [{ totalPoints: 'desc' }, { completedCount: 'desc' }, { joinedAt: 'asc' }],
+          skip: (page - 1) * limit,
+          take: limit,
+          include: {
+            userProfile: {
+              select: { displayName: true, avatarUrl: true },
+            },
+          },
+        }),
+        this.prisma.challengeParticipant.count({ where }),
+      ]);
+
+      return {
+        entries: participants.map((participant, index) => ({
+          rank: (page - 1) * limit + index + 1,
+          userId: participant.userId,
+          displayName: participant.userProfile.displayName,
+          avatarUrl: participant.userProfile.avatarUrl,
+          totalPoints: participant.totalPoints,
+          completedCount: participant.completedCount,
+          status: participant.status,
+        })),
+        total,
+      };
+    } catch (error) {
+      this.rethrow(error, 'Failed to fetch leaderboard');
+    }
+  }
+
+  /**
+   * Create a challenge with its initial content (admin)
+   */
+  async createChallenge(createdBy: string, input: CreateChallengeInput) {
+    if (input.endDate <= input.startDate) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Challenge must end after it starts',
+      });
+    }
+
+    try {
+      const now = new Date();
+
+      return await this.prisma.challenge.create({
+        data: {
+          title: input.title,
+          description: input.description ?? null,
+          challengeType: input.challengeType,
+          status: input.startDate <= now ? 'ACTIVE' : 'UPCOMING',
+          startDate: input.startDate,
+          endDate: input.endDate,
+          targetCount: input.targetCount ?? null,
+          ...(input.rules && { rules: input.rules as Prisma.InputJsonValue }),
+          ...(input.rewards && { rewards: input.rewards as Prisma.InputJsonValue }),
+          createdBy,
+          challengeContent: {
+            create: (input.content ?? []).map(item => ({
+              contentId: item.contentId,
+              isRequired: item.isRequired ?? false,
+              points: item.points ?? null,
+            })),
+          },
+        },
+        include: { challengeContent: true },
+      });
+    } catch (error) {
+      this.rethrow(error, 'Failed to create challenge');
+    }
+  }
+
+  /**
+   * Attach content to a challenge, updating required/points for content already attached (admin)
+   */
+  async attachContent(challengeId: string, items: ChallengeContentInput[]) {
+    try {
+      const challenge = await this.prisma.challenge.findUnique({
+        where: { id: challengeId },
+        select: { id: true },
+      });
+
+      if (!challenge) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Challenge not found',
+        });
+      }
+
+      return await this.prisma.$transaction(
+        items.map(item =>
+          this.prisma.challengeContent.upsert({
+            where: { challengeId_contentId: { challengeId, contentId: item.contentId } },
+            update: {
+              ...(item.isRequired !== undefined && { isRequired: item.isRequired }),
+              ...(item.points !== undefined && { points: item.points }),
+            },
+            create: {
+              challengeId,
+              contentId: item.contentId,
+              isRequired: item.isRequired ?? false,
+              points: item.points ?? null,
+            },
+          })
+        )
+      );
+    } catch (error) {
+      this.rethrow(error, 'Failed to attach challenge content');
+    }
+  }
+
+  /**
+   * Remove content from a challenge (admin)
+   */
+  async detachContent(challengeId: string, contentIds: string[]) {
+    try {
+      const { count } = await this.prisma.challengeContent.deleteMany({
+        where: { challengeId, contentId: { in: contentIds } },
+      });
+
+      return { removed: count };
+    } catch (error) {
+      this.rethrow(error, 'Failed to detach challenge content');
+    }
+  }
+
+  /**
+   * Roll upcoming challenges whose start date has passed over to active and tell
+   * their participants. Each challenge is claimed before anyone is notified, so
+   * overlapping runs announce it once. Returns the number of challenges started.
+   */
+  async startDueChallenges(now: Date = new Date()): Promise<number> {
+    const due = await this.prisma.challenge.findMany({
+      where: { status: 'UPCOMING', startDate: { lte: now } },
+      select: { id: true, title: true, endDate: true },
+      orderBy: { startDate: 'asc' },
+    });
+    let started = 0;
+
+    for (const challenge of due) {
+      const claimed = await this.prisma.challenge.updateMany({
+        where: { id: challenge.id, status: 'UPCOMING' },
+        data: { status: 'ACTIVE' },
+      });
+
+      // Another run got there first, or the challenge ended before it was rolled over
+      if (claimed.count === 0 || challenge.endDate <= now) {
+        continue;
+      }
+
+      started++;
+      const participants = await this.prisma.challengeParticipant.findMany({
+        where: { challengeId: challenge.id, status: { in: [...ACTIVE_PARTICIPANT_STATUSES] } },
+        select: { userId: true },
+      });
+
+      for (const { userId } of participants) {
+        await this.notifications.challengeStarting(userId, {
+          challengeId: challenge.id,
+          challengeTitle: challenge.title,
+        });
+      }
+    }
+
+    return started;
+  }
+
+  /**
+   * Credit a completed piece of content to every active challenge the user is
+   * in that includes it. Returns the participant rows that changed.
+   */
+  async recordCompletion(userId: string, contentId: string, completedAt: Date = new Date()) {
+    try {
+      const participants = await this.prisma.challengeParticipant.findMany({
+        where: {
+          userId,
+          status: { in: [...ACTIVE_PARTICIPANT_STATUSES] },
+          challenge: {
+            status: { not: 'CANCELLED' },
+            startDate: { lte: completedAt },
+            endDate: { gte: completedAt },
+            challengeContent: { some: { contentId } },
+          },
+        },
+        include: { challenge: true },
+      });
+
+      const updated = [];
+
+      for (const participant of participants) {
+        const credited = await this.recordProgress(
+          participant.id,
+          participant.challengeId,
+          contentId,
+          completedAt
+        );
+
+        if (credited) {
+          updated.push(await this.updateParticipantTotals(participant.id, participant.challenge));
+        }
+      }
+
+      return updated;
+    } catch (error) {
+      this.rethrow(error, 'Failed to update challenge progress');
+    }
+  }
+
+  /**
+   * Take back credit recordCompletion gave the listed participations, e.g. when the
+   * completion is undone. Without a list, every running challenge that includes the
+   * content loses it, for when the user moves the title off Completed. Withdrawn
+   * participations are left as they are.
+   */
+  async revokeCompletion(userId: string, contentId: string, participantIds?: string[]) {
+    try {
+      const participants = await this.prisma.challengeParticipant.findMany({
+        where: {
+          ...(participantIds
+            ? { id: { in: participantIds } }
+            : {
+                challenge: {
+                  status: { not: 'CANCELLED' },
+                  endDate: { gte: new Date() },
+                  challengeContent: { some: { contentId } },
+                },
+              }),
+          userId,
+          status: { not: 'WITHDRAWN' },
+        },
+        include: { challenge: true },
+      });
+
+      const updated = [];
+
+      for (const participant of participants) {
+        const revoked = await this.prisma.challengeProgress.updateMany({
+          where: { participantId: participant.id, contentId, completed: true },
+          data: { completed: false, completedAt: null },
+        });
+
+        if (revoked.count > 0) {
+          updated.push(await this.updateParticipantTotals(participant.id, participant.challenge));
+        }
+      }
+
+      return updated;
+    } catch (error) {
+      this.rethrow(error, 'Failed to update challenge progress');
+    }
+  }
+
+  /**
+   * Mark one piece of challenge content completed. Returns false if it already was.
+   */
+  private async recordProgress(
+    participantId: string,
+    challengeId: string,
+    contentId: string,
+    completedAt: Date | null
+  ): Promise<boolean> {
+    const existing = await this.prisma.challengeProgress.findUnique({
+      where: { participantId_contentId: { participantId, contentId } },
+    });
+
+    if (existing?.completed) {
+      return false;
+    }
+
+    const challengeContent = await this.prisma.challengeContent.findUnique({
+      where: { challengeId_contentId: { challengeId, contentId } },
+      select: { points: true },
+    });
+
+    const data = {
+      completed: true,
+      completedAt: completedAt ?? new Date(),
+      points: challengeContent?.points ?? DEFAULT_CHALLENGE_POINTS,
+    };
+
+    await this.prisma.challengeProgress.upsert({
+      where: { participantId_contentId: { participantId, contentId } },
+      update: data,
+      create: { participantId, contentId, ...data },
+    });
+
+    return true;
+  }
+
+  /**
+   * Recalculate a participant's totals from their progress rows and mark them
+   * completed once every required item is done and the target count is met.
+   */
+  private async updateParticipantTotals(
+    participantId: string,
+    challenge: { id: string; targetCount: number | null }
+  ) {
+    const { participant, newlyCompleted } = await this.prisma.$transaction(async tx => {
+      const [current, totals, requiredRemaining] = await Promise.all([
+        tx.challengeParticipant.findUniqueOrThrow({
+          where: { id: participantId },
+          select: { completedAt: true },
+        }),
+        tx.challengeProgress.aggregate({
+          where: { participantId, completed: true },
+          _count: { _all: true },
+          _sum: { points: true },
+        }),
+        tx.challengeContent.count({
+          where: {
+            challengeId: challenge.id,
+            isRequired: true,
+            content: {
+              challengeProgress: { none: { participantId, completed: true } },
+            },
+          },
+        }),
+      ]);
+
+      const completedCount = totals._count._all;
+      const finished =
+        requiredRemaining === 0 && completedCount >= Math.max(challenge.targetCount ?? 0, 1);
+
+      const updated = await tx.challengeParticipant.update({
+        where: { id: participantId },
+        data: {
+          completedCount,
+          totalPoints: totals._sum.points ?? 0,
+          status: finished ? 'COMPLETED' : 'ACTIVE',
+          completedAt: finished ? (current.completedAt ?? new Date()) : null,
+        },
+      });
+
+      return { participant: updated, newlyCompleted: finished && !current.completedAt };
+    });
+
+    if (newlyCompleted) {
+      await this.achievementService.handleEvent(participant.userId, {
+        type: 'challenge_completed',
+        challengeId: challenge.id,
+      });
+    }
+
+    return participant;
+  }
+
+  private phaseWhere(phase: ChallengePhase): Prisma.ChallengeWhereInput {
+    const now = new Date();
+
+    switch (phase) {
+      case 'upcoming':
+        return { status: { not: 'CANCELLED' }, startDate: { gt: now } };
+      case 'active':
+        return {
+          status: { notIn: ['CANCELLED', 'COMPLETED'] },
+          startDate: { lte: now },
+          endDate: { gt: now },
+        };
+      case 'past':
+        return { OR: [{ endDate: { lte: now } }, { status: { in: ['COMPLETED', 'CANCELLED'] } }] };
+    }
+  }
+
+  private getPhase(challenge: { status: string; startDate: Date; endDate: Date }): ChallengePhase {
+    const now = new Date();
+
+    if (
+      challenge.status === 'COMPLETED' ||
+      challenge.status === 'CANCELLED' ||
+      challenge.endDate <= now
+    ) {
+      return 'past';
+    }
+
+    return challenge.startDate > now ? 'upcoming' : 'active';
+  }
+
+  private rethrow(error: unknown, message: string): never {
+    if (error instanceof TRPCError) {
+      throw error;
+    }
+
+    console.error(`${message}:`, error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message,
+    });
+  }
+}
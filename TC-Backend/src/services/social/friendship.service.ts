@@ -0,0 +1,567 @@
+// Friendship Service - Friend requests, blocking and friend lists
+import { PrismaClient, Friendship } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import { NotificationService } from '../notification/notification.service';
+import { AchievementService } from './achievement.service';
+import { parsePrivacySettings } from './privacy-settings';
+
+export interface FriendProfile {
+  userId: string;
+  displayName: string | null;
+  avatarUrl: string | null;
+}
+
+export interface FriendRequest {
+  id: string;
+  user: FriendProfile;
+  mutualFriendsCount: number;
+  createdAt: Date;
+}
+
+export interface FriendListEntry {
+  friendshipId: string;
+  user: FriendProfile;
+  friendsSince: Date;
+}
+
+// Notification types written for friendship actions
+export const FRIENDSHIP_NOTIFICATION_TYPES = {
+  REQUEST_RECEIVED: 'friend_request',
+  REQUEST_ACCEPTED: 'friend_request_accepted',
+  REQUEST_DECLINED: 'friend_request_declined',
+  REQUEST_CANCELLED: 'friend_request_cancelled',
+  FRIEND_REMOVED: 'friend_removed',
+  USER_BLOCKED: 'user_blocked',
+} as const;
+
+const PROFILE_SELECT = {
+  userId: true,
+  displayName: true,
+  avatarUrl: true,
+} as const;
+
+export class FriendshipService {
+  private achievementService: AchievementService;
+  private notifications: NotificationService;
+
+  constructor(private prisma: PrismaClient) {
+    this.achievementService = new AchievementService(prisma);
+    this.notifications = new NotificationService(prisma);
+  }
+
+  /**
+   * Send a friend request. If the other user already asked us, accept theirs instead.
+   */
+  async sendRequest(userId: string, targetUserId: string): Promise<Friendship> {
+    try {
+      if (userId === targetUserId) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'You cannot send a friend request to yourself',
+        });
+      }
+
+      const target = await this.prisma.userProfile.findUnique({
+        where: { userId: targetUserId },
+        select: { ...PROFILE_SELECT, privacySettings: true },
+      });
+
+      if (!target) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'User not found',
+        });
+      }
+
+      const existing = await this.findBetween(userId, targetUserId);
+
+      if (existing?.status === 'BLOCKED') {
+        // Don't reveal which side blocked
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Unable to send friend request to this user',
+        });
+      }
+
+      if (existing?.status === 'ACCEPTED') {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'You are already friends with this user',
+        });
+      }
+
+      if (existing?.status === 'PENDING') {
+        if (existing.requesterId === userId) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: 'Friend request already sent',
+          });
+        }
+
+        return this.acceptRequest(userId, existing.id);
+      }
+
+      if (!parsePrivacySettings(target.privacySettings).allowFriendRequests) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'This user is not accepting friend requests',
+        });
+      }
+
+      const friendship = await this.prisma.friendship.create({
+        data: {
+          requesterId: userId,
+          addresseeId: targetUserId,
+          status: 'PENDING',
+        },
+      });
+
+      const requester = await this.getProfile(userId);
+      await this.notifications.friendRequestReceived(targetUserId, {
+        friendshipId: friendship.id,
+        fromUserId: userId,
+        fromName: this.displayName(requester),
+      });
+
+      return friendship;
+    } catch (error) {
+      this.rethrow(error, 'Failed to send friend request');
+    }
+  }
+
+  /**
+   * Accept a pending request addressed to the user
+   */
+  async acceptRequest(userId: string, friendshipId: string): Promise<Friendship> {
+    try {
+      const request = await this.getIncomingPending(userId, friendshipId);
+
+      const friendship = await this.prisma.friendship.update({
+        where: { id: request.id },
+        data: { status: 'ACCEPTED' },
+      });
+
+      const addressee = await this.getProfile(userId);
+      await this.notifications.notify({
+        type: FRIENDSHIP_NOTIFICATION_TYPES.REQUEST_ACCEPTED,
+        userId: request.requesterId,
+        payload: {
+          friendshipId: friendship.id,
+          fromUserId: userId,
+          fromName: this.displayName(addressee),
+        },
+      });
+
+      await this.achievementService.handleEvent(userId, {
+        type: 'friendship_accepted',
+        friendId: request.requesterId,
+      });
+      await this.achievementService.handleEvent(request.requesterId, {
+        type: 'friendship_accepted',
+        friendId: userId,
+      });
+
+      return friendship;
+    } catch (error) {
+      this.rethrow(error, 'Failed to accept friend request');
+    }
+  }
+
+  /**
+   * Decline a pending request addressed to the user
+   */
+  async declineRequest(userId: string, friendshipId: string): Promise<void> {
+    try {
+      const request = await this.getIncomingPending(userId, friendshipId);
+
+      await this.prisma.friendship.delete({ where: { id: request.id } });
+
+      await this.notifications.notify({
+        type: FRIENDSHIP_NOTIFICATION_TYPES.REQUEST_DECLINED,
+        userId: request.requesterId,
+        payload: { fromUserId: userId },
+      });
+    } catch (error) {
+      this.rethrow(error, 'Failed to decline friend request');
+    }
+  }
+
+  /**
+   * Cancel a pending request the user sent
+   */
+  async cancelRequest(userId: string, friendshipId: string): Promise<void> {
+    try {
+      const request = await this.prisma.friendship.findUnique({ where: { id: friendshipId } });
+
+      if (!request || request.requesterId !== userId || request.status !== 'PENDING') {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Friend request not found',
+        });
+      }
+
+      await this.prisma.friendship.delete({ where: { id: request.id } });
+
+      const requester = await this.getProfile(userId);
+      await this.notifications.notify({
+        type: FRIENDSHIP_NOTIFICATION_TYPES.REQUEST_CANCELLED,
+        userId: request.addresseeId,
+        payload: { fromUserId: userId, fromName: this.displayName(requester) },
+      });
+    } catch (error) {
+      this.rethrow(error, 'Failed to cancel friend request');
+    }
+  }
+
+  /**
+   * Remove an accepted friendship
+   */
+  async unfriend(userId: string, friendUserId: string): Promise<void> {
+    try {
+      const friendship = await this.findBetween(userId, friendUserId);
+
+      if (!friendship || friendship.status !== 'ACCEPTED') {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'You are not friends with this user',
+        });
+      }
+
+      await this.prisma.friendship.delete({ where: { id: friendship.id } });
+
+      const user = await this.getProfile(userId);
+      await this.notifications.notify({
+        type: FRIENDSHIP_NOTIFICATION_TYPES.FRIEND_REMOVED,
+        userId: friendUserId,
+        payload: { fromUserId: userId, fromName: this.displayName(user) },
+      });
+    } catch (error) {
+      this.rethrow(error, 'Failed to remove friend');
+    }
+  }
+
+  /**
+   * Block a user. Replaces any friendship or pending request between the two users.
+   */
+  async block(userId: string, targetUserId: string): Promise<Friendship> {
+    try {
+      if (userId === targetUserId) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'You cannot block yourself',
+        });
+      }
+
+      const target = await this.getProfile(targetUserId);
+      if (!target) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'User not found',
+        });
+      }
+
+      // The blocker is always the requester on a BLOCKED row. If the target already blocked
+      // the user, their block stays and the two blocks are lifted separately.
+      const friendship = await this.prisma.$transaction(async tx => {
+        await tx.friendship.deleteMany({
+          where: {
+            requesterId: targetUserId,
+            addresseeId: userId,
+            status: { in: ['PENDING', 'ACCEPTED'] },
+          },
+        });
+
+        return tx.friendship.upsert({
+          where: {
+            requesterId_addresseeId: { requesterId: userId, addresseeId: targetUserId },
+          },
+          create: { requesterId: userId, addresseeId: targetUserId, status: 'BLOCKED' },
+          update: { status: 'BLOCKED' },
+        });
+      });
+
+      // Confirm to the blocker only; the blocked user is never told
+      await this.notifications.notify({
+        type: FRIENDSHIP_NOTIFICATION_TYPES.USER_BLOCKED,
+        userId,
+        payload: { blockedUserId: targetUserId, blockedName: this.displayName(target) },
+      });
+
+      return friendship;
+    } catch (error) {
+      this.rethrow(error, 'Failed to block user');
+    }
+  }
+
+  /**
+   * Remove a block the user placed
+   */
+  async unblock(userId: string, targetUserId: string): Promise<void> {
+    try {
+      const { count } = await this.prisma.friendship.deleteMany({
+        where: { requesterId: userId, addresseeId: targetUserId, status: 'BLOCKED' },
+      });
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'User is not blocked',
+        });
+      }
+    } catch (error) {
+      this.rethrow(error, 'Failed to unblock user');
+    }
+  }
+
+  /**
+   * List accepted friends
+   */
+  async listFriends(
+    userId: string,
+    options: { page?: number; limit?: number } = {}
+  ): Promise<{ friends: FriendListEntry[]; total: number }> {
+    const { page = 1, limit = 50 } = options;
+    const where = {
+      status: 'ACCEPTED' as const,
+      OR: [{ requesterId: userId }, { addresseeId: userId }],
+    };
+
+    try {
+      const [friendships, total] = await Promise.all([
+        this.prisma.friendship.findMany({
+          where,
+          skip: (page - 1) * limit,
+          take: limit,
+          orderBy: { updatedAt: 'desc' },
+          include: {
+            requester: { select: PROFILE_SELECT },
+            addressee: { select: PROFILE_SELECT },
+          },
+        }),
+        this.prisma.friendship.count({ where }),
+      ]);
+
+      return {
+        friends: friendships.map(friendship => ({
+          friendshipId: friendship.id,
+          user: friendship.requesterId === userId ? friendship.addressee : friendship.requester,
+          friendsSince: friendship.updatedAt,
+        })),
+        total,
+      };
+    } catch (error) {
+      this.rethrow(error, 'Failed to retrieve friends');
+    }
+  }
+
+  /**
+   * Pending requests other users sent to the user
+   */
+  async listIncomingRequests(userId: string): Promise<FriendRequest[]> {
+    try {
+      const requests = await this.prisma.friendship.findMany({
+        where: { addresseeId: userId, status: 'PENDING' },
+        orderBy: { createdAt: 'desc' },
+        include: { requester: { select: PROFILE_SELECT } },
+      });
+
+      return this.withMutualCounts(
+        userId,
+        requests.map(request => ({
+          id: request.id,
+          user: request.requester,
+          createdAt: request.createdAt,
+        }))
+      );
+    } catch (error) {
+      this.rethrow(error, 'Failed to retrieve incoming friend requests');
+    }
+  }
+
+  /**
+   * Pending requests the user sent
+   */
+  async listOutgoingRequests(userId: string): Promise<FriendRequest[]> {
+    try {
+      const requests = await this.prisma.friendship.findMany({
+        where: { requesterId: userId, status: 'PENDING' },
+        orderBy: { createdAt: 'desc' },
+        include: { addressee: { select: PROFILE_SELECT } },
+      });
+
+      return this.withMutualCounts(
+        userId,
+        requests.map(request => ({
+          id: request.id,
+          user: request.addressee,
+          createdAt: request.createdAt,
+        }))
+      );
+    } catch (error) {
+      this.rethrow(error, 'Failed to retrieve outgoing friend requests');
+    }
+  }
+
+  /**
+   * Users the user has blocked
+   */
+  async listBlocked(userId: string): Promise<FriendProfile[]> {
+    try {
+      const blocked = await this.prisma.friendship.findMany({
+        where: { requesterId: userId, status: 'BLOCKED' },
+        orderBy: { updatedAt: 'desc' },
+        include: { addressee: { select: PROFILE_SELECT } },
+      });
+
+      return blocked.map(friendship => friendship.addressee);
+    } catch (error) {
+      this.rethrow(error, 'Failed to retrieve blocked users');
+    }
+  }
+
+  /**
+   * Friends two users have in common. Not available between users where either blocked the other.
+   */
+  async getMutualFriends(
+    userId: string,
+    otherUserId: string
+  ): Promise<{ count: number; friends: FriendProfile[] }> {
+    try {
+      const blockedIds = await this.getBlockedUserIds(userId);
+      if (blockedIds.includes(otherUserId)) {
+        // Don't reveal which side blocked
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Unable to view mutual friends with this user',
+        });
+      }
+
+      const [mine, theirs] = await Promise.all([
+        this.getFriendIds(userId),
+        this.getFriendIds(otherUserId),
+      ]);
+
+      const theirSet = new Set(theirs);
+      const mutualIds = mine.filter(id => theirSet.has(id));
+
+      const friends = await this.prisma.userProfile.findMany({
+        where: { userId: { in: mutualIds.slice(0, 20) } },
+        select: PROFILE_SELECT,
+      });
+
+      return { count: mutualIds.length, friends };
+    } catch (error) {
+      this.rethrow(error, 'Failed to retrieve mutual friends');
+    }
+  }
+
+  /**
+   * IDs of the user's accepted friends
+   */
+  async getFriendIds(userId: string): Promise<string[]> {
+    const friendships = await this.prisma.friendship.findMany({
+      where: {
+        status: 'ACCEPTED',
+        OR: [{ requesterId: userId }, { addresseeId: userId }],
+      },
+      select: { requesterId: true, addresseeId: true },
+    });
+
+    return friendships.map(friendship =>
+      friendship.requesterId === userId ? friendship.addresseeId : friendship.requesterId
+    );
+  }
+
+  /**
+   * IDs of users the user blocked or was blocked by
+   */
+  async getBlockedUserIds(userId: string): Promise<string[]> {
+    const blocks = await this.prisma.friendship.findMany({
+      where: {
+        status: 'BLOCKED',
+        OR: [{ requesterId: userId }, { addresseeId: userId }],
+      },
+      select: { requesterId: true, addresseeId: true },
+    });
+
+    return blocks.map(block =>
+      block.requesterId === userId ? block.addresseeId : block.requesterId
+    );
+  }
+
+  /**
+   * Check whether two users are accepted friends
+   */
+  async areFriends(userId: string, otherUserId: string): Promise<boolean> {
+    const friendship = await this.findBetween(userId, otherUserId);
+    return friendship?.status === 'ACCEPTED';
+  }
+
+  private async findBetween(userId: string, otherUserId: string): Promise<Friendship | null> {
+    return this.prisma.friendship.findFirst({
+      where: {
+        OR: [
+          { requesterId: userId, addresseeId: otherUserId },
+          { requesterId: otherUserId, addresseeId: userId },
+        ],
+      },
+    });
+  }
+
+  private async getIncomingPending(userId: string, friendshipId: string): Promise<Friendship> {
+    const request = await this.prisma.friendship.findUnique({ where: { id: friendshipId } });
+
+    if (!request || request.addresseeId !== userId || request.status !== 'PENDING') {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Friend request not found',
+      });
+    }
+
+    return request;
+  }
+
+  private async withMutualCounts(
+    userId: string,
+    requests: Array<Omit<FriendRequest, 'mutualFriendsCount'>>
+  ): Promise<FriendRequest[]> {
+    if (requests.length === 0) {
+      return [];
+    }
+
+    const myFriends = new Set(await this.getFriendIds(userId));
+
+    return Promise.all(
+      requests.map(async request => {
+        const theirFriends = await this.getFriendIds(request.user.userId);
+        return {
+          ...request,
+          mutualFriendsCount: theirFriends.filter(id => myFriends.has(id)).length,
+        };
+      })
+    );
+  }
+
+  private async getProfile(userId: string): Promise<FriendProfile | null> {
+    return this.prisma.userProfile.findUnique({
+      where: { userId },
+      select: PROFILE_SELECT,
+    });
+  }
+
+  private displayName(profile: FriendProfile | null): string {
+    return profile?.displayName ?? 'Someone';
+  }
+
+  private rethrow(error: unknown, message: string): never {
+    if (error instanceof TRPCError) {
+      throw error;
+    }
+
+    console.error(`${message}:`, error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message,
+    });
+  }
+}
@@ -0,0 +1,749 @@
+// List Service - Ordered list editing, collaborators and change history
+import { CustomList, ListChangeAction, Prisma, PrismaClient } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import { NotificationService } from '../notification/notification.service';
+import { FriendshipService } from './friendship.service';
+import { ACTIVITY_TYPES, ActivityRecorderService } from './activity-recorder.service';
+
+export type ListRole = 'owner' | 'editor';
+
+export interface ListItemSnapshot {
+  contentId: string;
+  orderIndex: number;
+  notes: string | null;
+  addedBy: string | null;
+  // ISO timestamp; missing from entries recorded before it was kept
+  addedAt?: string | undefined;
+}
+
+export interface AddListItemInput {
+  contentId: string;
+  position?: number | undefined;
+  notes?: string | undefined;
+}
+
+// Notification types written for list collaboration
+export const LIST_NOTIFICATION_TYPES = {
+  EDITOR_INVITED: 'list_editor_invite',
+  INVITE_ACCEPTED: 'list_editor_invite_accepted',
+} as const;
+
+const ITEM_CONTENT_SELECT = {
+  id: true,
+  title: true,
+  posterUrl: true,
+  contentType: true,
+} as const;
+
+const PROFILE_SELECT = {
+  userId: true,
+  displayName: true,
+  avatarUrl: true,
+} as const;
+
+type Tx = Prisma.TransactionClient;
+type LockedItem = Omit<ListItemSnapshot, 'addedAt'> & { id: string; addedAt: Date };
+
+export class ListService {
+  private friendshipService: FriendshipService;
+  private activityRecorder: ActivityRecorderService;
+  private notifications: NotificationService;
+
+  constructor(private prisma: PrismaClient) {
+    this.friendshipService = new FriendshipService(prisma);
+    this.activityRecorder = new ActivityRecorderService(prisma);
+    this.notifications = new NotificationService(prisma);
+  }
+
+  /**
+   * Add one item at the end of the list, or at a position with later items shifted down
+   */
+  async addItem(userId: string, listId: string, input: AddListItemInput) {
+    try {
+      const { list } = await this.getEditableList(userId, listId);
+      const content = await this.prisma.content.findUnique({
+        where: { id: input.contentId },
+        select: { id: true },
+      });
+
+      if (!content) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Content not found',
+        });
+      }
+
+      const item = await this.prisma.$transaction(async tx => {
+        const items = await this.lockItems(tx, listId);
+
+        if (items.some(existing => existing.contentId === input.contentId)) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: 'Content already exists in this list',
+          });
+        }
+
+        const position = clampPosition(input.position, items.length);
+        await this.renumber(tx, items, insertSlots(items, position, 1));
+
+        const created = await tx.listItem.create({
+          data: {
+            listId,
+            contentId: input.contentId,
+            orderIndex: position,
+            notes: input.notes ?? null,
+            addedBy: userId,
+          },
+          include: { content: { select: ITEM_CONTENT_SELECT } },
+        });
+
+        await this.recordChange(tx, listId, userId, 'ADDED', items, {
+          contentIds: [input.contentId],
+          position,
+        });
+
+        return created;
+      });
+
+      await this.activityRecorder.record(
+        userId,
+        ACTIVITY_TYPES.ADDED_TO_LIST,
+        { listTitle: list.title, count: 1, contentIds: [input.contentId] },
+        { listId, contentId: input.contentId }
+      );
+
+      return item;
+    } catch (error) {
+      this.rethrow(error, 'Failed to add content to list');
+    }
+  }
+
+  /**
+   * Add several items in one go. Content already on the list is skipped.
+   */
+  async bulkAddItems(
+    userId: string,
+    listId: string,
+    contentIds: string[],
+    position?: number | undefined
+  ) {
+    try {
+      const { list } = await this.getEditableList(userId, listId);
+
+      const requested = Array.from(new Set(contentIds));
+      const known = await this.prisma.content.findMany({
+        where: { id: { in: requested } },
+        select: { id: true },
+      });
+      const knownIds = new Set(known.map(content => content.id));
+
+      const added = await this.prisma.$transaction(async tx => {
+        const items = await this.lockItems(tx, listId);
+        const onList = new Set(items.map(item => item.contentId));
+        const toAdd = requested.filter(id => knownIds.has(id) && !onList.has(id));
+
+        if (toAdd.length === 0) {
+          return [];
+        }
+
+        const start = clampPosition(position, items.length);
+        await this.renumber(tx, items, insertSlots(items, start, toAdd.length));
+
+        await tx.listItem.createMany({
+          data: toAdd.map((contentId, offset) => ({
+            listId,
+            contentId,
+            orderIndex: start + offset,
+            addedBy: userId,
+          })),
+        });
+
+        await this.recordChange(tx, listId, userId, 'BULK_ADDED', items, {
+          contentIds: toAdd,
+          position: start,
+        });
+
+        return toAdd;
+      });
+
+      if (added.length > 0) {
+        await this.activityRecorder.record(
+          userId,
+          ACTIVITY_TYPES.ADDED_TO_LIST,
+          { listTitle: list.title, count: added.length, contentIds: added },
+          { listId }
+        );
+      }
+
+      return {
+        added,
+        skipped: requested.filter(id => !added.includes(id)),
+      };
+    } catch (error) {
+      this.rethrow(error, 'Failed to add content to list');
+    }
+  }
+
+  /**
+   * Remove an item and close the gap it leaves
+   */
+  async removeItem(userId: string, listId: string, contentId: string): Promise<void> {
+    try {
+      await this.getEditableList(userId, listId);
+
+      await this.prisma.$transaction(async tx => {
+        const items = await this.lockItems(tx, listId);
+        const item = findItem(items, contentId);
+
+        await tx.listItem.delete({ where: { id: item.id } });
+        await this.renumber(
+          tx,
+          items,
+          items.filter(other => other.id !== item.id).map(other => other.id)
+        );
+
+        await this.recordChange(tx, listId, userId, 'REMOVED', items, {
+          contentIds: [contentId],
+          position: item.orderIndex,
+        });
+      });
+    } catch (error) {
+      this.rethrow(error, 'Failed to remove content from list');
+    }
+  }
+
+  /**
+   * Move one item to a new position, shifting the items in between
+   */
+  async moveItem(userId: string, listId: string, contentId: string, toPosition: number) {
+    try {
+      await this.getEditableList(userId, listId);
+
+      await this.prisma.$transaction(async tx => {
+        const items = await this.lockItems(tx, listId);
+        const item = findItem(items, contentId);
+        const from = items.indexOf(item);
+        const to = clampPosition(toPosition, items.length - 1);
+
+        if (from === to) {
+          return;
+        }
+
+        const order = items.map(other => other.id);
+        order.splice(from, 1);
+        order.splice(to, 0, item.id);
+        await this.renumber(tx, items, order);
+
+        await this.recordChange(tx, listId, userId, 'MOVED', items, {
+          contentIds: [contentId],
+          from,
+          to,
+        });
+      });
+
+      return this.getItems(listId);
+    } catch (error) {
+      this.rethrow(error, 'Failed to move list item');
+    }
+  }
+
+  /**
+   * Replace the whole order. contentIds must list every item on the list exactly once.
+   */
+  async reorderList(userId: string, listId: string, contentIds: string[]) {
+    try {
+      await this.getEditableList(userId, listId);
+
+      await this.prisma.$transaction(async tx => {
+        const items = await this.lockItems(tx, listId);
+        const byContent = new Map(items.map(item => [item.contentId, item]));
+
+        if (
+          contentIds.length !== items.length ||
+          new Set(contentIds).size !== contentIds.length ||
+          contentIds.some(id => !byContent.has(id))
+        ) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'The new order must contain every item on the list exactly once',
+          });
+        }
+
+        await this.renumber(
+          tx,
+          items,
+          contentIds.map(id => byContent.get(id)!.id)
+        );
+
+        await this.recordChange(tx, listId, userId, 'REORDERED', items, { contentIds });
+      });
+
+      return this.getItems(listId);
+    } catch (error) {
+      this.rethrow(error, 'Failed to reorder list');
+    }
+  }
+
+  /**
+   * Change log for a list, newest first. Owner only.
+   */
+  async getHistory(
+    userId: string,
+    listId: string,
+    options: { page?: number | undefined; limit?: number | undefined } = {}
+  ) {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? 20;
+
+    try {
+      await this.getOwnedList(userId, listId);
+
+      const [entries, total] = await Promise.all([
+        this.prisma.listHistoryEntry.findMany({
+          where: { listId },
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+          select: {
+            id: true,
+            action: true,
+            details: true,
+            createdAt: true,
+            userProfile: { select: PROFILE_SELECT },
+          },
+        }),
+        this.prisma.listHistoryEntry.count({ where: { listId } }),
+      ]);
+
+      return { entries, total };
+    } catch (error) {
+      this.rethrow(error, 'Failed to fetch list history');
+    }
+  }
+
+  /**
+   * Put the list back the way it was before a change. Later changes are undone too,
+   * and the revert itself is recorded so it can be reverted in turn. Owner only.
+   */
+  async revertToEntry(userId: string, listId: string, historyId: string) {
+    try {
+      await this.getOwnedList(userId, listId);
+
+      const entry = await this.prisma.listHistoryEntry.findFirst({
+        where: { id: historyId, listId },
+      });
+
+      if (!entry) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'History entry not found',
+        });
+      }
+
+      const snapshot = entry.previousItems as unknown as ListItemSnapshot[];
+
+      await this.prisma.$transaction(async tx => {
+        const items = await this.lockItems(tx, listId);
+
+        // Content deleted since the change can't come back
+        const existing = await tx.content.findMany({
+          where: { id: { in: snapshot.map(item => item.contentId) } },
+          select: { id: true },
+        });
+        const existingIds = new Set(existing.map(content => content.id));
+        const restored = snapshot
+          .filter(item => existingIds.has(item.contentId))
+          .sort((a, b) => a.orderIndex - b.orderIndex);
+
+        await tx.listItem.deleteMany({ where: { listId } });
+        await tx.listItem.createMany({
+          data: restored.map((item, index) => ({
+            listId,
+            contentId: item.contentId,
+            orderIndex: index,
+            notes: item.notes,
+            addedBy: item.addedBy,
+            ...(item.addedAt && { addedAt: new Date(item.addedAt) }),
+          })),
+        });
+
+        await this.recordChange(tx, listId, userId, 'REVERTED', items, {
+          historyId,
+          revertedAction: entry.action,
+        });
+      });
+
+      return this.getItems(listId);
+    } catch (error) {
+      this.rethrow(error, 'Failed to revert list');
+    }
+  }
+
+  /**
+   * Invite a friend to edit the list. Owner only.
+   */
+  async inviteEditor(userId: string, listId: string, friendUserId: string) {
+    try {
+      const list = await this.getOwnedList(userId, listId);
+
+      if (friendUserId === userId) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'You already own this list',
+        });
+      }
+
+      if (!(await this.friendshipService.areFriends(userId, friendUserId))) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You can only invite friends to edit your lists',
+        });
+      }
+
+      const existing = await this.prisma.listCollaborator.findUnique({
+        where: { listId_userId: { listId, userId: friendUserId } },
+      });
+
+      if (existing) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message:
+            existing.status === 'ACCEPTED'
+              ? 'This friend already edits the list'
+              : 'This friend has already been invited',
+        });
+      }
+
+      const collaborator = await this.prisma.listCollaborator.create({
+        data: { listId, userId: friendUserId },
+      });
+
+      const owner = await this.getProfile(userId);
+      await this.notifications.listShared(friendUserId, {
+        listId,
+        listTitle: list.title,
+        fromUserId: userId,
+        fromName: owner?.displayName ?? 'Someone',
+      });
+
+      return collaborator;
+    } catch (error) {
+      this.rethrow(error, 'Failed to invite editor');
+    }
+  }
+
+  /**
+   * Accept or decline an invite to edit a list
+   */
+  async respondToInvite(userId: string, listId: string, accept: boolean) {
+    try {
+      const invite = await this.prisma.listCollaborator.findUnique({
+        where: { listId_userId: { listId, userId } },
+        include: { customList: { select: { userId: true, title: true } } },
+      });
+
+      if (!invite || invite.status !== 'INVITED') {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'List invite not found',
+        });
+      }
+
+      if (!accept) {
+        await this.prisma.listCollaborator.delete({ where: { id: invite.id } });
+        return null;
+      }
+
+      const collaborator = await this.prisma.listCollaborator.update({
+        where: { id: invite.id },
+        data: { status: 'ACCEPTED', acceptedAt: new Date() },
+      });
+
+      const editor = await this.getProfile(userId);
+      await this.notifications.notify({
+        type: LIST_NOTIFICATION_TYPES.INVITE_ACCEPTED,
+        userId: invite.customList.userId,
+        payload: {
+          listId,
+          listTitle: invite.customList.title,
+          fromUserId: userId,
+          fromName: editor?.displayName ?? 'Someone',
+        },
+      });
+
+      return collaborator;
+    } catch (error) {
+      this.rethrow(error, 'Failed to respond to list invite');
+    }
+  }
+
+  /**
+   * Remove an editor or withdraw an invite. Owners can remove anyone; editors can leave.
+   */
+  async removeEditor(userId: string, listId: string, editorUserId: string): Promise<void> {
+    try {
+      if (editorUserId !== userId) {
+        await this.getOwnedList(userId, listId);
+      }
+
+      const { count } = await this.prisma.listCollaborator.deleteMany({
+        where: { listId, userId: editorUserId },
+      });
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Editor not found',
+        });
+      }
+    } catch (error) {
+      this.rethrow(error, 'Failed to remove editor');
+    }
+  }
+
+  /**
+   * Editors and outstanding invites for a list. Visible to the owner and editors.
+   */
+  async listCollaborators(userId: string, listId: string) {
+    try {
+      const { list, role } = await this.getEditableList(userId, listId);
+
+      const collaborators = await this.prisma.listCollaborator.findMany({
+        where: { listId, ...(role === 'editor' && { status: 'ACCEPTED' as const }) },
+        orderBy: { invitedAt: 'asc' },
+        select: {
+          status: true,
+          invitedAt: true,
+          acceptedAt: true,
+          userProfile: { select: PROFILE_SELECT },
+        },
+      });
+
+      return { ownerId: list.userId, collaborators };
+    } catch (error) {
+      this.rethrow(error, 'Failed to fetch list editors');
+    }
+  }
+
+  /**
+   * Invites waiting for the user to answer
+   */
+  async listPendingInvites(userId: string) {
+    try {
+      return await this.prisma.listCollaborator.findMany({
+        where: { userId, status: 'INVITED' },
+        orderBy: { invitedAt: 'desc' },
+        include: {
+          customList: {
+            select: {
+              id: true,
+              title: true,
+              description: true,
+              userProfile: { select: PROFILE_SELECT },
+            },
+          },
+        },
+      });
+    } catch (error) {
+      this.rethrow(error, 'Failed to fetch list invites');
+    }
+  }
+
+  /**
+   * Whether the user owns the list or has accepted an invite to edit it
+   */
+  async getRole(userId: string, list: Pick<CustomList, 'id' | 'userId'>): Promise<ListRole | null> {
+    if (list.userId === userId) {
+      return 'owner';
+    }
+
+    const collaborator = await this.prisma.listCollaborator.findUnique({
+      where: { listId_userId: { listId: list.id, userId } },
+      select: { status: true },
+    });
+
+    return collaborator?.status === 'ACCEPTED' ? 'editor' : null;
+  }
+
+  private async getEditableList(
+    userId: string,
+    listId: string
+  ): Promise<{ list: CustomList; role: ListRole }> {
+    const list = await this.findList(listId);
+    const role = await this.getRole(userId, list);
+
+    if (!role) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'You can only modify lists you own or have been invited to edit',
+      });
+    }
+
+    return { list, role };
+  }
+
+  private async getOwnedList(userId: string, listId: string): Promise<CustomList> {
+    const list = await this.findList(listId);
+
+    if (list.userId !== userId) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'Only the list owner can do this',
+      });
+    }
+
+    return list;
+  }
+
+  private async findList(listId: string): Promise<CustomList> {
+    const list = await this.prisma.customList.findUnique({
+      where: { id: listId },
+    });
+
+    if (!list) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'List not found',
+      });
+    }
+
+    return list;
+  }
+
+  /**
+   * Lock the list row so concurrent edits renumber one at a time, then read its items in order
+   */
+  private async lockItems(tx: Tx, listId: string): Promise<LockedItem[]> {
+    await tx.$queryRaw`SELECT id FROM custom_lists WHERE id = ${listId}::uuid FOR UPDATE`;
+
+    return tx.listItem.findMany({
+      where: { listId },
+      orderBy: { orderIndex: 'asc' },
+      select: {
+        id: true,
+        contentId: true,
+        orderIndex: true,
+        notes: true,
+        addedBy: true,
+        addedAt: true,
+      },
+    });
+  }
+
+  /**
+   * Give each item id in `order` its position as orderIndex. Null slots are left free for
+   * new items. Items that move are parked at negative indexes first: the unique
+   * (listId, orderIndex) index is checked row by row, so shifting in place would collide.
+   */
+  private async renumber(tx: Tx, items: LockedItem[], order: Array<string | null>): Promise<void> {
+    const current = new Map(items.map(item => [item.id, item.orderIndex]));
+    const moves = order
+      .map((id, index) => ({ id, index }))
+      .filter((move): move is { id: string; index: number } => {
+        return move.id !== null && current.get(move.id) !== move.index;
+      });
+
+    for (const [parked, { id }] of moves.entries()) {
+      await tx.listItem.update({ where: { id }, data: { orderIndex: -(parked + 1) } });
+    }
+
+    for (const { id, index } of moves) {
+      await tx.listItem.update({ where: { id }, data: { orderIndex: index } });
+    }
+  }
+
+  private async recordChange(
+    tx: Tx,
+    listId: string,
+    userId: string,
+    action: ListChangeAction,
+    previousItems: LockedItem[],
+    details: Prisma.InputJsonObject
+  ): Promise<void> {
+    // Keep when each item was added so a revert doesn't count as new list adds for trending
+    const snapshot: ListItemSnapshot[] = previousItems.map(
+      ({ contentId, orderIndex, notes, addedBy, addedAt }) => ({
+        contentId,
+        orderIndex,
+        notes,
+        addedBy,
+        ...(addedAt && { addedAt: addedAt.toISOString() }),
+      })
+    );
+
+    await tx.listHistoryEntry.create({
+      data: {
+        listId,
+        userId,
+        action,
+        details,
+        previousItems: snapshot as unknown as Prisma.InputJsonArray,
+      },
+    });
+
+    await tx.customList.update({
+      where: { id: listId },
+      data: { updatedAt: new Date() },
+    });
+  }
+
+  private async getItems(listId: string) {
+    return this.prisma.listItem.findMany({
+      where: { listId },
+      orderBy: { orderIndex: 'asc' },
+      include: {
+        content: { select: ITEM_CONTENT_SELECT },
+        addedByProfile: { select: PROFILE_SELECT },
+      },
+    });
+  }
+
+  private async getProfile(userId: string) {
+    return this.prisma.userProfile.findUnique({
+      where: { userId },
+      select: PROFILE_SELECT,
+    });
+  }
+
+  private rethrow(error: unknown, message: string): never {
+    if (error instanceof TRPCError) {
+      throw error;
+    }
+
+    console.error(`${message}:`, error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message,
+    });
+  }
+}
+
+function clampPosition(position: number | undefined, max: number): number {
+  if (position === undefined) {
+    return max;
+  }
+
+  return Math.max(0, Math.min(Math.floor(position), max));
+}
+
+/**
+ * Item ids in their new order with `count` empty slots opened at `position`
+ */
+function insertSlots(items: LockedItem[], position: number, count: number): Array<string | null> {
+  const order: Array<string | null> = items.map(item => item.id);
+  order.splice(position, 0, ...new Array<null>(count).fill(null));
+  return order;
+}
+
+function findItem(items: LockedItem[], contentId: string): LockedItem {
+  const item = items.find(existing => existing.contentId === contentId);
+
+  if (!item) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Content is not on this list',
+    });
+  }
+
+  return item;
+}
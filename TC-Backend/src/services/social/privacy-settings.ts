@@ -0,0 +1,25 @@
+// Privacy Settings - Reads the privacySettings JSON stored on user profiles
+
+export interface PrivacySettings {
+  profileVisible: boolean;
+  activityVisible: boolean;
+  allowFriendRequests: boolean;
+}
+
+/**
+ * Settings from the stored privacySettings JSON. Anything missing falls back to the column
+ * default, which has every toggle on.
+ */
+export function parsePrivacySettings(settings: unknown): PrivacySettings {
+  const stored =
+    typeof settings === 'object' && settings !== null && !Array.isArray(settings)
+      ? (settings as Record<string, unknown>)
+      : {};
+  const enabled = (key: string) => stored[key] !== false;
+
+  return {
+    profileVisible: enabled('profile_visible'),
+    activityVisible: enabled('activity_visible'),
+    allowFriendRequests: enabled('allow_friend_requests'),
+  };
+}
@@ -0,0 +1,270 @@
+// Public List Service - Shareable list pages, forking and share stats
+import { CustomList, PrismaClient } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import { ACTIVITY_TYPES, ActivityRecorderService } from './activity-recorder.service';
+import { uniqueSlug } from '../../utils/slug';
+
+const PUBLIC_CONTENT_SELECT = {
+  id: true,
+  title: true,
+  description: true,
+  contentType: true,
+  posterUrl: true,
+  releaseDate: true,
+  runtimeMinutes: true,
+  totalSeasons: true,
+  platforms: true,
+} as const;
+
+// Attempts at a free slug before giving up; collisions need a 6-hex-digit suffix clash
+const SLUG_ATTEMPTS = 3;
+
+export class PublicListService {
+  private activityRecorder: ActivityRecorderService;
+
+  constructor(private prisma: PrismaClient) {
+    this.activityRecorder = new ActivityRecorderService(prisma);
+  }
+
+  /**
+   * Give a public list its share slug if it doesn't have one yet. Slugs are never
+   * changed afterwards, so links keep working when the list is renamed.
+   */
+  async ensureSlug(list: Pick<CustomList, 'id' | 'title' | 'privacy' | 'slug'>) {
+    if (list.privacy !== 'PUBLIC' || list.slug) {
+      return list.slug;
+    }
+
+    for (let attempt = 0; attempt < SLUG_ATTEMPTS; attempt++) {
+      const slug = uniqueSlug(list.title);
+      const taken = await this.prisma.customList.findUnique({
+        where: { slug },
+        select: { id: true },
+      });
+
+      if (!taken) {
+        await this.prisma.customList.update({
+          where: { id: list.id },
+          data: { slug },
+        });
+        return slug;
+      }
+    }
+
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to generate a share link for this list',
+    });
+  }
+
+  /**
+   * Public list page by slug. Lists that are no longer public are reported as not found.
+   * Views by anyone other than the owner are counted.
+   */
+  async getPublicList(slug: string, viewerId?: string) {
+    try {
+      const list = await this.prisma.customList.findUnique({
+        where: { slug },
+        include: {
+          userProfile: {
+            select: {
+              userId: true,
+              displayName: true,
+              avatarUrl: true,
+            },
+          },
+          listItems: {
+            orderBy: { orderIndex: 'asc' },
+            select: {
+              orderIndex: true,
+              notes: true,
+              content: { select: PUBLIC_CONTENT_SELECT },
+            },
+          },
+          forkedFrom: {
+            select: { slug: true, title: true, privacy: true },
+          },
+        },
+      });
+
+      if (!list || list.privacy !== 'PUBLIC') {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'List not found',
+        });
+      }
+
+      const isOwner = viewerId === list.userId;
+
+      if (!isOwner) {
+        await this.countView(list.id);
+      }
+
+      const { forkedFrom } = list;
+
+      return {
+        id: list.id,
+        slug: list.slug,
+        title: list.title,
+        description: list.description,
+        owner: list.userProfile,
+        items: list.listItems,
+        itemCount: list.listItems.length,
+        // Only link back to the original while it is still public
+        forkedFrom:
+          forkedFrom?.privacy === 'PUBLIC'
+            ? { slug: forkedFrom.slug, title: forkedFrom.title }
+            : null,
+        createdAt: list.createdAt,
+        updatedAt: list.updatedAt,
+        isOwner,
+        ...(isOwner && { viewCount: list.viewCount, forkCount: list.forkCount }),
+      };
+    } catch (error) {
+      this.rethrow(error, 'Failed to fetch list');
+    }
+  }
+
+  /**
+   * Copy a public list into a new private list owned by the user
+   */
+  async forkList(userId: string, slug: string, title?: string | undefined) {
+    try {
+      const source = await this.prisma.customList.findUnique({
+        where: { slug },
+        include: {
+          listItems: {
+            orderBy: { orderIndex: 'asc' },
+            select: { contentId: true, notes: true },
+          },
+        },
+      });
+
+      if (!source || source.privacy !== 'PUBLIC') {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'List not found',
+        });
+      }
+
+      if (source.userId === userId) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'You already own this list',
+        });
+      }
+
+      const fork = await this.prisma.$transaction(async tx => {
+        const created = await tx.customList.create({
+          data: {
+            userId,
+            title: title ?? source.title,
+            description: source.description,
+            privacy: 'PRIVATE',
+            forkedFromId: source.id,
+          },
+        });
+
+        await tx.listItem.createMany({
+          data: source.listItems.map((item, index) => ({
+            listId: created.id,
+            contentId: item.contentId,
+            orderIndex: index,
+            notes: item.notes,
+            addedBy: userId,
+          })),
+        });
+
+        await tx.$executeRaw`
+          UPDATE custom_lists SET fork_count = fork_count + 1 WHERE id = ${source.id}::uuid
+        `;
+
+        return created;
+      });
+
+      await this.activityRecorder.record(
+        userId,
+        ACTIVITY_TYPES.CREATED_LIST,
+        { listTitle: fork.title, privacy: fork.privacy, itemCount: source.listItems.length },
+        { listId: fork.id }
+      );
+
+      return fork;
+    } catch (error) {
+      this.rethrow(error, 'Failed to fork list');
+    }
+  }
+
+  /**
+   * Share link, view and fork counts for a list. Owner only. Public lists made before share
+   * links existed get their slug here.
+   */
+  async getShareStats(userId: string, listId: string) {
+    try {
+      const list = await this.prisma.customList.findUnique({
+        where: { id: listId },
+        select: {
+          id: true,
+          userId: true,
+          title: true,
+          privacy: true,
+          slug: true,
+          viewCount: true,
+          forkCount: true,
+        },
+      });
+
+      if (!list) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'List not found',
+        });
+      }
+
+      if (list.userId !== userId) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Only the list owner can see share stats',
+        });
+      }
+
+      const slug = await this.ensureSlug(list);
+
+      return {
+        slug,
+        privacy: list.privacy,
+        viewCount: list.viewCount,
+        forkCount: list.forkCount,
+        isShared: list.privacy === 'PUBLIC' && slug !== null,
+      };
+    } catch (error) {
+      this.rethrow(error, 'Failed to fetch list stats');
+    }
+  }
+
+  /**
+   * Counters are bumped in SQL so they don't touch updated_at, which orders the owner's lists
+   */
+  private async countView(listId: string): Promise<void> {
+    try {
+      await this.prisma.$executeRaw`
+        UPDATE custom_lists SET view_count = view_count + 1 WHERE id = ${listId}::uuid
+      `;
+    } catch (error) {
+      // A missed view count shouldn't fail the page
+      console.error(`Failed to count view for list ${listId}:`, error);
+    }
+  }
+
+  private rethrow(error: unknown, message: string): never {
+    if (error instanceof TRPCError) {
+      throw error;
+    }
+
+    console.error(`${message}:`, error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message,
+    });
+  }
+}
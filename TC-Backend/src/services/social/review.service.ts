@@ -0,0 +1,451 @@
+// Review Service - Published ratings and reviews with spoiler flags, helpful votes and moderation
+import { ListPrivacy, Prisma, PrismaClient } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import { SearchIndexerService } from '../search/search-indexer.service';
+import { FriendshipService } from './friendship.service';
+
+export type ReviewSort = 'helpful' | 'recent';
+
+export interface PublishReviewInput {
+  contentId: string;
+  rating: number;
+  body?: string | null | undefined;
+  hasSpoilers?: boolean | undefined;
+  visibility?: ListPrivacy | undefined;
+}
+
+export interface UpdateReviewInput {
+  rating?: number | undefined;
+  body?: string | null | undefined;
+  hasSpoilers?: boolean | undefined;
+  visibility?: ListPrivacy | undefined;
+}
+
+export interface ListReviewsOptions {
+  sort?: ReviewSort | undefined;
+  page?: number | undefined;
+  limit?: number | undefined;
+}
+
+export interface ReviewView {
+  id: string;
+  contentId: string;
+  rating: number;
+  body: string | null;
+  hasSpoilers: boolean;
+  visibility: ListPrivacy;
+  helpfulCount: number;
+  createdAt: Date;
+  editedAt: Date | null;
+  author: { userId: string; displayName: string | null; avatarUrl: string | null };
+  isOwn: boolean;
+  votedHelpful: boolean;
+  // Only set on the author's own reviews; hidden reviews are invisible to everyone else
+  hidden: boolean;
+  hiddenReason: string | null;
+}
+
+export interface RatingSummary {
+  contentId: string;
+  averageRating: number | null;
+  ratingsCount: number;
+  // Ratings with a written review
+  reviewsCount: number;
+  histogram: Array<{ rating: number; count: number; percent: number }>;
+}
+
+export const MAX_REVIEW_LENGTH = 5000;
+
+const RATING_VALUES = [1, 2, 3, 4, 5];
+
+const AUTHOR_SELECT = {
+  userId: true,
+  displayName: true,
+  avatarUrl: true,
+} as const;
+
+type ReviewRow = Prisma.ReviewGetPayload<{
+  include: { userProfile: { select: typeof AUTHOR_SELECT } };
+}>;
+
+export class ReviewService {
+  private friendshipService: FriendshipService;
+
+  constructor(
+    private prisma: PrismaClient,
+    private searchIndexer: SearchIndexerService = new SearchIndexerService(prisma)
+  ) {
+    this.friendshipService = new FriendshipService(prisma);
+  }
+
+  /**
+   * Publish a rating, with an optional written review, for a title
+   */
+  async publish(userId: string, input: PublishReviewInput): Promise<ReviewView> {
+    try {
+      const content = await this.prisma.content.findUnique({
+        where: { id: input.contentId },
+        select: { id: true },
+      });
+
+      if (!content) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Content not found',
+        });
+      }
+
+      const existing = await this.prisma.review.findUnique({
+        where: { userId_contentId: { userId, contentId: input.contentId } },
+        select: { id: true },
+      });
+
+      if (existing) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: "You've already reviewed this title. Edit your review instead.",
+        });
+      }
+
+      const review = await this.prisma.review.create({
+        data: {
+          userId,
+          contentId: input.contentId,
+          rating: input.rating,
+          body: normalizeBody(input.body),
+          hasSpoilers: input.hasSpoilers ?? false,
+          visibility: input.visibility ?? 'PUBLIC',
+        },
+        include: { userProfile: { select: AUTHOR_SELECT } },
+      });
+
+      this.searchIndexer.queueIndexContent([review.contentId]);
+      return toView(review, userId, new Set());
+    } catch (error) {
+      this.rethrow(error, 'Failed to publish review');
+    }
+  }
+
+  /**
+   * Edit your own review
+   */
+  async update(userId: string, reviewId: string, changes: UpdateReviewInput): Promise<ReviewView> {
+    try {
+      await this.assertReview(reviewId, userId);
+
+      const review = await this.prisma.review.update({
+        where: { id: reviewId },
+        data: {
+          ...(changes.rating !== undefined && { rating: changes.rating }),
+          ...(changes.body !== undefined && { body: normalizeBody(changes.body) }),
+          ...(changes.hasSpoilers !== undefined && { hasSpoilers: changes.hasSpoilers }),
+          ...(changes.visibility !== undefined && { visibility: changes.visibility }),
+          editedAt: new Date(),
+        },
+        include: { userProfile: { select: AUTHOR_SELECT } },
+      });
+
+      if (changes.rating !== undefined) {
+        this.searchIndexer.queueIndexContent([review.contentId]);
+      }
+
+      return toView(review, userId, await this.votedIds(userId, [reviewId]));
+    } catch (error) {
+      this.rethrow(error, 'Failed to update review');
+    }
+  }
+
+  /**
+   * Delete your own review and its helpful votes
+   */
+  async delete(userId: string, reviewId: string): Promise<void> {
+    try {
+      await this.assertReview(reviewId, userId);
+      const review = await this.prisma.review.delete({ where: { id: reviewId } });
+      this.searchIndexer.queueIndexContent([review.contentId]);
+    } catch (error) {
+      this.rethrow(error, 'Failed to delete review');
+    }
+  }
+
+  /**
+   * Your review of a title, if you've written one
+   */
+  async getOwn(userId: string, contentId: string): Promise<ReviewView | null> {
+    try {
+      const review = await this.prisma.review.findUnique({
+        where: { userId_contentId: { userId, contentId } },
+        include: { userProfile: { select: AUTHOR_SELECT } },
+      });
+
+      return review ? toView(review, userId, new Set()) : null;
+    } catch (error) {
+      this.rethrow(error, 'Failed to load your review');
+    }
+  }
+
+  /**
+   * Reviews of a title the viewer may see: public ones, friends-only ones by their friends
+   * and their own. Hidden reviews and anything involving blocked users are left out.
+   */
+  async listForContent(
+    contentId: string,
+    viewerId: string | undefined,
+    options: ListReviewsOptions = {}
+  ): Promise<{ reviews: ReviewView[]; total: number }> {
+    const { sort = 'helpful', page = 1, limit = 20 } = options;
+
+    try {
+      const where: Prisma.ReviewWhereInput = {
+        contentId,
+        ...(await this.visibleWhere(viewerId)),
+      };
+
+      const [rows, total] = await Promise.all([
+        this.prisma.review.findMany({
+          where,
+          orderBy:
+            sort === 'helpful'
+              ? [{ helpfulCount: 'desc' }, { createdAt: 'desc' }, { id: 'desc' }]
+              : [{ createdAt: 'desc' }, { id: 'desc' }],
+          skip: (page - 1) * limit,
+          take: limit,
+          include: { userProfile: { select: AUTHOR_SELECT } },
+        }),
+        this.prisma.review.count({ where }),
+      ]);
+
+      const voted = viewerId
+        ? await this.votedIds(
+            viewerId,
+            rows.map(row => row.id)
+          )
+        : new Set<string>();
+
+      return { reviews: rows.map(row => toView(row, viewerId, voted)), total };
+    } catch (error) {
+      this.rethrow(error, 'Failed to load reviews');
+    }
+  }
+
+  /**
+   * Community rating of a title: the average and how many people gave each star rating.
+   * Counts are anonymous, so reviews of every visibility count; hidden ones don't.
+   */
+  async getSummary(contentId: string): Promise<RatingSummary> {
+    try {
+      const [groups, reviewsCount] = await Promise.all([
+        this.prisma.review.groupBy({
+          by: ['rating'],
+          where: { contentId, hiddenAt: null },
+          _count: { _all: true },
+        }),
+        this.prisma.review.count({
+          where: { contentId, hiddenAt: null, body: { not: null } },
+        }),
+      ]);
+
+      const counts = new Map(groups.map(group => [group.rating, group._count._all]));
+      const ratingsCount = groups.reduce((sum, group) => sum + group._count._all, 0);
+      const ratingSum = groups.reduce((sum, group) => sum + group.rating * group._count._all, 0);
+
+      return {
+        contentId,
+        averageRating: ratingsCount > 0 ? Math.round((ratingSum / ratingsCount) * 10) / 10 : null,
+        ratingsCount,
+        reviewsCount,
+        histogram: RATING_VALUES.map(rating => {
+          const count = counts.get(rating) ?? 0;
+
+          return {
+            rating,
+            count,
+            percent: ratingsCount > 0 ? Math.round((count / ratingsCount) * 100) : 0,
+          };
+        }),
+      };
+    } catch (error) {
+      this.rethrow(error, 'Failed to load community ratings');
+    }
+  }
+
+  /**
+   * Mark a review helpful, or take the vote back. Returns the new helpful count.
+   */
+  async setHelpful(
+    userId: string,
+    reviewId: string,
+    helpful: boolean
+  ): Promise<{ helpfulCount: number; votedHelpful: boolean }> {
+    try {
+      const review = await this.prisma.review.findFirst({
+        where: { id: reviewId, ...(await this.visibleWhere(userId)) },
+        select: { id: true, userId: true },
+      });
+
+      if (!review) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Review not found',
+        });
+      }
+
+      if (review.userId === userId) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: "You can't vote on your own review",
+        });
+      }
+
+      // The counter is recounted from the vote rows, so repeated and concurrent votes are no-ops
+      const helpfulCount = await this.prisma.$transaction(async tx => {
+        const vote = { reviewId_userId: { reviewId, userId } };
+
+        if (helpful) {
+          await tx.reviewVote.upsert({ where: vote, create: { reviewId, userId }, update: {} });
+        } else {
+          await tx.reviewVote.deleteMany({ where: { reviewId, userId } });
+        }
+
+        const updated = await tx.review.update({
+          where: { id: reviewId },
+          data: { helpfulCount: await tx.reviewVote.count({ where: { reviewId } }) },
+          select: { helpfulCount: true },
+        });
+
+        return updated.helpfulCount;
+      });
+
+      return { helpfulCount, votedHelpful: helpful };
+    } catch (error) {
+      this.rethrow(error, 'Failed to record vote');
+    }
+  }
+
+  /**
+   * Hide a review from everyone but its author (admin only)
+   */
+  async hide(adminId: string, reviewId: string, reason?: string | undefined): Promise<void> {
+    try {
+      await this.assertReview(reviewId);
+      await this.prisma.review.update({
+        where: { id: reviewId },
+        data: { hiddenAt: new Date(), hiddenBy: adminId, hiddenReason: reason ?? null },
+      });
+    } catch (error) {
+      this.rethrow(error, 'Failed to hide review');
+    }
+  }
+
+  /**
+   * Show a hidden review again (admin only)
+   */
+  async unhide(reviewId: string): Promise<void> {
+    try {
+      await this.assertReview(reviewId);
+      await this.prisma.review.update({
+        where: { id: reviewId },
+        data: { hiddenAt: null, hiddenBy: null, hiddenReason: null },
+      });
+    } catch (error) {
+      this.rethrow(error, 'Failed to unhide review');
+    }
+  }
+
+  /**
+   * Visibility rules shared by listing and voting. Signed-out viewers see public reviews only.
+   */
+  private async visibleWhere(viewerId: string | undefined): Promise<Prisma.ReviewWhereInput> {
+    if (!viewerId) {
+      return { hiddenAt: null, visibility: 'PUBLIC' };
+    }
+
+    const [friendIds, blockedIds] = await Promise.all([
+      this.friendshipService.getFriendIds(viewerId),
+      this.friendshipService.getBlockedUserIds(viewerId),
+    ]);
+
+    return {
+      userId: { notIn: blockedIds },
+      OR: [
+        { userId: viewerId },
+        {
+          hiddenAt: null,
+          OR: [{ visibility: 'PUBLIC' }, { visibility: 'FRIENDS', userId: { in: friendIds } }],
+        },
+      ],
+    };
+  }
+
+  private async votedIds(userId: string, reviewIds: string[]): Promise<Set<string>> {
+    if (reviewIds.length === 0) {
+      return new Set();
+    }
+
+    const votes = await this.prisma.reviewVote.findMany({
+      where: { userId, reviewId: { in: reviewIds } },
+      select: { reviewId: true },
+    });
+
+    return new Set(votes.map(vote => vote.reviewId));
+  }
+
+  /**
+   * Throws NOT_FOUND unless the review exists and, when an author is given, belongs to them
+   */
+  private async assertReview(reviewId: string, authorId?: string | undefined): Promise<void> {
+    const review = await this.prisma.review.findUnique({
+      where: { id: reviewId },
+      select: { userId: true },
+    });
+
+    if (!review || (authorId !== undefined && review.userId !== authorId)) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Review not found',
+      });
+    }
+  }
+
+  private rethrow(error: unknown, message: string): never {
+    if (error instanceof TRPCError) {
+      throw error;
+    }
+
+    console.error(`${message}:`, error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message,
+    });
+  }
+}
+
+function toView(review: ReviewRow, viewerId: string | undefined, voted: Set<string>): ReviewView {
+  const isOwn = review.userId === viewerId;
+
+  return {
+    id: review.id,
+    contentId: review.contentId,
+    rating: review.rating,
+    body: review.body,
+    hasSpoilers: review.hasSpoilers,
+    visibility: review.visibility,
+    helpfulCount: review.helpfulCount,
+    createdAt: review.createdAt,
+    editedAt: review.editedAt,
+    author: review.userProfile,
+    isOwn,
+    votedHelpful: voted.has(review.id),
+    hidden: isOwn && review.hiddenAt !== null,
+    hiddenReason: isOwn ? review.hiddenReason : null,
+  };
+}
+
+/**
+ * Blank reviews are stored as rating-only
+ */
+function normalizeBody(body: string | null | undefined): string | null {
+  const trimmed = body?.trim();
+
+  return trimmed ? trimmed : null;
+}
@@ -0,0 +1,586 @@
+// Stats Service - Viewing statistics and the Year in True Crime summary, precomputed per month
+import {
+  CaseRelationship,
+  ContentType,
+  Prisma,
+  PrismaClient,
+  UserStatsMonth,
+} from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+
+export type ViewingFormat = 'documentary' | 'dramatization' | 'podcast' | 'other';
+
+export interface MonthlyViewing {
+  month: string; // YYYY-MM
+  hoursWatched: number;
+  episodesWatched: number;
+  titlesCompleted: number;
+}
+
+export interface StatShare {
+  name: string;
+  count: number;
+  percent: number;
+}
+
+export interface CaseStat {
+  caseId: string;
+  caseName: string;
+  caseSlug: string;
+  count: number;
+}
+
+export interface FormatShare {
+  format: ViewingFormat;
+  count: number;
+  percent: number;
+}
+
+export interface ViewingStats {
+  // Null for all-time stats
+  year: number | null;
+  totals: {
+    hoursWatched: number;
+    episodesWatched: number;
+    titlesCompleted: number;
+    activeDays: number;
+  };
+  hoursByMonth: MonthlyViewing[];
+  genres: StatShare[];
+  cases: CaseStat[];
+  perpetrators: StatShare[];
+  formats: FormatShare[];
+  platforms: StatShare[];
+  longestStreak: number;
+  // Average rating of finished titles; null when none are rated
+  averageRating: number | null;
+  ratingsCount: number;
+  computedAt: Date | null;
+}
+
+export interface YearInReview {
+  year: number;
+  hoursWatched: number;
+  episodesWatched: number;
+  titlesCompleted: number;
+  casesExplored: number;
+  topGenre: StatShare | null;
+  topCase: CaseStat | null;
+  topPerpetrator: StatShare | null;
+  topPlatform: StatShare | null;
+  documentaryPercent: number;
+  dramatizationPercent: number;
+  busiestMonth: MonthlyViewing | null;
+  longestStreak: number;
+  averageRating: number | null;
+  shareText: string;
+}
+
+type Counts = Record<string, number>;
+
+interface MonthTotals {
+  minutesWatched: number;
+  episodesWatched: number;
+  titlesCompleted: number;
+  ratingSum: number;
+  ratingCount: number;
+  genres: Counts;
+  cases: Counts;
+  formats: Counts;
+  platforms: Counts;
+  activeDays: number[];
+}
+
+interface FormatContent {
+  contentType: ContentType;
+  genreTags: string[];
+  contentCaseLinks: Array<{ relationship: CaseRelationship | null }>;
+}
+
+export const TOP_STATS_LIMIT = 10;
+
+// Matches the episode length the time estimates assume for titles without a runtime
+const DEFAULT_EPISODE_MINUTES = 45;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FORMATS: ViewingFormat[] = ['documentary', 'dramatization', 'podcast', 'other'];
+const DOCUMENTARY_RELATIONSHIPS: CaseRelationship[] = ['COVERS_CASE', 'FEATURES_PERSON'];
+const DRAMATIZATION_RELATIONSHIPS: CaseRelationship[] = ['DIRECTLY_BASED_ON', 'INSPIRED_BY'];
+
+export class StatsService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Viewing stats for one year, or all time when no year is given. Months touched since
+   * they were last computed are recomputed first; everything else is read as stored.
+   */
+  async getStats(userId: string, year?: number | undefined): Promise<ViewingStats> {
+    try {
+      const months = (await this.loadMonths(userId)).filter(
+        row => year === undefined || row.month.getUTCFullYear() === year
+      );
+
+      return await this.summarize(months, year ?? null);
+    } catch (error) {
+      this.rethrow(error, 'Failed to fetch viewing stats');
+    }
+  }
+
+  /**
+   * Shareable "Year in True Crime" summary built from the year's stats
+   */
+  async getYearInReview(userId: string, year: number): Promise<YearInReview> {
+    if (year > new Date().getUTCFullYear()) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: "That year hasn't happened yet",
+      });
+    }
+
+    const stats = await this.getStats(userId, year);
+    const format = (name: ViewingFormat) =>
+      stats.formats.find(share => share.format === name)?.percent ?? 0;
+    const busiestMonth = stats.hoursByMonth.reduce<MonthlyViewing | null>(
+      (busiest, month) =>
+        month.hoursWatched > 0 && month.hoursWatched > (busiest?.hoursWatched ?? 0)
+          ? month
+          : busiest,
+      null
+    );
+
+    const review: Omit<YearInReview, 'shareText'> = {
+      year,
+      hoursWatched: stats.totals.hoursWatched,
+      episodesWatched: stats.totals.episodesWatched,
+      titlesCompleted: stats.totals.titlesCompleted,
+      casesExplored: stats.cases.length,
+      topGenre: stats.genres[0] ?? null,
+      topCase: stats.cases[0] ?? null,
+      topPerpetrator: stats.perpetrators[0] ?? null,
+      topPlatform: stats.platforms[0] ?? null,
+      documentaryPercent: format('documentary'),
+      dramatizationPercent: format('dramatization'),
+      busiestMonth,
+      longestStreak: stats.longestStreak,
+      averageRating: stats.averageRating,
+    };
+
+    return { ...review, shareText: shareText(review) };
+  }
+
+  /**
+   * Mark the months of the given dates for recomputation. Without dates every month is
+   * rebuilt from scratch on the next read, for changes that can touch any month such as
+   * bulk edits, imports and undos.
+   */
+  async invalidate(userId: string, dates?: Array<Date | null | undefined>): Promise<void> {
+    if (!dates) {
+      await this.prisma.userStatsMonth.deleteMany({ where: { userId } });
+      return;
+    }
+
+    const months = uniqueMonths(dates.filter((date): date is Date => date instanceof Date));
+
+    await Promise.all(
+      months.map(month =>
+        this.prisma.userStatsMonth.upsert({
+          where: { userId_month: { userId, month } },
+          create: { userId, month, activeDays: [], stale: true },
+          update: { stale: true },
+        })
+      )
+    );
+  }
+
+  /**
+   * The user's monthly rows with stale ones recomputed. A user without rows (new, or
+   * after a full invalidation) has them rebuilt from their whole viewing history.
+   */
+  private async loadMonths(userId: string): Promise<UserStatsMonth[]> {
+    let rows = await this.prisma.userStatsMonth.findMany({
+      where: { userId },
+      orderBy: { month: 'asc' },
+    });
+
+    const months =
+      rows.length > 0
+        ? rows.filter(row => row.stale).map(row => row.month)
+        : await this.findActiveMonths(userId);
+
+    if (months.length === 0) {
+      return rows;
+    }
+
+    const computed = new Map<number, UserStatsMonth>();
+
+    // One month at a time so a long history doesn't flood the connection pool
+    for (const month of months) {
+      const totals = await this.computeMonth(userId, month);
+      const data = { ...totals, stale: false, computedAt: new Date() };
+      const row = await this.prisma.userStatsMonth.upsert({
+        where: { userId_month: { userId, month } },
+        create: { userId, month, ...data },
+        update: data,
+      });
+
+      computed.set(month.getTime(), row);
+    }
+
+    rows = rows.filter(row => !computed.has(row.month.getTime()));
+
+    return [...rows, ...computed.values()].sort((a, b) => a.month.getTime() - b.month.getTime());
+  }
+
+  /**
+   * Every month with a watched episode or a finished title
+   */
+  private async findActiveMonths(userId: string): Promise<Date[]> {
+    const [episodes, completions] = await Promise.all([
+      this.prisma.episodeProgress.findMany({
+        where: { userId, watched: true, watchedAt: { not: null } },
+        select: { watchedAt: true },
+      }),
+      this.prisma.userContent.findMany({
+        where: { userId, status: 'COMPLETED', dateCompleted: { not: null } },
+        select: { dateCompleted: true },
+      }),
+    ]);
+
+    return uniqueMonths(
+      [
+        ...episodes.map(episode => episode.watchedAt),
+        ...completions.map(completion => completion.dateCompleted),
+      ].filter((date): date is Date => date !== null)
+    );
+  }
+
+  private async computeMonth(userId: string, month: Date): Promise<MonthTotals> {
+    const range = { gte: month, lt: addMonths(month, 1) };
+
+    const [episodes, completions] = await Promise.all([
+      this.prisma.episodeProgress.findMany({
+        where: { userId, watched: true, watchedAt: range },
+        select: { watchedAt: true, content: { select: { runtimeMinutes: true } } },
+      }),
+      this.prisma.userContent.findMany({
+        where: { userId, status: 'COMPLETED', dateCompleted: range },
+        select: {
+          dateCompleted: true,
+          rating: true,
+          platformWatched: true,
+          content: {
+            select: {
+              contentType: true,
+              genreTags: true,
+              runtimeMinutes: true,
+              totalEpisodes: true,
+              contentCaseLinks: { select: { caseId: true, relationship: true } },
+            },
+          },
+        },
+      }),
+    ]);
+
+    const totals: MonthTotals = {
+      minutesWatched: 0,
+      episodesWatched: episodes.length,
+      titlesCompleted: completions.length,
+      ratingSum: 0,
+      ratingCount: 0,
+      genres: {},
+      cases: {},
+      formats: {},
+      platforms: {},
+      activeDays: [],
+    };
+    const days = new Set<number>();
+
+    episodes.forEach(episode => {
+      totals.minutesWatched += episode.content.runtimeMinutes ?? DEFAULT_EPISODE_MINUTES;
+      days.add(episode.watchedAt!.getUTCDate());
+    });
+
+    completions.forEach(({ content, ...completion }) => {
+      // Series time is counted per episode; titles without episodes count when finished
+      if (!content.totalEpisodes) {
+        totals.minutesWatched += content.runtimeMinutes ?? 0;
+      }
+
+      if (completion.rating !== null) {
+        totals.ratingSum += completion.rating;
+        totals.ratingCount += 1;
+      }
+
+      content.genreTags.forEach(genre => increment(totals.genres, genre));
+      content.contentCaseLinks.forEach(link => increment(totals.cases, link.caseId));
+      increment(totals.formats, formatOf(content));
+
+      if (completion.platformWatched) {
+        increment(totals.platforms, completion.platformWatched);
+      }
+
+      days.add(completion.dateCompleted!.getUTCDate());
+    });
+
+    totals.activeDays = Array.from(days).sort((a, b) => a - b);
+
+    return totals;
+  }
+
+  private async summarize(months: UserStatsMonth[], year: number | null): Promise<ViewingStats> {
+    const genres: Counts = {};
+    const caseCounts: Counts = {};
+    const formats: Counts = {};
+    const platforms: Counts = {};
+    const days: number[] = [];
+    let minutesWatched = 0;
+    let episodesWatched = 0;
+    let titlesCompleted = 0;
+    let ratingSum = 0;
+    let ratingCount = 0;
+
+    months.forEach(row => {
+      minutesWatched += row.minutesWatched;
+      episodesWatched += row.episodesWatched;
+      titlesCompleted += row.titlesCompleted;
+      ratingSum += row.ratingSum;
+      ratingCount += row.ratingCount;
+      merge(genres, row.genres);
+      merge(caseCounts, row.cases);
+      merge(formats, row.formats);
+      merge(platforms, row.platforms);
+
+      const firstDay = Math.floor(row.month.getTime() / DAY_MS);
+      row.activeDays.forEach(day => days.push(firstDay + day - 1));
+    });
+
+    const { cases, perpetrators } = await this.rankCases(caseCounts);
+
+    return {
+      year,
+      totals: {
+        hoursWatched: toHours(minutesWatched),
+        episodesWatched,
+        titlesCompleted,
+        activeDays: days.length,
+      },
+      hoursByMonth: monthlyViewing(months, year),
+      genres: rank(genres, titlesCompleted),
+      cases,
+      perpetrators,
+      formats: FORMATS.map(format => ({
+        format,
+        count: formats[format] ?? 0,
+        percent: percentOf(formats[format] ?? 0, titlesCompleted),
+      })),
+      platforms: rank(platforms, titlesCompleted),
+      longestStreak: longestStreak(days),
+      averageRating: ratingCount > 0 ? Math.round((ratingSum / ratingCount) * 10) / 10 : null,
+      ratingsCount: ratingCount,
+      computedAt: months.reduce<Date | null>(
+        (latest, row) =>
+          row.computedAt && (!latest || row.computedAt > latest) ? row.computedAt : latest,
+        null
+      ),
+    };
+  }
+
+  /**
+   * Most watched cases, and their perpetrators weighted by how many titles covered them
+   */
+  private async rankCases(
+    caseCounts: Counts
+  ): Promise<{ cases: CaseStat[]; perpetrators: StatShare[] }> {
+    const caseIds = Object.keys(caseCounts);
+
+    if (caseIds.length === 0) {
+      return { cases: [], perpetrators: [] };
+    }
+
+    const found = await this.prisma.contentCase.findMany({
+      where: { id: { in: caseIds } },
+      select: { id: true, caseName: true, caseSlug: true, perpetrators: true },
+    });
+
+    const perpetratorCounts: Counts = {};
+    found.forEach(contentCase =>
+      contentCase.perpetrators.forEach(name =>
+        increment(perpetratorCounts, name, caseCounts[contentCase.id] ?? 0)
+      )
+    );
+
+    const cases = found
+      .map(contentCase => ({
+        caseId: contentCase.id,
+        caseName: contentCase.caseName,
+        caseSlug: contentCase.caseSlug,
+        count: caseCounts[contentCase.id] ?? 0,
+      }))
+      .sort((a, b) => b.count - a.count || a.caseName.localeCompare(b.caseName))
+      .slice(0, TOP_STATS_LIMIT);
+
+    const totalCoverage = Object.values(perpetratorCounts).reduce((sum, count) => sum + count, 0);
+
+    return { cases, perpetrators: rank(perpetratorCounts, totalCoverage) };
+  }
+
+  private rethrow(error: unknown, message: string): never {
+    if (error instanceof TRPCError) {
+      throw error;
+    }
+
+    console.error(`${message}:`, error);
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message,
+    });
+  }
+}
+
+/**
+ * Documentaries are the documentary content type, anything tagged as a documentary and
+ * titles that cover a case; dramatizations are titles based on or inspired by one
+ */
+function formatOf(content: FormatContent): ViewingFormat {
+  if (content.contentType === 'PODCAST') {
+    return 'podcast';
+  }
+
+  const relationships = content.contentCaseLinks.map(link => link.relationship);
+
+  if (
+    content.contentType === 'DOCUMENTARY' ||
+    content.genreTags.some(genre => genre.toLowerCase() === 'documentary') ||
+    relationships.some(
+      relationship => relationship && DOCUMENTARY_RELATIONSHIPS.includes(relationship)
+    )
+  ) {
+    return 'documentary';
+  }
+
+  if (
+    relationships.some(
+      relationship => relationship && DRAMATIZATION_RELATIONSHIPS.includes(relationship)
+    )
+  ) {
+    return 'dramatization';
+  }
+
+  return 'other';
+}
+
+/**
+ * Hours per month for every month of the year up to the current one, or for the last
+ * twelve months when looking at all time
+ */
+function monthlyViewing(rows: UserStatsMonth[], year: number | null): MonthlyViewing[] {
+  const now = new Date();
+  const currentMonth = startOfMonth(now);
+  const first = year === null ? addMonths(currentMonth, -11) : new Date(Date.UTC(year, 0, 1));
+  const last =
+    year === null || year === now.getUTCFullYear() ? currentMonth : new Date(Date.UTC(year, 11, 1));
+  const byMonth = new Map(rows.map(row => [row.month.getTime(), row]));
+  const months: MonthlyViewing[] = [];
+
+  for (let month = first; month <= last; month = addMonths(month, 1)) {
+    const row = byMonth.get(month.getTime());
+
+    months.push({
+      month: month.toISOString().slice(0, 7),
+      hoursWatched: toHours(row?.minutesWatched ?? 0),
+      episodesWatched: row?.episodesWatched ?? 0,
+      titlesCompleted: row?.titlesCompleted ?? 0,
+    });
+  }
+
+  return months;
+}
+
+/**
+ * Longest run of consecutive days, matching the streak achievements
+ */
+function longestStreak(days: number[]): number {
+  const sorted = Array.from(new Set(days)).sort((a, b) => a - b);
+  let longest = 0;
+  let current = 0;
+
+  sorted.forEach((day, index) => {
+    current = index > 0 && day === sorted[index - 1]! + 1 ? current + 1 : 1;
+    longest = Math.max(longest, current);
+  });
+
+  return longest;
+}
+
+function shareText(review: Omit<YearInReview, 'shareText'>): string {
+  if (review.titlesCompleted === 0 && review.episodesWatched === 0) {
+    return `My ${review.year} in True Crime is just getting started on TCWatch.`;
+  }
+
+  const lines = [
+    `My ${review.year} in True Crime: ${review.hoursWatched} hours, ${review.titlesCompleted} ${
+      review.titlesCompleted === 1 ? 'title' : 'titles'
+    } finished and ${review.casesExplored} ${review.casesExplored === 1 ? 'case' : 'cases'} explored.`,
+  ];
+
+  if (review.topCase) {
+    lines.push(`Most watched case: ${review.topCase.caseName}.`);
+  }
+
+  if (review.topGenre) {
+    lines.push(`Favorite genre: ${review.topGenre.name}.`);
+  }
+
+  if (review.longestStreak > 1) {
+    lines.push(`Longest streak: ${review.longestStreak} days.`);
+  }
+
+  lines.push('#TCWatch');
+
+  return lines.join(' ');
+}
+
+function rank(counts: Counts, total: number): StatShare[] {
+  return Object.entries(counts)
+    .map(([name, count]) => ({ name, count, percent: percentOf(count, total) }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, TOP_STATS_LIMIT);
+}
+
+function increment(counts: Counts, key: string, by = 1): void {
+  counts[key] = (counts[key] ?? 0) + by;
+}
+
+function merge(counts: Counts, stored: Prisma.JsonValue): void {
+  if (!stored || typeof stored !== 'object' || Array.isArray(stored)) {
+    return;
+  }
+
+  Object.entries(stored).forEach(([key, value]) => {
+    if (typeof value === 'number') {
+      increment(counts, key, value);
+    }
+  });
+}
+
+function percentOf(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 100) : 0;
+}
+
+function toHours(minutes: number): number {
+  return Math.round((minutes / 60) * 10) / 10;
+}
+
+function startOfMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function addMonths(month: Date, count: number): Date {
+  return new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + count, 1));
+}
+
+function uniqueMonths(dates: Date[]): Date[] {
+  return Array.from(new Set(dates.map(date => startOfMonth(date).getTime())))
+    .sort((a, b) => a - b)
+    .map(time => new Date(time));
+}
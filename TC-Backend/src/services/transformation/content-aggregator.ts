@@ -621,7 +621,7 @@ class ContentAggregatorService {
   /**
    * Check if content is True Crime related
    */
-  private isTrueCrimeContent(contentLike: { title?: string; genres?: string[]; keywords?: string[] }): boolean {
+  isTrueCrimeContent(contentLike: { title?: string; genres?: string[]; keywords?: string[] }): boolean {
     const trueCrimeGenres = ['Crime', 'Documentary', 'Mystery', 'Thriller', 'Biography'];
     const trueCrimeKeywords = [
       'true crime', 'serial killer', 'murder', 'investigation', 'detective',
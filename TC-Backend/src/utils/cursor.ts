@@ -0,0 +1,46 @@
+/**
+ * Cursor Pagination Utilities
+ *
+ * Opaque cursors for keyset pagination over (timestamp, id), newest first.
+ */
+
+export interface TimestampCursor {
+  timestamp: Date;
+  id: string;
+}
+
+/**
+ * Encode a row position as an opaque cursor string
+ */
+export function encodeCursor(cursor: TimestampCursor): string {
+  return Buffer.from(`${cursor.timestamp.toISOString()}|${cursor.id}`).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor, or null if it is malformed
+ */
+export function decodeCursor(cursor: string): TimestampCursor | null {
+  const [value, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+  const timestamp = new Date(value ?? '');
+
+  if (!id || Number.isNaN(timestamp.getTime())) {
+    return null;
+  }
+
+  return { timestamp, id };
+}
+
+/**
+ * Prisma where clause selecting rows strictly after the cursor in
+ * (field desc, id desc) order
+ */
+export function afterCursorWhere<F extends string>(field: F, cursor: TimestampCursor) {
+  return {
+    OR: [
+      { [field]: { lt: cursor.timestamp } } as Record<F, { lt: Date }>,
+      { [field]: cursor.timestamp, id: { lt: cursor.id } } as Record<F, Date> & {
+        id: { lt: string };
+      },
+    ],
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * Field Transformer Utilities
+ *
+ * Normalizes content records coming from Prisma, raw SQL and Meilisearch into
+ * the camelCase shape the API returns to clients.
+ */
+
+// A record as it arrives from Prisma, raw SQL or Meilisearch, in either case style
+export type FieldRecord = Record<string, unknown>;
+
+/**
+ * A content record after transformation. The fields search and the frontend read
+ * are typed; anything else on the source record is carried through as-is.
+ */
+export interface TransformedContent extends FieldRecord {
+  id: string;
+  externalId?: string | undefined;
+  title: string;
+  description?: string | null | undefined;
+  contentType: string;
+  releaseDate?: string | Date | null | undefined;
+  releaseYear?: number | undefined;
+  runtimeMinutes?: number | null | undefined;
+  posterUrl?: string | null | undefined;
+  trailerUrl?: string | null | undefined;
+  platforms: unknown[];
+  genreTags?: string[] | undefined;
+  caseTags?: string[] | undefined;
+  caseIds?: string[] | undefined;
+  totalSeasons?: number | null | undefined;
+  totalEpisodes?: number | null | undefined;
+  status?: string | null | undefined;
+  tmdbId?: number | null | undefined;
+  imdbId?: string | null | undefined;
+  tvdbId?: number | null | undefined;
+  rating?: number | undefined;
+  userRating?: number | undefined;
+  imdbRating?: number | undefined;
+  searchVector?: string | null | undefined;
+  createdAt?: string | Date | undefined;
+  updatedAt?: string | Date | undefined;
+  formatted?: FieldRecord | undefined;
+}
+
+function isRecord(value: unknown): value is FieldRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Convert a snake_case key to camelCase
+ */
+export function toCamelCase(key: string): string {
+  return key.replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+/**
+ * Shallow-convert an object's keys to camelCase.
+ * When both forms are present the camelCase value wins.
+ */
+export function camelizeKeys(record: FieldRecord): FieldRecord {
+  const result: FieldRecord = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    const camelKey = toCamelCase(key);
+    if (camelKey !== key && camelKey in record) {
+      continue;
+    }
+    result[camelKey] = value;
+  }
+
+  return result;
+}
+
+/**
+ * Derive a release year from a date-like value
+ */
+export function getReleaseYear(releaseDate: unknown): number | undefined {
+  if (!releaseDate) {
+    return undefined;
+  }
+
+  const date = releaseDate instanceof Date ? releaseDate : new Date(String(releaseDate));
+  const year = date.getFullYear();
+
+  return Number.isNaN(year) ? undefined : year;
+}
+
+/**
+ * Transform a content record (Prisma row or raw SQL row) into camelCase
+ * with the derived fields used by search and the frontend.
+ */
+export function transformSearchResult(record: FieldRecord): TransformedContent {
+  // The record's fields are not checked; it is trusted to be a content row
+  const transformed = camelizeKeys(record) as TransformedContent;
+
+  transformed.platforms = Array.isArray(transformed.platforms)
+    ? transformed.platforms.map(platform =>
+        isRecord(platform) ? camelizeKeys(platform) : platform
+      )
+    : [];
+
+  transformed.releaseYear = transformed.releaseYear ?? getReleaseYear(transformed.releaseDate);
+
+  if (Array.isArray(transformed.contentCaseLinks)) {
+    transformed.caseIds = transformed.contentCaseLinks.flatMap(link =>
+      isRecord(link) && typeof link.caseId === 'string' ? [link.caseId] : []
+    );
+  }
+
+  return transformed;
+}
+
+/**
+ * Transform a single search hit into camelCase, keeping highlight data
+ */
+export function transformContentItem(hit: FieldRecord): TransformedContent {
+  const transformed = transformSearchResult(hit);
+
+  if (isRecord(hit._formatted)) {
+    transformed.formatted = camelizeKeys(hit._formatted);
+  }
+
+  return transformed;
+}
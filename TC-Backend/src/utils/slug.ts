@@ -0,0 +1,31 @@
+/**
+ * Slug Utilities
+ *
+ * URL-friendly identifiers for cases and shared lists.
+ */
+
+import { randomBytes } from 'crypto';
+
+/**
+ * Lowercase, accent-free, hyphen-separated form of a name
+ */
+export function slugify(value: string, maxLength: number = 200): string {
+  return value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, maxLength)
+    .replace(/-+$/, '');
+}
+
+/**
+ * Slug with a short random suffix, for names that are not unique on their own
+ */
+export function uniqueSlug(value: string, maxLength: number = 80): string {
+  const suffix = randomBytes(4).toString('hex').slice(0, 6);
+  const base = slugify(value, maxLength - suffix.length - 1);
+
+  return base ? `${base}-${suffix}` : suffix;
+}
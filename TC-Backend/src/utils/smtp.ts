@@ -0,0 +1,336 @@
+/**
+ * SMTP Utilities
+ *
+ * Minimal SMTP client for notification emails. Speaks enough of the protocol for a mail
+ * provider's submission port (STARTTLS and AUTH PLAIN) or a local MailHog. Credentials are
+ * only sent over TLS unless allowInsecure is set.
+ */
+
+import { randomUUID } from 'crypto';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // Connect over TLS from the start (port 465); otherwise STARTTLS is used when offered
+  secure: boolean;
+  user?: string | undefined;
+  pass?: string | undefined;
+  // Send credentials over a plain connection; only for a local MailHog
+  allowInsecure?: boolean | undefined;
+  timeoutMs?: number | undefined;
+}
+
+export interface MailMessage {
+  from: string;
+  fromName?: string | undefined;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string | undefined;
+}
+
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    // Reply code from the server, or null when the connection itself failed
+    readonly code: number | null
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+
+  // 5xx replies will fail the same way if retried
+  get permanent(): boolean {
+    return this.code !== null && this.code >= 500;
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const LINE_LENGTH = 76;
+
+/**
+ * SMTP settings from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS and
+ * SMTP_ALLOW_INSECURE, or null when no host is configured
+ */
+export function smtpConfigFromEnv(env: NodeJS.ProcessEnv = process.env): SmtpConfig | null {
+  if (!env.SMTP_HOST) {
+    return null;
+  }
+
+  const secure = env.SMTP_SECURE === 'true';
+
+  return {
+    host: env.SMTP_HOST,
+    port: Number(env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: nonEmpty(env.SMTP_USER),
+    pass: nonEmpty(env.SMTP_PASS),
+    allowInsecure: env.SMTP_ALLOW_INSECURE === 'true',
+  };
+}
+
+/**
+ * Send one message. Rejects with an SmtpError when the server refuses it.
+ */
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  [message.from, message.to].forEach(assertAddress);
+  const connection = await SmtpConnection.open(config);
+
+  try {
+    await connection.expect([220]);
+    const ehlo = await connection.command(`EHLO ${os.hostname()}`, [250]);
+    let encrypted = config.secure;
+
+    if (!encrypted && supports(ehlo, 'STARTTLS')) {
+      await connection.command('STARTTLS', [220]);
+      await connection.upgrade(config.host);
+      await connection.command(`EHLO ${os.hostname()}`, [250]);
+      encrypted = true;
+    }
+
+    if (config.user) {
+      if (!encrypted && !config.allowInsecure) {
+        throw new SmtpError(
+          'SMTP server does not offer STARTTLS; refusing to send credentials unencrypted',
+          null
+        );
+      }
+
+      const credentials = Buffer.from(`\0${config.user}\0${config.pass ?? ''}`).toString('base64');
+      await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await connection.command(`MAIL FROM:<${message.from}>`, [250]);
+    await connection.command(`RCPT TO:<${message.to}>`, [250, 251]);
+    await connection.command('DATA', [354]);
+    await connection.command(`${dotStuff(buildMessage(message))}\r\n.`, [250]);
+    await connection.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    connection.close();
+  }
+}
+
+/**
+ * The message with headers, as multipart/alternative when there is an HTML part
+ */
+export function buildMessage(message: MailMessage, date: Date = new Date()): string {
+  const domain = message.from.split('@')[1] ?? 'localhost';
+  const from = message.fromName
+    ? `${encodeHeader(message.fromName)} <${message.from}>`
+    : `<${message.from}>`;
+  const headers = [
+    `From: ${from}`,
+    `To: <${message.to}>`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  if (!message.html) {
+    return [...headers, ...bodyPart('text/plain', message.text)].join('\r\n');
+  }
+
+  const boundary = `tcwatch-${randomUUID()}`;
+
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...bodyPart('text/plain', message.text),
+    `--${boundary}`,
+    ...bodyPart('text/html', message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+class SmtpConnection {
+  private buffer = '';
+  private pending: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> =
+    [];
+  private failure: Error | null = null;
+
+  private constructor(
+    private socket: net.Socket,
+    private timeoutMs: number
+  ) {
+    this.attach(socket);
+  }
+
+  static open(config: SmtpConfig): Promise<SmtpConnection> {
+    const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    return new Promise((resolve, reject) => {
+      const socket = config.secure
+        ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+        : net.connect({ host: config.host, port: config.port });
+      const fail = (error: Error) =>
+        reject(new SmtpError(`SMTP connection failed: ${error.message}`, null));
+
+      socket.setTimeout(timeoutMs, () => socket.destroy(new Error('timed out')));
+      socket.once('error', fail);
+      socket.once(config.secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', fail);
+        resolve(new SmtpConnection(socket, timeoutMs));
+      });
+    });
+  }
+
+  /**
+   * Send a command and check the reply code. Only the verb goes into errors so credentials
+   * are never logged.
+   */
+  async command(line: string, codes: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes, line.split(' ')[0]);
+  }
+
+  async expect(codes: number[], verb = 'greeting'): Promise<SmtpReply> {
+    const reply = await this.read();
+
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(
+        `SMTP ${verb} failed: ${reply.code} ${reply.lines.join(' ')}`,
+        reply.code
+      );
+    }
+
+    return reply;
+  }
+
+  async upgrade(servername: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.setTimeout(0);
+
+    this.socket = await new Promise<net.Socket>((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername });
+      secure.once('secureConnect', () => resolve(secure));
+      secure.once('error', error =>
+        reject(new SmtpError(`SMTP STARTTLS failed: ${error.message}`, null))
+      );
+    });
+    this.attach(this.socket);
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error('timed out')));
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer += chunk.toString('utf8');
+      this.parse();
+    });
+    socket.on('error', error =>
+      this.fail(new SmtpError(`SMTP connection failed: ${error.message}`, null))
+    );
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed', null)));
+  }
+
+  private read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+
+  // A reply ends at a line with a space (or nothing) after the code; "250-" lines continue it
+  private parse(): void {
+    let end: number;
+
+    while ((end = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.pending.push(line.slice(4));
+
+      if (line[3] !== '-') {
+        this.deliver({ code: Number(line.slice(0, 3)), lines: this.pending.splice(0) });
+      }
+    }
+  }
+
+  private deliver(reply: SmtpReply): void {
+    const waiter = this.waiting.shift();
+
+    if (waiter) {
+      waiter.resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.waiting.splice(0).forEach(waiter => waiter.reject(error));
+  }
+}
+
+function nonEmpty(value: string | undefined): string | undefined {
+  return value === '' ? undefined : value;
+}
+
+function assertAddress(address: string): void {
+  if (!/^[^\s<>@]+@[^\s<>@]+$/.test(address)) {
+    throw new SmtpError(`Invalid email address: ${JSON.stringify(address)}`, null);
+  }
+}
+
+function supports(ehlo: SmtpReply, extension: string): boolean {
+  return ehlo.lines.some(line => line.toUpperCase().split(' ')[0] === extension);
+}
+
+function bodyPart(contentType: string, content: string): string[] {
+  return [
+    `Content-Type: ${contentType}; charset=UTF-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...wrap(Buffer.from(content, 'utf8').toString('base64')),
+  ];
+}
+
+function wrap(text: string): string[] {
+  const lines: string[] = [];
+  for (let i = 0; i < text.length; i += LINE_LENGTH) {
+    lines.push(text.slice(i, i + LINE_LENGTH));
+  }
+  return lines;
+}
+
+// Non-ASCII header values are sent as RFC 2047 encoded words
+function encodeHeader(value: string): string {
+  const text = singleLine(value);
+  return /^[\x20-\x7e]*$/.test(text)
+    ? text
+    : `=?UTF-8?B?${Buffer.from(text, 'utf8').toString('base64')}?=`;
+}
+
+function singleLine(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
+
+// A line that starts with a dot would otherwise end the DATA section early
+function dotStuff(message: string): string {
+  return message.replace(/^\./gm, '..');
+}
@@ -236,9 +236,9 @@ export class AuthTestFactory {
       app_metadata: {
         provider: 'email',
         providers: ['email'],
+        role: user.role,
       },
       user_metadata: {
-        role: user.role,
         display_name: user.displayName,
       },
       identities: [],
@@ -0,0 +1,63 @@
+import type { Settings } from 'meilisearch';
+import type { SearchIndexBackend } from '../../src/services/search/search-indexer.service';
+
+/**
+ * In-memory stand-in for Meilisearch used by indexing tests.
+ * Tasks complete synchronously and documents are kept per index.
+ */
+export class InMemorySearchBackend implements SearchIndexBackend {
+  indexes = new Map<string, Map<string, Record<string, any>>>();
+  settings = new Map<string, Settings>();
+  failNextIndexCall = false;
+  private nextTaskUid = 1;
+
+  async updateSettings(indexName: string, settings: Settings): Promise<number> {
+    this.settings.set(indexName, settings);
+    return this.nextTaskUid++;
+  }
+
+  async indexDocuments<T extends Record<string, any>>(
+    indexName: string,
+    documents: T[]
+  ): Promise<number | null> {
+    if (this.failNextIndexCall) {
+      this.failNextIndexCall = false;
+      throw new Error('Meilisearch unavailable');
+    }
+    if (documents.length === 0) {
+      return null;
+    }
+
+    const index = this.getDocuments(indexName);
+    for (const document of documents) {
+      index.set(document.id, document);
+    }
+    return this.nextTaskUid++;
+  }
+
+  async deleteDocuments(indexName: string, ids: string[]): Promise<number | null> {
+    if (ids.length === 0) {
+      return null;
+    }
+
+    const index = this.getDocuments(indexName);
+    for (const id of ids) {
+      index.delete(id);
+    }
+    return this.nextTaskUid++;
+  }
+
+  async deleteAllDocuments(indexName: string): Promise<number> {
+    this.getDocuments(indexName).clear();
+    return this.nextTaskUid++;
+  }
+
+  async waitForTask(): Promise<void> {}
+
+  getDocuments(indexName: string): Map<string, Record<string, any>> {
+    if (!this.indexes.has(indexName)) {
+      this.indexes.set(indexName, new Map());
+    }
+    return this.indexes.get(indexName)!;
+  }
+}
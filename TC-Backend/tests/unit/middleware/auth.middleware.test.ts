@@ -175,7 +175,7 @@ describe('Authentication Middleware', () => {
       expect(context.user).toBeNull();
     });
 
-    it('should extract user role from user_metadata', async () => {
+    it('should extract user role from app_metadata', async () => {
       const adminUser = await authFactory.createTestAdminUser();
       const mockSupabaseUser = authFactory.createMockSupabaseUser(adminUser);
 
@@ -198,8 +198,9 @@ describe('Authentication Middleware', () => {
     it('should default to user role when no role in metadata', async () => {
       const testUser = await authFactory.createTestUser({ role: 'user' });
       const mockSupabaseUser = authFactory.createMockSupabaseUser(testUser);
-      // Remove role from user_metadata
-      mockSupabaseUser.user_metadata = {};
+      // Users can set user_metadata themselves, so a role there is ignored
+      mockSupabaseUser.app_metadata = { provider: 'email', providers: ['email'] };
+      mockSupabaseUser.user_metadata = { role: 'admin' };
 
       mockSupabaseAuth.getUser.mockResolvedValueOnce({
         data: { user: mockSupabaseUser },
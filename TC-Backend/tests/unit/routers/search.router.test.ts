@@ -0,0 +1,107 @@
+/**
+ * Search Router Unit Tests
+ * Tests for search input validation, facets and admin-only indexing procedures
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+const mockSearch = jest.fn(async () => ({ results: [], total: 0, facets: {} }));
+
+jest.mock('ioredis', () => {
+  return jest.fn().mockImplementation(() => ({}));
+});
+
+jest.mock('../../../src/middleware/auth/rate-limit.middleware', () => ({
+  RateLimitMiddleware: jest.fn().mockImplementation(() => ({
+    createRateLimiter: jest.fn(() => jest.fn()),
+  })),
+}));
+
+jest.mock('../../../src/context', () => ({
+  prisma: {},
+  requireAuth: (ctx: { user?: unknown }) => {
+    if (!ctx.user) {
+      throw new Error('UNAUTHORIZED');
+    }
+  },
+}));
+
+jest.mock('../../../src/services/content/content.service', () => ({
+  ContentType: {
+    MOVIE: 'MOVIE',
+    TV_SERIES: 'TV_SERIES',
+    DOCUMENTARY: 'DOCUMENTARY',
+    PODCAST: 'PODCAST',
+  },
+  ContentService: jest.fn().mockImplementation(() => ({ search: mockSearch })),
+}));
+
+jest.mock('../../../src/services/search/search-indexer.service', () => ({
+  SearchIndexerService: jest.fn().mockImplementation(() => ({
+    startReindex: jest.fn(() => ({ id: 'job-1' })),
+  })),
+}));
+
+import { searchRouter } from '../../../src/routers/search.router';
+
+describe('Search Router', () => {
+  let mockCtx: any;
+
+  beforeEach(() => {
+    mockSearch.mockClear();
+    mockCtx = {
+      prisma: {
+        contentCase: {
+          findUnique: jest.fn(async () => null),
+        },
+      },
+      user: null,
+    };
+  });
+
+  it('should search with the default facets and leave out unset filters', async () => {
+    await searchRouter.createCaller(mockCtx).content({ query: 'zodiac' });
+
+    expect(mockSearch).toHaveBeenCalledWith({
+      query: 'zodiac',
+      genreTags: [],
+      platforms: [],
+      caseIds: [],
+      limit: 20,
+      offset: 0,
+      useCache: true,
+      facets: ['contentType', 'genreTags', 'platforms.name', 'caseIds', 'releaseYear'],
+    });
+  });
+
+  it('should only accept a minimum rating on the 1-5 scale', async () => {
+    const caller = searchRouter.createCaller(mockCtx);
+
+    await expect(caller.content({ minRating: 0 })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    await expect(caller.content({ minRating: 6 })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+
+    await caller.content({ minRating: 4 });
+    expect(mockSearch).toHaveBeenCalledWith(expect.objectContaining({ minRating: 4 }));
+  });
+
+  it('should report unknown cases as not found', async () => {
+    await expect(
+      searchRouter.createCaller(mockCtx).byCase({ caseId: '7f1b5a4e-3c2d-4e8f-9a6b-1c2d3e4f5a6b' })
+    ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    expect(mockSearch).not.toHaveBeenCalled();
+  });
+
+  it('should only let admins start indexing', async () => {
+    await expect(
+      searchRouter
+        .createCaller({ ...mockCtx, user: { id: 'user-1', role: 'user' } })
+        .startIndexing()
+    ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const result = await searchRouter
+      .createCaller({ ...mockCtx, user: { id: 'admin-1', role: 'admin' } })
+      .startIndexing();
+
+    expect(result).toMatchObject({ success: true, data: { id: 'job-1' } });
+  });
+});
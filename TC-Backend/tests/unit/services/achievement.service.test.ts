@@ -0,0 +1,198 @@
+/**
+ * Achievement Service Tests
+ * Tests for rule evaluation, idempotent awards, notifications and backfill
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  ACHIEVEMENT_NOTIFICATION_TYPE,
+  AchievementService,
+} from '../../../src/services/social/achievement.service';
+
+const USER = 'user-1';
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('AchievementService', () => {
+  let mockPrisma: any;
+  let service: AchievementService;
+
+  beforeEach(() => {
+    mockPrisma = {
+      userAchievement: {
+        findMany: jest.fn(async () => []),
+        create: jest.fn(async ({ data }: any) => ({
+          id: `achievement-${data.achievementData.key}`,
+          ...data,
+        })),
+      },
+      userContent: {
+        count: jest.fn(async () => 0),
+        findMany: jest.fn(async () => []),
+      },
+      episodeProgress: {
+        count: jest.fn(async () => 0),
+        findMany: jest.fn(async () => []),
+      },
+      contentCaseLink: {
+        findMany: jest.fn(async () => []),
+      },
+      friendship: {
+        count: jest.fn(async () => 0),
+      },
+      challengeParticipant: {
+        count: jest.fn(async () => 0),
+        findUnique: jest.fn(async () => null),
+        findMany: jest.fn(async () => []),
+      },
+      userProfile: {
+        findUnique: jest.fn(async () => null),
+        findMany: jest.fn(async () => []),
+      },
+      notificationDelivery: {
+        create: jest.fn(async ({ data }: any) => ({ id: 'delivery-1', attempts: 0, ...data })),
+        update: jest.fn(async ({ data }: any) => data),
+      },
+      pushToken: {
+        findMany: jest.fn(async () => []),
+      },
+      notification: {
+        create: jest.fn(),
+      },
+      socialActivity: {
+        findFirst: jest.fn(async () => null),
+        create: jest.fn(async ({ data }: any) => data),
+      },
+      $executeRaw: jest.fn(async () => 0),
+    };
+
+    service = new AchievementService(mockPrisma as unknown as PrismaClient);
+  });
+
+  it('should award content milestones and notify the user', async () => {
+    mockPrisma.userContent.count.mockResolvedValue(10);
+
+    const awarded = await service.handleEvent(USER, {
+      type: 'content_tracked',
+      contentId: 'content-1',
+      status: 'COMPLETED',
+    });
+
+    expect(awarded.map((a: any) => a.achievementData.key)).toEqual([
+      'first_case_closed',
+      'completed_10',
+    ]);
+    expect(mockPrisma.userAchievement.create).toHaveBeenCalledWith({
+      data: {
+        userId: USER,
+        achievementType: 'CONTENT_MILESTONE',
+        key: 'completed_10',
+        achievementData: expect.objectContaining({ key: 'completed_10', threshold: 10, value: 10 }),
+      },
+    });
+    expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: USER, type: ACHIEVEMENT_NOTIFICATION_TYPE }),
+    });
+    expect(mockPrisma.socialActivity.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ activityType: 'earned_achievement' }),
+    });
+  });
+
+  it('should not award badges the user already has', async () => {
+    mockPrisma.friendship.count.mockResolvedValue(1);
+    mockPrisma.userAchievement.findMany.mockResolvedValue([
+      { achievementData: { key: 'first_friend' } },
+      { achievementData: { key: 'friends_10' } },
+    ]);
+
+    const awarded = await service.handleEvent(USER, {
+      type: 'friendship_accepted',
+      friendId: 'user-2',
+    });
+
+    expect(awarded).toEqual([]);
+    expect(mockPrisma.friendship.count).not.toHaveBeenCalled();
+    expect(mockPrisma.userAchievement.create).not.toHaveBeenCalled();
+  });
+
+  it('should skip a badge another request awarded at the same time', async () => {
+    mockPrisma.userContent.count.mockResolvedValue(1);
+    mockPrisma.userAchievement.create.mockRejectedValueOnce(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: 'test',
+      })
+    );
+
+    const awarded = await service.handleEvent(USER, {
+      type: 'content_tracked',
+      contentId: 'content-1',
+      status: 'COMPLETED',
+    });
+
+    expect(awarded).toEqual([]);
+    expect(mockPrisma.notification.create).not.toHaveBeenCalled();
+  });
+
+  it('should only evaluate metrics affected by the event', async () => {
+    await service.handleEvent(USER, { type: 'episode_progress', contentId: 'content-1' });
+
+    expect(mockPrisma.episodeProgress.count).toHaveBeenCalled();
+    expect(mockPrisma.userContent.count).not.toHaveBeenCalled();
+    expect(mockPrisma.friendship.count).not.toHaveBeenCalled();
+  });
+
+  it('should count the longest run of consecutive days as a streak', async () => {
+    const start = Date.UTC(2024, 0, 1);
+    mockPrisma.episodeProgress.findMany.mockResolvedValue(
+      [0, 1, 2, 3, 4, 5, 6, 9].map(day => ({ watchedAt: new Date(start + day * DAY) }))
+    );
+    mockPrisma.userContent.findMany.mockResolvedValue([
+      { dateCompleted: new Date(start + 3 * DAY + 1000) },
+    ]);
+
+    const awarded = await service.evaluate(USER, { metrics: ['longestStreak'] });
+
+    expect(awarded.map((a: any) => a.achievementData.key)).toEqual(['streak_7']);
+  });
+
+  it('should award a badge for a completed challenge', async () => {
+    mockPrisma.challengeParticipant.findUnique.mockResolvedValue({
+      status: 'COMPLETED',
+      totalPoints: 40,
+      challenge: { title: 'Spooky Season' },
+    });
+
+    const awarded = await service.handleEvent(USER, {
+      type: 'challenge_completed',
+      challengeId: 'challenge-1',
+    });
+
+    expect(awarded).toHaveLength(1);
+    expect(mockPrisma.userAchievement.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        achievementType: 'CHALLENGE_COMPLETED',
+        achievementData: expect.objectContaining({
+          key: 'challenge:challenge-1',
+          challengeId: 'challenge-1',
+        }),
+      }),
+    });
+  });
+
+  it('should backfill without sending notifications', async () => {
+    mockPrisma.userProfile.findMany
+      .mockResolvedValueOnce([{ userId: 'user-1' }, { userId: 'user-2' }])
+      .mockResolvedValueOnce([]);
+    mockPrisma.userContent.count.mockResolvedValue(1);
+
+    const result = await service.backfill({ batchSize: 2 });
+
+    expect(result).toEqual({ usersProcessed: 2, achievementsAwarded: 2, failedUsers: [] });
+    expect(mockPrisma.userProfile.findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({ skip: 1, cursor: { userId: 'user-2' } })
+    );
+    expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.notification.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Activity Feed Service Tests
+ * Tests for friends-only filtering, privacy settings and cursor pagination
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { ActivityFeedService } from '../../../src/services/social/activity-feed.service';
+import { decodeCursor, encodeCursor } from '../../../src/utils/cursor';
+
+const ME = 'me';
+
+describe('ActivityFeedService', () => {
+  let mockPrisma: any;
+  let service: ActivityFeedService;
+
+  beforeEach(() => {
+    mockPrisma = {
+      friendship: {
+        findMany: jest.fn(async ({ where }: any) =>
+          where.status === 'ACCEPTED'
+            ? [
+                { requesterId: ME, addresseeId: 'visible-friend' },
+                { requesterId: 'hidden-friend', addresseeId: ME },
+              ]
+            : [{ requesterId: ME, addresseeId: 'blocked-user' }]
+        ),
+      },
+      userProfile: {
+        findMany: jest.fn(async () => [
+          { userId: 'visible-friend', privacySettings: { activity_visible: true } },
+          { userId: 'hidden-friend', privacySettings: { activity_visible: false } },
+        ]),
+      },
+      socialActivity: {
+        findMany: jest.fn(async ({ take }: any) =>
+          Array.from({ length: take }, (_, index) => ({
+            id: `activity-${index}`,
+            userId: 'visible-friend',
+            createdAt: new Date(Date.UTC(2024, 0, 1)),
+            lastActivityAt: new Date(Date.UTC(2024, 0, 10 - index)),
+          }))
+        ),
+      },
+    };
+
+    service = new ActivityFeedService(mockPrisma as unknown as PrismaClient);
+  });
+
+  it('should only include friends whose activity is visible', async () => {
+    await service.getFeed(ME);
+
+    const { where } = mockPrisma.socialActivity.findMany.mock.calls[0][0];
+    expect(where.AND[0]).toEqual({ userId: { in: ['visible-friend'] } });
+  });
+
+  it('should hide private lists and lists owned by blocked users', async () => {
+    await service.getFeed(ME);
+
+    const { where } = mockPrisma.socialActivity.findMany.mock.calls[0][0];
+    expect(where.AND[1].OR).toContainEqual({
+      customList: { privacy: { not: 'PRIVATE' }, userId: { notIn: ['blocked-user'] } },
+    });
+    expect(where.AND[2].OR).toContainEqual({
+      content: { userContent: { none: { userId: { in: ['blocked-user'] } } } },
+    });
+  });
+
+  it('should return an empty feed without querying activities when there are no friends', async () => {
+    mockPrisma.friendship.findMany.mockResolvedValue([]);
+
+    const feed = await service.getFeed(ME);
+
+    expect(feed).toEqual({ activities: [], nextCursor: null });
+    expect(mockPrisma.socialActivity.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should page with a cursor on lastActivityAt and id', async () => {
+    const firstPage = await service.getFeed(ME, { limit: 2 });
+
+    expect(firstPage.activities).toHaveLength(2);
+    expect(decodeCursor(firstPage.nextCursor!)).toEqual({
+      timestamp: new Date(Date.UTC(2024, 0, 9)),
+      id: 'activity-1',
+    });
+
+    await service.getFeed(ME, { limit: 2, cursor: firstPage.nextCursor! });
+
+    const { where, orderBy } = mockPrisma.socialActivity.findMany.mock.calls[1][0];
+    expect(orderBy).toEqual([{ lastActivityAt: 'desc' }, { id: 'desc' }]);
+    expect(where.AND).toContainEqual({
+      OR: [
+        { lastActivityAt: { lt: new Date(Date.UTC(2024, 0, 9)) } },
+        { lastActivityAt: new Date(Date.UTC(2024, 0, 9)), id: { lt: 'activity-1' } },
+      ],
+    });
+  });
+
+  it('should reject malformed cursors', async () => {
+    await expect(service.getFeed(ME, { cursor: 'not-a-cursor' })).rejects.toThrow('Invalid cursor');
+    expect(decodeCursor(encodeCursor({ timestamp: new Date(0), id: 'x' }))?.id).toBe('x');
+  });
+});
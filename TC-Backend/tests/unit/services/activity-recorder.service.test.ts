@@ -0,0 +1,145 @@
+/**
+ * Activity Recorder Service Tests
+ * Tests for typed activity recording, tracking transitions and burst coalescing
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import {
+  ACTIVITY_TYPES,
+  ActivityRecorderService,
+} from '../../../src/services/social/activity-recorder.service';
+
+const USER = 'user-1';
+const SHOW = 'content-1';
+
+describe('ActivityRecorderService', () => {
+  let mockPrisma: any;
+  let service: ActivityRecorderService;
+
+  beforeEach(() => {
+    mockPrisma = {
+      socialActivity: {
+        findFirst: jest.fn(async () => null),
+        create: jest.fn(async ({ data }: any) => ({ id: 'activity-1', ...data })),
+        update: jest.fn(async ({ where, data }: any) => ({ id: where.id, ...data })),
+      },
+    };
+
+    service = new ActivityRecorderService(mockPrisma as unknown as PrismaClient);
+  });
+
+  it('should create a typed activity when nothing recent matches', async () => {
+    await service.record(
+      USER,
+      ACTIVITY_TYPES.CREATED_LIST,
+      { listTitle: 'Cold Cases', privacy: 'PUBLIC', itemCount: 2 },
+      { listId: 'list-1' }
+    );
+
+    expect(mockPrisma.socialActivity.create).toHaveBeenCalledWith({
+      data: {
+        userId: USER,
+        activityType: 'created_list',
+        contentId: null,
+        listId: 'list-1',
+        activityData: { listTitle: 'Cold Cases', privacy: 'PUBLIC', itemCount: 2 },
+      },
+    });
+  });
+
+  it('should coalesce a burst of episodes into one entry', async () => {
+    mockPrisma.socialActivity.findFirst.mockResolvedValueOnce({
+      id: 'activity-1',
+      activityData: {
+        count: 2,
+        episodes: [
+          { seasonNumber: 1, episodeNumber: 1 },
+          { seasonNumber: 1, episodeNumber: 2 },
+        ],
+      },
+    });
+
+    await service.recordEpisodesWatched(
+      USER,
+      [2, 3, 4].map(episodeNumber => ({ contentId: SHOW, seasonNumber: 1, episodeNumber }))
+    );
+
+    const { where } = mockPrisma.socialActivity.findFirst.mock.calls[0][0];
+    expect(where).toMatchObject({
+      userId: USER,
+      activityType: 'watched_episodes',
+      contentId: SHOW,
+    });
+    expect(where.lastActivityAt.gte).toBeInstanceOf(Date);
+
+    expect(mockPrisma.socialActivity.create).not.toHaveBeenCalled();
+    const { data } = mockPrisma.socialActivity.update.mock.calls[0][0];
+    // Folding bumps lastActivityAt and keeps createdAt as when the activity began
+    expect(data.lastActivityAt).toBeInstanceOf(Date);
+    expect(data.createdAt).toBeUndefined();
+    expect(data.activityData.count).toBe(4);
+    expect(data.activityData.episodes.map((ep: any) => ep.episodeNumber)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should only record status transitions and rating changes', async () => {
+    await service.recordTrackingChange(USER, SHOW, {
+      status: 'COMPLETED',
+      previousStatus: 'WATCHING',
+      rating: 5,
+      previousRating: 5,
+    });
+
+    expect(mockPrisma.socialActivity.create).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.socialActivity.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ activityType: 'completed', activityData: {} }),
+    });
+
+    await service.recordTrackingChange(USER, SHOW, {
+      status: 'COMPLETED',
+      previousStatus: 'COMPLETED',
+      rating: 3,
+      previousRating: 5,
+    });
+
+    expect(mockPrisma.socialActivity.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({
+        activityType: 'rated',
+        activityData: { rating: 3, previousRating: 5 },
+      }),
+    });
+  });
+
+  it('should never record the same finished season twice', async () => {
+    const existing = {
+      id: 'activity-1',
+      activityData: { seasonNumber: 1, episodeCount: 8 },
+    };
+    mockPrisma.socialActivity.findFirst.mockResolvedValueOnce(existing);
+
+    const result = await service.record(
+      USER,
+      ACTIVITY_TYPES.FINISHED_SEASON,
+      { seasonNumber: 1, episodeCount: 8 },
+      { contentId: SHOW }
+    );
+
+    const { where } = mockPrisma.socialActivity.findFirst.mock.calls[0][0];
+    expect(where.activityData).toEqual({ path: ['seasonNumber'], equals: 1 });
+    expect(where.lastActivityAt).toBeUndefined();
+    expect(result).toBe(existing);
+    expect(mockPrisma.socialActivity.update).not.toHaveBeenCalled();
+    expect(mockPrisma.socialActivity.create).not.toHaveBeenCalled();
+  });
+
+  it('should not throw when recording fails', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockPrisma.socialActivity.create.mockRejectedValueOnce(new Error('db down'));
+
+    await expect(
+      service.record(USER, ACTIVITY_TYPES.STARTED, {}, { contentId: SHOW })
+    ).resolves.toBeNull();
+
+    consoleSpy.mockRestore();
+  });
+});
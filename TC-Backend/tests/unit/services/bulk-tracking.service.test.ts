@@ -0,0 +1,378 @@
+/**
+ * Bulk Tracking Service Tests
+ * Tests for bulk library changes and undoing them
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { BulkTrackingService } from '../../../src/services/content/bulk-tracking.service';
+import { SearchIndexerService } from '../../../src/services/search/search-indexer.service';
+
+const USER = 'user-1';
+const UPDATED_AT = new Date('2024-05-01T12:00:00Z');
+
+const entry = (contentId: string, overrides: Record<string, unknown> = {}) => ({
+  id: `uc-${contentId}`,
+  userId: USER,
+  contentId,
+  status: 'WANT_TO_WATCH',
+  rating: null,
+  notes: null,
+  tags: [],
+  platformWatched: null,
+  dateAdded: new Date('2024-01-01T00:00:00Z'),
+  dateStarted: null,
+  dateCompleted: null,
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+describe('BulkTrackingService', () => {
+  let mockPrisma: any;
+  let mockIndexer: any;
+  let service: BulkTrackingService;
+
+  beforeEach(() => {
+    mockPrisma = {
+      content: {
+        findMany: jest.fn(async () => [
+          { id: 'movie-1', totalSeasons: null, totalEpisodes: null },
+          { id: 'series-1', totalSeasons: 1, totalEpisodes: 3 },
+        ]),
+      },
+      userContent: {
+        findMany: jest.fn(async () => [entry('movie-1')]),
+        create: jest.fn(async ({ data }: any) => ({
+          id: 'uc-new',
+          ...data,
+          updatedAt: UPDATED_AT,
+        })),
+        update: jest.fn(async ({ where, data }: any) => ({
+          ...entry(where.id.replace('uc-', '')),
+          ...data,
+          updatedAt: UPDATED_AT,
+        })),
+        delete: jest.fn(async () => ({})),
+      },
+      episodeProgress: {
+        findMany: jest.fn(async () => [
+          { seasonNumber: 1, episodeNumber: 1, watched: true, watchedAt: UPDATED_AT },
+        ]),
+        updateMany: jest.fn(async () => ({ count: 0 })),
+        createMany: jest.fn(async () => ({ count: 2 })),
+        deleteMany: jest.fn(async () => ({ count: 3 })),
+      },
+      libraryUndo: {
+        findUnique: jest.fn(async () => null),
+        create: jest.fn(async ({ data }: any) => ({ id: 'undo-1', ...data })),
+        update: jest.fn(async () => ({})),
+        updateMany: jest.fn(async () => ({ count: 1 })),
+        deleteMany: jest.fn(async () => ({ count: 0 })),
+      },
+      socialActivity: {
+        findMany: jest.fn(async () => []),
+        findFirst: jest.fn(async () => null),
+        create: jest.fn(async ({ data }: any) => ({ id: `activity-${data.contentId}`, ...data })),
+        update: jest.fn(async () => ({})),
+        updateMany: jest.fn(async () => ({ count: 1 })),
+        deleteMany: jest.fn(async () => ({ count: 1 })),
+      },
+      challengeParticipant: {
+        findMany: jest.fn(async () => []),
+        findUniqueOrThrow: jest.fn(async () => ({ completedAt: null })),
+        update: jest.fn(async ({ where, data }: any) => ({ id: where.id, ...data })),
+      },
+      challengeContent: {
+        findUnique: jest.fn(async () => ({ points: null })),
+        count: jest.fn(async () => 0),
+      },
+      challengeProgress: {
+        findUnique: jest.fn(async () => null),
+        upsert: jest.fn(async () => ({})),
+        updateMany: jest.fn(async () => ({ count: 1 })),
+        aggregate: jest.fn(async () => ({ _count: { _all: 0 }, _sum: { points: null } })),
+      },
+      userAchievement: {
+        findMany: jest.fn(async () => []),
+      },
+      $transaction: jest.fn(async (fn: any) => fn(mockPrisma)),
+    };
+
+    mockIndexer = { queueIndexContent: jest.fn() };
+
+    service = new BulkTrackingService(
+      mockPrisma as unknown as PrismaClient,
+      mockIndexer as unknown as SearchIndexerService
+    );
+  });
+
+  describe('bulkTrack', () => {
+    it('should update and add titles in one transaction and return an undo token', async () => {
+      const result = await service.bulkTrack(USER, ['movie-1', 'series-1', 'missing'], {
+        type: 'status',
+        status: 'COMPLETED',
+      });
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(result).toMatchObject({
+        changed: ['movie-1', 'series-1'],
+        skipped: [{ contentId: 'missing', reason: 'not_found' }],
+        undoToken: 'undo-1',
+      });
+      expect(mockPrisma.userContent.update.mock.calls[0][0].data).toMatchObject({
+        status: 'COMPLETED',
+        dateCompleted: expect.any(Date),
+      });
+      expect(mockPrisma.userContent.create.mock.calls[0][0].data).toMatchObject({
+        userId: USER,
+        contentId: 'series-1',
+        status: 'COMPLETED',
+      });
+
+      const snapshot = mockPrisma.libraryUndo.create.mock.calls[0][0].data.snapshot;
+      expect(snapshot.items).toEqual([
+        {
+          contentId: 'movie-1',
+          before: expect.objectContaining({ status: 'WANT_TO_WATCH' }),
+          after: UPDATED_AT.toISOString(),
+        },
+        { contentId: 'series-1', before: null, after: UPDATED_AT.toISOString() },
+      ]);
+      expect(mockIndexer.queueIndexContent).toHaveBeenCalledWith(['movie-1', 'series-1']);
+    });
+
+    it('should mark every episode of a finished single-season series watched', async () => {
+      await service.bulkTrack(USER, ['series-1'], { type: 'status', status: 'COMPLETED' });
+
+      expect(mockPrisma.episodeProgress.createMany).toHaveBeenCalledWith({
+        data: [1, 2, 3].map(episodeNumber =>
+          expect.objectContaining({ seasonNumber: 1, episodeNumber, watched: true })
+        ),
+        skipDuplicates: true,
+      });
+      expect(mockPrisma.libraryUndo.create.mock.calls[0][0].data.snapshot.episodes).toEqual([
+        {
+          contentId: 'series-1',
+          rows: [
+            {
+              seasonNumber: 1,
+              episodeNumber: 1,
+              watched: true,
+              watchedAt: UPDATED_AT.toISOString(),
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should add the activities it writes to the undo snapshot', async () => {
+      await service.bulkTrack(USER, ['movie-1'], { type: 'status', status: 'COMPLETED' });
+
+      expect(mockPrisma.libraryUndo.update).toHaveBeenCalledWith({
+        where: { id: 'undo-1' },
+        data: {
+          snapshot: expect.objectContaining({
+            activities: {
+              created: [{ id: 'activity-movie-1', contentId: 'movie-1' }],
+              updated: [],
+            },
+          }),
+        },
+      });
+    });
+
+    it('should add the challenges it credits to the undo snapshot', async () => {
+      mockPrisma.challengeParticipant.findMany.mockResolvedValueOnce([
+        { id: 'participant-1', challengeId: 'challenge-1', challenge: { targetCount: 3 } },
+      ]);
+
+      await service.bulkTrack(USER, ['movie-1'], { type: 'status', status: 'COMPLETED' });
+
+      expect(mockPrisma.libraryUndo.update).toHaveBeenCalledWith({
+        where: { id: 'undo-1' },
+        data: {
+          snapshot: expect.objectContaining({
+            challenges: [{ contentId: 'movie-1', participantIds: ['participant-1'] }],
+          }),
+        },
+      });
+    });
+
+    it('should skip untracked titles and merge tags on tracked ones', async () => {
+      mockPrisma.userContent.findMany.mockResolvedValueOnce([
+        entry('movie-1', { tags: ['cold case', 'podcast'] }),
+      ]);
+
+      const result = await service.bulkTrack(USER, ['movie-1', 'series-1'], {
+        type: 'tags',
+        add: ['favourite'],
+        remove: ['podcast'],
+      });
+
+      expect(result.skipped).toEqual([{ contentId: 'series-1', reason: 'not_tracked' }]);
+      expect(mockPrisma.userContent.update.mock.calls[0][0].data).toEqual({
+        tags: ['cold case', 'favourite'],
+      });
+      expect(mockIndexer.queueIndexContent).not.toHaveBeenCalled();
+    });
+
+    it('should not create an undo token when nothing changed', async () => {
+      const result = await service.bulkTrack(USER, ['movie-1'], {
+        type: 'status',
+        status: 'WANT_TO_WATCH',
+      });
+
+      expect(result).toMatchObject({ changed: [], undoToken: null });
+      expect(mockPrisma.libraryUndo.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('undo', () => {
+    const undoRecord = {
+      id: 'undo-1',
+      userId: USER,
+      undoneAt: null,
+      snapshot: {
+        items: [
+          {
+            contentId: 'movie-1',
+            before: {
+              status: 'WANT_TO_WATCH',
+              rating: null,
+              notes: null,
+              tags: [],
+              platformWatched: null,
+              dateAdded: '2024-01-01T00:00:00.000Z',
+              dateStarted: null,
+              dateCompleted: null,
+            },
+            after: UPDATED_AT.toISOString(),
+          },
+          { contentId: 'series-1', before: null, after: UPDATED_AT.toISOString() },
+          { contentId: 'doc-1', before: null, after: UPDATED_AT.toISOString() },
+        ],
+        episodes: [{ contentId: 'series-1', rows: [] }],
+        challenges: [
+          { contentId: 'series-1', participantIds: ['participant-1'] },
+          { contentId: 'doc-1', participantIds: ['participant-1'] },
+        ],
+        activities: {
+          created: [
+            { id: 'activity-1', contentId: 'series-1' },
+            { id: 'activity-2', contentId: 'doc-1' },
+          ],
+          updated: [],
+        },
+      },
+    };
+
+    it('should restore entries, episode progress and activities the change touched', async () => {
+      mockPrisma.libraryUndo.findUnique.mockResolvedValueOnce(undoRecord);
+      mockPrisma.userContent.findMany.mockResolvedValueOnce([
+        entry('movie-1', { status: 'COMPLETED', updatedAt: UPDATED_AT }),
+        entry('series-1', { status: 'COMPLETED', updatedAt: UPDATED_AT }),
+        // Rated again after the bulk change, so it is left alone
+        entry('doc-1', { status: 'COMPLETED', updatedAt: new Date('2024-05-01T12:05:00Z') }),
+      ]);
+
+      const result = await service.undo(USER, 'undo-1');
+
+      expect(result).toEqual({ restored: ['movie-1', 'series-1'], conflicts: ['doc-1'] });
+      expect(mockPrisma.userContent.update).toHaveBeenCalledWith({
+        where: { id: 'uc-movie-1' },
+        data: expect.objectContaining({ status: 'WANT_TO_WATCH', dateCompleted: null }),
+      });
+      expect(mockPrisma.userContent.delete).toHaveBeenCalledWith({ where: { id: 'uc-series-1' } });
+      expect(mockPrisma.episodeProgress.deleteMany).toHaveBeenCalledWith({
+        where: { userId: USER, contentId: 'series-1' },
+      });
+      expect(mockPrisma.socialActivity.deleteMany).toHaveBeenCalledWith({
+        where: { userId: USER, id: { in: ['activity-1'] } },
+      });
+      expect(mockIndexer.queueIndexContent).toHaveBeenCalledWith(['movie-1', 'series-1']);
+    });
+
+    it('should restore activities the change folded into without moving them in the feed', async () => {
+      mockPrisma.libraryUndo.findUnique.mockResolvedValueOnce({
+        ...undoRecord,
+        snapshot: {
+          ...undoRecord.snapshot,
+          activities: {
+            created: [],
+            updated: [
+              {
+                id: 'activity-3',
+                contentId: 'movie-1',
+                activityData: { platform: 'Netflix' },
+                lastActivityAt: '2024-05-01T11:50:00.000Z',
+              },
+            ],
+          },
+        },
+      });
+      mockPrisma.userContent.findMany.mockResolvedValueOnce([
+        entry('movie-1', { status: 'COMPLETED', updatedAt: UPDATED_AT }),
+      ]);
+
+      await service.undo(USER, 'undo-1');
+
+      expect(mockPrisma.socialActivity.updateMany).toHaveBeenCalledWith({
+        where: { id: 'activity-3', userId: USER },
+        data: {
+          activityData: { platform: 'Netflix' },
+          lastActivityAt: new Date('2024-05-01T11:50:00.000Z'),
+        },
+      });
+    });
+
+    it('should take back challenge credit for completions it undoes', async () => {
+      mockPrisma.libraryUndo.findUnique.mockResolvedValueOnce(undoRecord);
+      mockPrisma.userContent.findMany.mockResolvedValueOnce([
+        entry('series-1', { status: 'COMPLETED', updatedAt: UPDATED_AT }),
+        entry('doc-1', { status: 'COMPLETED', updatedAt: new Date('2024-05-01T12:05:00Z') }),
+      ]);
+      mockPrisma.challengeParticipant.findMany.mockResolvedValueOnce([
+        { id: 'participant-1', challengeId: 'challenge-1', challenge: { targetCount: 3 } },
+      ]);
+
+      await service.undo(USER, 'undo-1');
+
+      // doc-1 was changed again, so it keeps its credit
+      expect(mockPrisma.challengeProgress.updateMany).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.challengeProgress.updateMany).toHaveBeenCalledWith({
+        where: { participantId: 'participant-1', contentId: 'series-1', completed: true },
+        data: { completed: false, completedAt: null },
+      });
+      expect(mockPrisma.challengeParticipant.update).toHaveBeenCalledWith({
+        where: { id: 'participant-1' },
+        data: expect.objectContaining({ completedCount: 0, status: 'ACTIVE' }),
+      });
+    });
+
+    it('should only work once and only within the undo window', async () => {
+      mockPrisma.libraryUndo.findUnique.mockResolvedValueOnce({
+        ...undoRecord,
+        undoneAt: new Date(),
+      });
+      mockPrisma.libraryUndo.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(service.undo(USER, 'undo-1')).rejects.toThrow(
+        'This change has already been undone'
+      );
+
+      mockPrisma.libraryUndo.findUnique.mockResolvedValueOnce(undoRecord);
+      mockPrisma.libraryUndo.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(service.undo(USER, 'undo-1')).rejects.toThrow(
+        'This change can no longer be undone'
+      );
+      expect(mockPrisma.userContent.update).not.toHaveBeenCalled();
+    });
+
+    it("should not undo other users' changes", async () => {
+      mockPrisma.libraryUndo.findUnique.mockResolvedValueOnce({ ...undoRecord, userId: 'other' });
+
+      await expect(service.undo(USER, 'undo-1')).rejects.toThrow('Nothing to undo');
+    });
+  });
+});
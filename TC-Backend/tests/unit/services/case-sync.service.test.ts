@@ -0,0 +1,309 @@
+/**
+ * Case Sync Service Tests
+ * Tests for promoting related cases from Wikidata and the low-confidence review queue
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import {
+  CaseSyncService,
+  CASE_LINK_CONFIDENCE_THRESHOLD,
+} from '../../../src/services/content/case-sync.service';
+import { WikidataApiClient } from '../../../src/services/external/wikidata-client';
+import { FollowAlertService } from '../../../src/services/content/follow-alert.service';
+import { PostgresSearchService } from '../../../src/services/search/postgres-search.service';
+import { SearchIndexerService } from '../../../src/services/search/search-indexer.service';
+
+const BTK_DETAILS = {
+  wikidataId: 'Q430291',
+  name: 'BTK Killer',
+  description: 'Serial murders in Wichita, Kansas',
+  aliases: [],
+  type: 'serial_killer',
+  status: 'solved',
+  dateRange: { start: '1974-01-15', end: '1991-01-19' },
+  locations: [{ name: 'Wichita, Kansas' }],
+  perpetrators: [{ name: 'Dennis Rader' }],
+  victims: [{ name: 'Marine Hedge' }],
+  wikipediaUrl: 'https://en.wikipedia.org/wiki/Dennis_Rader',
+};
+
+const pendingReview = {
+  id: 'review-1',
+  contentId: 'content-1',
+  wikidataId: 'Q430291',
+  caseName: 'BTK Killer',
+  caseId: null,
+  relationship: 'INSPIRED_BY',
+  confidence: 0.4,
+  status: 'PENDING',
+};
+
+const relatedCase = (confidence: number) => ({
+  wikidataId: 'Q430291',
+  caseName: 'BTK Killer',
+  relationship: 'covers_case' as const,
+  confidence,
+});
+
+describe('CaseSyncService', () => {
+  let mockPrisma: any;
+  let mockWikidata: any;
+  let mockIndexer: any;
+  let mockPostgresSearch: any;
+  let mockFollowAlerts: any;
+  let service: CaseSyncService;
+
+  beforeEach(() => {
+    mockPrisma = {
+      contentCase: {
+        findFirst: jest.fn(async () => null),
+        findUnique: jest.fn(async () => null),
+        create: jest.fn(async ({ data }: any) => ({ id: 'case-1', ...data })),
+        update: jest.fn(async ({ where, data }: any) => ({ id: where.id, ...data })),
+      },
+      contentCaseLink: {
+        findUnique: jest.fn(async () => null),
+        upsert: jest.fn(async () => ({})),
+      },
+      content: {
+        findUnique: jest.fn(async () => ({ title: 'Zodiac' })),
+      },
+      caseLinkReview: {
+        findUnique: jest.fn(async () => null),
+        upsert: jest.fn(async () => ({})),
+        update: jest.fn(async () => ({})),
+      },
+      $transaction: jest.fn(async (operations: any) => Promise.all(operations)),
+    };
+    mockWikidata = {
+      getCriminalCaseDetails: jest.fn(async () => BTK_DETAILS),
+    };
+    mockIndexer = {
+      indexContent: jest.fn(async () => undefined),
+    };
+    mockPostgresSearch = {
+      refreshSearchVectors: jest.fn(async () => 1),
+    };
+    mockFollowAlerts = {
+      recordSyncedContent: jest.fn(async () => 1),
+    };
+
+    service = new CaseSyncService(
+      mockPrisma as unknown as PrismaClient,
+      mockWikidata as unknown as WikidataApiClient,
+      mockIndexer as unknown as SearchIndexerService,
+      mockPostgresSearch as unknown as PostgresSearchService,
+      mockFollowAlerts as unknown as FollowAlertService
+    );
+  });
+
+  it('should create the case from Wikidata details and link confident matches', async () => {
+    const result = await service.syncRelatedCases('content-1', [
+      relatedCase(CASE_LINK_CONFIDENCE_THRESHOLD),
+    ]);
+
+    expect(result).toEqual({
+      linked: 1,
+      newCaseIds: ['case-1'],
+      queued: 0,
+      skipped: 0,
+      errors: [],
+    });
+    expect(mockPrisma.contentCase.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        wikidataId: 'Q430291',
+        caseName: 'BTK Killer',
+        caseSlug: 'btk-killer',
+        perpetrators: ['Dennis Rader'],
+        victims: ['Marine Hedge'],
+        locations: ['Wichita, Kansas'],
+        timePeriod: '1974-1991',
+        caseStatus: 'SOLVED',
+      }),
+    });
+    expect(mockPrisma.contentCaseLink.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: {
+          contentId: 'content-1',
+          caseId: 'case-1',
+          relationship: 'COVERS_CASE',
+          confidence: CASE_LINK_CONFIDENCE_THRESHOLD,
+        },
+      })
+    );
+    expect(mockIndexer.indexContent).toHaveBeenCalledWith(['content-1']);
+    expect(mockPostgresSearch.refreshSearchVectors).toHaveBeenCalledWith(['content-1']);
+  });
+
+  it('should queue low-confidence matches for review without creating the case', async () => {
+    const result = await service.syncRelatedCases('content-1', [relatedCase(0.3)]);
+
+    expect(result).toMatchObject({ linked: 0, queued: 1 });
+    expect(mockWikidata.getCriminalCaseDetails).not.toHaveBeenCalled();
+    expect(mockPrisma.contentCase.create).not.toHaveBeenCalled();
+    expect(mockPrisma.contentCase.update).not.toHaveBeenCalled();
+    expect(mockPrisma.contentCaseLink.upsert).not.toHaveBeenCalled();
+    expect(mockPrisma.caseLinkReview.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: {
+          contentId: 'content-1',
+          wikidataId: 'Q430291',
+          caseName: 'BTK Killer',
+          relationship: 'COVERS_CASE',
+          confidence: 0.3,
+        },
+      })
+    );
+    expect(mockIndexer.indexContent).not.toHaveBeenCalled();
+  });
+
+  it('should not queue matches to a case the content is already linked to', async () => {
+    mockPrisma.contentCase.findUnique.mockResolvedValueOnce({ id: 'case-1' });
+    mockPrisma.contentCaseLink.findUnique.mockResolvedValueOnce({ contentId: 'content-1' });
+
+    const result = await service.syncRelatedCases('content-1', [relatedCase(0.3)]);
+
+    expect(result).toMatchObject({ queued: 0, skipped: 1 });
+    expect(mockPrisma.caseLinkReview.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should not queue matches that were already rejected', async () => {
+    mockPrisma.caseLinkReview.findUnique.mockResolvedValueOnce({
+      id: 'review-1',
+      status: 'REJECTED',
+    });
+
+    const result = await service.syncRelatedCases('content-1', [relatedCase(0.3)]);
+
+    expect(result).toMatchObject({ queued: 0, skipped: 1 });
+    expect(mockPrisma.caseLinkReview.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should match a case on its Wikidata ID before its name', async () => {
+    mockPrisma.contentCase.findUnique.mockResolvedValueOnce({ id: 'case-7', caseName: 'BTK' });
+
+    await service.syncRelatedCases('content-1', [relatedCase(0.9)]);
+
+    expect(mockPrisma.contentCase.findUnique).toHaveBeenCalledWith({
+      where: { wikidataId: 'Q430291' },
+    });
+    expect(mockPrisma.contentCase.findFirst).not.toHaveBeenCalled();
+    expect(mockPrisma.contentCase.update).toHaveBeenCalledWith({
+      where: { id: 'case-7' },
+      data: expect.objectContaining({ wikidataId: 'Q430291' }),
+    });
+  });
+
+  it('should only adopt a case by name when it has no Wikidata ID', async () => {
+    mockPrisma.contentCase.findFirst.mockResolvedValueOnce({ id: 'case-8', wikidataId: null });
+
+    await service.syncRelatedCases('content-1', [relatedCase(0.9)]);
+
+    expect(mockPrisma.contentCase.findFirst).toHaveBeenCalledWith({
+      where: { caseName: 'BTK Killer', wikidataId: null },
+    });
+    expect(mockPrisma.contentCase.update).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'case-8' } })
+    );
+  });
+
+  it('should create a separate case when the name belongs to another Wikidata case', async () => {
+    mockPrisma.contentCase.findUnique.mockImplementation(async ({ where }: any) =>
+      where.caseName ? { id: 'other-case' } : null
+    );
+
+    await service.syncRelatedCases('content-1', [relatedCase(0.9)]);
+
+    expect(mockPrisma.contentCase.update).not.toHaveBeenCalled();
+    const { data } = mockPrisma.contentCase.create.mock.calls[0][0];
+    expect(data.caseName).toBe('BTK Killer (Q430291)');
+  });
+
+  it('should suffix the slug when another case already uses it', async () => {
+    mockPrisma.contentCase.findUnique.mockImplementation(async ({ where }: any) =>
+      where.caseSlug ? { id: 'other-case' } : null
+    );
+
+    await service.syncRelatedCases('content-1', [relatedCase(0.9)]);
+
+    const { data } = mockPrisma.contentCase.create.mock.calls[0][0];
+    expect(data.caseSlug).toBe('btk-killer-q430291');
+  });
+
+  it('should skip cases without a Wikidata record and keep syncing after errors', async () => {
+    mockWikidata.getCriminalCaseDetails
+      .mockRejectedValueOnce(new Error('SPARQL timeout'))
+      .mockResolvedValueOnce(null);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const result = await service.syncRelatedCases('content-1', [
+      relatedCase(0.9),
+      relatedCase(0.9),
+      { caseName: 'Unknown', relationship: 'inspired_by', confidence: 0.9 },
+    ]);
+
+    expect(result.linked).toBe(0);
+    expect(result.skipped).toBe(2);
+    expect(result.errors).toHaveLength(1);
+  });
+
+  it('should not report cases the content was already linked to as new', async () => {
+    mockPrisma.contentCaseLink.findUnique.mockResolvedValueOnce({ contentId: 'content-1' });
+
+    const result = await service.syncRelatedCases('content-1', [relatedCase(0.9)]);
+
+    expect(result).toMatchObject({ linked: 1, newCaseIds: [] });
+  });
+
+  it('should create the case and publish the link when a review is approved', async () => {
+    mockPrisma.caseLinkReview.findUnique.mockResolvedValueOnce(pendingReview);
+
+    await service.approveReview('review-1', 'admin-1');
+
+    expect(mockWikidata.getCriminalCaseDetails).toHaveBeenCalledWith('Q430291');
+    expect(mockPrisma.contentCase.create).toHaveBeenCalled();
+    expect(mockPrisma.contentCaseLink.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({ contentId: 'content-1', caseId: 'case-1' }),
+      })
+    );
+    expect(mockPrisma.caseLinkReview.update).toHaveBeenCalledWith({
+      where: { id: 'review-1' },
+      data: expect.objectContaining({
+        status: 'APPROVED',
+        caseId: 'case-1',
+        reviewedBy: 'admin-1',
+      }),
+    });
+    expect(mockIndexer.indexContent).toHaveBeenCalledWith(['content-1']);
+    expect(mockFollowAlerts.recordSyncedContent).toHaveBeenCalledWith({
+      contentId: 'content-1',
+      title: 'Zodiac',
+      created: false,
+      newCaseIds: ['case-1'],
+      personWikidataIds: [],
+    });
+  });
+
+  it('should not approve a match whose case is gone from Wikidata', async () => {
+    mockPrisma.caseLinkReview.findUnique.mockResolvedValueOnce(pendingReview);
+    mockWikidata.getCriminalCaseDetails.mockResolvedValueOnce(null);
+
+    await expect(service.approveReview('review-1', 'admin-1')).rejects.toThrow(
+      'Case not found on Wikidata'
+    );
+    expect(mockPrisma.contentCaseLink.upsert).not.toHaveBeenCalled();
+    expect(mockPrisma.caseLinkReview.update).not.toHaveBeenCalled();
+  });
+
+  it('should not alert followers when an approved link already existed', async () => {
+    mockPrisma.caseLinkReview.findUnique.mockResolvedValueOnce(pendingReview);
+    mockPrisma.contentCaseLink.findUnique.mockResolvedValueOnce({ contentId: 'content-1' });
+
+    await service.approveReview('review-1', 'admin-1');
+
+    expect(mockPrisma.contentCaseLink.upsert).toHaveBeenCalled();
+    expect(mockFollowAlerts.recordSyncedContent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Case Service Tests
+ * Tests for case filters, content grouping with tracking status and similar cases
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { CaseService } from '../../../src/services/content/case.service';
+
+const BTK = {
+  id: 'case-btk',
+  caseName: 'BTK Killer',
+  caseSlug: 'btk-killer',
+  perpetrators: ['Dennis Rader'],
+  locations: ['Wichita, Kansas'],
+  timePeriod: '1974-1991',
+};
+
+describe('CaseService', () => {
+  let mockPrisma: any;
+  let service: CaseService;
+
+  beforeEach(() => {
+    mockPrisma = {
+      contentCase: {
+        findUnique: jest.fn(async () => BTK),
+        findMany: jest.fn(async () => []),
+        count: jest.fn(async () => 0),
+      },
+      contentCaseLink: {
+        findMany: jest.fn(async () => []),
+      },
+      $queryRaw: jest.fn(async () => []),
+    };
+
+    service = new CaseService(mockPrisma as unknown as PrismaClient);
+  });
+
+  it('should combine status, time period, location and perpetrator filters', async () => {
+    mockPrisma.$queryRaw
+      .mockResolvedValueOnce([{ id: 'case-1' }, { id: 'case-2' }])
+      .mockResolvedValueOnce([{ id: 'case-2' }, { id: 'case-3' }]);
+
+    await service.listCases({
+      status: 'SOLVED',
+      timePeriod: '1970s',
+      location: 'kansas',
+      perpetrator: 'rader',
+    });
+
+    const { where } = mockPrisma.contentCase.findMany.mock.calls[0][0];
+    expect(where).toEqual({
+      caseStatus: 'SOLVED',
+      timePeriod: { contains: '1970s', mode: 'insensitive' },
+      id: { in: ['case-2'] },
+    });
+  });
+
+  it('should group case content by type with the user tracking status', async () => {
+    mockPrisma.contentCaseLink.findMany.mockResolvedValueOnce([
+      {
+        content: {
+          id: 'doc-1',
+          contentType: 'DOCUMENTARY',
+          userContent: [{ status: 'COMPLETED', rating: 5 }],
+        },
+      },
+      { content: { id: 'pod-1', contentType: 'PODCAST', userContent: [] } },
+    ]);
+
+    const result = await service.getCaseContent('btk-killer', 'user-1');
+
+    expect(result.totalContent).toBe(2);
+    expect(result.contentByType.DOCUMENTARY).toEqual([
+      { id: 'doc-1', contentType: 'DOCUMENTARY', tracking: { status: 'COMPLETED', rating: 5 } },
+    ]);
+    expect(result.contentByType.PODCAST).toEqual([
+      { id: 'pod-1', contentType: 'PODCAST', tracking: null },
+    ]);
+    expect(result.contentByType.MOVIE).toEqual([]);
+  });
+
+  it('should throw NOT_FOUND for an unknown slug', async () => {
+    mockPrisma.contentCase.findUnique.mockResolvedValueOnce(null);
+
+    await expect(service.getBySlug('missing')).rejects.toThrow('Case not found');
+  });
+
+  it('should rank similar cases by shared perpetrators over shared locations', async () => {
+    mockPrisma.contentCase.findMany.mockResolvedValueOnce([
+      {
+        id: 'case-wichita',
+        perpetrators: [],
+        locations: ['Wichita, Kansas'],
+        timePeriod: null,
+        _count: { contentCaseLinks: 10 },
+      },
+      {
+        id: 'case-rader-victims',
+        perpetrators: ['dennis rader'],
+        locations: [],
+        timePeriod: '1974-1991',
+        _count: { contentCaseLinks: 2 },
+      },
+    ]);
+
+    const similar = await service.getSimilarCases('btk-killer');
+
+    expect(similar.map(entry => entry.case.id)).toEqual(['case-rader-victims', 'case-wichita']);
+    expect(similar[0]).toMatchObject({ score: 4, sharedPerpetrators: ['Dennis Rader'] });
+    expect(similar[1]).toMatchObject({ score: 1, sharedLocations: ['Wichita, Kansas'] });
+  });
+});
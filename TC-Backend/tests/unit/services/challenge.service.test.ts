@@ -0,0 +1,259 @@
+/**
+ * Challenge Service Tests
+ * Tests for joining, leaderboards, crediting completed content and starting challenges
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import {
+  ChallengeService,
+  DEFAULT_CHALLENGE_POINTS,
+} from '../../../src/services/social/challenge.service';
+
+const USER = 'user-1';
+const DAY = 24 * 60 * 60 * 1000;
+
+const activeChallenge = {
+  id: 'challenge-1',
+  status: 'ACTIVE',
+  startDate: new Date(Date.now() - DAY),
+  endDate: new Date(Date.now() + DAY),
+  targetCount: 2,
+};
+
+describe('ChallengeService', () => {
+  let mockPrisma: any;
+  let service: ChallengeService;
+
+  beforeEach(() => {
+    mockPrisma = {
+      challenge: {
+        findUnique: jest.fn(async () => activeChallenge),
+        findMany: jest.fn(async () => []),
+        updateMany: jest.fn(async () => ({ count: 1 })),
+      },
+      challengeParticipant: {
+        findUnique: jest.fn(async () => null),
+        findUniqueOrThrow: jest.fn(async () => ({ completedAt: null })),
+        findMany: jest.fn(async () => []),
+        count: jest.fn(async () => 0),
+        upsert: jest.fn(async ({ create }: any) => ({ id: 'participant-1', ...create })),
+        update: jest.fn(async ({ where, data }: any) => ({ id: where.id, ...data })),
+      },
+      challengeContent: {
+        findUnique: jest.fn(async () => ({ points: null })),
+        count: jest.fn(async () => 0),
+      },
+      challengeProgress: {
+        findUnique: jest.fn(async () => null),
+        upsert: jest.fn(),
+        updateMany: jest.fn(async () => ({ count: 1 })),
+        aggregate: jest.fn(async () => ({ _count: { _all: 1 }, _sum: { points: 10 } })),
+      },
+      userContent: {
+        findMany: jest.fn(async () => []),
+      },
+      userAchievement: {
+        findMany: jest.fn(async () => []),
+      },
+      userProfile: {
+        findUnique: jest.fn(async () => null),
+      },
+      notification: {
+        create: jest.fn(async () => ({ id: 'notification-1' })),
+      },
+      notificationDelivery: {
+        create: jest.fn(async ({ data }: any) => ({ id: 'delivery-1', attempts: 0, ...data })),
+        update: jest.fn(async ({ data }: any) => data),
+      },
+      pushToken: {
+        findMany: jest.fn(async () => []),
+      },
+      $transaction: jest.fn(async (fn: any) => fn(mockPrisma)),
+    };
+
+    service = new ChallengeService(mockPrisma as unknown as PrismaClient);
+  });
+
+  describe('join', () => {
+    it('should reject joining twice', async () => {
+      mockPrisma.challengeParticipant.findUnique.mockResolvedValueOnce({ status: 'ACTIVE' });
+
+      await expect(service.join(USER, 'challenge-1')).rejects.toThrow(
+        'You have already joined this challenge'
+      );
+    });
+
+    it('should reject challenges that have ended', async () => {
+      mockPrisma.challenge.findUnique.mockResolvedValueOnce({
+        ...activeChallenge,
+        endDate: new Date(Date.now() - 1000),
+      });
+
+      await expect(service.join(USER, 'challenge-1')).rejects.toThrow(
+        'This challenge is no longer open'
+      );
+      expect(mockPrisma.challengeParticipant.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should credit content already completed during the challenge', async () => {
+      mockPrisma.userContent.findMany.mockResolvedValueOnce([
+        { contentId: 'content-1', dateCompleted: new Date() },
+      ]);
+
+      const participant = await service.join(USER, 'challenge-1');
+
+      expect(mockPrisma.challengeProgress.upsert).toHaveBeenCalledTimes(1);
+      expect(participant).toMatchObject({ completedCount: 1, totalPoints: 10, status: 'ACTIVE' });
+    });
+  });
+
+  describe('recordCompletion', () => {
+    beforeEach(() => {
+      mockPrisma.challengeParticipant.findMany.mockResolvedValue([
+        { id: 'participant-1', challengeId: 'challenge-1', challenge: activeChallenge },
+      ]);
+    });
+
+    it('should award default points and update participant totals', async () => {
+      await service.recordCompletion(USER, 'content-1');
+
+      const { create } = mockPrisma.challengeProgress.upsert.mock.calls[0][0];
+      expect(create).toMatchObject({
+        participantId: 'participant-1',
+        contentId: 'content-1',
+        completed: true,
+        points: DEFAULT_CHALLENGE_POINTS,
+      });
+      expect(mockPrisma.challengeParticipant.update).toHaveBeenCalledWith({
+        where: { id: 'participant-1' },
+        data: expect.objectContaining({ completedCount: 1, totalPoints: 10 }),
+      });
+    });
+
+    it('should complete the participant once required content and target are met', async () => {
+      mockPrisma.challengeProgress.aggregate.mockResolvedValueOnce({
+        _count: { _all: 2 },
+        _sum: { points: 35 },
+      });
+
+      const [participant] = (await service.recordCompletion(USER, 'content-1')) as any[];
+
+      expect(participant.status).toBe('COMPLETED');
+      expect(participant.completedAt).toBeInstanceOf(Date);
+    });
+
+    it('should not credit the same content twice', async () => {
+      mockPrisma.challengeProgress.findUnique.mockResolvedValueOnce({ completed: true });
+
+      const updated = await service.recordCompletion(USER, 'content-1');
+
+      expect(updated).toEqual([]);
+      expect(mockPrisma.challengeProgress.upsert).not.toHaveBeenCalled();
+      expect(mockPrisma.challengeParticipant.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeCompletion', () => {
+    it('should take back the credit and reopen a completed participation', async () => {
+      mockPrisma.challengeParticipant.findMany.mockResolvedValueOnce([
+        { id: 'participant-1', challengeId: 'challenge-1', challenge: activeChallenge },
+      ]);
+      mockPrisma.challengeParticipant.findUniqueOrThrow.mockResolvedValueOnce({
+        completedAt: new Date(),
+      });
+      mockPrisma.challengeProgress.aggregate.mockResolvedValueOnce({
+        _count: { _all: 0 },
+        _sum: { points: null },
+      });
+
+      const [participant] = (await service.revokeCompletion(USER, 'content-1', [
+        'participant-1',
+      ])) as any[];
+
+      expect(mockPrisma.challengeParticipant.findMany).toHaveBeenCalledWith({
+        where: { id: { in: ['participant-1'] }, userId: USER, status: { not: 'WITHDRAWN' } },
+        include: { challenge: true },
+      });
+      expect(mockPrisma.challengeProgress.updateMany).toHaveBeenCalledWith({
+        where: { participantId: 'participant-1', contentId: 'content-1', completed: true },
+        data: { completed: false, completedAt: null },
+      });
+      expect(participant).toMatchObject({
+        completedCount: 0,
+        totalPoints: 0,
+        status: 'ACTIVE',
+        completedAt: null,
+      });
+    });
+
+    it('should take back credit from running challenges with the content when no participations are given', async () => {
+      await service.revokeCompletion(USER, 'content-1');
+
+      expect(mockPrisma.challengeParticipant.findMany).toHaveBeenCalledWith({
+        where: {
+          challenge: {
+            status: { not: 'CANCELLED' },
+            endDate: { gte: expect.any(Date) },
+            challengeContent: { some: { contentId: 'content-1' } },
+          },
+          userId: USER,
+          status: { not: 'WITHDRAWN' },
+        },
+        include: { challenge: true },
+      });
+    });
+  });
+
+  it('should rank the leaderboard by points and skip withdrawn participants', async () => {
+    mockPrisma.challengeParticipant.findMany.mockResolvedValueOnce([
+      {
+        userId: 'leader',
+        totalPoints: 50,
+        completedCount: 5,
+        status: 'ACTIVE',
+        userProfile: { displayName: 'Leader', avatarUrl: null },
+      },
+    ]);
+    mockPrisma.challengeParticipant.count.mockResolvedValueOnce(11);
+
+    const { entries, total } = await service.getLeaderboard('challenge-1', { page: 2, limit: 10 });
+
+    expect(entries[0]).toMatchObject({ rank: 11, userId: 'leader', totalPoints: 50 });
+    expect(total).toBe(11);
+    expect(mockPrisma.challengeParticipant.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { challengeId: 'challenge-1', status: { not: 'WITHDRAWN' } },
+        orderBy: [{ totalPoints: 'desc' }, { completedCount: 'desc' }, { joinedAt: 'asc' }],
+      })
+    );
+  });
+
+  it('should start due challenges once and tell their participants', async () => {
+    const now = new Date();
+    mockPrisma.challenge.findMany.mockResolvedValueOnce([
+      { id: 'challenge-1', title: 'Cold Case Marathon', endDate: activeChallenge.endDate },
+      { id: 'challenge-2', title: 'Podcast Month', endDate: activeChallenge.endDate },
+    ]);
+    // Another run already started the second challenge
+    mockPrisma.challenge.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+    mockPrisma.challengeParticipant.findMany.mockResolvedValueOnce([{ userId: USER }]);
+
+    await expect(service.startDueChallenges(now)).resolves.toBe(1);
+
+    expect(mockPrisma.challenge.updateMany).toHaveBeenCalledWith({
+      where: { id: 'challenge-1', status: 'UPCOMING' },
+      data: { status: 'ACTIVE' },
+    });
+    expect(mockPrisma.notification.create).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: USER,
+        type: 'challenge_starting',
+        data: { challengeId: 'challenge-1', deepLink: 'tcwatch://profile' },
+      }),
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Content Search Service Tests
+ * Tests for when content search falls back from Meilisearch to Postgres
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import {
+  MeiliSearchApiError,
+  MeiliSearchCommunicationError,
+  MeiliSearchTimeOutError,
+} from 'meilisearch';
+import {
+  ContentSearchService,
+  isSearchUnavailable,
+} from '../../../src/services/search/content-search.service';
+import { MeiliSearchService } from '../../../src/services/search/meilisearch.service';
+import { PostgresSearchService } from '../../../src/services/search/postgres-search.service';
+
+const apiError = (httpStatus: number, code: string, message = 'Meilisearch error') =>
+  new MeiliSearchApiError({ message, code, type: 'invalid_request', link: '' }, httpStatus);
+
+const connectionError = () =>
+  new MeiliSearchCommunicationError(
+    'fetch failed',
+    Object.assign(new Error('fetch failed'), {
+      type: 'system',
+      errno: 'ECONNREFUSED',
+      code: 'ECONNREFUSED',
+    })
+  );
+
+const results = (query: string) => ({
+  hits: [{ id: 'content-1' }],
+  totalHits: 1,
+  facetDistribution: {},
+  processingTimeMs: 1,
+  query,
+});
+
+describe('ContentSearchService', () => {
+  let mockMeili: any;
+  let mockPostgres: any;
+  let service: ContentSearchService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    mockMeili = { search: jest.fn(async (_index: string, query: string) => results(query)) };
+    mockPostgres = { search: jest.fn(async (query: string) => results(query)) };
+
+    service = new ContentSearchService(
+      {} as PrismaClient,
+      mockMeili as unknown as MeiliSearchService,
+      mockPostgres as unknown as PostgresSearchService
+    );
+  });
+
+  it('should search Meilisearch when it is available', async () => {
+    const result = await service.search('zodiac', { limit: 10 });
+
+    expect(result.engine).toBe('meilisearch');
+    expect(mockMeili.search).toHaveBeenCalledWith('content', 'zodiac', { limit: 10 });
+    expect(mockPostgres.search).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to Postgres when Meilisearch is unreachable', async () => {
+    mockMeili.search.mockRejectedValue(connectionError());
+
+    const result = await service.search('zodiac', { limit: 10 });
+
+    expect(result.engine).toBe('postgres');
+    expect(mockPostgres.search).toHaveBeenCalledWith('zodiac', { limit: 10 });
+  });
+
+  it('should fall back to Postgres on server errors and a missing index', async () => {
+    mockMeili.search.mockRejectedValueOnce(apiError(503, 'internal'));
+    mockMeili.search.mockRejectedValueOnce(apiError(404, 'index_not_found'));
+
+    await expect(service.search('zodiac')).resolves.toMatchObject({ engine: 'postgres' });
+    await expect(service.search('zodiac')).resolves.toMatchObject({ engine: 'postgres' });
+    expect(mockPostgres.search).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report rejected filters as bad requests without falling back', async () => {
+    mockMeili.search.mockRejectedValue(
+      apiError(400, 'invalid_search_filter', 'Attribute `rating` is not filterable.')
+    );
+
+    await expect(
+      service.search('zodiac', { filters: { rating: { $gte: 4 } } })
+    ).rejects.toMatchObject({
+      code: 'BAD_REQUEST',
+      message: 'Attribute `rating` is not filterable.',
+    });
+    expect(mockPostgres.search).not.toHaveBeenCalled();
+  });
+
+  it('should rethrow unexpected errors', async () => {
+    const error = new Error('boom');
+    mockMeili.search.mockRejectedValue(error);
+
+    await expect(service.search('zodiac')).rejects.toBe(error);
+    expect(mockPostgres.search).not.toHaveBeenCalled();
+  });
+});
+
+describe('isSearchUnavailable', () => {
+  it('should only treat connection, timeout and server errors as unavailability', () => {
+    expect(isSearchUnavailable(connectionError())).toBe(true);
+    expect(isSearchUnavailable(new MeiliSearchTimeOutError('timed out'))).toBe(true);
+    expect(isSearchUnavailable(apiError(500, 'internal'))).toBe(true);
+    expect(isSearchUnavailable(apiError(404, 'index_not_found'))).toBe(true);
+    expect(isSearchUnavailable(apiError(400, 'invalid_search_sort'))).toBe(false);
+    expect(isSearchUnavailable(new Error('boom'))).toBe(false);
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Data Export Service Tests
+ * Tests for export throttling, archive contents and download links
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { inflateRawSync } from 'zlib';
+import { DataExportService } from '../../../src/services/account/data-export.service';
+import { toCsv } from '../../../src/services/account/export-bundle';
+
+const USER = 'user-1';
+
+// Read back the entries of an archive from its local file headers
+const readZip = (archive: Buffer): Record<string, string> => {
+  const files: Record<string, string> = {};
+  let offset = 0;
+
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const start = offset + 30 + nameLength;
+    const name = archive.subarray(offset + 30, start).toString('utf8');
+
+    files[name] = inflateRawSync(archive.subarray(start, start + compressedSize)).toString('utf8');
+    offset = start + compressedSize;
+  }
+
+  return files;
+};
+
+describe('DataExportService', () => {
+  let mockPrisma: any;
+  let storage: any;
+  let service: DataExportService;
+
+  beforeEach(() => {
+    const none = () => ({ findMany: jest.fn(async () => []) });
+
+    mockPrisma = {
+      dataExport: {
+        findFirst: jest.fn(async () => null),
+        findUnique: jest.fn(async () => null),
+        findMany: jest.fn(async () => []),
+        findUniqueOrThrow: jest.fn(async () => ({ id: 'export-1', userId: USER })),
+        create: jest.fn(async ({ data }: any) => ({ id: 'export-1', status: 'PENDING', ...data })),
+        update: jest.fn(async () => ({})),
+        updateMany: jest.fn(async () => ({ count: 1 })),
+      },
+      userProfile: {
+        findUnique: jest.fn(async () => ({
+          userId: USER,
+          displayName: 'Sleuth',
+          avatarUrl: null,
+          interests: ['cold cases'],
+          privacySettings: { profile_visible: false },
+          notificationSettings: { push_enabled: true },
+          createdAt: new Date('2024-01-01T00:00:00Z'),
+          updatedAt: new Date('2024-01-01T00:00:00Z'),
+        })),
+      },
+      userContent: {
+        findMany: jest.fn(async () => [
+          {
+            status: 'COMPLETED',
+            rating: 5,
+            notes: '=HYPERLINK("x"), watch with lights on',
+            tags: ['favourite', 'rewatch'],
+            platformWatched: 'Netflix',
+            dateAdded: new Date('2024-02-01T00:00:00Z'),
+            dateStarted: null,
+            dateCompleted: new Date('2024-02-03T00:00:00Z'),
+            updatedAt: new Date('2024-02-03T00:00:00Z'),
+            content: { id: 'content-1', title: 'The Jinx', contentType: 'TV_SERIES' },
+          },
+        ]),
+      },
+      episodeProgress: none(),
+      customList: none(),
+      listCollaborator: none(),
+      friendship: {
+        findMany: jest.fn(async () => [
+          {
+            requesterId: 'friend-1',
+            addresseeId: USER,
+            status: 'ACCEPTED',
+            createdAt: new Date('2024-03-01T00:00:00Z'),
+            updatedAt: new Date('2024-03-01T00:00:00Z'),
+            requester: { userId: 'friend-1', displayName: 'Watson' },
+            addressee: { userId: USER, displayName: 'Sleuth' },
+          },
+        ]),
+      },
+      socialActivity: none(),
+      notificationDelivery: {
+        create: jest.fn(async ({ data }: any) => ({ id: 'delivery-1', attempts: 0, ...data })),
+        update: jest.fn(async ({ data }: any) => data),
+      },
+      pushToken: {
+        findMany: jest.fn(async () => []),
+      },
+      follow: {
+        findMany: jest.fn(async () => [
+          {
+            targetType: 'PERSON',
+            contentCase: null,
+            content: null,
+            personWikidataId: 'Q7189',
+            personName: 'Ted Bundy',
+            createdAt: new Date('2024-04-01T00:00:00Z'),
+          },
+        ]),
+      },
+      notification: { ...none(), create: jest.fn(async () => ({})) },
+      challengeParticipant: none(),
+      userAchievement: none(),
+      historyImport: none(),
+      review: none(),
+    };
+    storage = {
+      uploadFile: jest.fn(async (file: any) => ({
+        path: 'users/user-1/export.zip',
+        size: file.byteLength,
+        url: '',
+      })),
+      createSignedUrl: jest.fn(async () => 'https://storage.example/signed'),
+      deleteFile: jest.fn(async () => true),
+    };
+
+    service = new DataExportService(mockPrisma as unknown as PrismaClient, storage);
+  });
+
+  describe('requestExport', () => {
+    it('should not queue a second export while one is being built', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValueOnce({ status: 'RUNNING' });
+
+      await expect(service.requestExport(USER)).rejects.toThrow(
+        'Your export is already being prepared'
+      );
+      expect(mockPrisma.dataExport.create).not.toHaveBeenCalled();
+    });
+
+    it('should limit users to one export a day', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValueOnce({ status: 'COMPLETED' });
+
+      await expect(service.requestExport(USER)).rejects.toThrow(
+        'You can request one export per day'
+      );
+    });
+  });
+
+  describe('processExport', () => {
+    it('should upload a zip with the JSON bundle and CSVs to the exports bucket', async () => {
+      await service.processExport('export-1');
+
+      const [archive, , mimeType, options] = storage.uploadFile.mock.calls[0];
+      const files = readZip(archive);
+
+      expect(mimeType).toBe('application/zip');
+      expect(options).toMatchObject({ bucket: 'exports', folder: `users/${USER}` });
+      expect(Object.keys(files)).toEqual(
+        expect.arrayContaining([
+          'README.txt',
+          'tcwatch-data.json',
+          'csv/library.csv',
+          'csv/friendships.csv',
+          'csv/achievements.csv',
+          'csv/follows.csv',
+        ])
+      );
+
+      const bundle = JSON.parse(files['tcwatch-data.json']!);
+      expect(bundle).toMatchObject({
+        formatVersion: 1,
+        userId: USER,
+        settings: { privacy: { profile_visible: false } },
+        friendships: [{ friend: { userId: 'friend-1' }, direction: 'received' }],
+        follows: [{ targetType: 'PERSON', person: { wikidataId: 'Q7189', name: 'Ted Bundy' } }],
+        pushTokens: [],
+      });
+      expect(files['csv/follows.csv']!.split('\r\n')[1]).toBe(
+        'PERSON,Q7189,Ted Bundy,2024-04-01T00:00:00.000Z'
+      );
+      expect(files['csv/library.csv']!.split('\r\n')[1]).toBe(
+        'content-1,The Jinx,TV_SERIES,COMPLETED,5,"\'=HYPERLINK(""x""), watch with lights on",' +
+          'favourite; rewatch,Netflix,2024-02-01T00:00:00.000Z,,2024-02-03T00:00:00.000Z'
+      );
+
+      expect(mockPrisma.dataExport.update).toHaveBeenCalledWith({
+        where: { id: 'export-1' },
+        data: expect.objectContaining({
+          status: 'COMPLETED',
+          filePath: 'users/user-1/export.zip',
+          expiresAt: expect.any(Date),
+        }),
+      });
+      expect(mockPrisma.notification.create.mock.calls[0][0].data.type).toBe('data_export_ready');
+    });
+
+    it('should record a failed upload on the export', async () => {
+      storage.uploadFile.mockRejectedValueOnce(new Error('Bucket not found'));
+
+      await service.processExport('export-1');
+
+      expect(mockPrisma.dataExport.update).toHaveBeenCalledWith({
+        where: { id: 'export-1' },
+        data: expect.objectContaining({ status: 'FAILED', errorMessage: 'Bucket not found' }),
+      });
+      expect(mockPrisma.notification.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resumeExports', () => {
+    it('should requeue exports interrupted mid-build and build everything queued', async () => {
+      mockPrisma.dataExport.findMany.mockResolvedValueOnce([{ id: 'export-1' }]);
+
+      await expect(service.resumeExports()).resolves.toBe(1);
+
+      expect(mockPrisma.dataExport.updateMany).toHaveBeenNthCalledWith(1, {
+        where: { status: 'RUNNING' },
+        data: { status: 'PENDING' },
+      });
+      expect(storage.uploadFile).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getExport', () => {
+    const completed = {
+      id: 'export-1',
+      userId: USER,
+      status: 'COMPLETED',
+      filePath: 'users/user-1/export.zip',
+    };
+
+    it('should sign a fresh download link while the export is available', async () => {
+      mockPrisma.dataExport.findUnique.mockResolvedValueOnce({
+        ...completed,
+        expiresAt: new Date(Date.now() + 60_000),
+      });
+
+      const result = await service.getExport(USER, 'export-1');
+
+      expect(storage.createSignedUrl).toHaveBeenCalledWith(completed.filePath, 3600, 'exports');
+      expect(result).toMatchObject({
+        downloadUrl: 'https://storage.example/signed',
+        expired: false,
+      });
+    });
+
+    it('should not link to expired exports', async () => {
+      mockPrisma.dataExport.findUnique.mockResolvedValueOnce({
+        ...completed,
+        expiresAt: new Date(Date.now() - 60_000),
+      });
+
+      const result = await service.getExport(USER, 'export-1');
+
+      expect(storage.createSignedUrl).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ downloadUrl: null, expired: true });
+    });
+
+    it("should hide other users' exports", async () => {
+      mockPrisma.dataExport.findUnique.mockResolvedValueOnce({ ...completed, userId: 'other' });
+
+      await expect(service.getExport(USER, 'export-1')).rejects.toThrow('Export not found');
+    });
+  });
+
+  it('should quote CSV cells that contain separators, quotes or line breaks', () => {
+    expect(toCsv(['a', 'b'], [['one, two', 'say "hi"\nbye']])).toBe(
+      'a,b\r\n"one, two","say ""hi""\nbye"\r\n'
+    );
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * Episode Tracking Service Tests
+ * Tests for marking episodes, season roll-ups and automatic library status changes
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+
+jest.mock('ioredis', () => {
+  return jest.fn().mockImplementation(() => ({}));
+});
+
+import { EpisodeTrackingService } from '../../../src/services/content/episode-tracking.service';
+import { SearchIndexerService } from '../../../src/services/search/search-indexer.service';
+
+const USER = 'user-1';
+const SERIES = 'series-1';
+
+const AIRED = '2023-01-01';
+const UNAIRED = '2999-01-01';
+
+// Two seasons of three episodes, with a special and one episode still to air
+const tvdbEpisodes = [
+  { seasonNumber: 0, number: 1, aired: AIRED },
+  ...[1, 2, 3].map(number => ({ seasonNumber: 1, number, aired: AIRED })),
+  ...[1, 2].map(number => ({ seasonNumber: 2, number, aired: AIRED })),
+  { seasonNumber: 2, number: 3, aired: UNAIRED },
+];
+
+const watchedRows = (refs: Array<[number, number]>) =>
+  refs.map(([seasonNumber, episodeNumber]) => ({ seasonNumber, episodeNumber }));
+
+describe('EpisodeTrackingService', () => {
+  let mockPrisma: any;
+  let guideClient: any;
+  let cache: any;
+  let mockIndexer: any;
+  let service: EpisodeTrackingService;
+
+  beforeEach(() => {
+    mockPrisma = {
+      content: {
+        findUnique: jest.fn(async () => ({
+          id: SERIES,
+          contentType: 'TV_SERIES',
+          tvdbId: 81189,
+          totalSeasons: 2,
+          totalEpisodes: 6,
+        })),
+      },
+      userContent: {
+        findUnique: jest.fn(async () => null),
+        create: jest.fn(async ({ data }: any) => ({ id: 'uc-1', ...data })),
+        update: jest.fn(async ({ data }: any) => ({ id: 'uc-1', ...data })),
+      },
+      episodeProgress: {
+        findMany: jest.fn(async () => []),
+        updateMany: jest.fn(async () => ({ count: 0 })),
+        createMany: jest.fn(async () => ({ count: 1 })),
+      },
+      socialActivity: {
+        findFirst: jest.fn(async () => null),
+        create: jest.fn(async ({ data }: any) => ({ id: 'activity-1', ...data })),
+        update: jest.fn(async () => ({})),
+      },
+      challengeParticipant: {
+        findMany: jest.fn(async () => []),
+      },
+      userAchievement: {
+        findMany: jest.fn(async () => []),
+      },
+      $transaction: jest.fn(async (fn: any) => fn(mockPrisma)),
+    };
+    guideClient = {
+      getSeriesEpisodes: jest.fn(async () => ({ episodes: tvdbEpisodes, links: { next: null } })),
+    };
+
+    cache = {
+      get: jest.fn(async () => null),
+      set: jest.fn(async () => undefined),
+    };
+
+    mockIndexer = { queueIndexContent: jest.fn() };
+
+    service = new EpisodeTrackingService(
+      mockPrisma as unknown as PrismaClient,
+      guideClient,
+      cache,
+      mockIndexer as unknown as SearchIndexerService
+    );
+  });
+
+  describe('updateProgress', () => {
+    it('should start watching the series on the first episode', async () => {
+      const result = await service.updateProgress(USER, SERIES, {
+        type: 'episode',
+        seasonNumber: 1,
+        episodeNumber: 1,
+        watched: true,
+      });
+
+      expect(mockPrisma.episodeProgress.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ seasonNumber: 1, episodeNumber: 1, watched: true })],
+        skipDuplicates: true,
+      });
+      expect(mockPrisma.userContent.create.mock.calls[0][0].data).toMatchObject({
+        userId: USER,
+        contentId: SERIES,
+        status: 'WATCHING',
+        dateStarted: expect.any(Date),
+      });
+      expect(result.statusChange).toEqual({ from: null, to: 'WATCHING' });
+      expect(result.progress).toMatchObject({ watched: 1, total: 5, percent: 20 });
+      expect(mockIndexer.queueIndexContent).toHaveBeenCalledWith([SERIES]);
+    });
+
+    it('should mark every aired episode up to the one given', async () => {
+      mockPrisma.episodeProgress.findMany.mockResolvedValueOnce(watchedRows([[1, 1]]));
+
+      const result = await service.updateProgress(USER, SERIES, {
+        type: 'up_to',
+        seasonNumber: 2,
+        episodeNumber: 1,
+      });
+
+      const created = mockPrisma.episodeProgress.createMany.mock.calls[0][0].data;
+      expect(created.map((row: any) => [row.seasonNumber, row.episodeNumber])).toEqual([
+        [1, 2],
+        [1, 3],
+        [2, 1],
+      ]);
+      expect(result.changed).toBe(3);
+      expect(result.progress.seasons).toEqual([
+        { seasonNumber: 1, watched: 3, total: 3, percent: 100, complete: true },
+        { seasonNumber: 2, watched: 1, total: 2, percent: 50, complete: false },
+      ]);
+      expect(result.progress.nextEpisode).toEqual({ seasonNumber: 2, episodeNumber: 2 });
+      expect(mockPrisma.socialActivity.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          activityType: 'finished_season',
+          activityData: { seasonNumber: 1, episodeCount: 3 },
+        }),
+      });
+    });
+
+    it('should complete the series once the latest aired episode is watched', async () => {
+      mockPrisma.episodeProgress.findMany.mockResolvedValueOnce(
+        watchedRows([
+          [1, 1],
+          [1, 2],
+          [1, 3],
+          [2, 1],
+        ])
+      );
+      mockPrisma.userContent.findUnique.mockResolvedValueOnce({
+        id: 'uc-1',
+        status: 'WATCHING',
+        dateStarted: new Date('2024-01-01T00:00:00Z'),
+      });
+
+      const result = await service.updateProgress(USER, SERIES, {
+        type: 'season',
+        seasonNumber: 2,
+        watched: true,
+      });
+
+      expect(result.statusChange).toEqual({ from: 'WATCHING', to: 'COMPLETED' });
+      expect(mockPrisma.userContent.update).toHaveBeenCalledWith({
+        where: { id: 'uc-1' },
+        data: expect.objectContaining({
+          status: 'COMPLETED',
+          dateStarted: new Date('2024-01-01T00:00:00Z'),
+          dateCompleted: expect.any(Date),
+        }),
+      });
+      expect(mockIndexer.queueIndexContent).not.toHaveBeenCalled();
+      expect(result.progress).toMatchObject({ watched: 5, total: 5, percent: 100, caughtUp: true });
+    });
+
+    it('should not complete a series when earlier aired episodes are still unwatched', async () => {
+      mockPrisma.episodeProgress.findMany.mockResolvedValueOnce(watchedRows([[1, 1]]));
+      mockPrisma.userContent.findUnique.mockResolvedValueOnce({ id: 'uc-1', status: 'WATCHING' });
+
+      const result = await service.updateProgress(USER, SERIES, {
+        type: 'episode',
+        seasonNumber: 2,
+        episodeNumber: 2,
+        watched: true,
+      });
+
+      expect(result.statusChange).toBeNull();
+      expect(result.progress).toMatchObject({ watched: 2, total: 5, caughtUp: false });
+      expect(mockPrisma.userContent.update).not.toHaveBeenCalled();
+    });
+
+    it('should move a completed series back to watching when the finale is unwatched', async () => {
+      mockPrisma.episodeProgress.findMany.mockResolvedValueOnce(
+        watchedRows([
+          [1, 1],
+          [1, 2],
+          [1, 3],
+          [2, 1],
+          [2, 2],
+        ])
+      );
+      mockPrisma.userContent.findUnique.mockResolvedValueOnce({
+        id: 'uc-1',
+        status: 'COMPLETED',
+        dateStarted: null,
+      });
+
+      const result = await service.updateProgress(USER, SERIES, {
+        type: 'episode',
+        seasonNumber: 2,
+        episodeNumber: 2,
+        watched: false,
+      });
+
+      expect(mockPrisma.episodeProgress.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: USER,
+          contentId: SERIES,
+          OR: [{ seasonNumber: 2, episodeNumber: 2 }],
+        },
+        data: { watched: false, watchedAt: null },
+      });
+      expect(result.statusChange).toEqual({ from: 'COMPLETED', to: 'WATCHING' });
+      // Reopening the title takes back any challenge credit for it
+      expect(mockPrisma.challengeParticipant.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            challenge: expect.objectContaining({
+              challengeContent: { some: { contentId: SERIES } },
+            }),
+          }),
+        })
+      );
+    });
+
+    it('should not change anything for episodes already watched', async () => {
+      mockPrisma.episodeProgress.findMany.mockResolvedValueOnce(watchedRows([[1, 1]]));
+      mockPrisma.userContent.findUnique.mockResolvedValueOnce({ id: 'uc-1', status: 'WATCHING' });
+
+      const result = await service.updateProgress(USER, SERIES, {
+        type: 'episode',
+        seasonNumber: 1,
+        episodeNumber: 1,
+        watched: true,
+      });
+
+      expect(result).toMatchObject({ changed: 0, statusChange: null });
+      expect(mockPrisma.episodeProgress.createMany).not.toHaveBeenCalled();
+      expect(mockPrisma.socialActivity.create).not.toHaveBeenCalled();
+    });
+
+    it('should need the episode list to mark a whole season', async () => {
+      service = new EpisodeTrackingService(
+        mockPrisma as unknown as PrismaClient,
+        null,
+        cache,
+        mockIndexer as unknown as SearchIndexerService
+      );
+
+      await expect(
+        service.updateProgress(USER, SERIES, { type: 'season', seasonNumber: 1, watched: true })
+      ).rejects.toThrow('The episode list for this series is not available yet');
+    });
+
+    it('should reject movies', async () => {
+      mockPrisma.content.findUnique.mockResolvedValueOnce({ id: 'movie-1', contentType: 'MOVIE' });
+
+      await expect(
+        service.updateProgress(USER, 'movie-1', {
+          type: 'episode',
+          seasonNumber: 1,
+          episodeNumber: 1,
+          watched: true,
+        })
+      ).rejects.toThrow('Movies do not have episodes');
+    });
+  });
+
+  describe('getProgress', () => {
+    it('should follow the episode list across pages and skip specials and unaired episodes', async () => {
+      guideClient.getSeriesEpisodes
+        .mockResolvedValueOnce({ episodes: tvdbEpisodes.slice(0, 4), links: { next: 1 } })
+        .mockResolvedValueOnce({ episodes: tvdbEpisodes.slice(4), links: { next: null } });
+      mockPrisma.episodeProgress.findMany.mockResolvedValueOnce(watchedRows([[1, 1]]));
+
+      const progress = await service.getProgress(USER, SERIES);
+
+      expect(guideClient.getSeriesEpisodes).toHaveBeenCalledTimes(2);
+      expect(cache.set).toHaveBeenCalledWith(
+        'episode_guide:81189',
+        expect.arrayContaining([{ seasonNumber: 2, episodeNumber: 3, aired: UNAIRED }]),
+        6 * 60 * 60
+      );
+      expect(progress).toMatchObject({
+        watched: 1,
+        total: 5,
+        percent: 20,
+        lastAiredEpisode: { seasonNumber: 2, episodeNumber: 2 },
+        caughtUp: false,
+      });
+    });
+
+    it('should read the episode list from the cache and still check air dates', async () => {
+      cache.get.mockResolvedValueOnce([
+        { seasonNumber: 1, episodeNumber: 1, aired: AIRED },
+        { seasonNumber: 1, episodeNumber: 2, aired: UNAIRED },
+      ]);
+
+      const progress = await service.getProgress(USER, SERIES);
+
+      expect(cache.get).toHaveBeenCalledWith('episode_guide:81189');
+      expect(guideClient.getSeriesEpisodes).not.toHaveBeenCalled();
+      expect(progress).toMatchObject({
+        total: 1,
+        nextEpisode: { seasonNumber: 1, episodeNumber: 1 },
+      });
+    });
+
+    it('should fall back to totalEpisodes when the episode list is unavailable', async () => {
+      guideClient.getSeriesEpisodes.mockRejectedValueOnce(new Error('TVDB is down'));
+      mockPrisma.episodeProgress.findMany.mockResolvedValueOnce(
+        watchedRows([
+          [1, 1],
+          [2, 1],
+          [2, 2],
+        ])
+      );
+
+      const progress = await service.getProgress(USER, SERIES);
+
+      expect(progress).toMatchObject({ watched: 3, total: 6, percent: 50, nextEpisode: null });
+      expect(progress.seasons).toEqual([
+        { seasonNumber: 1, watched: 1, total: null, percent: null, complete: false },
+        { seasonNumber: 2, watched: 2, total: null, percent: null, complete: false },
+      ]);
+    });
+  });
+});
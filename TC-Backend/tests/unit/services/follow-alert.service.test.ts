@@ -0,0 +1,211 @@
+/**
+ * Follow Alert Service Tests
+ * Tests for matching synced content to followers, deduplication and per-user batching
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import {
+  ALERT_BATCH_DELAY_MS,
+  FollowAlertService,
+  SyncedContent,
+} from '../../../src/services/content/follow-alert.service';
+import { NotificationService } from '../../../src/services/notification/notification.service';
+import { renderNotification } from '../../../src/services/notification/notification-events';
+
+const NOW = new Date('2024-06-15T12:00:00Z');
+
+const synced = (overrides: Partial<SyncedContent> = {}): SyncedContent => ({
+  contentId: 'content-1',
+  title: 'Zodiac',
+  created: true,
+  newCaseIds: [],
+  personWikidataIds: [],
+  ...overrides,
+});
+
+const caseFollow = {
+  personWikidataId: null,
+  personName: null,
+  contentCase: { id: 'case-1', caseName: 'The Zodiac Killer' },
+};
+
+describe('FollowAlertService', () => {
+  let mockPrisma: any;
+  let notifications: Record<string, jest.Mock<(...args: any[]) => Promise<any>>>;
+  let service: FollowAlertService;
+
+  beforeEach(() => {
+    mockPrisma = {
+      follow: {
+        findMany: jest.fn(async () => []),
+      },
+      followAlert: {
+        createMany: jest.fn(async ({ data }: any) => ({ count: data.length })),
+        findMany: jest.fn(async () => []),
+        updateMany: jest.fn(async ({ where }: any) => ({ count: where.id.in.length })),
+      },
+    };
+    notifications = {
+      followedCaseContent: jest.fn(async () => ({})),
+      followedPersonContent: jest.fn(async () => ({})),
+      followedSeriesEpisodes: jest.fn(async () => ({})),
+      followedContentDigest: jest.fn(async () => ({})),
+    };
+
+    service = new FollowAlertService(
+      mockPrisma as unknown as PrismaClient,
+      notifications as unknown as NotificationService
+    );
+  });
+
+  describe('recordSyncedContent', () => {
+    it('should queue one alert per user when several of their follows match', async () => {
+      mockPrisma.follow.findMany.mockResolvedValueOnce([
+        { id: 'follow-case', userId: 'user-1', targetType: 'CASE' },
+        { id: 'follow-person', userId: 'user-1', targetType: 'PERSON' },
+        { id: 'follow-other', userId: 'user-2', targetType: 'PERSON' },
+      ]);
+
+      const queued = await service.recordSyncedContent(
+        synced({ newCaseIds: ['case-1'], personWikidataIds: ['Q7189'] })
+      );
+
+      expect(queued).toBe(2);
+      expect(mockPrisma.follow.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            OR: [{ caseId: { in: ['case-1'] } }, { personWikidataId: { in: ['Q7189'] } }],
+          },
+        })
+      );
+      expect(mockPrisma.followAlert.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            userId: 'user-1',
+            followId: 'follow-case',
+            contentId: 'content-1',
+            dedupeKey: 'content:content-1',
+          },
+          {
+            userId: 'user-2',
+            followId: 'follow-other',
+            contentId: 'content-1',
+            dedupeKey: 'content:content-1',
+          },
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    it('should only match people and cases for content that is new to them', async () => {
+      await service.recordSyncedContent(synced({ created: false, personWikidataIds: ['Q7189'] }));
+
+      expect(mockPrisma.follow.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should alert series followers once per new episode count', async () => {
+      mockPrisma.follow.findMany.mockResolvedValueOnce([
+        { id: 'follow-series', userId: 'user-1', targetType: 'SERIES' },
+      ]);
+
+      await service.recordSyncedContent(
+        synced({ created: false, previousEpisodes: 10, totalEpisodes: 12 })
+      );
+
+      expect(mockPrisma.follow.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { OR: [{ contentId: 'content-1' }] } })
+      );
+      expect(mockPrisma.followAlert.createMany.mock.calls[0][0].data).toEqual([
+        expect.objectContaining({ dedupeKey: 'episodes:content-1:12' }),
+      ]);
+    });
+
+    it('should not fail the sync when alerts cannot be queued', async () => {
+      jest.spyOn(console, 'error').mockImplementationOnce(() => undefined);
+      mockPrisma.follow.findMany.mockRejectedValueOnce(new Error('connection lost'));
+
+      const queued = await service.recordSyncedContent(synced({ newCaseIds: ['case-1'] }));
+
+      expect(queued).toBe(0);
+    });
+  });
+
+  describe('sendPending', () => {
+    it('should wait out the batch window and send one alert as its own notification', async () => {
+      mockPrisma.followAlert.findMany
+        .mockResolvedValueOnce([{ userId: 'user-1' }])
+        .mockResolvedValueOnce([
+          {
+            id: 'alert-1',
+            contentId: 'content-1',
+            content: { title: 'Zodiac' },
+            follow: caseFollow,
+          },
+        ]);
+
+      await expect(service.sendPending(NOW)).resolves.toEqual({ users: 1, alerts: 1 });
+
+      expect(mockPrisma.followAlert.findMany.mock.calls[0][0].where).toEqual({
+        sentAt: null,
+        createdAt: { lte: new Date(NOW.getTime() - ALERT_BATCH_DELAY_MS) },
+      });
+      expect(mockPrisma.followAlert.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['alert-1'] }, sentAt: null },
+        data: { sentAt: NOW },
+      });
+      expect(notifications.followedCaseContent).toHaveBeenCalledWith('user-1', {
+        caseId: 'case-1',
+        caseName: 'The Zodiac Killer',
+        contentId: 'content-1',
+        contentTitle: 'Zodiac',
+      });
+    });
+
+    it('should batch several titles into a digest', async () => {
+      mockPrisma.followAlert.findMany
+        .mockResolvedValueOnce([{ userId: 'user-1' }])
+        .mockResolvedValueOnce(
+          ['Zodiac', 'Mindhunter', 'The Jinx'].map((title, index) => ({
+            id: `alert-${index}`,
+            contentId: `content-${index}`,
+            content: { title },
+            follow: caseFollow,
+          }))
+        );
+
+      await expect(service.sendPending(NOW)).resolves.toEqual({ users: 1, alerts: 3 });
+
+      expect(notifications.followedCaseContent).not.toHaveBeenCalled();
+      expect(notifications.followedContentDigest).toHaveBeenCalledWith('user-1', {
+        contentTitles: ['Zodiac', 'Mindhunter', 'The Jinx'],
+      });
+
+      const digest = renderNotification({
+        type: 'followed_content_digest',
+        userId: 'user-1',
+        payload: { contentTitles: ['Zodiac', 'Mindhunter', 'The Jinx'] },
+      });
+      expect(digest.inApp.message).toBe(
+        '"Zodiac", "Mindhunter" and 1 more are about cases, people and series you follow'
+      );
+    });
+
+    it('should skip a batch another run already sent', async () => {
+      mockPrisma.followAlert.findMany
+        .mockResolvedValueOnce([{ userId: 'user-1' }])
+        .mockResolvedValueOnce([
+          {
+            id: 'alert-1',
+            contentId: 'content-1',
+            content: { title: 'Zodiac' },
+            follow: caseFollow,
+          },
+        ]);
+      mockPrisma.followAlert.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(service.sendPending(NOW)).resolves.toEqual({ users: 0, alerts: 0 });
+      expect(notifications.followedCaseContent).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Follow Service Tests
+ * Tests for following cases, people and TV series
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { FollowService } from '../../../src/services/content/follow.service';
+
+const USER = 'user-1';
+
+describe('FollowService', () => {
+  let mockPrisma: any;
+  let service: FollowService;
+
+  beforeEach(() => {
+    mockPrisma = {
+      follow: {
+        upsert: jest.fn(async ({ create }: any) => ({ id: 'follow-1', ...create })),
+        deleteMany: jest.fn(async () => ({ count: 1 })),
+        findMany: jest.fn(async () => []),
+      },
+      contentCase: {
+        findUnique: jest.fn(async () => ({ id: 'case-1' })),
+      },
+      content: {
+        findUnique: jest.fn(async () => ({ contentType: 'TV_SERIES' })),
+      },
+    };
+
+    service = new FollowService(mockPrisma as unknown as PrismaClient);
+  });
+
+  it('should follow a case once however many times it is followed', async () => {
+    await service.follow(USER, { type: 'CASE', caseId: 'case-1' });
+
+    expect(mockPrisma.follow.upsert).toHaveBeenCalledWith({
+      where: { userId_caseId: { userId: USER, caseId: 'case-1' } },
+      update: {},
+      create: { userId: USER, targetType: 'CASE', caseId: 'case-1' },
+    });
+  });
+
+  it('should follow people by Wikidata ID', async () => {
+    await service.follow(USER, { type: 'PERSON', wikidataId: 'Q7189', name: 'Ted Bundy' });
+
+    expect(mockPrisma.follow.upsert.mock.calls[0][0].create).toEqual({
+      userId: USER,
+      targetType: 'PERSON',
+      personWikidataId: 'Q7189',
+      personName: 'Ted Bundy',
+    });
+
+    await expect(
+      service.follow(USER, { type: 'PERSON', wikidataId: 'tt123', name: 'Ted Bundy' })
+    ).rejects.toThrow('People are followed by their Wikidata ID');
+  });
+
+  it('should only follow content that is a TV series', async () => {
+    mockPrisma.content.findUnique.mockResolvedValueOnce({ contentType: 'MOVIE' });
+
+    await expect(service.follow(USER, { type: 'SERIES', contentId: 'content-1' })).rejects.toThrow(
+      'Only TV series can be followed'
+    );
+    expect(mockPrisma.follow.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should only unfollow your own follows', async () => {
+    mockPrisma.follow.deleteMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(service.unfollow(USER, 'follow-2')).rejects.toThrow('Follow not found');
+    expect(mockPrisma.follow.deleteMany).toHaveBeenCalledWith({
+      where: { id: 'follow-2', userId: USER },
+    });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Friendship Service Tests
+ * Tests for friend requests, privacy settings, blocking and mutual friends
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import { FriendshipService } from '../../../src/services/social/friendship.service';
+
+const ALICE = '11111111-1111-1111-1111-111111111111';
+const BOB = '22222222-2222-2222-2222-222222222222';
+const CAROL = '33333333-3333-3333-3333-333333333333';
+
+describe('FriendshipService', () => {
+  let mockPrisma: any;
+  let service: FriendshipService;
+
+  beforeEach(() => {
+    mockPrisma = {
+      userProfile: {
+        findUnique: jest.fn(async ({ where }: any) => ({
+          userId: where.userId,
+          displayName: where.userId === ALICE ? 'Alice' : 'Bob',
+          avatarUrl: null,
+          privacySettings: { allow_friend_requests: true },
+        })),
+        findMany: jest.fn(async () => []),
+      },
+      friendship: {
+        findFirst: jest.fn(async () => null),
+        findUnique: jest.fn(async () => null),
+        findMany: jest.fn(async () => []),
+        create: jest.fn(async ({ data }: any) => ({ id: 'friendship-1', ...data })),
+        update: jest.fn(async ({ where, data }: any) => ({
+          id: where.id,
+          requesterId: BOB,
+          addresseeId: ALICE,
+          ...data,
+        })),
+        delete: jest.fn(),
+        deleteMany: jest.fn(async () => ({ count: 1 })),
+        upsert: jest.fn(async ({ create }: any) => ({ id: 'friendship-1', ...create })),
+        count: jest.fn(async () => 0),
+      },
+      userAchievement: {
+        findMany: jest.fn(async () => []),
+      },
+      notificationDelivery: {
+        create: jest.fn(async ({ data }: any) => ({ id: 'delivery-1', attempts: 0, ...data })),
+        update: jest.fn(async ({ data }: any) => data),
+      },
+      pushToken: {
+        findMany: jest.fn(async () => []),
+      },
+      notification: {
+        create: jest.fn(),
+      },
+      $transaction: jest.fn(async (fn: any) => fn(mockPrisma)),
+    };
+
+    service = new FriendshipService(mockPrisma as unknown as PrismaClient);
+  });
+
+  describe('sendRequest', () => {
+    it('should create a pending request and notify the addressee', async () => {
+      const friendship = await service.sendRequest(ALICE, BOB);
+
+      expect(friendship.status).toBe('PENDING');
+      expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: BOB,
+          type: 'friend_request',
+          message: 'Alice sent you a friend request',
+          data: {
+            friendshipId: 'friendship-1',
+            fromUserId: ALICE,
+            deepLink: 'tcwatch://profile',
+          },
+        }),
+      });
+    });
+
+    it('should respect allow_friend_requests', async () => {
+      mockPrisma.userProfile.findUnique.mockResolvedValueOnce({
+        userId: BOB,
+        displayName: 'Bob',
+        avatarUrl: null,
+        privacySettings: { allow_friend_requests: false },
+      });
+
+      await expect(service.sendRequest(ALICE, BOB)).rejects.toThrow(
+        'This user is not accepting friend requests'
+      );
+      expect(mockPrisma.friendship.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject requests between blocked users', async () => {
+      mockPrisma.friendship.findFirst.mockResolvedValueOnce({
+        id: 'friendship-1',
+        requesterId: BOB,
+        addresseeId: ALICE,
+        status: 'BLOCKED',
+      });
+
+      await expect(service.sendRequest(ALICE, BOB)).rejects.toBeInstanceOf(TRPCError);
+      expect(mockPrisma.notification.create).not.toHaveBeenCalled();
+    });
+
+    it('should accept the reverse request instead of creating a duplicate', async () => {
+      const pending = {
+        id: 'friendship-1',
+        requesterId: BOB,
+        addresseeId: ALICE,
+        status: 'PENDING',
+      };
+      mockPrisma.friendship.findFirst.mockResolvedValueOnce(pending);
+      mockPrisma.friendship.findUnique.mockResolvedValueOnce(pending);
+
+      const friendship = await service.sendRequest(ALICE, BOB);
+
+      expect(friendship.status).toBe('ACCEPTED');
+      expect(mockPrisma.friendship.create).not.toHaveBeenCalled();
+      expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: BOB, type: 'friend_request_accepted' }),
+      });
+    });
+  });
+
+  it('should only let the addressee accept a request', async () => {
+    mockPrisma.friendship.findUnique.mockResolvedValueOnce({
+      id: 'friendship-1',
+      requesterId: ALICE,
+      addresseeId: BOB,
+      status: 'PENDING',
+    });
+
+    await expect(service.acceptRequest(ALICE, 'friendship-1')).rejects.toThrow(
+      'Friend request not found'
+    );
+  });
+
+  it('should replace any friendship when blocking and only notify the blocker', async () => {
+    await service.block(ALICE, BOB);
+
+    expect(mockPrisma.friendship.deleteMany).toHaveBeenCalledWith({
+      where: { requesterId: BOB, addresseeId: ALICE, status: { in: ['PENDING', 'ACCEPTED'] } },
+    });
+    expect(mockPrisma.friendship.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: { requesterId: ALICE, addresseeId: BOB, status: 'BLOCKED' },
+      })
+    );
+    expect(mockPrisma.notification.create).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: ALICE, type: 'user_blocked' }),
+    });
+  });
+
+  it('should keep the other side of a block when a blocked user blocks back', async () => {
+    const rows = [{ id: 'block-1', requesterId: ALICE, addresseeId: BOB, status: 'BLOCKED' }];
+    const matches = (row: any, where: any) =>
+      row.requesterId === where.requesterId &&
+      row.addresseeId === where.addresseeId &&
+      (!where.status ||
+        (typeof where.status === 'string'
+          ? row.status === where.status
+          : where.status.in.includes(row.status)));
+
+    mockPrisma.friendship.deleteMany.mockImplementation(async ({ where }: any) => {
+      const remaining = rows.filter(row => !matches(row, where));
+      const count = rows.length - remaining.length;
+      rows.splice(0, rows.length, ...remaining);
+      return { count };
+    });
+    mockPrisma.friendship.upsert.mockImplementation(async ({ create }: any) => {
+      const row = { id: 'block-2', ...create };
+      rows.push(row);
+      return row;
+    });
+
+    await service.block(BOB, ALICE);
+    await service.unblock(BOB, ALICE);
+
+    expect(rows).toEqual([
+      { id: 'block-1', requesterId: ALICE, addresseeId: BOB, status: 'BLOCKED' },
+    ]);
+  });
+
+  it('should not show mutual friends between blocked users', async () => {
+    mockPrisma.friendship.findMany.mockResolvedValueOnce([
+      { requesterId: BOB, addresseeId: ALICE },
+    ]);
+
+    await expect(service.getMutualFriends(ALICE, BOB)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect(mockPrisma.userProfile.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should count mutual friends', async () => {
+    mockPrisma.friendship.findMany.mockImplementation(async ({ where }: any) => {
+      if (where.status === 'BLOCKED') {
+        return [];
+      }
+      const userId = where.OR[0].requesterId;
+      const friends = userId === ALICE ? [CAROL, 'dave'] : [CAROL, 'erin'];
+      return friends.map(friendId => ({ requesterId: userId, addresseeId: friendId }));
+    });
+
+    const mutual = await service.getMutualFriends(ALICE, BOB);
+
+    expect(mutual.count).toBe(1);
+    expect(mockPrisma.userProfile.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId: { in: [CAROL] } } })
+    );
+  });
+});
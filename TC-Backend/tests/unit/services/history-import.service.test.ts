@@ -0,0 +1,330 @@
+/**
+ * History Import Service Tests
+ * Tests for parsing Letterboxd, Trakt and IMDb exports and matching rows to content
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { HistoryImportService } from '../../../src/services/import/history-import.service';
+import { parseHistoryExport, toFiveStar } from '../../../src/services/import/history-parsers';
+
+const USER = 'user-1';
+
+const row = (overrides: Record<string, unknown> = {}) => ({
+  id: 'row-1',
+  importId: 'import-1',
+  rowNumber: 1,
+  title: 'Zodiac',
+  year: 2007,
+  mediaType: 'movie',
+  imdbId: null,
+  tmdbId: null,
+  rating: 5,
+  sourceRating: 5,
+  watchedAt: new Date('2024-03-01'),
+  status: 'PENDING',
+  matchMethod: null,
+  contentId: null,
+  ...overrides,
+});
+
+describe('history parsers', () => {
+  it('should read Letterboxd diary exports with quoted titles', () => {
+    const rows = parseHistoryExport(
+      'letterboxd',
+      'Date,Name,Year,Letterboxd URI,Rating,Rewatch,Tags,Watched Date\r\n' +
+        '2024-03-02,"Capturing the Friedmans, Part 1",2003,https://boxd.it/x,4.5,,,2024-03-01\r\n' +
+        '2024-03-05,Zodiac,2007,https://boxd.it/y,,,,\r\n'
+    );
+
+    expect(rows).toEqual([
+      {
+        title: 'Capturing the Friedmans, Part 1',
+        year: 2003,
+        mediaType: 'movie',
+        imdbId: null,
+        tmdbId: null,
+        rating: 5,
+        sourceRating: 4.5,
+        watchedAt: new Date('2024-03-01'),
+      },
+      expect.objectContaining({ title: 'Zodiac', rating: null, watchedAt: new Date('2024-03-05') }),
+    ]);
+  });
+
+  it('should read IMDb ratings and tell series from films', () => {
+    const [series, film] = parseHistoryExport(
+      'imdb',
+      'Const,Your Rating,Date Rated,Title,Title Type,Year\n' +
+        'tt2407574,7,2023-01-10,Making a Murderer,TV Series,2015\n' +
+        'tt0443706,10,2023-02-11,Zodiac,Movie,2007\n'
+    );
+
+    expect(series).toMatchObject({ imdbId: 'tt2407574', mediaType: 'tv', rating: 4 });
+    expect(film).toMatchObject({ imdbId: 'tt0443706', mediaType: 'movie', rating: 5 });
+  });
+
+  it('should fold Trakt episode history into one row per show without its ratings', () => {
+    const show = { title: 'The Jinx', year: 2015, ids: { imdb: 'tt4299972', tmdb: 62426 } };
+
+    const rows = parseHistoryExport(
+      'trakt',
+      JSON.stringify([
+        { type: 'episode', watched_at: '2024-01-01T20:00:00Z', rating: 2, show },
+        { type: 'episode', watched_at: '2024-01-08T20:00:00Z', show },
+        { type: 'show', rated_at: '2024-01-09T20:00:00Z', rating: 8, show },
+        { type: 'season', rating: 9, show },
+      ])
+    );
+
+    expect(rows).toEqual([
+      {
+        title: 'The Jinx',
+        year: 2015,
+        mediaType: 'tv',
+        imdbId: 'tt4299972',
+        tmdbId: 62426,
+        rating: 4,
+        sourceRating: 8,
+        watchedAt: new Date('2024-01-09T20:00:00Z'),
+      },
+    ]);
+  });
+
+  it('should convert ratings to the 1-5 scale', () => {
+    expect(toFiveStar(0.5, 5)).toBe(1);
+    expect(toFiveStar(3.5, 5)).toBe(4);
+    expect(toFiveStar(1, 10)).toBe(1);
+    expect(toFiveStar(6, 10)).toBe(3);
+  });
+
+  it('should reject files from the wrong service', () => {
+    expect(() => parseHistoryExport('imdb', 'Date,Name,Year\n2024-01-01,Zodiac,2007\n')).toThrow(
+      "This doesn't look like an export from IMDb"
+    );
+    expect(() => parseHistoryExport('trakt', 'Name,Year')).toThrow('not valid JSON');
+  });
+});
+
+describe('HistoryImportService', () => {
+  let mockPrisma: any;
+  let catalog: any;
+  let repository: any;
+  let service: HistoryImportService;
+
+  beforeEach(() => {
+    mockPrisma = {
+      historyImport: {
+        findFirst: jest.fn(async () => null),
+        findUnique: jest.fn(async () => ({ id: 'import-1', userId: USER })),
+        findUniqueOrThrow: jest.fn(async () => ({ id: 'import-1', userId: USER })),
+        create: jest.fn(async ({ data }: any) => ({ id: 'import-1', ...data })),
+        update: jest.fn(async ({ data }: any) => ({
+          id: 'import-1',
+          userId: USER,
+          totalRows: 1,
+          importedRows: 0,
+          unmatchedRows: 0,
+          ...data,
+        })),
+        updateMany: jest.fn(async () => ({ count: 1 })),
+      },
+      historyImportRow: {
+        findMany: jest.fn(async () => []),
+        findUnique: jest.fn(async () => null),
+        update: jest.fn(async () => ({})),
+        count: jest.fn(async () => 0),
+      },
+      content: {
+        findMany: jest.fn(async () => []),
+        findUnique: jest.fn(async () => ({ id: 'content-1' })),
+      },
+      userContent: {
+        findUnique: jest.fn(async () => null),
+        create: jest.fn(async () => ({})),
+        update: jest.fn(async () => ({})),
+      },
+      userAchievement: {
+        findMany: jest.fn(async () => []),
+      },
+      userProfile: {
+        findUnique: jest.fn(async () => null),
+      },
+      notificationDelivery: {
+        create: jest.fn(async ({ data }: any) => ({ id: 'delivery-1', attempts: 0, ...data })),
+        update: jest.fn(async ({ data }: any) => data),
+      },
+      pushToken: {
+        findMany: jest.fn(async () => []),
+      },
+      notification: {
+        create: jest.fn(async () => ({})),
+      },
+      userStatsMonth: {
+        deleteMany: jest.fn(async () => ({ count: 0 })),
+        upsert: jest.fn(async () => ({})),
+      },
+    };
+    catalog = { importContent: jest.fn(async () => null) };
+    repository = {
+      findByImdbId: jest.fn(async () => null),
+      findByTmdbId: jest.fn(async () => null),
+    };
+
+    service = new HistoryImportService(mockPrisma as unknown as PrismaClient, catalog, repository);
+  });
+
+  const rowUpdates = () =>
+    mockPrisma.historyImportRow.update.mock.calls.map(([args]: any) => args.data);
+
+  describe('createImport', () => {
+    it('should store parsed rows for the import', async () => {
+      await service.createImport(USER, {
+        source: 'letterboxd',
+        data: 'Name,Year,Rating\nZodiac,2007,5\n',
+        fileName: 'ratings.csv',
+      });
+
+      expect(mockPrisma.historyImport.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: USER,
+          source: 'LETTERBOXD',
+          fileName: 'ratings.csv',
+          totalRows: 1,
+          rows: {
+            createMany: {
+              data: [expect.objectContaining({ rowNumber: 1, title: 'Zodiac', rating: 5 })],
+            },
+          },
+        }),
+      });
+    });
+
+    it('should not start a second import while one is running', async () => {
+      mockPrisma.historyImport.findFirst.mockResolvedValueOnce({ id: 'import-0' });
+
+      await expect(
+        service.createImport(USER, { source: 'letterboxd', data: 'Name,Year\nZodiac,2007\n' })
+      ).rejects.toThrow('You already have an import in progress');
+    });
+  });
+
+  describe('processImport', () => {
+    it('should match by IMDb ID first and track the title as completed', async () => {
+      mockPrisma.historyImportRow.findMany.mockResolvedValueOnce([row({ imdbId: 'tt0443706' })]);
+      repository.findByImdbId.mockResolvedValueOnce({ id: 'content-1' });
+
+      await service.processImport('import-1');
+
+      expect(mockPrisma.userContent.create).toHaveBeenCalledWith({
+        data: {
+          userId: USER,
+          contentId: 'content-1',
+          status: 'COMPLETED',
+          rating: 5,
+          dateAdded: new Date('2024-03-01'),
+          dateCompleted: new Date('2024-03-01'),
+        },
+      });
+      expect(rowUpdates()).toContainEqual({
+        status: 'IMPORTED',
+        contentId: 'content-1',
+        matchMethod: 'imdb_id',
+      });
+      expect(catalog.importContent).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to a fuzzy title match within a year of the release', async () => {
+      mockPrisma.historyImportRow.findMany.mockResolvedValueOnce([
+        row({ title: 'The Staircase', year: 2004 }),
+      ]);
+      mockPrisma.content.findMany.mockResolvedValueOnce([
+        { id: 'remake', title: 'The Staircase', releaseDate: new Date('2022-05-05') },
+        { id: 'original', title: 'Staircase', releaseDate: new Date('2004-10-10') },
+      ]);
+
+      await service.processImport('import-1');
+
+      expect(mockPrisma.content.findMany.mock.calls[0][0].where).toMatchObject({
+        title: { contains: 'staircase', mode: 'insensitive' },
+        releaseDate: {
+          gte: new Date(Date.UTC(2003, 0, 1)),
+          lt: new Date(Date.UTC(2006, 0, 1)),
+        },
+      });
+      expect(rowUpdates()).toContainEqual({
+        status: 'IMPORTED',
+        contentId: 'original',
+        matchMethod: 'title_year',
+      });
+    });
+
+    it('should ask the aggregator for titles not in the catalog and report misses', async () => {
+      mockPrisma.historyImportRow.findMany.mockResolvedValueOnce([
+        row({ id: 'row-1', title: 'Tiger King', mediaType: 'tv', year: 2020 }),
+        row({ id: 'row-2', title: 'Paddington', year: 2014 }),
+      ]);
+      catalog.importContent.mockResolvedValueOnce({ id: 'content-2' }).mockResolvedValueOnce(null);
+
+      await service.processImport('import-1');
+
+      expect(catalog.importContent).toHaveBeenCalledWith({
+        title: 'Tiger King',
+        year: 2020,
+        type: 'tv',
+      });
+      expect(mockPrisma.userContent.create.mock.calls[0][0].data).toMatchObject({
+        contentId: 'content-2',
+        status: 'WATCHING',
+        dateStarted: new Date('2024-03-01'),
+      });
+      expect(rowUpdates()).toEqual([
+        { status: 'IMPORTED', contentId: 'content-2', matchMethod: 'aggregator' },
+        { status: 'UNMATCHED' },
+      ]);
+      expect(mockPrisma.historyImport.update).toHaveBeenLastCalledWith({
+        where: { id: 'import-1' },
+        data: { status: 'COMPLETED', completedAt: expect.any(Date) },
+      });
+    });
+
+    it('should keep existing tracking and only fill in a missing rating', async () => {
+      mockPrisma.historyImportRow.findMany.mockResolvedValueOnce([row({ imdbId: 'tt0443706' })]);
+      repository.findByImdbId.mockResolvedValueOnce({ id: 'content-1' });
+      mockPrisma.userContent.findUnique.mockResolvedValueOnce({
+        id: 'uc-1',
+        status: 'WATCHING',
+        rating: null,
+        dateCompleted: null,
+      });
+
+      await service.processImport('import-1');
+
+      expect(mockPrisma.userContent.create).not.toHaveBeenCalled();
+      expect(mockPrisma.userContent.update).toHaveBeenCalledWith({
+        where: { id: 'uc-1' },
+        data: { rating: 5 },
+      });
+    });
+
+    it('should leave imports another worker already claimed alone', async () => {
+      mockPrisma.historyImport.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await service.processImport('import-1');
+
+      expect(mockPrisma.historyImportRow.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should not let users fix rows from imports that are not theirs', async () => {
+    mockPrisma.historyImportRow.findUnique.mockResolvedValueOnce({
+      ...row(),
+      historyImport: { userId: 'someone-else' },
+    });
+
+    await expect(service.resolveRow(USER, 'row-1', 'content-1')).rejects.toThrow(
+      'Import row not found'
+    );
+    expect(mockPrisma.userContent.create).not.toHaveBeenCalled();
+  });
+});
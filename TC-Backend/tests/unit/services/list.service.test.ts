@@ -0,0 +1,237 @@
+/**
+ * List Service Tests
+ * Tests for renumbering list items, editor permissions and reverting changes
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { ListService } from '../../../src/services/social/list.service';
+
+const OWNER = 'owner-1';
+const EDITOR = 'editor-1';
+const LIST = { id: 'list-1', userId: OWNER, title: 'Cold cases' };
+
+const item = (id: string, orderIndex: number) => ({
+  id,
+  contentId: `content-${id}`,
+  orderIndex,
+  notes: null,
+  addedBy: OWNER,
+});
+
+describe('ListService', () => {
+  let mockPrisma: any;
+  let service: ListService;
+
+  beforeEach(() => {
+    mockPrisma = {
+      customList: {
+        findUnique: jest.fn(async () => LIST),
+        update: jest.fn(async () => LIST),
+      },
+      listItem: {
+        findMany: jest.fn(async () => [item('a', 0), item('b', 1), item('c', 2)]),
+        create: jest.fn(async ({ data }: any) => ({ id: 'new', ...data })),
+        createMany: jest.fn(async () => ({ count: 0 })),
+        update: jest.fn(async () => ({})),
+        delete: jest.fn(async () => ({})),
+        deleteMany: jest.fn(async () => ({ count: 0 })),
+      },
+      listCollaborator: {
+        findUnique: jest.fn(async () => null),
+        create: jest.fn(async ({ data }: any) => ({ id: 'collab-1', ...data })),
+      },
+      listHistoryEntry: {
+        create: jest.fn(async () => ({})),
+        findFirst: jest.fn(async () => null),
+      },
+      content: {
+        findUnique: jest.fn(async ({ where }: any) => ({ id: where.id })),
+        findMany: jest.fn(async () => []),
+      },
+      friendship: {
+        findFirst: jest.fn(async () => null),
+      },
+      socialActivity: {
+        findFirst: jest.fn(async () => null),
+        create: jest.fn(async () => ({})),
+      },
+      userProfile: {
+        findUnique: jest.fn(async () => ({ userId: OWNER, displayName: 'Owner' })),
+      },
+      notificationDelivery: {
+        create: jest.fn(async ({ data }: any) => ({ id: 'delivery-1', attempts: 0, ...data })),
+        update: jest.fn(async ({ data }: any) => data),
+      },
+      pushToken: {
+        findMany: jest.fn(async () => []),
+      },
+      notification: {
+        create: jest.fn(async () => ({})),
+      },
+      $queryRaw: jest.fn(async () => []),
+      $transaction: jest.fn(async (fn: any) => fn(mockPrisma)),
+    };
+
+    service = new ListService(mockPrisma as unknown as PrismaClient);
+  });
+
+  const orderWrites = () =>
+    mockPrisma.listItem.update.mock.calls.map(([args]: any) => [
+      args.where.id,
+      args.data.orderIndex,
+    ]);
+
+  describe('addItem', () => {
+    it('should park shifted items before opening a slot mid-list', async () => {
+      await service.addItem(OWNER, 'list-1', { contentId: 'content-new', position: 1 });
+
+      expect(orderWrites()).toEqual([
+        ['b', -1],
+        ['c', -2],
+        ['b', 2],
+        ['c', 3],
+      ]);
+      expect(mockPrisma.listItem.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ orderIndex: 1, addedBy: OWNER }),
+        })
+      );
+      expect(mockPrisma.listHistoryEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'ADDED',
+          userId: OWNER,
+          previousItems: [
+            { contentId: 'content-a', orderIndex: 0, notes: null, addedBy: OWNER },
+            { contentId: 'content-b', orderIndex: 1, notes: null, addedBy: OWNER },
+            { contentId: 'content-c', orderIndex: 2, notes: null, addedBy: OWNER },
+          ],
+        }),
+      });
+    });
+
+    it('should append without touching existing items', async () => {
+      await service.addItem(OWNER, 'list-1', { contentId: 'content-new' });
+
+      expect(mockPrisma.listItem.update).not.toHaveBeenCalled();
+      expect(mockPrisma.listItem.create.mock.calls[0][0].data.orderIndex).toBe(3);
+    });
+
+    it('should let accepted editors add items under their own name', async () => {
+      mockPrisma.listCollaborator.findUnique.mockResolvedValueOnce({ status: 'ACCEPTED' });
+
+      await service.addItem(EDITOR, 'list-1', { contentId: 'content-new' });
+
+      expect(mockPrisma.listItem.create.mock.calls[0][0].data.addedBy).toBe(EDITOR);
+      expect(mockPrisma.listHistoryEntry.create.mock.calls[0][0].data.userId).toBe(EDITOR);
+    });
+
+    it('should reject content that does not exist', async () => {
+      mockPrisma.content.findUnique.mockResolvedValueOnce(null);
+
+      await expect(service.addItem(OWNER, 'list-1', { contentId: 'missing' })).rejects.toThrow(
+        'Content not found'
+      );
+      expect(mockPrisma.listItem.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject users who were only invited', async () => {
+      mockPrisma.listCollaborator.findUnique.mockResolvedValueOnce({ status: 'INVITED' });
+
+      await expect(service.addItem(EDITOR, 'list-1', { contentId: 'content-new' })).rejects.toThrow(
+        'You can only modify lists you own or have been invited to edit'
+      );
+    });
+  });
+
+  it('should only renumber the items between the old and new position when moving', async () => {
+    mockPrisma.listItem.findMany.mockResolvedValueOnce([
+      item('a', 0),
+      item('b', 1),
+      item('c', 2),
+      item('d', 3),
+    ]);
+
+    await service.moveItem(OWNER, 'list-1', 'content-a', 2);
+
+    expect(orderWrites()).toEqual([
+      ['b', -1],
+      ['c', -2],
+      ['a', -3],
+      ['b', 0],
+      ['c', 1],
+      ['a', 2],
+    ]);
+  });
+
+  it('should reject a reorder that does not list every item exactly once', async () => {
+    await expect(
+      service.reorderList(OWNER, 'list-1', ['content-a', 'content-a', 'content-c'])
+    ).rejects.toThrow('The new order must contain every item on the list exactly once');
+    expect(mockPrisma.listItem.update).not.toHaveBeenCalled();
+  });
+
+  it('should skip content already on the list when bulk adding', async () => {
+    mockPrisma.content.findMany.mockResolvedValueOnce([{ id: 'content-a' }, { id: 'content-x' }]);
+
+    const result = await service.bulkAddItems(OWNER, 'list-1', [
+      'content-a',
+      'content-x',
+      'content-missing',
+    ]);
+
+    expect(result).toEqual({ added: ['content-x'], skipped: ['content-a', 'content-missing'] });
+    expect(mockPrisma.listItem.createMany).toHaveBeenCalledWith({
+      data: [{ listId: 'list-1', contentId: 'content-x', orderIndex: 3, addedBy: OWNER }],
+    });
+  });
+
+  it('should restore the items recorded before a change', async () => {
+    mockPrisma.listHistoryEntry.findFirst.mockResolvedValueOnce({
+      id: 'history-1',
+      action: 'REMOVED',
+      previousItems: [
+        { contentId: 'content-b', orderIndex: 1, notes: 'watch first', addedBy: EDITOR },
+        { contentId: 'content-a', orderIndex: 0, notes: null, addedBy: OWNER },
+      ],
+    });
+    mockPrisma.content.findMany.mockResolvedValueOnce([{ id: 'content-a' }, { id: 'content-b' }]);
+
+    await service.revertToEntry(OWNER, 'list-1', 'history-1');
+
+    expect(mockPrisma.listItem.deleteMany).toHaveBeenCalledWith({ where: { listId: 'list-1' } });
+    expect(mockPrisma.listItem.createMany).toHaveBeenCalledWith({
+      data: [
+        { listId: 'list-1', contentId: 'content-a', orderIndex: 0, notes: null, addedBy: OWNER },
+        {
+          listId: 'list-1',
+          contentId: 'content-b',
+          orderIndex: 1,
+          notes: 'watch first',
+          addedBy: EDITOR,
+        },
+      ],
+    });
+    expect(mockPrisma.listHistoryEntry.create.mock.calls[0][0].data).toMatchObject({
+      action: 'REVERTED',
+      details: { historyId: 'history-1', revertedAction: 'REMOVED' },
+    });
+  });
+
+  it('should only let owners invite friends as editors', async () => {
+    await expect(service.inviteEditor(OWNER, 'list-1', 'stranger')).rejects.toThrow(
+      'You can only invite friends to edit your lists'
+    );
+
+    mockPrisma.friendship.findFirst.mockResolvedValueOnce({ status: 'ACCEPTED' });
+    await service.inviteEditor(OWNER, 'list-1', 'friend-1');
+
+    expect(mockPrisma.listCollaborator.create).toHaveBeenCalledWith({
+      data: { listId: 'list-1', userId: 'friend-1' },
+    });
+    expect(mockPrisma.notification.create.mock.calls[0][0].data).toMatchObject({
+      userId: 'friend-1',
+      type: 'list_editor_invite',
+    });
+  });
+});
@@ -0,0 +1,454 @@
+/**
+ * Notification Dispatcher Tests
+ * Tests for preferences, quiet hours, per-channel templates, retries and delivery through a
+ * fake Expo push endpoint and a MailHog-style SMTP server
+ */
+
+import { describe, it, expect, jest, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import http from 'http';
+import net from 'net';
+import { AddressInfo } from 'net';
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  NotificationDispatcher,
+} from '../../../src/services/notification/notification-dispatcher.service';
+import { InAppChannel } from '../../../src/services/notification/notification-channels';
+import { ExpoPushChannel } from '../../../src/services/notification/expo-push.channel';
+import { EmailChannel } from '../../../src/services/notification/email.channel';
+import { renderNotification } from '../../../src/services/notification/notification-events';
+import {
+  parseNotificationSettings,
+  quietHoursEnd,
+} from '../../../src/services/notification/notification-preferences';
+
+const USER = 'user-1';
+const NOW = new Date('2024-06-15T12:00:00Z');
+
+const friendRequest = {
+  type: 'friend_request' as const,
+  userId: USER,
+  payload: { friendshipId: 'friendship-1', fromUserId: 'user-2', fromName: 'Alice <3' },
+};
+
+// Local stand-in for Expo's push API
+function startFakeExpo() {
+  const received: any[] = [];
+  let reply: (messages: any[]) => { status: number; body: unknown } = messages => ({
+    status: 200,
+    body: { data: messages.map(() => ({ status: 'ok', id: 'ticket-1' })) },
+  });
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const messages = JSON.parse(body);
+      received.push(...messages);
+      const { status, body: response } = reply(messages);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(response));
+    });
+  });
+
+  return {
+    server,
+    received,
+    respondWith: (handler: typeof reply) => (reply = handler),
+  };
+}
+
+// MailHog-style SMTP server that accepts everything and keeps the raw messages
+function startFakeSmtp() {
+  const messages: Array<{ from: string; to: string; data: string }> = [];
+
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    let envelope = { from: '', to: '' };
+
+    socket.write('220 fake ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+
+      for (;;) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          messages.push({ ...envelope, data: buffer.slice(0, end) });
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write('250 OK: queued\r\n');
+          continue;
+        }
+
+        const end = buffer.indexOf('\r\n');
+        if (end === -1) return;
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        if (line.startsWith('EHLO'))
+          socket.write('250-fake\r\n250-PIPELINING\r\n250 AUTH PLAIN\r\n');
+        else if (line.startsWith('AUTH')) socket.write('235 Authenticated\r\n');
+        else if (line.startsWith('MAIL FROM:'))
+          ((envelope.from = line.slice(11, -1)), socket.write('250 OK\r\n'));
+        else if (line.startsWith('RCPT TO:'))
+          ((envelope.to = line.slice(9, -1)), socket.write('250 OK\r\n'));
+        else if (line === 'DATA') ((inData = true), socket.write('354 Go ahead\r\n'));
+        else if (line === 'QUIT') socket.end('221 Bye\r\n');
+        else socket.write('502 Unknown command\r\n');
+      }
+    });
+  });
+
+  return { server, messages };
+}
+
+const listen = (server: net.Server) =>
+  new Promise<number>(resolve =>
+    server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port))
+  );
+
+describe('Notification preferences', () => {
+  it('should treat missing settings as the all-on column default', () => {
+    expect(parseNotificationSettings({ push_enabled: false })).toEqual({
+      pushEnabled: false,
+      emailEnabled: true,
+      categories: {
+        new_content_alerts: true,
+        friend_activity: true,
+        weekly_digest: true,
+        cable_reminders: true,
+      },
+      quietHours: null,
+    });
+  });
+
+  it('should hold until quiet hours that span midnight end, in the user timezone', () => {
+    const quietHours = {
+      enabled: true,
+      start: '22:00',
+      end: '07:30',
+      timezone: 'America/New_York',
+    };
+
+    // 23:15 in New York (EDT)
+    expect(quietHoursEnd(quietHours, new Date('2024-06-15T03:15:00Z'))).toEqual(
+      new Date('2024-06-15T11:30:00Z')
+    );
+    // 12:00 in New York
+    expect(quietHoursEnd(quietHours, new Date('2024-06-15T16:00:00Z'))).toBeNull();
+    expect(
+      quietHoursEnd({ ...quietHours, enabled: false }, new Date('2024-06-15T03:15:00Z'))
+    ).toBeNull();
+  });
+});
+
+describe('renderNotification', () => {
+  it('should render in-app, push and escaped email versions from one template', () => {
+    const rendered = renderNotification(friendRequest);
+
+    expect(rendered.inApp).toEqual({
+      title: 'New friend request',
+      message: 'Alice <3 sent you a friend request',
+      data: {
+        friendshipId: 'friendship-1',
+        fromUserId: 'user-2',
+        deepLink: 'tcwatch://profile',
+      },
+    });
+    expect(rendered.push.data).toEqual({
+      type: 'friend_request',
+      friendshipId: 'friendship-1',
+      fromUserId: 'user-2',
+      deepLink: 'tcwatch://profile',
+    });
+    expect(rendered.email.subject).toBe('Alice <3 wants to be friends on TCWatch');
+    expect(rendered.email.html).toContain('Alice &lt;3 sent you a friend request');
+  });
+});
+
+describe('NotificationDispatcher', () => {
+  const expo = startFakeExpo();
+  const smtp = startFakeSmtp();
+  let expoUrl: string;
+  let smtpPort: number;
+
+  let mockPrisma: any;
+  let deliveries: Map<string, any>;
+  let settings: Record<string, unknown>;
+  let dispatcher: NotificationDispatcher;
+
+  beforeAll(async () => {
+    expoUrl = `http://127.0.0.1:${await listen(expo.server)}/push/send`;
+    smtpPort = await listen(smtp.server);
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => expo.server.close(resolve));
+    await new Promise(resolve => smtp.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    expo.received.length = 0;
+    smtp.messages.length = 0;
+    expo.respondWith(messages => ({
+      status: 200,
+      body: { data: messages.map(() => ({ status: 'ok', id: 'ticket-1' })) },
+    }));
+
+    deliveries = new Map();
+    settings = {};
+    let nextId = 1;
+
+    mockPrisma = {
+      userProfile: {
+        findUnique: jest.fn(async () => ({ notificationSettings: settings })),
+      },
+      notification: {
+        create: jest.fn(async () => ({ id: 'notification-1' })),
+      },
+      pushToken: {
+        findMany: jest.fn(async () => [{ token: 'ExponentPushToken[device-1]' }]),
+        updateMany: jest.fn(async () => ({ count: 1 })),
+      },
+      notificationDelivery: {
+        create: jest.fn(async ({ data }: any) => {
+          const delivery = {
+            id: `delivery-${nextId++}`,
+            notificationId: null,
+            status: 'PENDING',
+            attempts: 0,
+            nextAttemptAt: null,
+            skipReason: null,
+            lastError: null,
+            deliveredAt: null,
+            ...data,
+          };
+          deliveries.set(delivery.id, delivery);
+          return delivery;
+        }),
+        update: jest.fn(async ({ where, data }: any) => {
+          const { attemptLog, ...changes } = data;
+          const delivery = Object.assign(deliveries.get(where.id), changes);
+          if (attemptLog) {
+            delivery.log = [...(delivery.log ?? []), attemptLog.create];
+          }
+          return delivery;
+        }),
+        findMany: jest.fn(async () =>
+          Array.from(deliveries.values()).filter(
+            delivery => delivery.status === 'PENDING' && delivery.nextAttemptAt <= NOW
+          )
+        ),
+      },
+    };
+
+    dispatcher = new NotificationDispatcher(mockPrisma as unknown as PrismaClient, {
+      IN_APP: new InAppChannel(mockPrisma),
+      PUSH: new ExpoPushChannel(mockPrisma, { url: expoUrl }),
+      EMAIL: new EmailChannel(
+        {
+          host: '127.0.0.1',
+          port: smtpPort,
+          secure: false,
+          user: 'dev',
+          pass: 'dev',
+          allowInsecure: true,
+        },
+        async () => 'bob@example.com',
+        { email: 'noreply@tcwatch.com', name: 'TCWatch' }
+      ),
+    });
+  });
+
+  const byChannel = (channel: string) =>
+    Array.from(deliveries.values()).find(delivery => delivery.channel === channel);
+
+  it('should deliver in-app, push and email end to end and record each attempt', async () => {
+    const result = await dispatcher.dispatch(friendRequest, NOW);
+
+    expect(result.notificationId).toBe('notification-1');
+    expect(result.deliveries.map(d => [d.channel, d.status, d.nextAttemptAt])).toEqual([
+      ['IN_APP', 'SENT', null],
+      ['PUSH', 'PENDING', NOW],
+      ['EMAIL', 'PENDING', NOW],
+    ]);
+    expect(expo.received).toHaveLength(0);
+    expect(smtp.messages).toHaveLength(0);
+
+    await expect(dispatcher.deliverDue(NOW)).resolves.toMatchObject({ sent: 2 });
+    expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+      data: {
+        userId: USER,
+        type: 'friend_request',
+        title: 'New friend request',
+        message: 'Alice <3 sent you a friend request',
+        data: {
+          friendshipId: 'friendship-1',
+          fromUserId: 'user-2',
+          deepLink: 'tcwatch://profile',
+        },
+      },
+    });
+
+    expect(expo.received).toEqual([
+      expect.objectContaining({
+        to: 'ExponentPushToken[device-1]',
+        title: 'New friend request',
+        data: expect.objectContaining({ type: 'friend_request' }),
+      }),
+    ]);
+
+    expect(smtp.messages).toHaveLength(1);
+    expect(smtp.messages[0]).toMatchObject({ from: 'noreply@tcwatch.com', to: 'bob@example.com' });
+    expect(smtp.messages[0]!.data).toContain('Subject: Alice <3 wants to be friends on TCWatch');
+    expect(smtp.messages[0]!.data).toContain('Content-Type: multipart/alternative');
+
+    expect(byChannel('PUSH')).toMatchObject({
+      notificationId: 'notification-1',
+      attempts: 1,
+      deliveredAt: NOW,
+      log: [{ attempt: 1, status: 'SENT' }],
+    });
+  });
+
+  it('should skip every channel when the category is turned off', async () => {
+    settings = { friend_activity: false };
+
+    const result = await dispatcher.dispatch(friendRequest, NOW);
+
+    expect(result.notificationId).toBeNull();
+    expect(result.deliveries.every(d => d.skipReason === 'category_disabled')).toBe(true);
+    expect(mockPrisma.notification.create).not.toHaveBeenCalled();
+    expect(expo.received).toHaveLength(0);
+  });
+
+  it('should honour push_enabled and email_enabled but still write the in-app notification', async () => {
+    settings = { push_enabled: false, email_enabled: false };
+
+    const result = await dispatcher.dispatch(friendRequest, NOW);
+
+    expect(result.deliveries.map(d => [d.channel, d.status, d.skipReason])).toEqual([
+      ['IN_APP', 'SENT', null],
+      ['PUSH', 'SKIPPED', 'push_disabled'],
+      ['EMAIL', 'SKIPPED', 'email_disabled'],
+    ]);
+    expect(expo.received).toHaveLength(0);
+    expect(smtp.messages).toHaveLength(0);
+  });
+
+  it('should hold push and email through quiet hours and send them once they end', async () => {
+    settings = { quiet_hours: { enabled: true, start: '11:00', end: '13:00', timezone: 'UTC' } };
+
+    await dispatcher.dispatch(friendRequest, NOW);
+
+    expect(mockPrisma.notification.create).toHaveBeenCalledTimes(1);
+    expect(byChannel('PUSH')).toMatchObject({
+      status: 'PENDING',
+      attempts: 0,
+      nextAttemptAt: new Date('2024-06-15T13:00:00Z'),
+    });
+    expect(expo.received).toHaveLength(0);
+
+    // Still quiet: held again rather than sent
+    byChannel('PUSH').nextAttemptAt = NOW;
+    byChannel('EMAIL').nextAttemptAt = NOW;
+    await expect(dispatcher.deliverDue(NOW)).resolves.toMatchObject({ held: 2, sent: 0 });
+
+    settings = {};
+    byChannel('PUSH').nextAttemptAt = NOW;
+    byChannel('EMAIL').nextAttemptAt = NOW;
+    await expect(dispatcher.deliverDue(NOW)).resolves.toMatchObject({ sent: 2 });
+    expect(expo.received).toHaveLength(1);
+    expect(smtp.messages).toHaveLength(1);
+  });
+
+  it('should retry failed pushes with backoff and give up after the last attempt', async () => {
+    expo.respondWith(() => ({ status: 503, body: { errors: [] } }));
+
+    await dispatcher.dispatch(friendRequest, NOW);
+    await dispatcher.deliverDue(NOW);
+
+    const push = byChannel('PUSH');
+    expect(push).toMatchObject({
+      status: 'PENDING',
+      attempts: 1,
+      nextAttemptAt: new Date(NOW.getTime() + 60 * 1000),
+      lastError: expect.stringContaining('503'),
+    });
+
+    for (let attempt = 2; attempt <= MAX_DELIVERY_ATTEMPTS; attempt++) {
+      push.nextAttemptAt = NOW;
+      await dispatcher.deliverDue(NOW);
+    }
+
+    expect(push.status).toBe('FAILED');
+    expect(push.nextAttemptAt).toBeNull();
+    expect(push.log.map((entry: any) => entry.status)).toEqual(
+      Array(MAX_DELIVERY_ATTEMPTS).fill('FAILED')
+    );
+  });
+
+  it('should disable tokens Expo reports as no longer registered', async () => {
+    expo.respondWith(() => ({
+      status: 200,
+      body: {
+        data: [{ status: 'error', message: 'gone', details: { error: 'DeviceNotRegistered' } }],
+      },
+    }));
+
+    await dispatcher.dispatch(friendRequest, NOW);
+    await dispatcher.deliverDue(NOW);
+
+    expect(mockPrisma.pushToken.updateMany).toHaveBeenCalledWith({
+      where: { token: { in: ['ExponentPushToken[device-1]'] } },
+      data: { disabledAt: expect.any(Date) },
+    });
+    expect(byChannel('PUSH')).toMatchObject({ status: 'SKIPPED', skipReason: 'no_device' });
+  });
+
+  it('should skip push when the user has no registered device', async () => {
+    mockPrisma.pushToken.findMany.mockResolvedValueOnce([]);
+
+    await dispatcher.dispatch(friendRequest, NOW);
+    await dispatcher.deliverDue(NOW);
+
+    expect(byChannel('PUSH')).toMatchObject({
+      status: 'SKIPPED',
+      skipReason: 'no_device',
+      log: [{ attempt: 1, status: 'SKIPPED' }],
+    });
+  });
+
+  it('should not send SMTP credentials over a connection without TLS', async () => {
+    dispatcher = new NotificationDispatcher(mockPrisma as unknown as PrismaClient, {
+      IN_APP: new InAppChannel(mockPrisma),
+      PUSH: new ExpoPushChannel(mockPrisma, { url: expoUrl }),
+      EMAIL: new EmailChannel(
+        { host: '127.0.0.1', port: smtpPort, secure: false, user: 'dev', pass: 'dev' },
+        async () => 'bob@example.com',
+        { email: 'noreply@tcwatch.com', name: 'TCWatch' }
+      ),
+    });
+
+    await dispatcher.dispatch(friendRequest, NOW);
+    await dispatcher.deliverDue(NOW);
+
+    expect(byChannel('EMAIL')).toMatchObject({
+      status: 'PENDING',
+      lastError: expect.stringContaining('refusing to send credentials'),
+    });
+    expect(smtp.messages).toHaveLength(0);
+  });
+
+  it('should not throw when a notification cannot be dispatched', async () => {
+    jest.spyOn(console, 'error').mockImplementationOnce(() => undefined);
+    mockPrisma.userProfile.findUnique.mockRejectedValueOnce(new Error('connection lost'));
+
+    await expect(dispatcher.dispatch(friendRequest, NOW)).resolves.toEqual({
+      notificationId: null,
+      deliveries: [],
+    });
+  });
+});
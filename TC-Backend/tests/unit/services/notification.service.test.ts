@@ -0,0 +1,107 @@
+/**
+ * Notification Service Tests
+ * Tests for the typed producers and the deep links their notifications carry
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { NotificationService } from '../../../src/services/notification/notification.service';
+import { NotificationDispatcher } from '../../../src/services/notification/notification-dispatcher.service';
+import {
+  NotificationEvent,
+  renderNotification,
+} from '../../../src/services/notification/notification-events';
+
+const USER = 'user-1';
+
+describe('NotificationService', () => {
+  let dispatch: jest.Mock<(event: NotificationEvent) => Promise<any>>;
+  let service: NotificationService;
+
+  beforeEach(() => {
+    dispatch = jest.fn(async () => ({ notificationId: 'notification-1', deliveries: [] }));
+    const dispatcher = { dispatch } as unknown as NotificationDispatcher;
+    service = new NotificationService({} as PrismaClient, dispatcher);
+  });
+
+  const sent = () => {
+    const event = dispatch.mock.calls[0]![0];
+    return { event, data: renderNotification(event).inApp.data };
+  };
+
+  it('should send friend requests with a link to the requests screen', async () => {
+    await service.friendRequestReceived(USER, {
+      friendshipId: 'friendship-1',
+      fromUserId: 'user-2',
+      fromName: 'Alice',
+    });
+
+    expect(sent().event).toMatchObject({ type: 'friend_request', userId: USER });
+    expect(sent().data).toEqual({
+      friendshipId: 'friendship-1',
+      fromUserId: 'user-2',
+      deepLink: 'tcwatch://profile',
+    });
+  });
+
+  it('should link shared lists to the list', async () => {
+    await service.listShared(USER, {
+      listId: 'list-1',
+      listTitle: 'Unsolved',
+      fromUserId: 'user-2',
+      fromName: 'Alice',
+    });
+
+    expect(sent().event.type).toBe('list_editor_invite');
+    expect(sent().data).toEqual({
+      listId: 'list-1',
+      fromUserId: 'user-2',
+      deepLink: 'tcwatch://my-list',
+    });
+  });
+
+  it('should link starting challenges to the challenge', async () => {
+    await service.challengeStarting(USER, {
+      challengeId: 'challenge-1',
+      challengeTitle: 'Cold Case Marathon',
+    });
+
+    expect(sent().data).toEqual({
+      challengeId: 'challenge-1',
+      deepLink: 'tcwatch://profile',
+    });
+  });
+
+  it('should link achievements to the achievements screen', async () => {
+    await service.achievementEarned(USER, {
+      achievementId: 'achievement-1',
+      key: 'first_case',
+      name: 'First Case',
+      description: 'Track your first title',
+    });
+
+    expect(sent().data).toEqual({
+      achievementId: 'achievement-1',
+      key: 'first_case',
+      deepLink: 'tcwatch://profile',
+    });
+  });
+
+  it('should link new content for a followed case to the content', async () => {
+    await service.followedCaseContent(USER, {
+      caseId: 'case-1',
+      caseName: 'The Zodiac Killer',
+      contentId: 'content/1',
+      contentTitle: 'Zodiac',
+    });
+
+    expect(sent().data).toEqual({
+      caseId: 'case-1',
+      contentId: 'content/1',
+      deepLink: 'tcwatch://content/content%2F1',
+    });
+    expect(renderNotification(sent().event).push.body).toBe(
+      '"Zodiac" covers The Zodiac Killer, a case you follow'
+    );
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Postgres Search Service Tests
+ * Tests for the full-text fallback's filters, facets and result shape
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { PostgresSearchService } from '../../../src/services/search/postgres-search.service';
+
+// Rebuild the SQL a tagged $queryRaw call would run
+const toSql = (call: unknown[]) => {
+  const [strings, ...values] = call as [TemplateStringsArray, ...unknown[]];
+  return Prisma.sql(strings, ...values);
+};
+
+describe('PostgresSearchService', () => {
+  let mockPrisma: any;
+  let service: PostgresSearchService;
+
+  beforeEach(() => {
+    mockPrisma = {
+      $queryRaw: jest.fn(async (...call: unknown[]) => {
+        const { sql } = toSql(call);
+
+        if (sql.includes('GROUP BY value')) {
+          return [{ value: 'case-1', count: BigInt(2) }];
+        }
+
+        if (sql.includes('COUNT(*) AS total')) {
+          return [{ total: BigInt(2) }];
+        }
+
+        return [{ id: 'content-1', title: 'Zodiac', caseIds: ['case-1'], _rankingScore: 0.5 }];
+      }),
+    };
+
+    service = new PostgresSearchService(mockPrisma as unknown as PrismaClient);
+  });
+
+  const queries = () => mockPrisma.$queryRaw.mock.calls.map(toSql) as Prisma.Sql[];
+
+  it('should return ranked hits with the total as a number', async () => {
+    const results = await service.search('zodiac', { limit: 10, offset: 20 });
+
+    expect(results).toMatchObject({
+      hits: [{ id: 'content-1', title: 'Zodiac' }],
+      totalHits: 2,
+      facetDistribution: {},
+      query: 'zodiac',
+    });
+
+    const hitQuery = queries().find(query => query.sql.includes('_rankingScore'))!;
+    expect(hitQuery.sql).toContain('websearch_to_tsquery');
+    expect(hitQuery.values).toEqual(expect.arrayContaining(['zodiac', 10, 20]));
+  });
+
+  it('should skip the text match for an empty query', async () => {
+    await service.search('   ');
+
+    const countQuery = queries().find(query => query.sql.includes('COUNT(*) AS total'))!;
+    expect(countQuery.sql).not.toContain('WHERE');
+  });
+
+  it('should apply content type, case and rating filters', async () => {
+    await service.search('', {
+      filters: { contentType: 'MOVIE', caseIds: ['case-1'], rating: { $gte: 4 } },
+    });
+
+    const countQuery = queries().find(query => query.sql.includes('COUNT(*) AS total'))!;
+    expect(countQuery.sql).toContain('c.content_type::text =');
+    expect(countQuery.sql).toContain('ccl.case_id::text = ANY');
+    expect(countQuery.sql).toContain('AVG(uc.rating)');
+    expect(countQuery.values).toEqual(expect.arrayContaining(['MOVIE', ['case-1'], 4]));
+  });
+
+  it('should ignore empty filter lists', async () => {
+    await service.search('', { filters: { genreTags: [], platforms: [], caseIds: [] } });
+
+    const countQuery = queries().find(query => query.sql.includes('COUNT(*) AS total'))!;
+    expect(countQuery.sql).not.toContain('WHERE');
+  });
+
+  it('should facet on linked cases', async () => {
+    const results = await service.search('', { facets: ['caseIds'] });
+
+    expect(results.facetDistribution).toEqual({ caseIds: { 'case-1': 2 } });
+    const facetQuery = queries().find(query => query.sql.includes('GROUP BY value'))!;
+    expect(facetQuery.sql).toContain('content_case_links');
+  });
+});
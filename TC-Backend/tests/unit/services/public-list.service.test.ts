@@ -0,0 +1,175 @@
+/**
+ * Public List Service Tests
+ * Tests for share slugs, anonymous list pages, view counting and forking
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { PublicListService } from '../../../src/services/social/public-list.service';
+
+const OWNER = 'owner-1';
+
+const publicList = {
+  id: 'list-1',
+  userId: OWNER,
+  slug: 'night-stalker-essentials-a1b2c3',
+  title: 'Night Stalker essentials',
+  description: null,
+  privacy: 'PUBLIC',
+  viewCount: 41,
+  forkCount: 3,
+  userProfile: { userId: OWNER, displayName: 'Owner', avatarUrl: null },
+  listItems: [
+    { orderIndex: 0, notes: null, contentId: 'content-1', content: { id: 'content-1' } },
+    {
+      orderIndex: 1,
+      notes: 'Episode 3 is the best',
+      contentId: 'content-2',
+      content: { id: 'content-2' },
+    },
+  ],
+  forkedFrom: null,
+};
+
+describe('PublicListService', () => {
+  let mockPrisma: any;
+  let service: PublicListService;
+
+  beforeEach(() => {
+    mockPrisma = {
+      customList: {
+        findUnique: jest.fn(async () => publicList),
+        create: jest.fn(async ({ data }: any) => ({ id: 'fork-1', ...data })),
+        update: jest.fn(async () => ({})),
+      },
+      listItem: {
+        createMany: jest.fn(async () => ({ count: 2 })),
+      },
+      socialActivity: {
+        findFirst: jest.fn(async () => null),
+        create: jest.fn(async () => ({})),
+      },
+      $executeRaw: jest.fn(async () => 1),
+      $transaction: jest.fn(async (fn: any) => fn(mockPrisma)),
+    };
+
+    service = new PublicListService(mockPrisma as unknown as PrismaClient);
+  });
+
+  describe('ensureSlug', () => {
+    it('should give a public list a readable slug once', async () => {
+      mockPrisma.customList.findUnique.mockResolvedValueOnce(null);
+
+      const slug = await service.ensureSlug({
+        id: 'list-2',
+        title: 'Crème de la Crime!',
+        privacy: 'PUBLIC',
+        slug: null,
+      } as any);
+
+      expect(slug).toMatch(/^creme-de-la-crime-[0-9a-f]{6}$/);
+      expect(mockPrisma.customList.update).toHaveBeenCalledWith({
+        where: { id: 'list-2' },
+        data: { slug },
+      });
+    });
+
+    it('should keep an existing slug and skip private lists', async () => {
+      await service.ensureSlug({ ...publicList, title: 'Renamed' } as any);
+      await service.ensureSlug({
+        id: 'list-3',
+        title: 'Mine',
+        privacy: 'PRIVATE',
+        slug: null,
+      } as any);
+
+      expect(mockPrisma.customList.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPublicList', () => {
+    it('should count anonymous views and hide owner stats', async () => {
+      const list = await service.getPublicList(publicList.slug);
+
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(1);
+      expect(list.items).toHaveLength(2);
+      expect(list.isOwner).toBe(false);
+      expect(list).not.toHaveProperty('viewCount');
+    });
+
+    it('should show the owner their counts without counting their view', async () => {
+      const list = await service.getPublicList(publicList.slug, OWNER);
+
+      expect(mockPrisma.$executeRaw).not.toHaveBeenCalled();
+      expect(list).toMatchObject({ isOwner: true, viewCount: 41, forkCount: 3 });
+    });
+
+    it('should not expose lists that are no longer public', async () => {
+      mockPrisma.customList.findUnique.mockResolvedValueOnce({ ...publicList, privacy: 'FRIENDS' });
+
+      await expect(service.getPublicList(publicList.slug)).rejects.toThrow('List not found');
+    });
+  });
+
+  describe('getShareStats', () => {
+    it('should give a public list without a share link its slug', async () => {
+      mockPrisma.customList.findUnique
+        .mockResolvedValueOnce({ ...publicList, slug: null })
+        .mockResolvedValueOnce(null);
+
+      const stats = await service.getShareStats(OWNER, 'list-1');
+
+      expect(stats.slug).toMatch(/^night-stalker-essentials-[0-9a-f]{6}$/);
+      expect(stats.isShared).toBe(true);
+      expect(mockPrisma.customList.update).toHaveBeenCalledWith({
+        where: { id: 'list-1' },
+        data: { slug: stats.slug },
+      });
+    });
+
+    it('should only show stats to the owner', async () => {
+      await expect(service.getShareStats('user-2', 'list-1')).rejects.toThrow(
+        'Only the list owner can see share stats'
+      );
+      expect(mockPrisma.customList.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('forkList', () => {
+    it('should copy items into a private list and bump the fork count', async () => {
+      const fork = await service.forkList('reader-1', publicList.slug);
+
+      expect(fork).toMatchObject({
+        userId: 'reader-1',
+        title: publicList.title,
+        privacy: 'PRIVATE',
+        forkedFromId: 'list-1',
+      });
+      expect(mockPrisma.listItem.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            listId: 'fork-1',
+            contentId: 'content-1',
+            orderIndex: 0,
+            notes: null,
+            addedBy: 'reader-1',
+          },
+          {
+            listId: 'fork-1',
+            contentId: 'content-2',
+            orderIndex: 1,
+            notes: 'Episode 3 is the best',
+            addedBy: 'reader-1',
+          },
+        ],
+      });
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not let owners fork their own list', async () => {
+      await expect(service.forkList(OWNER, publicList.slug)).rejects.toThrow(
+        'You already own this list'
+      );
+    });
+  });
+});
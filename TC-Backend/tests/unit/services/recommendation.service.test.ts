@@ -0,0 +1,274 @@
+/**
+ * Recommendation Service Tests
+ * Tests for the scoring strategies, per-type blends and the precision@k harness
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { RecommendationService } from '../../../src/services/content/recommendation.service';
+import {
+  Interaction,
+  RecommendableContent,
+  RecommendationDataset,
+  RecommendationType,
+  rankRecommendations,
+} from '../../../src/services/content/recommendation-strategies';
+import {
+  createSeededDataset,
+  evaluatePrecisionAtK,
+} from '../../../src/services/content/recommendation-evaluation';
+
+const USER = 'user-1';
+const NOW = new Date('2024-06-01T00:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+const title = (
+  id: string,
+  overrides: Partial<RecommendableContent> = {}
+): RecommendableContent => ({
+  id,
+  title: `Title ${id}`,
+  genreTags: [],
+  caseTags: [],
+  keywords: [],
+  cases: [],
+  releaseDate: null,
+  ...overrides,
+});
+
+const rating = (userId: string, contentId: string, value: number | null): Interaction => ({
+  userId,
+  contentId,
+  status: 'COMPLETED',
+  rating: value,
+  updatedAt: NOW,
+});
+
+const dataset = (
+  contents: RecommendableContent[],
+  interactions: Interaction[],
+  recentActivity: Record<string, number> = {}
+): RecommendationDataset => ({
+  contents: new Map(contents.map(content => [content.id, content])),
+  interactions,
+  recentActivity: new Map(Object.entries(recentActivity)),
+});
+
+describe('rankRecommendations', () => {
+  it('should recommend titles similar to the ones the user liked and explain why', () => {
+    const data = dataset(
+      [
+        title('liked', {
+          title: 'The Jinx',
+          genreTags: ['Crime', 'Documentary'],
+          keywords: ['durst', 'murder', 'heir'],
+        }),
+        title('close', { genreTags: ['Crime', 'Documentary'], keywords: ['durst', 'heir'] }),
+        title('far', { genreTags: ['Comedy'], keywords: ['stand'] }),
+      ],
+      [rating(USER, 'liked', 5)]
+    );
+
+    const ranked = rankRecommendations(data, USER, RecommendationType.SIMILAR_CONTENT, {
+      now: NOW,
+    });
+
+    expect(ranked.map(recommendation => recommendation.contentId)).toEqual(['close']);
+    expect(ranked[0]).toMatchObject({ reason: 'Similar to The Jinx' });
+    expect(ranked[0]!.score).toBeGreaterThan(0);
+    expect(ranked[0]!.factors.similarity).toBeGreaterThan(0);
+  });
+
+  it('should favour cases the user keeps watching', () => {
+    const golden = { id: 'case-1', name: 'Golden State Killer' };
+    const data = dataset(
+      [
+        title('a', { cases: [golden] }),
+        title('b', { cases: [golden] }),
+        title('c', { cases: [golden] }),
+        title('other', { cases: [{ id: 'case-2', name: 'Zodiac Killer' }] }),
+      ],
+      [rating(USER, 'a', 5), rating(USER, 'b', null)]
+    );
+
+    const ranked = rankRecommendations(data, USER, RecommendationType.CASE_BASED, { now: NOW });
+
+    expect(ranked).toEqual([
+      expect.objectContaining({
+        contentId: 'c',
+        reason: "Because you've watched titles about Golden State Killer",
+      }),
+    ]);
+  });
+
+  it('should recommend what people with the same ratings rated highly', () => {
+    const data = dataset(
+      [title('seen', { title: 'Making a Murderer' }), title('loved'), title('hated')],
+      [
+        rating(USER, 'seen', 5),
+        ...['a', 'b', 'c'].flatMap(rater => [
+          rating(rater, 'seen', 5),
+          rating(rater, 'loved', 5),
+          rating(rater, 'hated', 1),
+        ]),
+      ]
+    );
+
+    const ranked = rankRecommendations(data, USER, RecommendationType.COLLABORATIVE, {
+      now: NOW,
+    });
+
+    expect(ranked.map(recommendation => recommendation.contentId)).toEqual(['loved']);
+    expect(ranked[0]!.reason).toBe('Fans of Making a Murderer also rated this highly');
+  });
+
+  it('should only return recent releases for new releases and skip unreleased titles', () => {
+    const data = dataset(
+      [
+        title('new', { releaseDate: new Date(NOW.getTime() - 10 * DAY) }),
+        title('older', { releaseDate: new Date(NOW.getTime() - 400 * DAY) }),
+        title('ancient', { releaseDate: new Date('1990-01-01T00:00:00Z') }),
+        title('upcoming', { releaseDate: new Date(NOW.getTime() + 10 * DAY) }),
+      ],
+      []
+    );
+
+    const ranked = rankRecommendations(data, USER, RecommendationType.NEW_RELEASES, { now: NOW });
+
+    expect(ranked.map(recommendation => recommendation.contentId)).toEqual(['new', 'older']);
+    expect(ranked[0]!.reason).toBe('New release');
+    expect(ranked[1]!.reason).toBe('Released in 2023');
+  });
+
+  it('should rank trending titles by recent activity for users without history', () => {
+    const data = dataset([title('quiet'), title('busy'), title('idle')], [], {
+      quiet: 2,
+      busy: 10,
+    });
+
+    const ranked = rankRecommendations(data, USER, RecommendationType.TRENDING, { now: NOW });
+
+    expect(ranked.map(recommendation => recommendation.contentId)).toEqual(['busy', 'quiet']);
+    expect(ranked[0]!.reason).toBe('Trending in the True Crime community');
+  });
+
+  it('should leave out titles in the library, or only finished ones when asked', () => {
+    const data = dataset(
+      [title('done'), title('queued'), title('fresh')],
+      [rating(USER, 'done', null), { ...rating(USER, 'queued', null), status: 'WANT_TO_WATCH' }],
+      { done: 3, queued: 2, fresh: 1 }
+    );
+
+    const ids = (excludeWatched: boolean) =>
+      rankRecommendations(data, USER, RecommendationType.TRENDING, {
+        now: NOW,
+        excludeWatched,
+      }).map(recommendation => recommendation.contentId);
+
+    expect(ids(true)).toEqual(['fresh']);
+    expect(ids(false)).toEqual(['queued', 'fresh']);
+  });
+});
+
+describe('evaluatePrecisionAtK', () => {
+  const options = { seed: 7, users: 40, titles: 60 };
+
+  it('should beat the popularity baseline on seeded data', () => {
+    const report = evaluatePrecisionAtK(createSeededDataset(options, NOW), { k: 5, now: NOW });
+    const forYou = report.results.find(result => result.type === RecommendationType.FOR_YOU)!;
+
+    expect(report.k).toBe(5);
+    expect(report.usersEvaluated).toBeGreaterThan(0);
+    expect(report.results).toHaveLength(Object.values(RecommendationType).length);
+    expect(forYou.precisionAtK).toBeGreaterThan(report.baseline.precisionAtK);
+  });
+
+  it('should produce the same report for the same seed', () => {
+    const evaluate = () =>
+      evaluatePrecisionAtK(createSeededDataset(options, NOW), {
+        k: 5,
+        now: NOW,
+        types: [RecommendationType.COLLABORATIVE],
+      });
+
+    expect(evaluate()).toEqual(evaluate());
+  });
+});
+
+describe('RecommendationService', () => {
+  let mockPrisma: any;
+  let service: RecommendationService;
+
+  const contentRow = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    title: `Title ${id}`,
+    description: null,
+    genreTags: [],
+    caseTags: [],
+    releaseDate: null,
+    contentCaseLinks: [],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockPrisma = {
+      userContent: {
+        findMany: jest.fn(async () => []),
+        groupBy: jest.fn(async () => []),
+      },
+      content: {
+        findMany: jest.fn(async () => []),
+      },
+      contentTrendingScore: {
+        findMany: jest.fn(async () => []),
+      },
+    };
+
+    service = new RecommendationService(mockPrisma as unknown as PrismaClient);
+  });
+
+  it('should return recommended content with its score and reason', async () => {
+    mockPrisma.userContent.findMany.mockResolvedValueOnce([
+      {
+        ...rating(USER, 'liked', 5),
+        content: contentRow('liked', {
+          title: 'Mindhunter',
+          genreTags: ['Crime', 'Thriller'],
+        }),
+      },
+    ]);
+    mockPrisma.content.findMany.mockImplementation(async ({ where }: any) => {
+      if (where.OR) {
+        return [contentRow('match', { genreTags: ['Crime', 'Thriller'] })];
+      }
+
+      if (where.id?.in) {
+        return where.id.in.map((id: string) => ({ id, title: `Title ${id}`, posterUrl: null }));
+      }
+
+      return [];
+    });
+
+    const recommendations = await service.recommend(USER, RecommendationType.FOR_YOU);
+
+    expect(recommendations).toEqual([
+      {
+        content: { id: 'match', title: 'Title match', posterUrl: null },
+        score: expect.any(Number),
+        reason: 'Similar to Mindhunter',
+        metadata: {
+          algorithm: RecommendationType.FOR_YOU,
+          factors: { similarity: expect.any(Number) },
+        },
+      },
+    ]);
+    // Nobody else rated the title, so there were no neighbors to look up
+    expect(mockPrisma.userContent.findMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return nothing when no strategy has a candidate', async () => {
+    await expect(
+      service.recommend(USER, RecommendationType.COLLABORATIVE, { limit: 5 })
+    ).resolves.toEqual([]);
+  });
+});
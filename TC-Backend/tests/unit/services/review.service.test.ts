@@ -0,0 +1,299 @@
+/**
+ * Review Service Tests
+ * Tests for publishing, visibility, helpful votes, the rating histogram and moderation
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { SearchIndexerService } from '../../../src/services/search/search-indexer.service';
+import { ReviewService } from '../../../src/services/social/review.service';
+
+const AUTHOR = 'author-1';
+const VIEWER = 'viewer-1';
+const CONTENT = 'content-1';
+
+const reviewRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'review-1',
+  userId: AUTHOR,
+  contentId: CONTENT,
+  rating: 4,
+  body: 'Gripping from start to finish',
+  hasSpoilers: false,
+  visibility: 'PUBLIC',
+  helpfulCount: 0,
+  createdAt: new Date('2024-05-01T00:00:00Z'),
+  updatedAt: new Date('2024-05-01T00:00:00Z'),
+  editedAt: null,
+  hiddenAt: null,
+  hiddenBy: null,
+  hiddenReason: null,
+  userProfile: { userId: AUTHOR, displayName: 'Author', avatarUrl: null },
+  ...overrides,
+});
+
+describe('ReviewService', () => {
+  let mockPrisma: any;
+  let mockIndexer: any;
+  let service: ReviewService;
+
+  beforeEach(() => {
+    mockPrisma = {
+      content: {
+        findUnique: jest.fn(async () => ({ id: CONTENT })),
+      },
+      review: {
+        findUnique: jest.fn(async () => null),
+        findFirst: jest.fn(async () => null),
+        findMany: jest.fn(async () => []),
+        count: jest.fn(async () => 0),
+        groupBy: jest.fn(async () => []),
+        create: jest.fn(async ({ data }: any) => reviewRow(data)),
+        update: jest.fn(async ({ data }: any) => reviewRow(data)),
+        delete: jest.fn(async () => reviewRow()),
+      },
+      reviewVote: {
+        findMany: jest.fn(async () => []),
+        upsert: jest.fn(async () => ({})),
+        deleteMany: jest.fn(async () => ({ count: 0 })),
+        count: jest.fn(async () => 0),
+      },
+      friendship: {
+        findMany: jest.fn(async () => []),
+      },
+      $transaction: jest.fn(async (fn: any) => fn(mockPrisma)),
+    };
+
+    mockIndexer = { queueIndexContent: jest.fn() };
+
+    service = new ReviewService(
+      mockPrisma as unknown as PrismaClient,
+      mockIndexer as unknown as SearchIndexerService
+    );
+  });
+
+  describe('publish', () => {
+    it('should store a blank review as a rating without text', async () => {
+      const review = await service.publish(AUTHOR, {
+        contentId: CONTENT,
+        rating: 5,
+        body: '   ',
+        hasSpoilers: true,
+      });
+
+      expect(mockPrisma.review.create.mock.calls[0][0].data).toEqual({
+        userId: AUTHOR,
+        contentId: CONTENT,
+        rating: 5,
+        body: null,
+        hasSpoilers: true,
+        visibility: 'PUBLIC',
+      });
+      expect(review).toMatchObject({ rating: 5, body: null, isOwn: true, hidden: false });
+    });
+
+    it('should refuse a second review of the same title', async () => {
+      mockPrisma.review.findUnique.mockResolvedValueOnce({ id: 'review-1' });
+
+      await expect(service.publish(AUTHOR, { contentId: CONTENT, rating: 3 })).rejects.toThrow(
+        "You've already reviewed this title. Edit your review instead."
+      );
+      expect(mockPrisma.review.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update and delete', () => {
+    it("should not let anyone edit or delete someone else's review", async () => {
+      mockPrisma.review.findUnique.mockResolvedValue({ userId: AUTHOR });
+
+      await expect(service.update(VIEWER, 'review-1', { rating: 1 })).rejects.toThrow(
+        'Review not found'
+      );
+      await expect(service.delete(VIEWER, 'review-1')).rejects.toThrow('Review not found');
+      expect(mockPrisma.review.update).not.toHaveBeenCalled();
+      expect(mockPrisma.review.delete).not.toHaveBeenCalled();
+    });
+
+    it('should only change the given fields and mark the review edited', async () => {
+      mockPrisma.review.findUnique.mockResolvedValueOnce({ userId: AUTHOR });
+
+      await service.update(AUTHOR, 'review-1', { hasSpoilers: true, visibility: 'FRIENDS' });
+
+      expect(mockPrisma.review.update.mock.calls[0][0].data).toEqual({
+        hasSpoilers: true,
+        visibility: 'FRIENDS',
+        editedAt: expect.any(Date),
+      });
+      expect(mockIndexer.queueIndexContent).not.toHaveBeenCalled();
+    });
+
+    it('should reindex the title when a rating is published, changed or deleted', async () => {
+      await service.publish(AUTHOR, { contentId: CONTENT, rating: 4 });
+      mockPrisma.review.findUnique.mockResolvedValue({ userId: AUTHOR });
+      await service.update(AUTHOR, 'review-1', { rating: 2 });
+      await service.delete(AUTHOR, 'review-1');
+
+      expect(mockIndexer.queueIndexContent.mock.calls).toEqual([
+        [[CONTENT]],
+        [[CONTENT]],
+        [[CONTENT]],
+      ]);
+    });
+  });
+
+  describe('listForContent', () => {
+    it('should only show public, unhidden reviews to signed-out visitors', async () => {
+      await service.listForContent(CONTENT, undefined);
+
+      expect(mockPrisma.review.findMany.mock.calls[0][0].where).toEqual({
+        contentId: CONTENT,
+        hiddenAt: null,
+        visibility: 'PUBLIC',
+      });
+      expect(mockPrisma.friendship.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should include friends' reviews and the viewer's own, and skip blocked users", async () => {
+      mockPrisma.friendship.findMany
+        .mockResolvedValueOnce([{ requesterId: VIEWER, addresseeId: 'friend-1' }])
+        .mockResolvedValueOnce([{ requesterId: 'blocked-1', addresseeId: VIEWER }]);
+      mockPrisma.review.findMany.mockResolvedValueOnce([reviewRow({ helpfulCount: 2 })]);
+      mockPrisma.review.count.mockResolvedValueOnce(1);
+      mockPrisma.reviewVote.findMany.mockResolvedValueOnce([{ reviewId: 'review-1' }]);
+
+      const { reviews, total } = await service.listForContent(CONTENT, VIEWER, {
+        sort: 'recent',
+      });
+
+      const query = mockPrisma.review.findMany.mock.calls[0][0];
+      expect(query.where).toEqual({
+        contentId: CONTENT,
+        userId: { notIn: ['blocked-1'] },
+        OR: [
+          { userId: VIEWER },
+          {
+            hiddenAt: null,
+            OR: [{ visibility: 'PUBLIC' }, { visibility: 'FRIENDS', userId: { in: ['friend-1'] } }],
+          },
+        ],
+      });
+      expect(query.orderBy).toEqual([{ createdAt: 'desc' }, { id: 'desc' }]);
+      expect(total).toBe(1);
+      expect(reviews[0]).toMatchObject({ isOwn: false, votedHelpful: true, helpfulCount: 2 });
+    });
+
+    it('should tell authors when their review was hidden', async () => {
+      mockPrisma.review.findMany.mockResolvedValueOnce([
+        reviewRow({ hiddenAt: new Date(), hiddenReason: 'Harassment' }),
+      ]);
+
+      const { reviews } = await service.listForContent(CONTENT, AUTHOR);
+
+      expect(reviews[0]).toMatchObject({ hidden: true, hiddenReason: 'Harassment' });
+    });
+  });
+
+  describe('getSummary', () => {
+    it('should build the star rating histogram and average', async () => {
+      mockPrisma.review.groupBy.mockResolvedValueOnce([
+        { rating: 5, _count: { _all: 3 } },
+        { rating: 4, _count: { _all: 1 } },
+        { rating: 1, _count: { _all: 1 } },
+      ]);
+      mockPrisma.review.count.mockResolvedValueOnce(2);
+
+      const summary = await service.getSummary(CONTENT);
+
+      expect(summary).toEqual({
+        contentId: CONTENT,
+        averageRating: 4,
+        ratingsCount: 5,
+        reviewsCount: 2,
+        histogram: [
+          { rating: 1, count: 1, percent: 20 },
+          { rating: 2, count: 0, percent: 0 },
+          { rating: 3, count: 0, percent: 0 },
+          { rating: 4, count: 1, percent: 20 },
+          { rating: 5, count: 3, percent: 60 },
+        ],
+      });
+      expect(mockPrisma.review.groupBy.mock.calls[0][0].where).toEqual({
+        contentId: CONTENT,
+        hiddenAt: null,
+      });
+    });
+
+    it('should have no average for an unrated title', async () => {
+      const summary = await service.getSummary(CONTENT);
+
+      expect(summary.averageRating).toBeNull();
+      expect(summary.histogram.every(bar => bar.count === 0 && bar.percent === 0)).toBe(true);
+    });
+  });
+
+  describe('setHelpful', () => {
+    it('should record a vote and count it once however often it is repeated', async () => {
+      const votes = new Set(['other-user']);
+      mockPrisma.review.findFirst.mockResolvedValue({ id: 'review-1', userId: AUTHOR });
+      mockPrisma.reviewVote.upsert.mockImplementation(async ({ create }: any) => {
+        votes.add(create.userId);
+        return create;
+      });
+      mockPrisma.reviewVote.deleteMany.mockImplementation(async ({ where }: any) => ({
+        count: Number(votes.delete(where.userId)),
+      }));
+      mockPrisma.reviewVote.count.mockImplementation(async () => votes.size);
+
+      await Promise.all([
+        service.setHelpful(VIEWER, 'review-1', true),
+        service.setHelpful(VIEWER, 'review-1', true),
+      ]);
+
+      expect(mockPrisma.reviewVote.upsert).toHaveBeenCalledWith({
+        where: { reviewId_userId: { reviewId: 'review-1', userId: VIEWER } },
+        create: { reviewId: 'review-1', userId: VIEWER },
+        update: {},
+      });
+      expect(mockPrisma.review.update).toHaveBeenLastCalledWith(
+        expect.objectContaining({ where: { id: 'review-1' }, data: { helpfulCount: 2 } })
+      );
+
+      await service.setHelpful(VIEWER, 'review-1', false);
+      await expect(service.setHelpful(VIEWER, 'review-1', false)).resolves.toEqual({
+        helpfulCount: 1,
+        votedHelpful: false,
+      });
+    });
+
+    it('should reject votes on your own review or on reviews you cannot see', async () => {
+      mockPrisma.review.findFirst.mockResolvedValueOnce({ id: 'review-1', userId: AUTHOR });
+
+      await expect(service.setHelpful(AUTHOR, 'review-1', true)).rejects.toThrow(
+        "You can't vote on your own review"
+      );
+      await expect(service.setHelpful(VIEWER, 'review-2', true)).rejects.toThrow(
+        'Review not found'
+      );
+      expect(mockPrisma.reviewVote.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('moderation', () => {
+    it('should record who hid a review and why, and clear it when shown again', async () => {
+      mockPrisma.review.findUnique.mockResolvedValue({ userId: AUTHOR });
+
+      await service.hide('admin-1', 'review-1', 'Spoilers in the title');
+      await service.unhide('review-1');
+
+      expect(mockPrisma.review.update.mock.calls[0][0].data).toEqual({
+        hiddenAt: expect.any(Date),
+        hiddenBy: 'admin-1',
+        hiddenReason: 'Spoilers in the title',
+      });
+      expect(mockPrisma.review.update.mock.calls[1][0].data).toEqual({
+        hiddenAt: null,
+        hiddenBy: null,
+        hiddenReason: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Search Indexer Tests
+ * Tests for content index settings, bulk reindexing, incremental sync and job tracking
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { SearchIndexerService } from '../../../src/services/search/search-indexer.service';
+import { toContentDocument, ContentIndexRow } from '../../../src/services/search/content-index';
+import { InMemorySearchBackend } from '../../mocks/search-backend';
+
+const buildContent = (id: string, overrides: Record<string, any> = {}) => ({
+  id,
+  externalId: `ext-${id}`,
+  title: `Content ${id}`,
+  description: 'A true crime documentary',
+  contentType: 'DOCUMENTARY',
+  genreTags: ['Documentary', 'Crime'],
+  caseTags: ['btk'],
+  releaseDate: new Date('2022-10-05'),
+  platforms: [{ name: 'Netflix' }],
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-02'),
+  contentCaseLinks: [],
+  ...overrides,
+});
+
+describe('SearchIndexerService', () => {
+  let rows: ReturnType<typeof buildContent>[];
+  let mockPrisma: any;
+  let backend: InMemorySearchBackend;
+  let indexer: SearchIndexerService;
+
+  beforeEach(() => {
+    rows = ['a', 'b', 'c', 'd', 'e'].map(id => buildContent(id));
+
+    mockPrisma = {
+      content: {
+        count: jest.fn(async () => rows.length),
+        findMany: jest.fn(async (args: any) => {
+          if (args.where?.id?.in) {
+            return rows.filter(row => args.where.id.in.includes(row.id));
+          }
+          const start = args.cursor ? rows.findIndex(row => row.id === args.cursor.id) + 1 : 0;
+          return rows.slice(start, start + args.take);
+        }),
+      },
+      userContent: {
+        groupBy: jest.fn(async () => []),
+      },
+    };
+
+    backend = new InMemorySearchBackend();
+    indexer = new SearchIndexerService(mockPrisma as unknown as PrismaClient, backend);
+  });
+
+  it('should apply content index settings with case synonyms', async () => {
+    await indexer.configureIndex();
+
+    const settings = backend.settings.get('content')!;
+    expect(settings.filterableAttributes).toEqual(
+      expect.arrayContaining(['contentType', 'genreTags', 'caseIds', 'platforms.name'])
+    );
+    expect(settings.synonyms?.btk).toContain('dennis rader');
+    expect(settings.synonyms?.['dennis rader']).toContain('btk');
+  });
+
+  it('should reindex every row in batches', async () => {
+    const job = await indexer.reindex({ batchSize: 2 });
+
+    expect(job.status).toBe('completed');
+    expect(job.totalDocuments).toBe(5);
+    expect(job.processedDocuments).toBe(5);
+    expect(backend.getDocuments('content').size).toBe(5);
+    expect(mockPrisma.content.findMany).toHaveBeenCalledTimes(4);
+  });
+
+  it('should record failed batches and keep going', async () => {
+    backend.failNextIndexCall = true;
+
+    const job = await indexer.reindex({ batchSize: 2 });
+
+    expect(job.status).toBe('completed');
+    expect(job.failedDocuments).toBe(2);
+    expect(job.processedDocuments).toBe(3);
+  });
+
+  it('should clear stale documents when requested', async () => {
+    backend.getDocuments('content').set('stale', { id: 'stale' });
+
+    await indexer.reindex({ clearExisting: true });
+
+    expect(backend.getDocuments('content').has('stale')).toBe(false);
+    expect(backend.getDocuments('content').size).toBe(5);
+  });
+
+  it('should upsert changed content and remove deleted content', async () => {
+    await indexer.indexContent(['a']);
+    expect(backend.getDocuments('content').get('a')?.title).toBe('Content a');
+
+    rows = rows.filter(row => row.id !== 'a');
+    await indexer.indexContent(['a']);
+    expect(backend.getDocuments('content').has('a')).toBe(false);
+  });
+
+  it('should index the average user rating and tracking count', async () => {
+    mockPrisma.userContent.groupBy.mockResolvedValueOnce([
+      { contentId: 'a', _avg: { rating: 4.5 }, _count: { _all: 3 } },
+      { contentId: 'b', _avg: { rating: null }, _count: { _all: 1 } },
+    ]);
+
+    await indexer.indexContent(['a', 'b', 'c']);
+
+    const documents = backend.getDocuments('content');
+    expect(documents.get('a')).toMatchObject({ rating: 4.5, popularity: 3 });
+    expect(documents.get('b')).toMatchObject({ rating: 0, popularity: 1 });
+    expect(documents.get('c')).toMatchObject({ rating: 0, popularity: 0 });
+  });
+
+  it('should refresh ratings in the background and log failures instead of throwing', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockPrisma.userContent.groupBy.mockResolvedValueOnce([
+      { contentId: 'a', _avg: { rating: 3 }, _count: { _all: 2 } },
+    ]);
+
+    indexer.queueIndexContent(['a']);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(backend.getDocuments('content').get('a')).toMatchObject({ rating: 3, popularity: 2 });
+
+    mockPrisma.userContent.groupBy.mockRejectedValueOnce(new Error('connection lost'));
+    expect(() => indexer.queueIndexContent(['b'])).not.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(consoleError).toHaveBeenCalledWith('Failed to reindex content b:', expect.any(Error));
+
+    consoleError.mockRestore();
+  });
+
+  it('should track and cancel background jobs', async () => {
+    const job = indexer.startReindex({ batchSize: 1 });
+
+    expect(indexer.getActiveJobs().map(active => active.id)).toContain(job.id);
+    expect(() => indexer.startReindex()).toThrow('already running');
+
+    indexer.cancelJob(job.id);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const finished = indexer.getJob(job.id)!;
+    expect(finished.status).toBe('cancelled');
+    expect(finished.processedDocuments).toBeLessThan(5);
+    expect(() => indexer.cancelJob(job.id)).toThrow('already cancelled');
+  });
+});
+
+describe('toContentDocument', () => {
+  it('should flatten case links into searchable names and filterable IDs', () => {
+    const document = toContentDocument(
+      buildContent('a', {
+        contentCaseLinks: [
+          {
+            caseId: 'case-1',
+            contentCase: { id: 'case-1', caseName: 'BTK Killings', perpetrators: ['Dennis Rader'] },
+          },
+        ],
+      }) as unknown as ContentIndexRow
+    );
+
+    expect(document.caseIds).toEqual(['case-1']);
+    expect(document.caseNames).toEqual(['BTK Killings', 'Dennis Rader']);
+    expect(document.releaseYear).toBe(2022);
+    expect(document.releaseDate).toBe('2022-10-05');
+  });
+});
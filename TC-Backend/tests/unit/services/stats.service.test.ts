@@ -0,0 +1,256 @@
+/**
+ * Stats Service Tests
+ * Tests for monthly stat precomputation, aggregation and the year in review
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { StatsService } from '../../../src/services/social/stats.service';
+
+const USER = 'user-1';
+
+const month = (value: string) => new Date(`${value}-01T00:00:00Z`);
+
+const storedMonth = (value: string, overrides: Record<string, unknown> = {}) => ({
+  userId: USER,
+  month: month(value),
+  minutesWatched: 0,
+  episodesWatched: 0,
+  titlesCompleted: 0,
+  ratingSum: 0,
+  ratingCount: 0,
+  genres: {},
+  cases: {},
+  formats: {},
+  platforms: {},
+  activeDays: [],
+  stale: false,
+  computedAt: new Date('2024-06-01T00:00:00Z'),
+  ...overrides,
+});
+
+const completion = (dateCompleted: string, content: Record<string, unknown>, extra = {}) => ({
+  dateCompleted: new Date(dateCompleted),
+  rating: null,
+  platformWatched: null,
+  ...extra,
+  content: {
+    contentType: 'MOVIE',
+    genreTags: [],
+    runtimeMinutes: 100,
+    totalEpisodes: null,
+    contentCaseLinks: [],
+    ...content,
+  },
+});
+
+describe('StatsService', () => {
+  let mockPrisma: any;
+  let service: StatsService;
+
+  beforeEach(() => {
+    mockPrisma = {
+      userStatsMonth: {
+        findMany: jest.fn(async () => []),
+        upsert: jest.fn(async ({ create }: any) => ({ computedAt: null, ...create })),
+        deleteMany: jest.fn(async () => ({ count: 0 })),
+      },
+      episodeProgress: {
+        findMany: jest.fn(async () => []),
+      },
+      userContent: {
+        findMany: jest.fn(async () => []),
+      },
+      contentCase: {
+        findMany: jest.fn(async () => []),
+      },
+    };
+
+    service = new StatsService(mockPrisma as unknown as PrismaClient);
+  });
+
+  it('should build monthly stats from the whole history for a user without any', async () => {
+    const episodes = [
+      { watchedAt: new Date('2024-03-01T20:00:00Z'), content: { runtimeMinutes: 60 } },
+      { watchedAt: new Date('2024-03-02T20:00:00Z'), content: { runtimeMinutes: null } },
+    ];
+    const completions = [
+      completion(
+        '2024-03-03T12:00:00Z',
+        {
+          genreTags: ['Crime', 'Documentary'],
+          contentCaseLinks: [{ caseId: 'case-1', relationship: 'COVERS_CASE' }],
+        },
+        { rating: 4, platformWatched: 'Netflix' }
+      ),
+      completion(
+        '2024-03-10T12:00:00Z',
+        {
+          contentType: 'TV_SERIES',
+          genreTags: ['Crime', 'Drama'],
+          runtimeMinutes: 50,
+          totalEpisodes: 8,
+          contentCaseLinks: [{ caseId: 'case-1', relationship: 'DIRECTLY_BASED_ON' }],
+        },
+        { rating: 5, platformWatched: 'Netflix' }
+      ),
+    ];
+
+    // Discovery finds activity in March only; the month query returns its rows
+    mockPrisma.episodeProgress.findMany
+      .mockResolvedValueOnce(episodes)
+      .mockResolvedValueOnce(episodes);
+    mockPrisma.userContent.findMany
+      .mockResolvedValueOnce(completions)
+      .mockResolvedValueOnce(completions);
+    mockPrisma.contentCase.findMany.mockResolvedValueOnce([
+      {
+        id: 'case-1',
+        caseName: 'Golden State Killer',
+        caseSlug: 'golden-state-killer',
+        perpetrators: ['Joseph James DeAngelo'],
+      },
+    ]);
+
+    const stats = await service.getStats(USER, 2024);
+
+    expect(mockPrisma.userStatsMonth.upsert).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.userStatsMonth.upsert.mock.calls[0][0].create).toMatchObject({
+      month: month('2024-03'),
+      // Two episodes plus the movie; the series is counted through its episodes
+      minutesWatched: 60 + 45 + 100,
+      episodesWatched: 2,
+      titlesCompleted: 2,
+      ratingSum: 9,
+      ratingCount: 2,
+      genres: { Crime: 2, Documentary: 1, Drama: 1 },
+      cases: { 'case-1': 2 },
+      formats: { documentary: 1, dramatization: 1 },
+      platforms: { Netflix: 2 },
+      activeDays: [1, 2, 3, 10],
+      stale: false,
+    });
+
+    expect(stats.totals).toEqual({
+      hoursWatched: 3.4,
+      episodesWatched: 2,
+      titlesCompleted: 2,
+      activeDays: 4,
+    });
+    expect(stats.hoursByMonth.find(entry => entry.month === '2024-03')).toMatchObject({
+      hoursWatched: 3.4,
+    });
+    expect(stats.genres[0]).toEqual({ name: 'Crime', count: 2, percent: 100 });
+    expect(stats.cases).toEqual([
+      {
+        caseId: 'case-1',
+        caseName: 'Golden State Killer',
+        caseSlug: 'golden-state-killer',
+        count: 2,
+      },
+    ]);
+    expect(stats.perpetrators).toEqual([{ name: 'Joseph James DeAngelo', count: 2, percent: 100 }]);
+    expect(stats.formats).toEqual([
+      { format: 'documentary', count: 1, percent: 50 },
+      { format: 'dramatization', count: 1, percent: 50 },
+      { format: 'podcast', count: 0, percent: 0 },
+      { format: 'other', count: 0, percent: 0 },
+    ]);
+    expect(stats.longestStreak).toBe(3);
+    expect(stats.averageRating).toBe(4.5);
+  });
+
+  it('should only recompute stale months', async () => {
+    mockPrisma.userStatsMonth.findMany.mockResolvedValueOnce([
+      storedMonth('2024-01', { minutesWatched: 120, titlesCompleted: 1 }),
+      storedMonth('2024-02', { minutesWatched: 999, stale: true }),
+    ]);
+
+    const stats = await service.getStats(USER);
+
+    expect(mockPrisma.userStatsMonth.upsert).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.userStatsMonth.upsert.mock.calls[0][0].where).toEqual({
+      userId_month: { userId: USER, month: month('2024-02') },
+    });
+    // February had nothing left once recomputed
+    expect(stats.totals.hoursWatched).toBe(2);
+  });
+
+  it('should count streaks that run across months', async () => {
+    mockPrisma.userStatsMonth.findMany.mockResolvedValueOnce([
+      storedMonth('2024-01', { activeDays: [5, 30, 31] }),
+      storedMonth('2024-02', { activeDays: [1, 2, 20] }),
+    ]);
+
+    const stats = await service.getStats(USER);
+
+    expect(stats.longestStreak).toBe(4);
+    expect(stats.totals.activeDays).toBe(6);
+  });
+
+  it('should mark the months of changed dates as stale', async () => {
+    await service.invalidate(USER, [
+      new Date('2024-03-05T00:00:00Z'),
+      new Date('2024-03-20T00:00:00Z'),
+      null,
+      undefined,
+    ]);
+
+    expect(mockPrisma.userStatsMonth.upsert).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.userStatsMonth.upsert).toHaveBeenCalledWith({
+      where: { userId_month: { userId: USER, month: month('2024-03') } },
+      create: { userId: USER, month: month('2024-03'), activeDays: [], stale: true },
+      update: { stale: true },
+    });
+    expect(mockPrisma.userStatsMonth.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('should drop every month when invalidated without dates', async () => {
+    await service.invalidate(USER);
+
+    expect(mockPrisma.userStatsMonth.deleteMany).toHaveBeenCalledWith({ where: { userId: USER } });
+  });
+
+  it('should summarize a year for sharing', async () => {
+    mockPrisma.userStatsMonth.findMany.mockResolvedValueOnce([
+      storedMonth('2023-12', { minutesWatched: 6000, titlesCompleted: 9 }),
+      storedMonth('2024-04', {
+        minutesWatched: 600,
+        titlesCompleted: 3,
+        genres: { Crime: 3 },
+        cases: { 'case-1': 2 },
+        formats: { documentary: 2, dramatization: 1 },
+        activeDays: [1, 2],
+      }),
+      storedMonth('2024-05', { minutesWatched: 300, titlesCompleted: 1, formats: { other: 1 } }),
+    ]);
+    mockPrisma.contentCase.findMany.mockResolvedValueOnce([
+      { id: 'case-1', caseName: 'Zodiac Killer', caseSlug: 'zodiac-killer', perpetrators: [] },
+    ]);
+
+    const review = await service.getYearInReview(USER, 2024);
+
+    expect(review).toMatchObject({
+      year: 2024,
+      hoursWatched: 15,
+      titlesCompleted: 4,
+      casesExplored: 1,
+      topCase: { caseName: 'Zodiac Killer' },
+      topGenre: { name: 'Crime' },
+      documentaryPercent: 50,
+      dramatizationPercent: 25,
+      busiestMonth: { month: '2024-04', hoursWatched: 10 },
+      longestStreak: 2,
+    });
+    expect(review.shareText).toBe(
+      'My 2024 in True Crime: 15 hours, 4 titles finished and 1 case explored. ' +
+        'Most watched case: Zodiac Killer. Favorite genre: Crime. Longest streak: 2 days. #TCWatch'
+    );
+  });
+
+  it('should reject years that have not happened yet', async () => {
+    await expect(service.getYearInReview(USER, new Date().getUTCFullYear() + 1)).rejects.toThrow(
+      "That year hasn't happened yet"
+    );
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Time Estimate Service Tests
+ * Tests for remaining time, viewing pace and estimate caching
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+
+jest.mock('ioredis', () => {
+  return jest.fn().mockImplementation(() => ({}));
+});
+
+import { TimeEstimateService } from '../../../src/services/content/time-estimate.service';
+
+const USER = 'user-1';
+const DAY = 24 * 60 * 60 * 1000;
+
+const contents = [
+  {
+    id: 'series-1',
+    title: 'The Staircase',
+    contentType: 'TV_SERIES',
+    runtimeMinutes: 60,
+    totalEpisodes: 13,
+  },
+  {
+    id: 'movie-1',
+    title: 'Capturing the Friedmans',
+    contentType: 'MOVIE',
+    runtimeMinutes: 107,
+    totalEpisodes: null,
+  },
+  {
+    id: 'series-2',
+    title: 'Unsolved Mysteries',
+    contentType: 'TV_SERIES',
+    runtimeMinutes: null,
+    totalEpisodes: null,
+  },
+];
+
+describe('TimeEstimateService', () => {
+  let mockPrisma: any;
+  let cache: any;
+  let service: TimeEstimateService;
+
+  beforeEach(() => {
+    mockPrisma = {
+      content: {
+        findMany: jest.fn(async ({ where }: any) =>
+          contents.filter(content => where.id.in.includes(content.id))
+        ),
+      },
+      userContent: {
+        findMany: jest.fn(async ({ where }: any) =>
+          where.dateCompleted
+            ? []
+            : [
+                { contentId: 'series-1', status: 'WATCHING' },
+                { contentId: 'movie-1', status: 'WANT_TO_WATCH' },
+                { contentId: 'series-2', status: 'WANT_TO_WATCH' },
+              ]
+        ),
+      },
+      episodeProgress: {
+        // Three hours a day for the last week
+        findMany: jest.fn(async () =>
+          Array.from({ length: 21 }, (_, index) => ({
+            watchedAt: new Date(Date.now() - Math.floor(index / 3) * DAY),
+            content: { runtimeMinutes: 60 },
+          }))
+        ),
+        groupBy: jest.fn(async () => [{ contentId: 'series-1', _count: { _all: 3 } }]),
+      },
+    };
+    cache = {
+      get: jest.fn(async (key: string) => (key === `time_estimate:${USER}:version` ? 'v1' : null)),
+      set: jest.fn(async () => undefined),
+      mget: jest.fn(async (keys: string[]) => keys.map(() => null)),
+      mset: jest.fn(async () => undefined),
+    };
+
+    service = new TimeEstimateService(mockPrisma as unknown as PrismaClient, cache);
+  });
+
+  it('should estimate the unwatched episodes of a series at the measured pace', async () => {
+    const estimate = await service.getTimeEstimate(USER, 'series-1');
+
+    expect(estimate).toMatchObject({
+      contentId: 'series-1',
+      status: 'WATCHING',
+      remainingEpisodes: 10,
+      remainingMinutes: 600,
+      hoursRemaining: 10,
+      runtimeEstimated: false,
+    });
+
+    // 21 hours over a week is 180 minutes a day, so 600 minutes is 3⅓ days away
+    const daysAway = (new Date(estimate.projectedFinishDate!).getTime() - Date.now()) / DAY;
+    expect(daysAway).toBeCloseTo(600 / 180, 1);
+  });
+
+  it('should fall back to a default pace without recent viewing history', async () => {
+    mockPrisma.episodeProgress.findMany.mockResolvedValueOnce([]);
+
+    await expect(service.getViewingPace(USER)).resolves.toEqual({
+      minutesPerDay: 60,
+      measured: false,
+    });
+  });
+
+  it('should not count more than a full day of viewing for a single day', async () => {
+    mockPrisma.episodeProgress.findMany.mockResolvedValueOnce(
+      Array.from({ length: 40 }, () => ({ watchedAt: new Date(), content: { runtimeMinutes: 60 } }))
+    );
+
+    const pace = await service.getViewingPace(USER);
+
+    expect(pace).toEqual({ minutesPerDay: Math.round(480 / 7), measured: true });
+  });
+
+  it('should keep a measured pace of at least a minute a day', async () => {
+    mockPrisma.episodeProgress.findMany.mockResolvedValueOnce([
+      { watchedAt: new Date(Date.now() - 20 * DAY), content: { runtimeMinutes: 5 } },
+    ]);
+
+    await expect(service.getViewingPace(USER)).resolves.toEqual({
+      minutesPerDay: 1,
+      measured: true,
+    });
+
+    mockPrisma.episodeProgress.findMany.mockResolvedValueOnce([
+      { watchedAt: new Date(Date.now() - 20 * DAY), content: { runtimeMinutes: 5 } },
+    ]);
+    const estimate = await service.getTimeEstimate(USER, 'series-1');
+    expect(estimate.projectedFinishDate).not.toBeNull();
+  });
+
+  it('should serve cached estimates and only compute the missing ones', async () => {
+    const cachedEstimate = { contentId: 'movie-1', hoursRemaining: 1.8 };
+    cache.mget.mockResolvedValueOnce([null, cachedEstimate]);
+
+    const estimates = await service.getBatchTimeEstimates(USER, ['series-1', 'movie-1']);
+
+    expect(estimates.map(estimate => estimate.contentId)).toEqual(['series-1', 'movie-1']);
+    expect(estimates[1]).toBe(cachedEstimate);
+    expect(mockPrisma.content.findMany.mock.calls[0][0].where.id.in).toEqual(['series-1']);
+    expect(cache.mset).toHaveBeenCalledWith(
+      {
+        [`time_estimate:${USER}:v1:content:series-1`]: expect.objectContaining({
+          hoursRemaining: 10,
+        }),
+      },
+      3600
+    );
+  });
+
+  it('should total the watching and want to watch lists', async () => {
+    const watchlist = await service.getWatchlistTimeEstimate(USER);
+
+    expect(watchlist.watching).toMatchObject({ count: 1, remainingMinutes: 600, unknownCount: 0 });
+    expect(watchlist.wantToWatch).toMatchObject({
+      count: 2,
+      remainingMinutes: 107,
+      hoursRemaining: 1.8,
+      unknownCount: 1,
+    });
+    expect(watchlist.total).toMatchObject({ count: 3, remainingMinutes: 707 });
+    expect(cache.set).toHaveBeenCalledWith(`time_estimate:${USER}:v1:watchlist`, watchlist, 3600);
+  });
+
+  it('should clear the user cache and recompute when progress changes', async () => {
+    await service.updateOnProgress(USER, 'series-1');
+
+    const [versionKey, version] = cache.set.mock.calls[0];
+    expect(versionKey).toBe(`time_estimate:${USER}:version`);
+    expect(version).not.toBe('v1');
+    expect(mockPrisma.content.findMany).toHaveBeenCalled();
+  });
+
+  it('should start a cache version for users without one', async () => {
+    cache.get.mockResolvedValue(null);
+
+    await service.getViewingPace(USER);
+
+    const [versionKey, version] = cache.set.mock.calls[0];
+    expect(versionKey).toBe(`time_estimate:${USER}:version`);
+    expect(cache.set).toHaveBeenLastCalledWith(
+      `time_estimate:${USER}:${version}:pace`,
+      expect.anything(),
+      3600
+    );
+  });
+
+  it('should report unknown titles as not found', async () => {
+    await expect(service.getTimeEstimate(USER, 'missing')).rejects.toThrow('Content not found');
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Trending Service Tests
+ * Tests for time-decayed trending scores, the TMDb blend and the scheduled rebuild
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+
+jest.mock('ioredis', () => {
+  return jest.fn().mockImplementation(() => ({}));
+});
+
+import { TrendingService, ViewCache } from '../../../src/services/content/trending.service';
+import {
+  TrendingEvent,
+  blendTrending,
+  scoreTrending,
+  viewWeight,
+} from '../../../src/services/content/trending-signals';
+import { TMDbApiClient } from '../../../src/services/external/tmdb-client';
+
+const NOW = new Date('2024-06-15T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const event = (
+  contentId: string,
+  signal: TrendingEvent['signal'],
+  ageMs: number,
+  weight?: number
+): TrendingEvent => ({
+  contentId,
+  signal,
+  occurredAt: new Date(NOW.getTime() - ageMs),
+  ...(weight !== undefined && { weight }),
+});
+
+describe('scoreTrending', () => {
+  it('should let a burst of recent activity outrank more activity that has gone quiet', () => {
+    const events = [
+      event('burst', 'completion', HOUR),
+      event('burst', 'completion', 2 * HOUR),
+      ...[5, 5.5, 6, 6.5].map(days => event('faded', 'completion', days * DAY)),
+    ];
+
+    const week = scoreTrending(events, 'week', NOW);
+
+    expect(week.map(entry => entry.contentId)).toEqual(['burst', 'faded']);
+    expect(week[0]!.signals).toEqual({ completion: week[0]!.score });
+  });
+
+  it('should only count events inside the timeframe window', () => {
+    const events = [event('today', 'track', 2 * HOUR), event('lastWeek', 'track', 3 * DAY)];
+
+    expect(scoreTrending(events, 'day', NOW).map(entry => entry.contentId)).toEqual(['today']);
+    expect(scoreTrending(events, 'month', NOW)).toHaveLength(2);
+  });
+
+  it('should weight signals by strength and scale ratings by stars', () => {
+    const [scored] = scoreTrending(
+      [
+        event('a', 'view', 0, 4),
+        event('a', 'rating', 0, 5 / 5),
+        event('a', 'rating', 0, 1 / 5),
+        event('a', 'listAdd', 0),
+      ],
+      'week',
+      NOW
+    );
+
+    expect(scored!.signals).toEqual({ view: 2, rating: 3.6, listAdd: 2 });
+    expect(scored!.score).toBe(7.6);
+  });
+});
+
+describe('blendTrending', () => {
+  const local = [
+    { contentId: 'hot', score: 20, signals: {} },
+    { contentId: 'quiet', score: 1, signals: {} },
+  ];
+
+  it('should top up sparse local rankings from TMDb and keep quiet titles for leftover slots', () => {
+    const blended = blendTrending(local, ['tmdb-1', 'hot', 'tmdb-2'], { limit: 4 });
+
+    expect(blended.map(entry => [entry.contentId, entry.source])).toEqual([
+      ['hot', 'tcwatch'],
+      ['tmdb-1', 'tmdb'],
+      ['tmdb-2', 'tmdb'],
+      ['quiet', 'tcwatch'],
+    ]);
+  });
+
+  it('should not use TMDb when enough local titles are trending', () => {
+    expect(blendTrending(local, ['tmdb-1'], { limit: 1 })).toEqual([
+      { contentId: 'hot', score: 20, signals: {}, source: 'tcwatch' },
+    ]);
+  });
+});
+
+describe('TrendingService', () => {
+  let mockPrisma: any;
+  let mockTmdb: any;
+  let service: TrendingService;
+  let viewCache: {
+    setIfAbsent: jest.Mock<(key: string, value: unknown, ttl: number) => Promise<boolean>>;
+  };
+  let seenViews: Set<string>;
+
+  const content = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    title: `Title ${id}`,
+    contentType: 'DOCUMENTARY',
+    tmdbId: null,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockPrisma = {
+      contentTrendingScore: {
+        findMany: jest.fn(async () => []),
+        deleteMany: jest.fn(async () => ({ count: 0 })),
+        createMany: jest.fn(async () => ({ count: 0 })),
+      },
+      contentViewCount: {
+        upsert: jest.fn(async () => ({})),
+        findMany: jest.fn(async () => []),
+        deleteMany: jest.fn(async () => ({ count: 0 })),
+      },
+      userContent: {
+        findMany: jest.fn(async () => []),
+      },
+      listItem: {
+        findMany: jest.fn(async () => []),
+      },
+      content: {
+        findMany: jest.fn(async () => []),
+      },
+      $transaction: jest.fn(async (fn: any) => fn(mockPrisma)),
+    };
+    mockTmdb = {
+      getTrendingTrueCrime: jest.fn(async () => []),
+    };
+
+    seenViews = new Set();
+    viewCache = {
+      setIfAbsent: jest.fn(async (key: string, _value: unknown, _ttl: number) => {
+        if (seenViews.has(key)) {
+          return false;
+        }
+        seenViews.add(key);
+        return true;
+      }),
+    };
+
+    service = new TrendingService(
+      mockPrisma as unknown as PrismaClient,
+      mockTmdb as unknown as TMDbApiClient,
+      viewCache as unknown as ViewCache
+    );
+  });
+
+  it('should count a detail view against the current UTC day', async () => {
+    await service.recordView('content-1', 'user-1', NOW);
+
+    expect(mockPrisma.contentViewCount.upsert).toHaveBeenCalledWith({
+      where: { contentId_day: { contentId: 'content-1', day: new Date('2024-06-15T00:00:00Z') } },
+      create: { contentId: 'content-1', day: new Date('2024-06-15T00:00:00Z'), views: 1 },
+      update: { views: { increment: 1 } },
+    });
+
+    const [key, , ttl] = viewCache.setIfAbsent.mock.calls[0]!;
+    expect(key).toMatch(/^trending_view:content-1:2024-06-15:[0-9a-f]{32}$/);
+    expect(key).not.toContain('user-1');
+    expect(ttl).toBe(12 * 60 * 60);
+  });
+
+  it('should count each viewer once per title per day', async () => {
+    await service.recordView('content-1', '203.0.113.7', NOW);
+    await service.recordView('content-1', '203.0.113.7', new Date(NOW.getTime() + HOUR));
+    await service.recordView('content-1', '198.51.100.2', NOW);
+    await service.recordView('content-1', '203.0.113.7', new Date(NOW.getTime() + DAY));
+
+    expect(mockPrisma.contentViewCount.upsert).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not fail when recording a view fails', async () => {
+    jest.spyOn(console, 'error').mockImplementationOnce(() => undefined);
+    mockPrisma.contentViewCount.upsert.mockRejectedValueOnce(new Error('connection lost'));
+
+    await expect(service.recordView('content-1', 'user-1', NOW)).resolves.toBeUndefined();
+  });
+
+  it('should weigh views on a log scale', () => {
+    expect(viewWeight(1)).toBe(1);
+    expect(viewWeight(1023)).toBe(10);
+  });
+
+  it('should rebuild every timeframe from tracking, list adds and views', async () => {
+    mockPrisma.userContent.findMany.mockResolvedValueOnce([
+      {
+        contentId: 'a',
+        dateAdded: new Date(NOW.getTime() - 2 * HOUR),
+        dateCompleted: new Date(NOW.getTime() - HOUR),
+        rating: 5,
+        updatedAt: new Date(NOW.getTime() - HOUR),
+      },
+      {
+        contentId: 'b',
+        dateAdded: new Date(NOW.getTime() - 90 * DAY),
+        dateCompleted: new Date(NOW.getTime() - 10 * DAY),
+        rating: null,
+        updatedAt: new Date(NOW.getTime() - 10 * DAY),
+      },
+    ]);
+    mockPrisma.listItem.findMany.mockResolvedValueOnce([
+      { contentId: 'c', addedAt: new Date(NOW.getTime() - 3 * DAY) },
+    ]);
+    mockPrisma.contentViewCount.findMany.mockResolvedValueOnce([
+      { contentId: 'c', day: new Date('2024-06-14T00:00:00Z'), views: 6 },
+    ]);
+
+    const result = await service.recompute(NOW);
+
+    expect(result).toEqual({ day: 2, week: 2, month: 3 });
+    expect(mockPrisma.contentTrendingScore.deleteMany).toHaveBeenCalledWith({
+      where: { timeframe: 'WEEK' },
+    });
+
+    const month = mockPrisma.contentTrendingScore.createMany.mock.calls[2][0].data;
+    expect(month.map((row: any) => [row.contentId, row.timeframe, row.rank])).toEqual([
+      ['a', 'MONTH', 1],
+      ['c', 'MONTH', 2],
+      ['b', 'MONTH', 3],
+    ]);
+    expect(Object.keys(month[0].signals).sort()).toEqual(['completion', 'rating', 'track']);
+    expect(mockPrisma.contentViewCount.deleteMany).toHaveBeenCalledWith({
+      where: { day: { lt: new Date('2024-05-16T00:00:00Z') } },
+    });
+  });
+
+  it('should serve precomputed rankings without calling TMDb when they are full', async () => {
+    mockPrisma.contentTrendingScore.findMany.mockResolvedValueOnce([
+      { contentId: 'a', score: 12, signals: { completion: 12 }, content: content('a') },
+    ]);
+
+    const trending = await service.getTrending({ timeframe: 'day', limit: 1 });
+
+    expect(trending).toEqual([
+      {
+        content: content('a'),
+        rank: 1,
+        score: 12,
+        source: 'tcwatch',
+        signals: { completion: 12 },
+      },
+    ]);
+    expect(mockPrisma.contentTrendingScore.findMany.mock.calls[0][0].where).toEqual({
+      timeframe: 'DAY',
+    });
+    expect(mockTmdb.getTrendingTrueCrime).not.toHaveBeenCalled();
+  });
+
+  it('should blend in catalog titles from TMDb trending when local data is sparse', async () => {
+    mockPrisma.contentTrendingScore.findMany.mockResolvedValueOnce([
+      { contentId: 'a', score: 2, signals: { track: 2 }, content: content('a') },
+    ]);
+    mockTmdb.getTrendingTrueCrime.mockResolvedValueOnce([
+      { id: 10, title: 'Not in our catalog' },
+      { id: 20, title: 'Same id as a movie', firstAirDate: '2024-01-01' },
+      { id: 20, title: 'Movie' },
+    ]);
+    mockPrisma.content.findMany.mockResolvedValueOnce([
+      content('movie-20', { contentType: 'MOVIE', tmdbId: 20 }),
+    ]);
+
+    const trending = await service.getTrending({ timeframe: 'month', limit: 5 });
+
+    expect(mockTmdb.getTrendingTrueCrime).toHaveBeenCalledWith('week');
+    expect(trending.map(entry => [entry.content.id, entry.source, entry.rank])).toEqual([
+      ['movie-20', 'tmdb', 1],
+      ['a', 'tcwatch', 2],
+    ]);
+  });
+
+  it('should fall back to local rankings when TMDb is unavailable', async () => {
+    jest.spyOn(console, 'error').mockImplementationOnce(() => undefined);
+    mockPrisma.contentTrendingScore.findMany.mockResolvedValueOnce([
+      { contentId: 'a', score: 2, signals: { track: 2 }, content: content('a') },
+    ]);
+    mockTmdb.getTrendingTrueCrime.mockRejectedValueOnce(new Error('rate limited'));
+
+    const trending = await service.getTrending({ limit: 5 });
+
+    expect(trending.map(entry => entry.content.id)).toEqual(['a']);
+  });
+});
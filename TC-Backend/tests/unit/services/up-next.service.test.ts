@@ -0,0 +1,210 @@
+/**
+ * Up Next Service Tests
+ * Tests for picking the next episode of each series and ordering the feed
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+
+jest.mock('ioredis', () => {
+  return jest.fn().mockImplementation(() => ({}));
+});
+
+import { UpNextService } from '../../../src/services/content/up-next.service';
+
+const USER = 'user-1';
+
+const DAY = 24 * 60 * 60 * 1000;
+const daysFromNow = (days: number) => new Date(Date.now() + days * DAY).toISOString();
+
+const series = (id: string, overrides: Record<string, unknown> = {}) => ({
+  contentId: id,
+  dateStarted: new Date('2024-01-01T00:00:00Z'),
+  content: {
+    id,
+    title: `Series ${id}`,
+    posterUrl: null,
+    contentType: 'TV_SERIES',
+    totalSeasons: 2,
+    totalEpisodes: 16,
+    tvdbId: Number(id.replace(/\D/g, '')),
+    imdbId: null,
+    platforms: [],
+    ...overrides,
+  },
+});
+
+const episode = (season: number, number: number, airTimestamp: string) => ({
+  id: season * 100 + number,
+  name: `Episode ${number}`,
+  season,
+  episode: number,
+  type: 'regular',
+  airTimestamp,
+});
+
+describe('UpNextService', () => {
+  let mockPrisma: any;
+  let schedule: any;
+  let cache: any;
+  let service: UpNextService;
+
+  beforeEach(() => {
+    mockPrisma = {
+      userContent: {
+        findMany: jest.fn(async () => []),
+      },
+      episodeProgress: {
+        findMany: jest.fn(async () => []),
+        groupBy: jest.fn(async () => []),
+      },
+    };
+    schedule = {
+      getShowByExternalId: jest.fn(async (id: string) => ({ id: Number(id) })),
+      getShowAirDates: jest.fn(async () => ({ recent: [], upcoming: [] })),
+    };
+
+    cache = {
+      get: jest.fn(async () => null),
+      set: jest.fn(async () => undefined),
+    };
+
+    service = new UpNextService(mockPrisma as unknown as PrismaClient, schedule, cache);
+  });
+
+  it('should return the next episode in the season with its air date and platforms', async () => {
+    mockPrisma.userContent.findMany.mockResolvedValueOnce([
+      series('series-1', {
+        platforms: [
+          { name: 'Netflix', type: 'streaming', url: 'https://netflix.com/title/1' },
+          { name: 'Hulu', type: 'streaming', availableTo: '2020-01-01T00:00:00Z' },
+        ],
+      }),
+    ]);
+    mockPrisma.episodeProgress.findMany.mockResolvedValueOnce([
+      { contentId: 'series-1', seasonNumber: 1, episodeNumber: 4 },
+    ]);
+    schedule.getShowAirDates.mockResolvedValueOnce({
+      recent: [episode(1, 5, daysFromNow(-7)), episode(1, 4, daysFromNow(-14))],
+      upcoming: [],
+    });
+
+    const [entry] = await service.getUpNext(USER);
+
+    expect(schedule.getShowByExternalId).toHaveBeenCalledWith('1', 'thetvdb');
+    expect(entry).toMatchObject({
+      content: { id: 'series-1' },
+      nextEpisode: { seasonNumber: 1, episodeNumber: 5, title: 'Episode 5', aired: true },
+      watchOn: [{ name: 'Netflix', type: 'streaming', url: 'https://netflix.com/title/1' }],
+    });
+  });
+
+  it('should move on to the next season once a season is finished', async () => {
+    mockPrisma.userContent.findMany.mockResolvedValueOnce([series('series-1')]);
+    mockPrisma.episodeProgress.findMany.mockResolvedValueOnce([
+      { contentId: 'series-1', seasonNumber: 1, episodeNumber: 8 },
+    ]);
+    schedule.getShowAirDates.mockResolvedValueOnce({
+      recent: [episode(1, 8, daysFromNow(-30))],
+      upcoming: [episode(2, 1, daysFromNow(3))],
+    });
+
+    const [entry] = await service.getUpNext(USER);
+
+    expect(entry!.nextEpisode).toMatchObject({ seasonNumber: 2, episodeNumber: 1, aired: false });
+  });
+
+  it('should leave out series the user has caught up on with nothing scheduled', async () => {
+    mockPrisma.userContent.findMany.mockResolvedValueOnce([series('series-1')]);
+    mockPrisma.episodeProgress.findMany.mockResolvedValueOnce([
+      { contentId: 'series-1', seasonNumber: 2, episodeNumber: 8 },
+    ]);
+    schedule.getShowAirDates.mockResolvedValueOnce({
+      recent: [episode(2, 8, daysFromNow(-30))],
+      upcoming: [],
+    });
+
+    await expect(service.getUpNext(USER)).resolves.toEqual([]);
+  });
+
+  it('should list episodes available now by last watch, then upcoming ones by air date', async () => {
+    mockPrisma.userContent.findMany.mockResolvedValueOnce([
+      series('series-1'),
+      series('series-2'),
+      series('series-3'),
+      series('series-4'),
+    ]);
+    mockPrisma.episodeProgress.findMany.mockResolvedValueOnce(
+      ['series-1', 'series-2', 'series-3', 'series-4'].map(contentId => ({
+        contentId,
+        seasonNumber: 1,
+        episodeNumber: 1,
+      }))
+    );
+    mockPrisma.episodeProgress.groupBy.mockResolvedValueOnce([
+      { contentId: 'series-1', _max: { watchedAt: new Date('2024-03-01T00:00:00Z') } },
+      { contentId: 'series-2', _max: { watchedAt: new Date('2024-04-01T00:00:00Z') } },
+    ]);
+    schedule.getShowAirDates.mockImplementation(async (showId: number) => ({
+      recent: [],
+      upcoming: [episode(1, 2, daysFromNow(showId === 3 ? 10 : showId === 4 ? 2 : -1))],
+    }));
+
+    const feed = await service.getUpNext(USER);
+
+    expect(feed.map(entry => entry.content.id)).toEqual([
+      'series-2',
+      'series-1',
+      'series-4',
+      'series-3',
+    ]);
+  });
+
+  it('should still suggest the next episode when the air schedule is unavailable', async () => {
+    mockPrisma.userContent.findMany.mockResolvedValueOnce([series('series-1')]);
+    schedule.getShowByExternalId.mockRejectedValueOnce(new Error('TVMaze is down'));
+
+    const [entry] = await service.getUpNext(USER);
+
+    expect(entry!.nextEpisode).toEqual({
+      seasonNumber: 1,
+      episodeNumber: 1,
+      title: null,
+      airsAt: null,
+      aired: null,
+    });
+  });
+
+  it('should serve air schedules from the cache, including series not on TVMaze', async () => {
+    mockPrisma.userContent.findMany.mockResolvedValueOnce([series('series-1'), series('series-2')]);
+    cache.get.mockImplementation(async (key: string) =>
+      key === 'air_schedule:tvdb:1' ? { schedule: null } : null
+    );
+    schedule.getShowByExternalId.mockResolvedValueOnce(null);
+
+    await service.getUpNext(USER);
+
+    expect(schedule.getShowByExternalId).toHaveBeenCalledTimes(1);
+    expect(schedule.getShowByExternalId).toHaveBeenCalledWith('2', 'thetvdb');
+    expect(cache.set).toHaveBeenCalledWith('air_schedule:tvdb:2', { schedule: null }, 3600);
+  });
+
+  it('should look up a few series at a time', async () => {
+    mockPrisma.userContent.findMany.mockResolvedValueOnce(
+      Array.from({ length: 12 }, (_, index) => series(`series-${index + 1}`))
+    );
+    let inFlight = 0;
+    let maxInFlight = 0;
+    schedule.getShowAirDates.mockImplementation(async () => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise(resolve => setImmediate(resolve));
+      inFlight--;
+      return { recent: [], upcoming: [] };
+    });
+
+    await service.getUpNext(USER);
+
+    expect(schedule.getShowAirDates).toHaveBeenCalledTimes(12);
+    expect(maxInFlight).toBe(5);
+  });
+});
@@ -5,10 +5,12 @@ import { Ionicons } from '@expo/vector-icons';
 import { HapticTab } from '@/components/haptic-tab';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { usePushNotifications } from '@/hooks/use-push-notifications';
 import { AuthGuard } from '../../components/auth/AuthGuard';
 
 export default function TabLayout() {
   const colorScheme = useColorScheme();
+  usePushNotifications();
 
   return (
     <AuthGuard requireAuth={true}>
@@ -1,98 +1,169 @@
-import { Image } from 'expo-image';
-import { Platform, StyleSheet } from 'react-native';
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { router } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { Ionicons } from '@expo/vector-icons';
+import { trpc } from '@/lib/trpc';
 
-import { HelloWave } from '@/components/hello-wave';
-import ParallaxScrollView from '@/components/parallax-scroll-view';
-import { ThemedText } from '@/components/themed-text';
-import { ThemedView } from '@/components/themed-view';
-import { Link } from 'expo-router';
+interface UpNextEpisode {
+  seasonNumber: number;
+  episodeNumber: number;
+  title: string | null;
+  airsAt: string | null;
+  aired: boolean | null;
+}
+
+interface UpNextEntry {
+  content: {
+    id: string;
+    title: string;
+    posterUrl: string | null;
+  };
+  nextEpisode: UpNextEpisode;
+  watchOn: Array<{ name: string; type: string | null; url: string | null }>;
+}
+
+const formatAirDate = (airsAt: string) =>
+  new Date(airsAt).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+
+function UpNextCard({ entry }: { entry: UpNextEntry }) {
+  const { content, nextEpisode, watchOn } = entry;
+  const upcoming = nextEpisode.aired === false;
 
-export default function HomeScreen() {
   return (
-    <ParallaxScrollView
-      headerBackgroundColor={{ light: '#A1CEDC', dark: '#1D3D47' }}
-      headerImage={
-        <Image
-          source={require('@/assets/images/partial-react-logo.png')}
-          style={styles.reactLogo}
-        />
-      }>
-      <ThemedView style={styles.titleContainer}>
-        <ThemedText type="title">Welcome!</ThemedText>
-        <HelloWave />
-      </ThemedView>
-      <ThemedView style={styles.stepContainer}>
-        <ThemedText type="subtitle">Step 1: Try it</ThemedText>
-        <ThemedText>
-          Edit <ThemedText type="defaultSemiBold">app/(tabs)/index.tsx</ThemedText> to see changes.
-          Press{' '}
-          <ThemedText type="defaultSemiBold">
-            {Platform.select({
-              ios: 'cmd + d',
-              android: 'cmd + m',
-              web: 'F12',
-            })}
-          </ThemedText>{' '}
-          to open developer tools.
-        </ThemedText>
-      </ThemedView>
-      <ThemedView style={styles.stepContainer}>
-        <Link href="/modal">
-          <Link.Trigger>
-            <ThemedText type="subtitle">Step 2: Explore</ThemedText>
-          </Link.Trigger>
-          <Link.Preview />
-          <Link.Menu>
-            <Link.MenuAction title="Action" icon="cube" onPress={() => alert('Action pressed')} />
-            <Link.MenuAction
-              title="Share"
-              icon="square.and.arrow.up"
-              onPress={() => alert('Share pressed')}
-            />
-            <Link.Menu title="More" icon="ellipsis">
-              <Link.MenuAction
-                title="Delete"
-                icon="trash"
-                destructive
-                onPress={() => alert('Delete pressed')}
-              />
-            </Link.Menu>
-          </Link.Menu>
-        </Link>
+    <TouchableOpacity
+      onPress={() => router.push({ pathname: '/content/[id]', params: { id: content.id } })}
+      className="flex-row bg-gray-800 rounded-xl p-3 mb-3"
+      accessibilityLabel={`${content.title}, season ${nextEpisode.seasonNumber} episode ${nextEpisode.episodeNumber}`}
+    >
+      {content.posterUrl ? (
+        <Image source={{ uri: content.posterUrl }} className="w-16 h-24 rounded-lg" />
+      ) : (
+        <View className="w-16 h-24 rounded-lg bg-gray-700 items-center justify-center">
+          <Ionicons name="tv-outline" size={24} color="#9CA3AF" />
+        </View>
+      )}
+
+      <View className="flex-1 ml-3 justify-center">
+        <Text className="text-white text-base font-semibold" numberOfLines={1}>
+          {content.title}
+        </Text>
+        <Text className="text-gray-300 text-sm mt-1" numberOfLines={1}>
+          S{nextEpisode.seasonNumber} · E{nextEpisode.episodeNumber}
+          {nextEpisode.title ? ` — ${nextEpisode.title}` : ''}
+        </Text>
 
-        <ThemedText>
-          {`Tap the Explore tab to learn more about what's included in this starter app.`}
-        </ThemedText>
-      </ThemedView>
-      <ThemedView style={styles.stepContainer}>
-        <ThemedText type="subtitle">Step 3: Get a fresh start</ThemedText>
-        <ThemedText>
-          {`When you're ready, run `}
-          <ThemedText type="defaultSemiBold">npm run reset-project</ThemedText> to get a fresh{' '}
-          <ThemedText type="defaultSemiBold">app</ThemedText> directory. This will move the current{' '}
-          <ThemedText type="defaultSemiBold">app</ThemedText> to{' '}
-          <ThemedText type="defaultSemiBold">app-example</ThemedText>.
-        </ThemedText>
-      </ThemedView>
-    </ParallaxScrollView>
+        {upcoming ? (
+          <View className="flex-row items-center mt-2">
+            <Ionicons name="calendar-outline" size={14} color="#F59E0B" />
+            <Text className="text-amber-500 text-xs ml-1">
+              {nextEpisode.airsAt ? `Airs ${formatAirDate(nextEpisode.airsAt)}` : 'Not aired yet'}
+            </Text>
+          </View>
+        ) : (
+          <View className="flex-row items-center mt-2">
+            <Ionicons name="play-circle-outline" size={14} color="#DC2626" />
+            <Text className="text-gray-400 text-xs ml-1" numberOfLines={1}>
+              {watchOn.length > 0
+                ? `Watch on ${watchOn.map(platform => platform.name).join(', ')}`
+                : 'Ready to watch'}
+            </Text>
+          </View>
+        )}
+      </View>
+
+      <View className="justify-center">
+        <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+      </View>
+    </TouchableOpacity>
   );
 }
 
-const styles = StyleSheet.create({
-  titleContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 8,
-  },
-  stepContainer: {
-    gap: 8,
-    marginBottom: 8,
-  },
-  reactLogo: {
-    height: 178,
-    width: 290,
-    bottom: 0,
-    left: 0,
-    position: 'absolute',
-  },
-});
+export default function HomeScreen() {
+  const [refreshing, setRefreshing] = useState(false);
+  const upNextQuery = trpc.content.upNext.useQuery({ limit: 20 });
+
+  const entries: UpNextEntry[] = upNextQuery.data?.data ?? [];
+  const continueWatching = entries.filter(entry => entry.nextEpisode.aired !== false);
+  const comingUp = entries.filter(entry => entry.nextEpisode.aired === false);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await upNextQuery.refetch();
+    } finally {
+      setRefreshing(false);
+    }
+  }, [upNextQuery]);
+
+  return (
+    <View className="flex-1 bg-gray-900">
+      <StatusBar style="light" />
+
+      <ScrollView
+        className="flex-1"
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#DC2626" />
+        }
+      >
+        {/* Header */}
+        <View className="px-6 pt-12 pb-6">
+          <Text className="text-white text-2xl font-bold">Home</Text>
+        </View>
+
+        {upNextQuery.isLoading ? (
+          <View className="py-12 items-center">
+            <ActivityIndicator color="#DC2626" />
+          </View>
+        ) : upNextQuery.error ? (
+          <View className="px-6 py-12 items-center">
+            <Text className="text-gray-400 text-sm text-center">
+              Couldn't load your shows. Pull down to try again.
+            </Text>
+          </View>
+        ) : entries.length === 0 ? (
+          <View className="px-6 py-12 items-center">
+            <Ionicons name="tv-outline" size={48} color="#9CA3AF" />
+            <Text className="text-white text-lg font-semibold mt-4">Nothing in progress</Text>
+            <Text className="text-gray-400 text-sm mt-2 text-center">
+              Start a series from Discover and your next episodes will show up here.
+            </Text>
+          </View>
+        ) : (
+          <>
+            {continueWatching.length > 0 && (
+              <View className="px-6 mb-6">
+                <Text className="text-white text-lg font-semibold mb-3">Continue Watching</Text>
+                {continueWatching.map(entry => (
+                  <UpNextCard key={entry.content.id} entry={entry} />
+                ))}
+              </View>
+            )}
+
+            {comingUp.length > 0 && (
+              <View className="px-6 mb-6">
+                <Text className="text-white text-lg font-semibold mb-3">Up Next</Text>
+                {comingUp.map(entry => (
+                  <UpNextCard key={entry.content.id} entry={entry} />
+                ))}
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
@@ -56,6 +56,10 @@ export default function ProfileScreen() {
     router.push('/(auth)/notification-settings');
   };
 
+  const handleFollowing = () => {
+    router.push('/following');
+  };
+
   const toggleBiometric = async () => {
     setIsUpdating(true);
     try {
@@ -89,6 +93,12 @@ export default function ProfileScreen() {
       icon: 'person-outline',
       onPress: handleEditProfile,
     },
+    {
+      id: 'following',
+      title: 'Following',
+      icon: 'notifications-circle-outline',
+      onPress: handleFollowing,
+    },
     {
       id: 'privacy',
       title: 'Privacy Settings',
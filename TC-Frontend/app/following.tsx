@@ -0,0 +1,155 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { router } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { Ionicons } from '@expo/vector-icons';
+import { trpc } from '@/lib/trpc';
+import { AuthGuard } from '../components/auth/AuthGuard';
+
+interface FollowEntry {
+  id: string;
+  targetType: 'CASE' | 'PERSON' | 'SERIES';
+  personName: string | null;
+  contentCase: { id: string; caseName: string } | null;
+  content: { id: string; title: string } | null;
+}
+
+const TARGET_LABELS: Record<
+  FollowEntry['targetType'],
+  { label: string; icon: React.ComponentProps<typeof Ionicons>['name'] }
+> = {
+  CASE: { label: 'Case', icon: 'folder-open-outline' },
+  PERSON: { label: 'Person', icon: 'person-outline' },
+  SERIES: { label: 'Series', icon: 'tv-outline' },
+};
+
+const followName = (follow: FollowEntry) =>
+  follow.contentCase?.caseName ?? follow.content?.title ?? follow.personName ?? 'Unknown';
+
+function FollowRow({
+  follow,
+  onUnfollow,
+  unfollowing,
+}: {
+  follow: FollowEntry;
+  onUnfollow: () => void;
+  unfollowing: boolean;
+}) {
+  const { label, icon } = TARGET_LABELS[follow.targetType];
+  const series = follow.content;
+
+  return (
+    <View className="flex-row items-center bg-gray-800 rounded-xl p-4 mb-3">
+      <TouchableOpacity
+        className="flex-1 flex-row items-center"
+        disabled={!series}
+        onPress={() =>
+          series && router.push({ pathname: '/content/[id]', params: { id: series.id } })
+        }
+        accessibilityLabel={`${followName(follow)}, ${label.toLowerCase()}`}
+      >
+        <Ionicons name={icon} size={20} color="#9CA3AF" />
+        <View className="flex-1 ml-3">
+          <Text className="text-white text-base font-semibold" numberOfLines={1}>
+            {followName(follow)}
+          </Text>
+          <Text className="text-gray-400 text-xs mt-1">{label}</Text>
+        </View>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        onPress={onUnfollow}
+        disabled={unfollowing}
+        className="ml-3 px-3 py-1.5 rounded-lg border border-gray-600"
+        accessibilityLabel={`Unfollow ${followName(follow)}`}
+      >
+        <Text className="text-gray-300 text-sm">Unfollow</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+export default function FollowingScreen() {
+  const [refreshing, setRefreshing] = useState(false);
+  const followsQuery = trpc.follows.list.useQuery();
+  const unfollow = trpc.follows.unfollow.useMutation({
+    onSuccess: () => followsQuery.refetch(),
+  });
+
+  const follows: FollowEntry[] = followsQuery.data?.data ?? [];
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await followsQuery.refetch();
+    } finally {
+      setRefreshing(false);
+    }
+  }, [followsQuery]);
+
+  return (
+    <AuthGuard requireAuth={true}>
+      <View className="flex-1 bg-gray-900">
+        <StatusBar style="light" />
+
+        <ScrollView
+          className="flex-1"
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#DC2626" />
+          }
+        >
+          {/* Header */}
+          <View className="flex-row items-center px-6 pt-12 pb-6">
+            <TouchableOpacity
+              onPress={() => (router.canGoBack() ? router.back() : router.replace('/profile'))}
+              className="mr-4 p-2 -ml-2"
+              accessibilityLabel="Go back"
+            >
+              <Ionicons name="arrow-back" size={24} color="#DC2626" />
+            </TouchableOpacity>
+            <Text className="text-white text-2xl font-bold">Following</Text>
+          </View>
+
+          {followsQuery.isLoading ? (
+            <View className="py-12 items-center">
+              <ActivityIndicator color="#DC2626" />
+            </View>
+          ) : followsQuery.error ? (
+            <View className="px-6 py-12 items-center">
+              <Text className="text-gray-400 text-sm text-center">
+                Couldn't load what you follow. Pull down to try again.
+              </Text>
+            </View>
+          ) : follows.length === 0 ? (
+            <View className="px-6 py-12 items-center">
+              <Ionicons name="notifications-outline" size={48} color="#9CA3AF" />
+              <Text className="text-white text-lg font-semibold mt-4">Not following anything</Text>
+              <Text className="text-gray-400 text-sm mt-2 text-center">
+                Follow a case, person or series to hear when new titles about them arrive.
+              </Text>
+            </View>
+          ) : (
+            <View className="px-6 mb-6">
+              {follows.map(follow => (
+                <FollowRow
+                  key={follow.id}
+                  follow={follow}
+                  onUnfollow={() => unfollow.mutate({ followId: follow.id })}
+                  unfollowing={unfollow.isPending && unfollow.variables?.followId === follow.id}
+                />
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      </View>
+    </AuthGuard>
+  );
+}
@@ -0,0 +1,95 @@
+import { useEffect } from 'react';
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import * as Device from 'expo-device';
+import * as Linking from 'expo-linking';
+import * as Notifications from 'expo-notifications';
+import { trpc } from '@/lib/trpc';
+import { useAuthStore } from '../stores/auth-store';
+
+// The last tap that was handled, so remounting the tabs doesn't open it again
+let openedNotificationId: string | null = null;
+
+/**
+ * Hook that registers this device for push notifications once the user is signed in.
+ * Asks for permission, then sends the Expo push token to the backend. Simulators
+ * can't receive push notifications, so they are skipped. Tapping a notification
+ * opens the screen in its deepLink, including a tap that launched the app.
+ */
+export const usePushNotifications = () => {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const { mutate: registerPushToken } = trpc.notification.registerPushToken.useMutation();
+  const lastResponse = Notifications.useLastNotificationResponse();
+
+  useEffect(() => {
+    if (!isAuthenticated || !Device.isDevice || Platform.OS === 'web') {
+      return;
+    }
+
+    let cancelled = false;
+
+    const register = async () => {
+      try {
+        if (Platform.OS === 'android') {
+          await Notifications.setNotificationChannelAsync('default', {
+            name: 'default',
+            importance: Notifications.AndroidImportance.DEFAULT,
+          });
+        }
+
+        const { status: existingStatus } = await Notifications.getPermissionsAsync();
+        const status =
+          existingStatus === 'granted'
+            ? existingStatus
+            : (await Notifications.requestPermissionsAsync()).status;
+
+        if (status !== 'granted' || cancelled) {
+          return;
+        }
+
+        const projectId =
+          Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+        const { data: token } = await Notifications.getExpoPushTokenAsync(
+          projectId ? { projectId } : undefined
+        );
+
+        if (!cancelled) {
+          registerPushToken({ token, platform: Platform.OS });
+        }
+      } catch (error) {
+        console.warn('[PushNotifications] Could not register for push notifications:', error);
+      }
+    };
+
+    register();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, registerPushToken]);
+
+  useEffect(() => {
+    if (
+      Platform.OS === 'web' ||
+      !lastResponse ||
+      lastResponse.actionIdentifier !== Notifications.DEFAULT_ACTION_IDENTIFIER
+    ) {
+      return;
+    }
+
+    const { identifier, content } = lastResponse.notification.request;
+
+    if (identifier === openedNotificationId) {
+      return;
+    }
+
+    openedNotificationId = identifier;
+    const deepLink = content.data?.deepLink;
+
+    if (typeof deepLink === 'string') {
+      Linking.openURL(deepLink).catch((error) =>
+        console.warn('[PushNotifications] Could not open notification link:', error)
+      );
+    }
+  }, [lastResponse]);
+};
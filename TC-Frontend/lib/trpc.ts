@@ -35,6 +35,7 @@ export type AppRouter = {
     updatePrivacySettings: any;
     updateNotificationSettings: any;
   };
+  account: any;
   content: {
     trending: any;
     cases: any;
@@ -46,9 +47,12 @@ export type AppRouter = {
     getRecommendations: any;
     track: any;
     untrack: any;
+    bulkTrack: any;
+    undoBulkTrack: any;
     getTracked: any;
     trackEpisodeProgress: any;
     getEpisodeProgress: any;
+    upNext: any;
     getSearchSuggestions: any;
     getDiscoveryFacets: any;
     getDetailedContent: any;
@@ -65,7 +69,15 @@ export type AppRouter = {
     getBatchTimeEstimates: any;
     clearTimeEstimateCache: any;
   };
+  cases: any;
+  follows: any;
   social: any;
+  lists: any;
+  reviews: any;
+  imports: any;
+  stats: any;
+  friends: any;
+  challenges: any;
   notification: any;
 };
 